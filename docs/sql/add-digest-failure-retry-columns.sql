@@ -0,0 +1,19 @@
+-- Add retry scheduling columns to digest_failures
+-- Used by the retry-failures cron to re-send failed digests with exponential backoff
+ALTER TABLE digest_failures
+ADD COLUMN IF NOT EXISTS local_date DATE, -- Delivery day (user's timezone) the failed digest was for
+ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ, -- When the next retry is due; NULL means no more retries
+ADD COLUMN IF NOT EXISTS last_error TEXT; -- Most recent error from the original send or a retry
+
+-- Create index for the retry worker's due-failure lookup
+CREATE INDEX IF NOT EXISTS idx_digest_failures_next_retry
+ON digest_failures(next_retry_at)
+WHERE resolved = FALSE AND next_retry_at IS NOT NULL;
+
+-- Create index for resolving a user's failures once their digest goes out
+CREATE INDEX IF NOT EXISTS idx_digest_failures_user_local_date
+ON digest_failures(user_id, local_date)
+WHERE resolved = FALSE;
+
+COMMENT ON COLUMN digest_failures.local_date IS 'Local delivery date the failed digest was for; retries stop once the day has passed';
+COMMENT ON COLUMN digest_failures.next_retry_at IS 'Next retry time (exponential backoff); NULL when retries are exhausted or abandoned';
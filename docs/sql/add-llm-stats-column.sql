@@ -0,0 +1,14 @@
+-- Add per-stage LLM usage to cron_job_logs
+-- Summarization and editorial ranking each record their backend, model, calls,
+-- errors, token counts and latency, so token spend per run is visible without
+-- digging through function logs. Responses that fail their output schema are
+-- counted too, with how many a repair prompt fixed and the latest failures.
+
+-- Per-stage totals for the whole cron run:
+-- { "summarization": { "backend": "openai", "model": "gpt-4o-mini", "calls": 12, "errors": 0,
+--   "promptTokens": 41200, "completionTokens": 9800, "totalLatencyMs": 52310,
+--   "validationFailures": 1, "repairs": 1, "validationErrors": ["bullet summaries: ..."] }, ... }
+ALTER TABLE cron_job_logs
+ADD COLUMN IF NOT EXISTS llm_stats JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN cron_job_logs.llm_stats IS 'LLM backend, model, calls, errors, tokens and total latency for the run, keyed by pipeline stage';
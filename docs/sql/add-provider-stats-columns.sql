@@ -0,0 +1,17 @@
+-- Add per-provider fetch metrics to article_cache and cron_job_logs
+-- Each news provider call (NewsAPI, Currents, ...) records its latency, article count
+-- and error, so a slow or failing source shows up without digging through function logs.
+
+-- One entry per provider call that contributed to the cached article set:
+-- [{ "provider": "newsapi", "latencyMs": 412, "articleCount": 28, "error": null }, ...]
+ALTER TABLE article_cache
+ADD COLUMN IF NOT EXISTS provider_stats JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN article_cache.provider_stats IS 'Provider calls that produced this article set (provider, latencyMs, articleCount, error)';
+
+-- Per-provider totals for the whole cron run:
+-- { "newsapi": { "calls": 40, "articles": 1020, "errors": 1, "totalLatencyMs": 18230 }, ... }
+ALTER TABLE cron_job_logs
+ADD COLUMN IF NOT EXISTS provider_stats JSONB DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN cron_job_logs.provider_stats IS 'News provider calls, articles, errors and total latency for the run, keyed by provider id';
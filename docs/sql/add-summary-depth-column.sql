@@ -0,0 +1,9 @@
+-- Per-user summary depth
+-- Within the tier's story limits, "headline" sends every story as one line, "brief"
+-- is the tier's default and "deep" sends fewer stories in more depth (see
+-- src/lib/summaryDepth.ts). Summaries for each depth are stored separately in
+-- summary_cache: non-default depths add "@<depth>" to prompt_version.
+ALTER TABLE user_email_settings
+ADD COLUMN IF NOT EXISTS summary_depth TEXT NOT NULL DEFAULT 'brief' CHECK (summary_depth IN ('headline', 'brief', 'deep'));
+
+COMMENT ON COLUMN user_email_settings.summary_depth IS 'Summary depth for daily digests: headline, brief or deep';
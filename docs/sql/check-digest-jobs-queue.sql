@@ -0,0 +1,145 @@
+-- Self-check for the digest job queue against a plain Postgres stand-in
+-- Exercises enqueue idempotency, leasing with SKIP LOCKED, visibility timeouts,
+-- completion, release, retry backoff and attempt exhaustion. Everything runs in a
+-- transaction that is rolled back, so it leaves no trace.
+--
+-- Usage (any Postgres 13+, e.g. `docker run -e POSTGRES_PASSWORD=postgres -p 5432:5432 postgres:16`):
+--   createdb snipit_queue_check
+--   psql -v ON_ERROR_STOP=1 -d snipit_queue_check -f docs/sql/check-digest-jobs-queue.sql
+-- The script prints "digest_jobs queue checks passed" on success and aborts with the
+-- failing check's message otherwise.
+
+\set ON_ERROR_STOP on
+
+BEGIN;
+
+-- Minimal stand-in for the Supabase users table the queue references
+CREATE TABLE IF NOT EXISTS users (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT
+);
+
+\ir create-digest-jobs-table.sql
+
+DO $$
+DECLARE
+  user_a UUID := gen_random_uuid();
+  user_b UUID := gen_random_uuid();
+  user_c UUID := gen_random_uuid();
+  job_count INTEGER;
+  leased_ids UUID[];
+  job digest_jobs%ROWTYPE;
+  ok BOOLEAN;
+  new_status TEXT;
+BEGIN
+  INSERT INTO users (id, email) VALUES
+    (user_a, 'a@example.com'),
+    (user_b, 'b@example.com'),
+    (user_c, 'c@example.com');
+
+  -- Enqueue is idempotent per (user, local date, kind)
+  INSERT INTO digest_jobs (user_id, local_date) VALUES
+    (user_a, CURRENT_DATE), (user_b, CURRENT_DATE), (user_c, CURRENT_DATE)
+  ON CONFLICT (user_id, local_date, digest_kind) DO NOTHING;
+  INSERT INTO digest_jobs (user_id, local_date) VALUES (user_a, CURRENT_DATE)
+  ON CONFLICT (user_id, local_date, digest_kind) DO NOTHING;
+
+  SELECT COUNT(*) INTO job_count FROM digest_jobs;
+  IF job_count <> 3 THEN
+    RAISE EXCEPTION 'enqueue: expected 3 jobs, got %', job_count;
+  END IF;
+
+  -- Leases are bounded by the limit and disjoint between workers
+  SELECT array_agg(id) INTO leased_ids FROM lease_digest_jobs('worker-1', 2, 120);
+  IF array_length(leased_ids, 1) <> 2 THEN
+    RAISE EXCEPTION 'lease: expected 2 jobs for worker-1, got %', array_length(leased_ids, 1);
+  END IF;
+
+  SELECT COUNT(*) INTO job_count FROM lease_digest_jobs('worker-2', 10, 120) l WHERE l.id = ANY(leased_ids);
+  IF job_count <> 0 THEN
+    RAISE EXCEPTION 'lease: worker-2 was handed jobs still leased by worker-1';
+  END IF;
+
+  SELECT COUNT(*) INTO job_count FROM digest_jobs WHERE status = 'leased' AND lease_owner = 'worker-2';
+  IF job_count <> 1 THEN
+    RAISE EXCEPTION 'lease: expected worker-2 to lease the remaining job, got %', job_count;
+  END IF;
+
+  -- Only the lease owner can complete a job
+  ok := complete_digest_job(leased_ids[1], 'worker-2', 'sent');
+  IF ok THEN
+    RAISE EXCEPTION 'complete: non-owner completed a job';
+  END IF;
+
+  ok := complete_digest_job(leased_ids[1], 'worker-1', 'sent');
+  SELECT * INTO job FROM digest_jobs WHERE id = leased_ids[1];
+  IF NOT ok OR job.status <> 'done' OR job.outcome <> 'sent' THEN
+    RAISE EXCEPTION 'complete: expected done/sent, got %/%', job.status, job.outcome;
+  END IF;
+
+  -- A failed job goes back to pending with a backoff, invisible until it elapses
+  new_status := fail_digest_job(leased_ids[2], 'worker-1', 'Resend timeout', 60);
+  SELECT * INTO job FROM digest_jobs WHERE id = leased_ids[2];
+  IF new_status <> 'pending' OR job.available_at <= NOW() OR job.last_error <> 'Resend timeout' THEN
+    RAISE EXCEPTION 'fail: expected pending with future available_at, got % at %', new_status, job.available_at;
+  END IF;
+
+  SELECT COUNT(*) INTO job_count FROM lease_digest_jobs('worker-3', 10, 120) l WHERE l.id = leased_ids[2];
+  IF job_count <> 0 THEN
+    RAISE EXCEPTION 'fail: job was leased again before its backoff elapsed';
+  END IF;
+
+  -- An expired lease (crashed worker) makes the job leasable again
+  UPDATE digest_jobs SET leased_until = NOW() - INTERVAL '1 second'
+  WHERE status = 'leased' AND lease_owner = 'worker-2';
+
+  SELECT * INTO job FROM lease_digest_jobs('worker-3', 10, 120);
+  IF job.id IS NULL OR job.user_id <> user_c OR job.attempts <> 2 THEN
+    RAISE EXCEPTION 'visibility: expected user_c job re-leased on attempt 2, got % (attempt %)', job.user_id, job.attempts;
+  END IF;
+
+  -- The old owner lost the lease and can no longer complete or fail it
+  ok := complete_digest_job(job.id, 'worker-2', 'sent');
+  IF ok THEN
+    RAISE EXCEPTION 'visibility: stale owner completed a re-leased job';
+  END IF;
+
+  -- A released job is leasable again at once, without using up an attempt
+  ok := release_digest_job(job.id, 'worker-2');
+  IF ok THEN
+    RAISE EXCEPTION 'release: stale owner released a re-leased job';
+  END IF;
+
+  ok := release_digest_job(job.id, 'worker-3');
+  SELECT * INTO job FROM digest_jobs WHERE id = job.id;
+  IF NOT ok OR job.status <> 'pending' OR job.attempts <> 1 OR job.lease_owner IS NOT NULL THEN
+    RAISE EXCEPTION 'release: expected pending on attempt 1, got % (attempt %)', job.status, job.attempts;
+  END IF;
+
+  SELECT * INTO job FROM lease_digest_jobs('worker-3', 10, 120);
+  IF job.id IS NULL OR job.user_id <> user_c OR job.attempts <> 2 THEN
+    RAISE EXCEPTION 'release: expected user_c job re-leased on attempt 2, got % (attempt %)', job.user_id, job.attempts;
+  END IF;
+
+  -- Attempts run out: the last expired lease marks the job failed
+  UPDATE digest_jobs SET attempts = max_attempts, leased_until = NOW() - INTERVAL '1 second'
+  WHERE id = job.id;
+  PERFORM lease_digest_jobs('worker-4', 10, 120);
+  SELECT * INTO job FROM digest_jobs WHERE id = job.id;
+  IF job.status <> 'failed' THEN
+    RAISE EXCEPTION 'exhaustion: expected failed after final expired lease, got %', job.status;
+  END IF;
+
+  -- A failure on the final attempt is terminal
+  UPDATE digest_jobs SET available_at = NOW(), attempts = max_attempts - 1 WHERE id = leased_ids[2];
+  PERFORM lease_digest_jobs('worker-5', 10, 120);
+  new_status := fail_digest_job(leased_ids[2], 'worker-5', 'Resend timeout again', 60);
+  IF new_status <> 'failed' THEN
+    RAISE EXCEPTION 'exhaustion: expected failed after final attempt, got %', new_status;
+  END IF;
+
+  RAISE NOTICE 'digest_jobs queue checks passed';
+END;
+$$;
+
+ROLLBACK;
@@ -0,0 +1,78 @@
+-- Create api_quota_usage table: daily request counts per news provider, shared by
+-- every serverless invocation. Replaces per-instance in-memory counters, which reset
+-- on every cold start and so over-reported the remaining quota.
+CREATE TABLE IF NOT EXISTS api_quota_usage (
+  provider TEXT NOT NULL, -- Provider id ('newsapi', 'currents', ...)
+  usage_date DATE NOT NULL, -- UTC day the requests count against
+  request_count INTEGER NOT NULL DEFAULT 0,
+  daily_limit INTEGER, -- Limit in effect at the last increment (NULL = not enforced)
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (provider, usage_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_quota_usage_date ON api_quota_usage(usage_date DESC);
+
+-- Enable Row Level Security (service role bypasses it)
+ALTER TABLE api_quota_usage ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Only admins can read quota usage
+CREATE POLICY "Admins can read api quota usage"
+  ON api_quota_usage
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+-- Atomically reserve one request against today's quota. Returns the new count, or
+-- NULL if the limit is already used up (nothing is incremented in that case).
+-- p_limit NULL counts the request without enforcing a limit.
+CREATE OR REPLACE FUNCTION increment_api_quota(
+  p_provider TEXT,
+  p_limit INTEGER DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  new_count INTEGER;
+BEGIN
+  INSERT INTO api_quota_usage AS q (provider, usage_date, request_count, daily_limit)
+  VALUES (p_provider, (NOW() AT TIME ZONE 'UTC')::DATE, 1, p_limit)
+  ON CONFLICT (provider, usage_date) DO UPDATE
+  SET request_count = q.request_count + 1,
+      daily_limit = p_limit,
+      updated_at = NOW()
+  WHERE p_limit IS NULL OR q.request_count < p_limit
+  RETURNING q.request_count INTO new_count;
+
+  -- A first request against a limit of 0 still inserted a row; treat it as rejected
+  IF new_count IS NOT NULL AND p_limit IS NOT NULL AND new_count > p_limit THEN
+    UPDATE api_quota_usage
+    SET request_count = request_count - 1
+    WHERE provider = p_provider AND usage_date = (NOW() AT TIME ZONE 'UTC')::DATE;
+    RETURN NULL;
+  END IF;
+
+  RETURN new_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to clean up old usage rows (optional, for maintenance)
+CREATE OR REPLACE FUNCTION cleanup_api_quota_usage(days_to_keep INTEGER DEFAULT 30)
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM api_quota_usage WHERE usage_date < CURRENT_DATE - days_to_keep;
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Both run with the owner's rights, so only the service role (cron and providers) may call them
+REVOKE EXECUTE ON FUNCTION increment_api_quota(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cleanup_api_quota_usage(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION increment_api_quota(TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION cleanup_api_quota_usage(INTEGER) TO service_role;
@@ -0,0 +1,123 @@
+-- Breaking news alerts for Pro subscribers
+-- The breaking-news cron scores fresh articles per subscribed topic during the day;
+-- stories the editorial ranker rates above the alert threshold are recorded here
+-- and sent as single-story emails. Each send is claimed in digest_send_ledger with
+-- digest_kind 'breaking:<alert id>', so a user gets any given alert at most once.
+
+-- Opt-in, quiet hours and daily cap per user
+ALTER TABLE user_email_settings
+ADD COLUMN IF NOT EXISTS breaking_alerts BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS alert_quiet_start TIME NOT NULL DEFAULT '22:00:00',
+ADD COLUMN IF NOT EXISTS alert_quiet_end TIME NOT NULL DEFAULT '07:00:00',
+ADD COLUMN IF NOT EXISTS alert_daily_cap INTEGER NOT NULL DEFAULT 3 CHECK (alert_daily_cap BETWEEN 1 AND 10);
+
+COMMENT ON COLUMN user_email_settings.alert_quiet_start IS 'Local time alerts stop, interpreted in user_email_settings.timezone';
+COMMENT ON COLUMN user_email_settings.alert_quiet_end IS 'Local time alerts resume; may be earlier than alert_quiet_start (overnight)';
+
+CREATE TABLE IF NOT EXISTS breaking_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  topic TEXT NOT NULL,
+  url TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL,
+  source TEXT NOT NULL,
+  published_at TIMESTAMPTZ,
+  importance_score INTEGER NOT NULL, -- Editorial importance (1-10) that triggered the alert
+  reasoning TEXT, -- Editorial ranker's one-line reasoning
+  outlet_count INTEGER NOT NULL DEFAULT 1,
+  also_reported_by TEXT[] NOT NULL DEFAULT '{}', -- Other outlets covering the story
+  recipient_count INTEGER NOT NULL DEFAULT 0, -- Alerts sent so far
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(topic, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_breaking_alerts_detected_at ON breaking_alerts(detected_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE breaking_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view alerts
+CREATE POLICY "Admins can view breaking alerts" ON breaking_alerts
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+-- Service role records alerts
+CREATE POLICY "Service role can manage breaking alerts" ON breaking_alerts
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Claim an alert send for a user, enforcing their daily cap in the same transaction.
+-- Claims for one user and local date are serialized on an advisory lock, so two
+-- concurrent runs can't both pass the cap check. A failed claim for the same alert is
+-- taken over, like claimDigestSend does. Returns one row: outcome 'claimed' (with the
+-- ledger row id), 'daily_cap' or 'already_sent'.
+CREATE OR REPLACE FUNCTION claim_breaking_alert(
+  p_user_id UUID,
+  p_local_date DATE,
+  p_digest_kind TEXT,
+  p_source TEXT,
+  p_topics TEXT[],
+  p_daily_cap INTEGER
+)
+RETURNS TABLE (outcome TEXT, claim_id UUID) AS $$
+DECLARE
+  existing digest_send_ledger%ROWTYPE;
+  alerts_today INTEGER;
+  new_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended('breaking:' || p_user_id::TEXT || ':' || p_local_date::TEXT, 0));
+
+  SELECT * INTO existing
+  FROM digest_send_ledger
+  WHERE user_id = p_user_id
+    AND local_date = p_local_date
+    AND digest_kind = p_digest_kind;
+
+  IF FOUND AND existing.status <> 'failed' THEN
+    RETURN QUERY SELECT 'already_sent'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO alerts_today
+  FROM digest_send_ledger
+  WHERE user_id = p_user_id
+    AND local_date = p_local_date
+    AND digest_kind LIKE 'breaking:%'
+    AND status IN ('claimed', 'sent');
+
+  IF alerts_today >= p_daily_cap THEN
+    RETURN QUERY SELECT 'daily_cap'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  IF existing.id IS NOT NULL THEN
+    UPDATE digest_send_ledger
+    SET status = 'claimed',
+        source = p_source,
+        topics = p_topics,
+        attempt_count = attempt_count + 1,
+        claimed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = existing.id
+      AND status = 'failed'
+    RETURNING id INTO new_id;
+  ELSE
+    INSERT INTO digest_send_ledger (user_id, local_date, digest_kind, status, source, topics)
+    VALUES (p_user_id, p_local_date, p_digest_kind, 'claimed', p_source, p_topics)
+    ON CONFLICT (user_id, local_date, digest_kind) DO NOTHING
+    RETURNING id INTO new_id;
+  END IF;
+
+  IF new_id IS NULL THEN
+    RETURN QUERY SELECT 'already_sent'::TEXT, NULL::UUID;
+  ELSE
+    RETURN QUERY SELECT 'claimed'::TEXT, new_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,206 @@
+-- Create digest_jobs table: a Postgres-backed queue for per-user digest generation
+-- The send-digests cron only enqueues one job per due user; digest-worker invocations
+-- lease jobs in small chunks, run the fetch/summarize/send pipeline and complete them.
+--
+-- Everything up to the Supabase section is plain Postgres (13+), so the queue can be
+-- exercised locally with docs/sql/check-digest-jobs-queue.sql.
+CREATE TABLE IF NOT EXISTS digest_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  local_date DATE NOT NULL, -- Delivery day in the user's timezone
+  digest_kind TEXT NOT NULL DEFAULT 'daily',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'leased', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0, -- Incremented every time the job is leased
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  available_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Not leased before this time (retry backoff)
+  leased_until TIMESTAMPTZ, -- Visibility timeout; an expired lease makes the job leasable again
+  lease_owner TEXT, -- Worker invocation holding the lease
+  outcome TEXT, -- Pipeline result once done ('sent', 'skipped', 'failed')
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, local_date, digest_kind) -- Re-enqueueing the same delivery is a no-op
+);
+
+-- Create index for the lease query (pending jobs by availability, expired leases)
+CREATE INDEX IF NOT EXISTS idx_digest_jobs_pending ON digest_jobs(available_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_digest_jobs_leased ON digest_jobs(leased_until) WHERE status = 'leased';
+CREATE INDEX IF NOT EXISTS idx_digest_jobs_local_date ON digest_jobs(local_date DESC);
+
+-- Lease up to p_limit jobs for a worker. SKIP LOCKED lets concurrent workers lease
+-- disjoint chunks; a job whose lease expired (worker crashed or timed out) becomes
+-- leasable again until it runs out of attempts.
+CREATE OR REPLACE FUNCTION lease_digest_jobs(
+  p_worker TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_visibility_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF digest_jobs AS $$
+BEGIN
+  -- Give up on jobs whose last lease expired with no attempts left
+  UPDATE digest_jobs
+  SET status = 'failed',
+      last_error = COALESCE(last_error, 'Lease expired after final attempt'),
+      lease_owner = NULL,
+      leased_until = NULL,
+      updated_at = NOW()
+  WHERE status = 'leased'
+    AND leased_until < NOW()
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE digest_jobs AS j
+  SET status = 'leased',
+      lease_owner = p_worker,
+      leased_until = NOW() + make_interval(secs => p_visibility_seconds),
+      attempts = j.attempts + 1,
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT q.id
+    FROM digest_jobs q
+    WHERE (q.status = 'pending' AND q.available_at <= NOW())
+       OR (q.status = 'leased' AND q.leased_until < NOW() AND q.attempts < q.max_attempts)
+    ORDER BY q.available_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Mark a leased job done. Returns false if the worker no longer holds the lease
+-- (it expired and another worker took the job over).
+CREATE OR REPLACE FUNCTION complete_digest_job(
+  p_job_id UUID,
+  p_worker TEXT,
+  p_outcome TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE digest_jobs
+  SET status = 'done',
+      outcome = p_outcome,
+      leased_until = NULL,
+      updated_at = NOW()
+  WHERE id = p_job_id
+    AND status = 'leased'
+    AND lease_owner = p_worker;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release a leased job after an error. It is retried after an exponential backoff
+-- (p_retry_delay_seconds, doubled per attempt) or marked failed once attempts run
+-- out. Returns the new status, or NULL if the worker no longer holds the lease.
+CREATE OR REPLACE FUNCTION fail_digest_job(
+  p_job_id UUID,
+  p_worker TEXT,
+  p_error TEXT,
+  p_retry_delay_seconds INTEGER DEFAULT 60
+)
+RETURNS TEXT AS $$
+DECLARE
+  new_status TEXT;
+BEGIN
+  UPDATE digest_jobs
+  SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+      available_at = NOW() + make_interval(secs => p_retry_delay_seconds * power(2, GREATEST(attempts - 1, 0))),
+      last_error = p_error,
+      lease_owner = NULL,
+      leased_until = NULL,
+      updated_at = NOW()
+  WHERE id = p_job_id
+    AND status = 'leased'
+    AND lease_owner = p_worker
+  RETURNING status INTO new_status;
+
+  RETURN new_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Hand a leased job back untouched (the worker ran out of time before starting it).
+-- It is leasable again right away and the lease doesn't count as an attempt. Returns
+-- false if the worker no longer holds the lease.
+CREATE OR REPLACE FUNCTION release_digest_job(
+  p_job_id UUID,
+  p_worker TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE digest_jobs
+  SET status = 'pending',
+      attempts = GREATEST(attempts - 1, 0),
+      available_at = NOW(),
+      lease_owner = NULL,
+      leased_until = NULL,
+      updated_at = NOW()
+  WHERE id = p_job_id
+    AND status = 'leased'
+    AND lease_owner = p_worker;
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Queue depth by status, for worker logs and monitoring
+CREATE OR REPLACE FUNCTION get_digest_queue_stats()
+RETURNS TABLE (
+  pending BIGINT,
+  leased BIGINT,
+  done BIGINT,
+  failed BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) FILTER (WHERE dj.status = 'pending')::BIGINT,
+    COUNT(*) FILTER (WHERE dj.status = 'leased')::BIGINT,
+    COUNT(*) FILTER (WHERE dj.status = 'done')::BIGINT,
+    COUNT(*) FILTER (WHERE dj.status = 'failed')::BIGINT
+  FROM digest_jobs dj
+  WHERE dj.local_date >= CURRENT_DATE - 1;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to clean up finished jobs (optional, for maintenance)
+CREATE OR REPLACE FUNCTION cleanup_digest_jobs(days_to_keep INTEGER DEFAULT 7)
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM digest_jobs
+  WHERE status IN ('done', 'failed')
+    AND local_date < CURRENT_DATE - days_to_keep;
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Supabase only: Row Level Security. The service role (cron and workers) bypasses
+-- RLS; admins can read the queue. Skipped on plain Postgres, which has no auth schema.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_namespace WHERE nspname = 'auth') THEN
+    EXECUTE 'ALTER TABLE digest_jobs ENABLE ROW LEVEL SECURITY';
+    EXECUTE 'DROP POLICY IF EXISTS "Admins can view digest jobs" ON digest_jobs';
+    EXECUTE $policy$
+      CREATE POLICY "Admins can view digest jobs" ON digest_jobs
+        FOR SELECT
+        USING (
+          EXISTS (
+            SELECT 1 FROM users
+            WHERE users.id = auth.uid()
+            AND users.role = 'admin'
+          )
+        )
+    $policy$;
+  END IF;
+END;
+$$;
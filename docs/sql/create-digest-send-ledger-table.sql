@@ -0,0 +1,44 @@
+-- Create digest_send_ledger table to make digest delivery idempotent
+-- A row is claimed right before an email is sent. The unique (user, local date, kind)
+-- constraint means overlapping cron runs, retries and admin force-sends can never
+-- send the same digest twice.
+CREATE TABLE IF NOT EXISTS digest_send_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE NOT NULL,
+  local_date DATE NOT NULL, -- Calendar date in the user's timezone the digest is for
+  digest_kind TEXT NOT NULL DEFAULT 'daily', -- Which digest this is ('daily', ...)
+  status TEXT NOT NULL DEFAULT 'claimed' CHECK (status IN ('claimed', 'sent', 'failed')),
+  source TEXT NOT NULL CHECK (source IN ('cron', 'force', 'retry')), -- What triggered the send
+  topics TEXT[] NOT NULL DEFAULT '{}', -- Topics included in the digest
+  attempt_count INTEGER NOT NULL DEFAULT 1, -- Incremented when a failed claim is re-claimed
+  message_id TEXT, -- Email provider message ID once sent
+  error TEXT, -- Last error if the send failed
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, local_date, digest_kind)
+);
+
+-- Create indexes for faster lookups
+CREATE INDEX IF NOT EXISTS idx_digest_send_ledger_local_date ON digest_send_ledger(local_date DESC);
+CREATE INDEX IF NOT EXISTS idx_digest_send_ledger_status ON digest_send_ledger(status);
+
+-- Enable Row Level Security
+ALTER TABLE digest_send_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view the ledger
+CREATE POLICY "Admins can view digest send ledger" ON digest_send_ledger
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+-- Service role manages claims
+CREATE POLICY "Service role can manage digest send ledger" ON digest_send_ledger
+  FOR ALL
+  USING (auth.role() = 'service_role');
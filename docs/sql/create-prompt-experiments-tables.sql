@@ -0,0 +1,105 @@
+-- Prompt A/B experiments, started from the admin portal's Experiments tab
+-- An experiment splits users between two prompts (control and variant) for one topic
+-- category and tier; each is a prompt_versions row, or NULL for the built-in prompts.
+-- Users are assigned by a hash of (experiment, user), so they keep their arm.
+
+CREATE TABLE IF NOT EXISTS prompt_experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  category_id TEXT NOT NULL, -- TopicCategory id, e.g. 'sports' or 'default'
+  tier TEXT NOT NULL CHECK (tier IN ('free', 'paid')),
+  control_version_id UUID REFERENCES prompt_versions(id), -- NULL = built-in prompts
+  variant_version_id UUID REFERENCES prompt_versions(id),
+  variant_percent INTEGER NOT NULL DEFAULT 50 CHECK (variant_percent BETWEEN 1 AND 99),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'stopped')),
+  created_by TEXT, -- Admin email
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  stopped_at TIMESTAMPTZ
+);
+
+-- One running experiment per category and tier
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_experiments_running
+  ON prompt_experiments(category_id, tier)
+  WHERE status = 'running';
+
+-- Enable Row Level Security (service role bypasses it)
+ALTER TABLE prompt_experiments ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Only admins can manage experiments
+CREATE POLICY "Admins can manage prompt experiments"
+  ON prompt_experiments
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+-- Digest engagement events: 'delivered' (one per experiment topic in a sent digest),
+-- 'click' (an article link followed through /api/track/click) and 'unsubscribe'
+-- (one general row, plus one per experiment arm delivered in the previous week)
+CREATE TABLE IF NOT EXISTS email_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type TEXT NOT NULL CHECK (event_type IN ('delivered', 'click', 'unsubscribe')),
+  archive_id UUID REFERENCES email_archive(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  topic TEXT,
+  url TEXT, -- Clicked article
+  experiment_id UUID REFERENCES prompt_experiments(id) ON DELETE CASCADE,
+  arm TEXT CHECK (arm IN ('control', 'variant')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_events_experiment ON email_events(experiment_id, arm) WHERE experiment_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_email_events_user ON email_events(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE email_events ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Admins can read events
+CREATE POLICY "Admins can read email events"
+  ON email_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+-- Service role records events
+CREATE POLICY "Service role can manage email events" ON email_events
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Per-arm engagement for an experiment. A delivery counts as clicked if any of its
+-- topic's stories was clicked from that digest; a user counts as unsubscribed if
+-- they unsubscribed within a week of receiving the arm.
+CREATE OR REPLACE FUNCTION get_experiment_arm_stats(p_experiment_id UUID)
+RETURNS TABLE (
+  arm TEXT,
+  delivered BIGINT,
+  clicked BIGINT,
+  users BIGINT,
+  unsubscribed BIGINT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    e.arm,
+    COUNT(DISTINCT e.archive_id) FILTER (WHERE e.event_type = 'delivered'),
+    COUNT(DISTINCT e.archive_id) FILTER (WHERE e.event_type = 'click'),
+    COUNT(DISTINCT e.user_id) FILTER (WHERE e.event_type = 'delivered'),
+    COUNT(DISTINCT e.user_id) FILTER (WHERE e.event_type = 'unsubscribe')
+  FROM email_events e
+  WHERE e.experiment_id = p_experiment_id
+  GROUP BY e.arm;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Runs with the owner's rights, so only the service role (the admin API) may call it
+REVOKE EXECUTE ON FUNCTION get_experiment_arm_stats(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_experiment_arm_stats(UUID) TO service_role;
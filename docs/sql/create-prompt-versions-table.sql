@@ -0,0 +1,88 @@
+-- Versioned summarization prompts, edited from the admin portal's Prompts tab
+-- Each save is a new version for a (topic category, tier); at most one version per
+-- pair is active, and with none active the built-in prompts in
+-- src/lib/topicCategories.ts are used. Rolling back is activating an older version.
+
+CREATE TABLE IF NOT EXISTS prompt_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id TEXT NOT NULL, -- TopicCategory id, e.g. 'sports' or 'default'
+  tier TEXT NOT NULL CHECK (tier IN ('free', 'paid')),
+  version INTEGER NOT NULL, -- 1, 2, 3... per category and tier
+  system_prompt TEXT NOT NULL,
+  directive TEXT NOT NULL, -- "From the articles below, <directive>"
+  instructions TEXT NOT NULL, -- "{topic}" is replaced with the user's topic
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by TEXT, -- Admin email
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  activated_at TIMESTAMPTZ,
+  UNIQUE (category_id, tier, version)
+);
+
+-- One active version per category and tier
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_versions_active
+  ON prompt_versions(category_id, tier)
+  WHERE is_active;
+
+-- Enable Row Level Security (service role bypasses it)
+ALTER TABLE prompt_versions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Only admins can manage prompts
+CREATE POLICY "Admins can manage prompt versions"
+  ON prompt_versions
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+-- Make one version the pair's active one, or (p_version_id NULL) go back to the
+-- built-in prompts. Deactivating the old version and activating the new one happen
+-- in one transaction, so the pair is never left without its active version. Returns
+-- the activated row (none when going back to the built-in prompts).
+CREATE OR REPLACE FUNCTION activate_prompt_version(
+  p_category_id TEXT,
+  p_tier TEXT,
+  p_version_id UUID DEFAULT NULL
+)
+RETURNS SETOF prompt_versions AS $$
+BEGIN
+  -- Serialize concurrent activations for the pair
+  PERFORM 1 FROM prompt_versions
+  WHERE category_id = p_category_id AND tier = p_tier
+  FOR UPDATE;
+
+  UPDATE prompt_versions
+  SET is_active = false
+  WHERE category_id = p_category_id
+    AND tier = p_tier
+    AND is_active;
+
+  IF p_version_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE prompt_versions
+  SET is_active = true,
+      activated_at = NOW()
+  WHERE id = p_version_id
+    AND category_id = p_category_id
+    AND tier = p_tier
+  RETURNING *;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prompt version % not found for % / %', p_version_id, p_category_id, p_tier;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Prompt versions each archived digest's summaries were written with (empty when
+-- every topic used the built-in prompts). Per-topic ids are also in content.
+ALTER TABLE email_archive
+ADD COLUMN IF NOT EXISTS prompt_version_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN email_archive.prompt_version_ids IS 'prompt_versions rows used for the digest''s summaries; built-in prompts have no id';
@@ -0,0 +1,270 @@
+-- Create source configuration tables, edited from the admin portal's Sources tab.
+-- Replaces the hard-coded SOURCE_QUALITY_TIERS and TOPIC_SOURCES lists for scoring and RSS feeds;
+-- the app falls back to its built-in lists while a table is empty.
+
+-- Quality tier per domain. Matched against article URLs and source names.
+CREATE TABLE IF NOT EXISTS source_domains (
+  domain TEXT PRIMARY KEY, -- e.g. 'reuters.com'
+  tier SMALLINT CHECK (tier BETWEEN 1 AND 3), -- 1 = best, NULL = unranked
+  blocked BOOLEAN NOT NULL DEFAULT false, -- Never used for any topic
+  notes TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Preferred and blocked domains per topic. topic_key matches any topic whose name
+-- contains it (e.g. 'nba' matches 'NBA Playoffs').
+CREATE TABLE IF NOT EXISTS topic_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  topic_key TEXT NOT NULL, -- Lowercase
+  domain TEXT NOT NULL,
+  preferred BOOLEAN NOT NULL DEFAULT true, -- Gets the preferred source boost
+  blocked BOOLEAN NOT NULL DEFAULT false, -- Dropped for this topic (wins over preferred)
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (topic_key, domain)
+);
+
+CREATE INDEX IF NOT EXISTS idx_topic_sources_topic_key ON topic_sources(topic_key);
+
+-- Enable Row Level Security (service role bypasses it)
+ALTER TABLE source_domains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE topic_sources ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Only admins can manage source configuration
+CREATE POLICY "Admins can manage source domains"
+  ON source_domains
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can manage topic sources"
+  ON topic_sources
+  FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+-- Seed with the built-in lists (src/lib/sourceConfig.ts and src/lib/newsSources.ts)
+INSERT INTO source_domains (domain, tier) VALUES
+  ('reuters.com', 1),
+  ('apnews.com', 1),
+  ('bbc.com', 1),
+  ('npr.org', 1),
+  ('theguardian.com', 1),
+  ('wsj.com', 1),
+  ('nytimes.com', 1),
+  ('washingtonpost.com', 1),
+  ('economist.com', 1),
+  ('bloomberg.com', 1),
+  ('ft.com', 1),
+  ('cnn.com', 2),
+  ('axios.com', 2),
+  ('politico.com', 2),
+  ('theatlantic.com', 2),
+  ('forbes.com', 2),
+  ('cnbc.com', 2),
+  ('techcrunch.com', 2),
+  ('theverge.com', 2),
+  ('arstechnica.com', 2),
+  ('wired.com', 2),
+  ('espn.com', 2),
+  ('cbssports.com', 2),
+  ('si.com', 2),
+  ('nature.com', 2),
+  ('sciencedaily.com', 2),
+  ('usatoday.com', 3),
+  ('latimes.com', 3),
+  ('chicagotribune.com', 3),
+  ('huffpost.com', 3),
+  ('businessinsider.com', 3),
+  ('marketwatch.com', 3),
+  ('engadget.com', 3),
+  ('mashable.com', 3),
+  ('bleacherreport.com', 3)
+ON CONFLICT (domain) DO NOTHING;
+
+INSERT INTO topic_sources (topic_key, domain) VALUES
+('nba', 'espn.com'),
+  ('nba', 'nba.com'),
+  ('nba', 'sports.yahoo.com'),
+  ('nba', 'bleacherreport.com'),
+  ('nba', 'theathletic.com'),
+  ('nfl', 'espn.com'),
+  ('nfl', 'nfl.com'),
+  ('nfl', 'sports.yahoo.com'),
+  ('nfl', 'bleacherreport.com'),
+  ('nfl', 'theathletic.com'),
+  ('soccer', 'espn.com'),
+  ('soccer', 'theguardian.com'),
+  ('soccer', 'goal.com'),
+  ('soccer', 'skysports.com'),
+  ('soccer', 'fifa.com'),
+  ('tennis', 'espn.com'),
+  ('tennis', 'atptour.com'),
+  ('tennis', 'wta.com'),
+  ('tennis', 'tennis.com'),
+  ('tennis', 'sports.yahoo.com'),
+  ('artificial intelligence', 'wired.com'),
+  ('artificial intelligence', 'technologyreview.com'),
+  ('artificial intelligence', 'arstechnica.com'),
+  ('artificial intelligence', 'techcrunch.com'),
+  ('artificial intelligence', 'theverge.com'),
+  ('ai', 'wired.com'),
+  ('ai', 'technologyreview.com'),
+  ('ai', 'arstechnica.com'),
+  ('ai', 'techcrunch.com'),
+  ('ai', 'theverge.com'),
+  ('cybersecurity', 'wired.com'),
+  ('cybersecurity', 'krebsonsecurity.com'),
+  ('cybersecurity', 'darkreading.com'),
+  ('cybersecurity', 'zdnet.com'),
+  ('cybersecurity', 'thehackernews.com'),
+  ('space exploration', 'nasa.gov'),
+  ('space exploration', 'space.com'),
+  ('space exploration', 'scientificamerican.com'),
+  ('space exploration', 'nature.com'),
+  ('space exploration', 'science.org'),
+  ('tech', 'techcrunch.com'),
+  ('tech', 'theverge.com'),
+  ('tech', 'wired.com'),
+  ('tech', 'arstechnica.com'),
+  ('tech', 'reuters.com'),
+  ('stock market', 'bloomberg.com'),
+  ('stock market', 'wsj.com'),
+  ('stock market', 'reuters.com'),
+  ('stock market', 'cnbc.com'),
+  ('stock market', 'ft.com'),
+  ('cryptocurrency', 'coindesk.com'),
+  ('cryptocurrency', 'cointelegraph.com'),
+  ('cryptocurrency', 'bloomberg.com'),
+  ('cryptocurrency', 'wsj.com'),
+  ('cryptocurrency', 'reuters.com'),
+  ('crypto', 'coindesk.com'),
+  ('crypto', 'cointelegraph.com'),
+  ('crypto', 'bloomberg.com'),
+  ('crypto', 'wsj.com'),
+  ('crypto', 'reuters.com'),
+  ('startups', 'techcrunch.com'),
+  ('startups', 'venturebeat.com'),
+  ('startups', 'bloomberg.com'),
+  ('startups', 'wsj.com'),
+  ('startups', 'reuters.com'),
+  ('business', 'bloomberg.com'),
+  ('business', 'wsj.com'),
+  ('business', 'reuters.com'),
+  ('business', 'cnbc.com'),
+  ('business', 'ft.com'),
+  ('us politics', 'politico.com'),
+  ('us politics', 'reuters.com'),
+  ('us politics', 'apnews.com'),
+  ('us politics', 'washingtonpost.com'),
+  ('us politics', 'nytimes.com'),
+  ('politics', 'politico.com'),
+  ('politics', 'reuters.com'),
+  ('politics', 'apnews.com'),
+  ('politics', 'washingtonpost.com'),
+  ('politics', 'nytimes.com'),
+  ('global politics', 'reuters.com'),
+  ('global politics', 'apnews.com'),
+  ('global politics', 'bbc.com'),
+  ('global politics', 'theguardian.com'),
+  ('global politics', 'foreignpolicy.com'),
+  ('medical research', 'nature.com'),
+  ('medical research', 'science.org'),
+  ('medical research', 'scientificamerican.com'),
+  ('medical research', 'statnews.com'),
+  ('medical research', 'reuters.com'),
+  ('climate change', 'nature.com'),
+  ('climate change', 'science.org'),
+  ('climate change', 'scientificamerican.com'),
+  ('climate change', 'reuters.com'),
+  ('climate change', 'theguardian.com'),
+  ('climate', 'nature.com'),
+  ('climate', 'science.org'),
+  ('climate', 'scientificamerican.com'),
+  ('climate', 'reuters.com'),
+  ('climate', 'theguardian.com'),
+  ('mental health', 'reuters.com'),
+  ('mental health', 'apnews.com'),
+  ('mental health', 'statnews.com'),
+  ('mental health', 'scientificamerican.com'),
+  ('mental health', 'psychologytoday.com'),
+  ('fitness', 'reuters.com'),
+  ('fitness', 'apnews.com'),
+  ('fitness', 'menshealth.com'),
+  ('fitness', 'womenshealthmag.com'),
+  ('fitness', 'shape.com'),
+  ('movies', 'variety.com'),
+  ('movies', 'hollywoodreporter.com'),
+  ('movies', 'deadline.com'),
+  ('movies', 'indiewire.com'),
+  ('movies', 'reuters.com'),
+  ('music', 'billboard.com'),
+  ('music', 'pitchfork.com'),
+  ('music', 'rollingstone.com'),
+  ('music', 'reuters.com'),
+  ('music', 'apnews.com'),
+  ('europe', 'reuters.com'),
+  ('europe', 'apnews.com'),
+  ('europe', 'bbc.com'),
+  ('europe', 'theguardian.com'),
+  ('europe', 'politico.eu'),
+  ('asia', 'reuters.com'),
+  ('asia', 'apnews.com'),
+  ('asia', 'scmp.com'),
+  ('asia', 'japantimes.co.jp'),
+  ('asia', 'straitstimes.com'),
+  ('world news', 'reuters.com'),
+  ('world news', 'apnews.com'),
+  ('world news', 'bbc.com'),
+  ('world news', 'theguardian.com'),
+  ('world news', 'nytimes.com'),
+  ('renewable energy', 'reuters.com'),
+  ('renewable energy', 'bloomberg.com'),
+  ('renewable energy', 'nature.com'),
+  ('renewable energy', 'science.org'),
+  ('renewable energy', 'scientificamerican.com'),
+  ('wildlife', 'nature.com'),
+  ('wildlife', 'science.org'),
+  ('wildlife', 'scientificamerican.com'),
+  ('wildlife', 'reuters.com'),
+  ('wildlife', 'nationalgeographic.com'),
+  ('restaurants', 'eater.com'),
+  ('restaurants', 'grubstreet.com'),
+  ('restaurants', 'reuters.com'),
+  ('restaurants', 'apnews.com'),
+  ('restaurants', 'nytimes.com'),
+  ('food trends', 'eater.com'),
+  ('food trends', 'grubstreet.com'),
+  ('food trends', 'reuters.com'),
+  ('food trends', 'apnews.com'),
+  ('food trends', 'nytimes.com'),
+  ('video games', 'polygon.com'),
+  ('video games', 'kotaku.com'),
+  ('video games', 'ign.com'),
+  ('video games', 'gamespot.com'),
+  ('video games', 'reuters.com'),
+  ('esports', 'espn.com'),
+  ('esports', 'polygon.com'),
+  ('esports', 'kotaku.com'),
+  ('esports', 'ign.com'),
+  ('esports', 'gamespot.com'),
+  ('art', 'artnews.com'),
+  ('art', 'artforum.com'),
+  ('art', 'reuters.com'),
+  ('art', 'apnews.com'),
+  ('art', 'nytimes.com'),
+  ('literature', 'nytimes.com'),
+  ('literature', 'theguardian.com'),
+  ('literature', 'reuters.com'),
+  ('literature', 'apnews.com'),
+  ('literature', 'publishersweekly.com')
+ON CONFLICT (topic_key, domain) DO NOTHING;
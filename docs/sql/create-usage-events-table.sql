@@ -0,0 +1,112 @@
+-- Token and cost accounting per pipeline run
+-- One row per LLM call (summarization, editorial ranking, repairs and retries),
+-- embedding request and news provider search, written at the end of each cron run
+-- (see src/lib/costTracking.ts). Costs are estimates from the model price table and
+-- NEWS_REQUEST_COSTS. Shared work (news, summaries reused across digests) is
+-- charged to the topic and digest that produced it.
+
+CREATE TABLE IF NOT EXISTS usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID, -- cron_job_logs.run_id of the run that made the call
+  kind TEXT NOT NULL CHECK (kind IN ('llm', 'embeddings', 'news')),
+  stage TEXT NOT NULL, -- 'summarization', 'editorial', 'embeddings' or the news provider id
+  backend TEXT NOT NULL, -- openai, local, mock, ollama, or the news provider id
+  model TEXT,
+  topic TEXT,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL, -- Digest the call was made for
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_created ON usage_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_events_run ON usage_events(run_id);
+CREATE INDEX IF NOT EXISTS idx_usage_events_user ON usage_events(user_id, created_at DESC) WHERE user_id IS NOT NULL;
+
+-- Enable Row Level Security (service role bypasses it)
+ALTER TABLE usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Only admins can read usage
+CREATE POLICY "Admins can read usage events"
+  ON usage_events
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'admin'
+    )
+  );
+
+-- Service role records usage
+CREATE POLICY "Service role can manage usage events" ON usage_events
+  FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- Link each cron run's log row to its usage events, with the run's totals:
+-- { "runId": "...", "totalCostUsd": 0.0412, "stages": { "summarization": { "calls": 12,
+--   "errors": 0, "promptTokens": 41200, "completionTokens": 9800, "costUsd": 0.0121 }, ... } }
+ALTER TABLE cron_job_logs
+ADD COLUMN IF NOT EXISTS run_id UUID,
+ADD COLUMN IF NOT EXISTS cost_stats JSONB DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_cron_job_logs_run ON cron_job_logs(run_id) WHERE run_id IS NOT NULL;
+
+COMMENT ON COLUMN cron_job_logs.cost_stats IS 'Estimated cost, calls and tokens for the run, keyed by stage (LLM stage, embeddings or news provider)';
+
+-- Rollups (security_invoker so the admin-only policy above applies)
+
+-- Per cron run
+CREATE OR REPLACE VIEW usage_costs_by_run WITH (security_invoker = true) AS
+SELECT
+  run_id,
+  MIN(created_at) AS started_at,
+  COUNT(*) AS calls,
+  COUNT(*) FILTER (WHERE NOT success) AS errors,
+  SUM(prompt_tokens) AS prompt_tokens,
+  SUM(completion_tokens) AS completion_tokens,
+  SUM(cost_usd) AS cost_usd
+FROM usage_events
+GROUP BY run_id;
+
+-- Per topic and day
+CREATE OR REPLACE VIEW usage_costs_by_topic WITH (security_invoker = true) AS
+SELECT
+  (created_at AT TIME ZONE 'UTC')::DATE AS usage_date,
+  topic,
+  COUNT(*) AS calls,
+  SUM(prompt_tokens) AS prompt_tokens,
+  SUM(completion_tokens) AS completion_tokens,
+  SUM(cost_usd) AS cost_usd
+FROM usage_events
+WHERE topic IS NOT NULL
+GROUP BY 1, topic;
+
+-- Per user digest (user and run)
+CREATE OR REPLACE VIEW usage_costs_by_digest WITH (security_invoker = true) AS
+SELECT
+  run_id,
+  user_id,
+  MIN(created_at) AS started_at,
+  COUNT(*) AS calls,
+  SUM(prompt_tokens) AS prompt_tokens,
+  SUM(completion_tokens) AS completion_tokens,
+  SUM(cost_usd) AS cost_usd
+FROM usage_events
+WHERE user_id IS NOT NULL
+GROUP BY run_id, user_id;
+
+-- Daily spend by stage (the admin Costs chart)
+CREATE OR REPLACE VIEW usage_costs_daily WITH (security_invoker = true) AS
+SELECT
+  (created_at AT TIME ZONE 'UTC')::DATE AS usage_date,
+  stage,
+  COUNT(*) AS calls,
+  SUM(prompt_tokens) AS prompt_tokens,
+  SUM(completion_tokens) AS completion_tokens,
+  SUM(cost_usd) AS cost_usd
+FROM usage_events
+GROUP BY 1, stage;
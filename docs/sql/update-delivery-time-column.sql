@@ -0,0 +1,14 @@
+-- Store delivery_time as a plain local time
+-- The clock time is interpreted in the user's IANA timezone at send time, so DST
+-- and non-US zones are handled by the scheduler instead of a fixed UTC offset
+ALTER TABLE user_email_settings
+ALTER COLUMN delivery_time TYPE TIME USING delivery_time::time;
+
+ALTER TABLE user_email_settings
+ALTER COLUMN delivery_time SET DEFAULT '06:45:00';
+
+-- Backfill missing values with the default slot
+UPDATE user_email_settings SET delivery_time = '06:45:00' WHERE delivery_time IS NULL;
+
+COMMENT ON COLUMN user_email_settings.delivery_time IS 'Local delivery time on a 15-minute grid, interpreted in user_email_settings.timezone';
+COMMENT ON COLUMN user_email_settings.timezone IS 'IANA timezone name, e.g. America/New_York or Europe/London';
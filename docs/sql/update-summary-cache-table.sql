@@ -0,0 +1,37 @@
+-- Repurpose summary_cache as a shared summary store
+-- Summaries are keyed by topic, tier, article-set hash and prompt version so one
+-- OpenAI call per topic/tier serves every recipient with the same articles
+ALTER TABLE summary_cache
+ADD COLUMN IF NOT EXISTS article_hash TEXT, -- sha256 of the article set sent to the prompt
+ADD COLUMN IF NOT EXISTS prompt_version TEXT, -- SUMMARY_PROMPT_VERSION in src/lib/openai.ts
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ DEFAULT NOW() + INTERVAL '24 hours'; -- TTL for stored summaries
+
+-- Clear legacy rows (one per topic/date/tier) that have no article hash
+DELETE FROM summary_cache WHERE article_hash IS NULL OR prompt_version IS NULL;
+
+ALTER TABLE summary_cache ALTER COLUMN article_hash SET NOT NULL;
+ALTER TABLE summary_cache ALTER COLUMN prompt_version SET NOT NULL;
+
+-- Replace the old one-per-day uniqueness with one entry per article set and prompt version
+ALTER TABLE summary_cache DROP CONSTRAINT IF EXISTS summary_cache_topic_date_is_paid_key;
+ALTER TABLE summary_cache
+ADD CONSTRAINT summary_cache_topic_tier_hash_version_key
+UNIQUE (topic, is_paid, article_hash, prompt_version);
+
+-- Create index for expiry cleanup
+CREATE INDEX IF NOT EXISTS idx_summary_cache_expiry ON summary_cache(expires_at);
+
+COMMENT ON COLUMN summary_cache.article_hash IS 'sha256 of url/title/description of the articles summarized';
+COMMENT ON COLUMN summary_cache.prompt_version IS 'Prompt version the summary was generated with; bump SUMMARY_PROMPT_VERSION to invalidate';
+
+-- Function to clean up expired summaries (optional, for maintenance)
+CREATE OR REPLACE FUNCTION cleanup_expired_summary_cache()
+RETURNS INTEGER AS $$
+DECLARE
+  deleted_count INTEGER;
+BEGIN
+  DELETE FROM summary_cache WHERE expires_at < NOW();
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
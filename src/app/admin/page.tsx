@@ -4,7 +4,7 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
 import Navigation from '@/components/Navigation';
-import { Plus, X, Edit2, Save, ChevronDown, ChevronUp, Users, BookOpen, Trash2, FileText, CheckCircle, XCircle, Clock, Send, AlertTriangle, Newspaper, ExternalLink } from 'lucide-react';
+import { Plus, X, Edit2, Save, ChevronDown, ChevronUp, Users, BookOpen, Trash2, FileText, CheckCircle, XCircle, Clock, Send, AlertTriangle, Newspaper, ExternalLink, Mail, Shield, MessageSquare, RotateCcw, Eye, FlaskConical, Square, DollarSign } from 'lucide-react';
 
 interface User {
   id: string;
@@ -62,6 +62,14 @@ interface TopicSummaryData {
     bullets?: string[];
     url: string;
     source: string;
+    citations?: Array<{ source: string; url: string }>;
+  }>;
+  faithfulnessFailures: Array<{
+    title: string;
+    url: string;
+    text: string;
+    reason: 'unsupported' | 'unknown-url';
+    unsupported: Array<{ kind: string; text: string }>;
   }>;
 }
 
@@ -71,13 +79,159 @@ interface SummariesResponse {
   withArticles: number;
   withSummaries: number;
   failed: number;
+  faithfulnessFailures: number;
   topics: TopicSummaryData[];
   emailsSentToday: number;
 }
 
+interface LedgerEntry {
+  id: string;
+  user_id: string;
+  email: string | null;
+  local_date: string;
+  digest_kind: string;
+  status: 'claimed' | 'sent' | 'failed';
+  source: 'cron' | 'force' | 'retry';
+  topics: string[];
+  attempt_count: number;
+  message_id: string | null;
+  error: string | null;
+  claimed_at: string;
+  sent_at: string | null;
+  stale: boolean; // Claimed long ago and never resolved - may or may not have been sent
+}
+
+interface SourceDomain {
+  domain: string;
+  tier: 1 | 2 | 3 | null;
+  blocked: boolean;
+  notes: string | null;
+  updated_at: string;
+}
+
+interface TopicSource {
+  id: string;
+  topic_key: string;
+  domain: string;
+  preferred: boolean;
+  blocked: boolean;
+  updated_at: string;
+}
+
+interface PromptTemplates {
+  system: string;
+  directive: string;
+  instructions: string;
+}
+
+interface PromptCategory {
+  id: string;
+  keywords: string[];
+  format: Record<'free' | 'paid', 'bullets' | 'paragraphs'>;
+  defaults: Record<'free' | 'paid', PromptTemplates>;
+}
+
+interface PromptVersion {
+  id: string;
+  category_id: string;
+  tier: 'free' | 'paid';
+  version: number;
+  system_prompt: string;
+  directive: string;
+  instructions: string;
+  notes: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  activated_at: string | null;
+}
+
+interface PromptPreview {
+  topic: string;
+  topicCategory: string;
+  articleCount: number;
+  summary: {
+    fallback?: boolean;
+    summaries: Array<{
+      title: string;
+      summary: string;
+      bullets?: string[];
+      url: string;
+      source: string;
+    }>;
+  };
+}
+
+interface CostsResponse {
+  days: number;
+  since: string;
+  totalCostUsd: number;
+  stages: string[];
+  daily: Array<{ date: string; totalCostUsd: number; stages: Record<string, number> }>;
+  topTopics: Array<{ topic: string; calls: number; costUsd: number }>;
+  runs: Array<{ createdAt: string; status: string; runId: string; totalCostUsd: number; calls: number }>;
+}
+
+// Bar colors for cost stages, in the order the API lists them
+const COST_STAGE_COLORS = ['bg-[#FFA500]', 'bg-[#FF6B47]', 'bg-sky-500', 'bg-emerald-500', 'bg-violet-500', 'bg-gray-400'];
+
+interface ExperimentArmStats {
+  delivered: number;
+  clicked: number;
+  clickRate: number;
+  users: number;
+  unsubscribed: number;
+  unsubscribeRate: number;
+}
+
+interface ExperimentTest {
+  difference: number;
+  z: number;
+  pValue: number;
+  significant: boolean;
+}
+
+interface PromptExperiment {
+  id: string;
+  name: string;
+  category_id: string;
+  tier: 'free' | 'paid';
+  control_version_id: string | null;
+  variant_version_id: string | null;
+  variant_percent: number;
+  status: 'running' | 'stopped';
+  created_by: string | null;
+  started_at: string;
+  stopped_at: string | null;
+  results: {
+    arms: Record<'control' | 'variant', ExperimentArmStats>;
+    clickThrough: ExperimentTest | null;
+    unsubscribe: ExperimentTest | null;
+  } | null;
+}
+
+interface ExperimentDraft {
+  name: string;
+  category_id: string;
+  tier: 'free' | 'paid';
+  control_version_id: string;
+  variant_version_id: string;
+  variant_percent: number;
+}
+
+interface LedgerResponse {
+  date: string;
+  total: number;
+  sent: number;
+  claimed: number;
+  stale: number;
+  failed: number;
+  entries: LedgerEntry[];
+}
+
 export default function AdminPortal() {
   const router = useRouter();
-  const [activeTab, setActiveTab] = useState<'users' | 'topics' | 'logs' | 'summaries'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'topics' | 'logs' | 'deliveries' | 'summaries' | 'sources' | 'prompts' | 'experiments' | 'costs'>('users');
   const [users, setUsers] = useState<User[]>([]);
   const [topics, setTopics] = useState<Topic[]>([]);
   const [groupedTopics, setGroupedTopics] = useState<Record<string, Topic[]>>({});
@@ -119,6 +273,53 @@ export default function AdminPortal() {
   const [expandedSummaryTopics, setExpandedSummaryTopics] = useState<Set<string>>(new Set());
   const [summariesDate, setSummariesDate] = useState<string>(new Date().toISOString().split('T')[0]);
 
+  // Send ledger state
+  const [ledgerData, setLedgerData] = useState<LedgerResponse | null>(null);
+  const [isLoadingLedger, setIsLoadingLedger] = useState(false);
+  const [ledgerDate, setLedgerDate] = useState<string>(new Date().toISOString().split('T')[0]);
+
+  // Source configuration state
+  const [sourceDomains, setSourceDomains] = useState<SourceDomain[]>([]);
+  const [topicSources, setTopicSources] = useState<TopicSource[]>([]);
+  const [isLoadingSources, setIsLoadingSources] = useState(false);
+  const [isSavingSource, setIsSavingSource] = useState(false);
+  const [newDomain, setNewDomain] = useState('');
+  const [newDomainTier, setNewDomainTier] = useState<string>('');
+  const [newTopicKey, setNewTopicKey] = useState('');
+  const [newTopicDomain, setNewTopicDomain] = useState('');
+  const [newTopicSourceMode, setNewTopicSourceMode] = useState<'preferred' | 'blocked'>('preferred');
+
+  // Prompt editor state
+  const [promptCategories, setPromptCategories] = useState<PromptCategory[]>([]);
+  const [promptVersions, setPromptVersions] = useState<PromptVersion[]>([]);
+  const [isLoadingPrompts, setIsLoadingPrompts] = useState(false);
+  const [isSavingPrompt, setIsSavingPrompt] = useState(false);
+  const [promptCategoryId, setPromptCategoryId] = useState('default');
+  const [promptTier, setPromptTier] = useState<'free' | 'paid'>('free');
+  const [promptDraft, setPromptDraft] = useState<PromptTemplates>({ system: '', directive: '', instructions: '' });
+  const [promptNotes, setPromptNotes] = useState('');
+  const [previewTopic, setPreviewTopic] = useState('');
+  const [promptPreview, setPromptPreview] = useState<PromptPreview | null>(null);
+  const [isPreviewingPrompt, setIsPreviewingPrompt] = useState(false);
+
+  // Cost accounting state
+  const [costsData, setCostsData] = useState<CostsResponse | null>(null);
+  const [isLoadingCosts, setIsLoadingCosts] = useState(false);
+  const [costDays, setCostDays] = useState(30);
+
+  // Prompt experiment state
+  const [experiments, setExperiments] = useState<PromptExperiment[]>([]);
+  const [isLoadingExperiments, setIsLoadingExperiments] = useState(false);
+  const [isSavingExperiment, setIsSavingExperiment] = useState(false);
+  const [experimentDraft, setExperimentDraft] = useState<ExperimentDraft>({
+    name: '',
+    category_id: 'default',
+    tier: 'free',
+    control_version_id: '',
+    variant_version_id: '',
+    variant_percent: 50,
+  });
+
   useEffect(() => {
     checkAuthAndLoadData();
   }, []);
@@ -128,8 +329,18 @@ export default function AdminPortal() {
       loadTopics();
     } else if (activeTab === 'logs' && isAuthorized) {
       loadLogs();
+    } else if (activeTab === 'deliveries' && isAuthorized) {
+      loadLedger();
     } else if (activeTab === 'summaries' && isAuthorized) {
       loadSummaries();
+    } else if (activeTab === 'sources' && isAuthorized) {
+      loadSources();
+    } else if (activeTab === 'prompts' && isAuthorized) {
+      loadPrompts();
+    } else if (activeTab === 'experiments' && isAuthorized) {
+      loadExperiments();
+    } else if (activeTab === 'costs' && isAuthorized) {
+      loadCosts();
     }
   }, [activeTab, isAuthorized]);
 
@@ -190,6 +401,404 @@ export default function AdminPortal() {
     }
   };
 
+  const loadCosts = async (days = costDays) => {
+    setIsLoadingCosts(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/admin/costs?days=${days}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load costs');
+      }
+
+      const data = await response.json();
+      setCostsData(data);
+    } catch (error) {
+      console.error('Error loading costs:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load costs');
+    } finally {
+      setIsLoadingCosts(false);
+    }
+  };
+
+  const loadLedger = async (date?: string) => {
+    setIsLoadingLedger(true);
+    setError('');
+    try {
+      const targetDate = date || ledgerDate;
+      const response = await fetch(`/api/admin/send-ledger?date=${targetDate}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load send ledger');
+      }
+
+      const data = await response.json();
+      setLedgerData(data);
+    } catch (error) {
+      console.error('Error loading send ledger:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load send ledger');
+    } finally {
+      setIsLoadingLedger(false);
+    }
+  };
+
+  const loadSources = async () => {
+    setIsLoadingSources(true);
+    setError('');
+    try {
+      const response = await fetch('/api/admin/sources', {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load source configuration');
+      }
+
+      const data = await response.json();
+      setSourceDomains(data.domains || []);
+      setTopicSources(data.topicSources || []);
+    } catch (error) {
+      console.error('Error loading sources:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load source configuration');
+    } finally {
+      setIsLoadingSources(false);
+    }
+  };
+
+  // Create or update a source_domains / topic_sources row, then reload the lists
+  const saveSource = async (body: Record<string, unknown>) => {
+    setIsSavingSource(true);
+    try {
+      const response = await fetch('/api/admin/sources', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const { error: errorData } = await response.json();
+        alert(errorData || 'Failed to save source.');
+        return false;
+      }
+
+      await loadSources();
+      return true;
+    } catch (error) {
+      console.error('Error saving source:', error);
+      alert('Failed to save source.');
+      return false;
+    } finally {
+      setIsSavingSource(false);
+    }
+  };
+
+  const deleteSource = async (query: string, label: string) => {
+    if (!confirm(`Remove ${label}?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/sources?${query}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const { error: errorData } = await response.json();
+        alert(errorData || 'Failed to remove source.');
+        return;
+      }
+
+      await loadSources();
+    } catch (error) {
+      console.error('Error removing source:', error);
+      alert('Failed to remove source.');
+    }
+  };
+
+  const addSourceDomain = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await saveSource({
+      kind: 'domain',
+      domain: newDomain,
+      tier: newDomainTier === 'blocked' || newDomainTier === '' ? null : Number(newDomainTier),
+      blocked: newDomainTier === 'blocked',
+    });
+    if (saved) {
+      setNewDomain('');
+      setNewDomainTier('');
+    }
+  };
+
+  const addTopicSource = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await saveSource({
+      kind: 'topic',
+      topic_key: newTopicKey,
+      domain: newTopicDomain,
+      preferred: newTopicSourceMode === 'preferred',
+      blocked: newTopicSourceMode === 'blocked',
+    });
+    if (saved) {
+      setNewTopicDomain('');
+    }
+  };
+
+  // Put a category/tier's active version (or built-in prompts) in the editor
+  const selectPromptCategory = (
+    categoryId: string,
+    tier: 'free' | 'paid',
+    categories: PromptCategory[] = promptCategories,
+    versions: PromptVersion[] = promptVersions
+  ) => {
+    setPromptCategoryId(categoryId);
+    setPromptTier(tier);
+    setPromptPreview(null);
+    setPromptNotes('');
+
+    const active = versions.find((v) => v.category_id === categoryId && v.tier === tier && v.is_active);
+    const defaults = categories.find((c) => c.id === categoryId)?.defaults[tier];
+    if (active) {
+      setPromptDraft({ system: active.system_prompt, directive: active.directive, instructions: active.instructions });
+    } else if (defaults) {
+      setPromptDraft({ ...defaults });
+    }
+  };
+
+  const loadPrompts = async (categoryId = promptCategoryId, tier = promptTier) => {
+    setIsLoadingPrompts(true);
+    setError('');
+    try {
+      const response = await fetch('/api/admin/prompts', {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load prompts');
+      }
+
+      const data = await response.json();
+      setPromptCategories(data.categories || []);
+      setPromptVersions(data.versions || []);
+      selectPromptCategory(categoryId, tier, data.categories || [], data.versions || []);
+    } catch (error) {
+      console.error('Error loading prompts:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load prompts');
+    } finally {
+      setIsLoadingPrompts(false);
+    }
+  };
+
+  const savePromptVersion = async (activate: boolean) => {
+    if (activate && !confirm(`Save and activate this prompt for ${promptCategoryId} (${promptTier})? It applies from the next digest.`)) {
+      return;
+    }
+
+    setIsSavingPrompt(true);
+    try {
+      const response = await fetch('/api/admin/prompts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          category_id: promptCategoryId,
+          tier: promptTier,
+          system_prompt: promptDraft.system,
+          directive: promptDraft.directive,
+          instructions: promptDraft.instructions,
+          notes: promptNotes,
+          activate,
+        }),
+      });
+
+      if (!response.ok) {
+        const { error: errorData } = await response.json();
+        alert(errorData || 'Failed to save prompt.');
+        return;
+      }
+
+      await loadPrompts();
+    } catch (error) {
+      console.error('Error saving prompt:', error);
+      alert('Failed to save prompt.');
+    } finally {
+      setIsSavingPrompt(false);
+    }
+  };
+
+  // Activate a saved version, or go back to the built-in prompts (id = null)
+  const activatePromptVersion = async (id: string | null, label: string) => {
+    if (!confirm(`Use ${label} for ${promptCategoryId} (${promptTier})? It applies from the next digest.`)) return;
+
+    setIsSavingPrompt(true);
+    try {
+      const response = await fetch('/api/admin/prompts', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ category_id: promptCategoryId, tier: promptTier, id }),
+      });
+
+      if (!response.ok) {
+        const { error: errorData } = await response.json();
+        alert(errorData || 'Failed to activate prompt.');
+        return;
+      }
+
+      await loadPrompts();
+    } catch (error) {
+      console.error('Error activating prompt:', error);
+      alert('Failed to activate prompt.');
+    } finally {
+      setIsSavingPrompt(false);
+    }
+  };
+
+  const previewPrompt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPreviewingPrompt(true);
+    setPromptPreview(null);
+    try {
+      const response = await fetch('/api/admin/prompts/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          category_id: promptCategoryId,
+          tier: promptTier,
+          topic: previewTopic,
+          system_prompt: promptDraft.system,
+          directive: promptDraft.directive,
+          instructions: promptDraft.instructions,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Failed to preview prompt.');
+        return;
+      }
+
+      setPromptPreview(data);
+    } catch (error) {
+      console.error('Error previewing prompt:', error);
+      alert('Failed to preview prompt.');
+    } finally {
+      setIsPreviewingPrompt(false);
+    }
+  };
+
+  // Experiments, plus the prompt versions they can compare
+  const loadExperiments = async () => {
+    setIsLoadingExperiments(true);
+    setError('');
+    try {
+      const [experimentsResponse, promptsResponse] = await Promise.all([
+        fetch('/api/admin/experiments', { credentials: 'include' }),
+        fetch('/api/admin/prompts', { credentials: 'include' }),
+      ]);
+
+      if (!experimentsResponse.ok || !promptsResponse.ok) {
+        throw new Error('Failed to load experiments');
+      }
+
+      const experimentsData = await experimentsResponse.json();
+      const promptsData = await promptsResponse.json();
+      setExperiments(experimentsData.experiments || []);
+      setPromptCategories(promptsData.categories || []);
+      setPromptVersions(promptsData.versions || []);
+    } catch (error) {
+      console.error('Error loading experiments:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load experiments');
+    } finally {
+      setIsLoadingExperiments(false);
+    }
+  };
+
+  const startExperiment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm(`Start "${experimentDraft.name}" for ${experimentDraft.category_id} (${experimentDraft.tier})? It applies from the next digest.`)) {
+      return;
+    }
+
+    setIsSavingExperiment(true);
+    try {
+      const response = await fetch('/api/admin/experiments', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          ...experimentDraft,
+          control_version_id: experimentDraft.control_version_id || null,
+          variant_version_id: experimentDraft.variant_version_id || null,
+        }),
+      });
+
+      if (!response.ok) {
+        const { error: errorData } = await response.json();
+        alert(errorData || 'Failed to start experiment.');
+        return;
+      }
+
+      setExperimentDraft({ ...experimentDraft, name: '' });
+      await loadExperiments();
+    } catch (error) {
+      console.error('Error starting experiment:', error);
+      alert('Failed to start experiment.');
+    } finally {
+      setIsSavingExperiment(false);
+    }
+  };
+
+  const stopExperiment = async (experiment: PromptExperiment) => {
+    if (!confirm(`Stop "${experiment.name}"? All users go back to the active prompt from the next digest.`)) return;
+
+    setIsSavingExperiment(true);
+    try {
+      const response = await fetch('/api/admin/experiments', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ id: experiment.id }),
+      });
+
+      if (!response.ok) {
+        const { error: errorData } = await response.json();
+        alert(errorData || 'Failed to stop experiment.');
+        return;
+      }
+
+      await loadExperiments();
+    } catch (error) {
+      console.error('Error stopping experiment:', error);
+      alert('Failed to stop experiment.');
+    } finally {
+      setIsSavingExperiment(false);
+    }
+  };
+
+  // "Built-in" or "Version N" for an experiment arm's prompt
+  const getPromptVersionLabel = (versionId: string | null) => {
+    if (!versionId) return 'Built-in';
+    const version = promptVersions.find((v) => v.id === versionId);
+    return version ? `Version ${version.version}` : 'Deleted version';
+  };
+
   const toggleSummaryTopic = (topic: string) => {
     const newExpanded = new Set(expandedSummaryTopics);
     if (newExpanded.has(topic)) {
@@ -554,6 +1163,9 @@ export default function AdminPortal() {
     setExpandedCategories(newExpanded);
   };
 
+  // Small amounts need more precision: a day of summaries can cost under a cent
+  const formatCost = (usd: number) => `$${usd >= 1 ? usd.toFixed(2) : usd.toFixed(4)}`;
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -646,6 +1258,17 @@ export default function AdminPortal() {
             <FileText className="w-4 h-4" />
             <span>Logs</span>
           </button>
+          <button
+            onClick={() => setActiveTab('deliveries')}
+            className={`px-3 sm:px-6 py-3 font-medium transition-colors flex items-center space-x-2 whitespace-nowrap ${
+              activeTab === 'deliveries'
+                ? 'text-[#FFA500] border-b-2 border-[#FFA500]'
+                : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            <Mail className="w-4 h-4" />
+            <span>Deliveries</span>
+          </button>
           <button
             onClick={() => setActiveTab('summaries')}
             className={`px-3 sm:px-6 py-3 font-medium transition-colors flex items-center space-x-2 whitespace-nowrap ${
@@ -657,6 +1280,50 @@ export default function AdminPortal() {
             <Newspaper className="w-4 h-4" />
             <span>Summaries</span>
           </button>
+          <button
+            onClick={() => setActiveTab('sources')}
+            className={`px-3 sm:px-6 py-3 font-medium transition-colors flex items-center space-x-2 whitespace-nowrap ${
+              activeTab === 'sources'
+                ? 'text-[#FFA500] border-b-2 border-[#FFA500]'
+                : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            <Shield className="w-4 h-4" />
+            <span>Sources</span>
+          </button>
+          <button
+            onClick={() => setActiveTab('prompts')}
+            className={`px-3 sm:px-6 py-3 font-medium transition-colors flex items-center space-x-2 whitespace-nowrap ${
+              activeTab === 'prompts'
+                ? 'text-[#FFA500] border-b-2 border-[#FFA500]'
+                : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            <MessageSquare className="w-4 h-4" />
+            <span>Prompts</span>
+          </button>
+          <button
+            onClick={() => setActiveTab('experiments')}
+            className={`px-3 sm:px-6 py-3 font-medium transition-colors flex items-center space-x-2 whitespace-nowrap ${
+              activeTab === 'experiments'
+                ? 'text-[#FFA500] border-b-2 border-[#FFA500]'
+                : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            <FlaskConical className="w-4 h-4" />
+            <span>Experiments</span>
+          </button>
+          <button
+            onClick={() => setActiveTab('costs')}
+            className={`px-3 sm:px-6 py-3 font-medium transition-colors flex items-center space-x-2 whitespace-nowrap ${
+              activeTab === 'costs'
+                ? 'text-[#FFA500] border-b-2 border-[#FFA500]'
+                : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            <DollarSign className="w-4 h-4" />
+            <span>Costs</span>
+          </button>
         </div>
 
         {/* Error Message */}
@@ -998,10 +1665,145 @@ export default function AdminPortal() {
                           </div>
                         </td>
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Deliveries Tab */}
+        {activeTab === 'deliveries' && (
+          <div className="bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg p-4 sm:p-6">
+            <div className="mb-6">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-2">
+                <h2 className="text-xl font-medium text-white">Deliveries</h2>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="date"
+                    value={ledgerDate}
+                    onChange={(e) => {
+                      setLedgerDate(e.target.value);
+                      loadLedger(e.target.value);
+                    }}
+                    className="bg-[#2a2a2a] border border-[#FFA500]/30 text-white text-sm rounded-lg px-3 py-1.5 focus:outline-none focus:border-[#FFA500] [color-scheme:dark]"
+                  />
+                  <button
+                    onClick={() => {
+                      const today = new Date().toISOString().split('T')[0];
+                      setLedgerDate(today);
+                      loadLedger(today);
+                    }}
+                    className="text-xs px-3 py-1.5 bg-[#2a2a2a] border border-[#FFA500]/30 text-gray-300 rounded-lg hover:text-white hover:border-[#FFA500] transition-colors"
+                  >
+                    Today
+                  </button>
+                </div>
+              </div>
+              <p className="text-sm text-gray-400">
+                Send ledger for local date {ledgerData?.date || ledgerDate}. Each user gets at most one digest per local date.
+              </p>
+            </div>
+
+            {isLoadingLedger ? (
+              <div className="text-center py-12">
+                <div className="w-8 h-8 border-2 border-[#FFA500] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-gray-400">Loading deliveries...</p>
+              </div>
+            ) : !ledgerData || ledgerData.entries.length === 0 ? (
+              <div className="text-center py-12">
+                <Mail className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+                <p className="text-gray-400">No deliveries recorded for this date</p>
+              </div>
+            ) : (
+              <>
+                {/* Stats */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4 mb-8">
+                  <div className="bg-[#2a2a2a] border border-[#FFA500]/20 p-4 rounded-lg">
+                    <p className="text-xs text-gray-400 mb-1">Total</p>
+                    <p className="text-2xl font-medium text-white">{ledgerData.total}</p>
+                  </div>
+                  <div className="bg-[#2a2a2a] border border-[#FFA500]/20 p-4 rounded-lg">
+                    <p className="text-xs text-gray-400 mb-1">Sent</p>
+                    <p className="text-2xl font-medium text-green-400">{ledgerData.sent}</p>
+                  </div>
+                  <div className="bg-[#2a2a2a] border border-[#FFA500]/20 p-4 rounded-lg">
+                    <p className="text-xs text-gray-400 mb-1">In Progress</p>
+                    <p className="text-2xl font-medium text-yellow-400">{ledgerData.claimed}</p>
+                    {ledgerData.stale > 0 && (
+                      <p className="text-xs text-red-400 mt-1">{ledgerData.stale} stuck - check Resend before resending</p>
+                    )}
+                  </div>
+                  <div className="bg-[#2a2a2a] border border-[#FFA500]/20 p-4 rounded-lg">
+                    <p className="text-xs text-gray-400 mb-1">Failed</p>
+                    <p className={`text-2xl font-medium ${ledgerData.failed > 0 ? 'text-red-400' : 'text-white'}`}>
+                      {ledgerData.failed}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-[#FFA500]/20">
+                        <th className="text-left py-3 px-4 text-sm font-medium text-gray-400">User</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-gray-400">Kind</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-gray-400">Status</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-gray-400">Source</th>
+                        <th className="text-center py-3 px-4 text-sm font-medium text-gray-400">Attempts</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-gray-400">Topics</th>
+                        <th className="text-left py-3 px-4 text-sm font-medium text-gray-400">Time</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {ledgerData.entries.map((entry) => (
+                        <tr key={entry.id} className="border-b border-[#FFA500]/10 hover:bg-white/5">
+                          <td className="py-4 px-4 text-sm text-white">{entry.email || entry.user_id}</td>
+                          <td className="py-4 px-4 text-sm text-gray-400">{entry.digest_kind}</td>
+                          <td className="py-4 px-4">
+                            <span
+                              className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium ${
+                                entry.status === 'sent'
+                                  ? 'bg-green-900/30 text-green-400 border border-green-500/30'
+                                  : entry.status === 'failed'
+                                    ? 'bg-red-900/30 text-red-400 border border-red-500/30'
+                                    : 'bg-yellow-900/30 text-yellow-400 border border-yellow-500/30'
+                              }`}
+                              title={
+                                entry.stale
+                                  ? 'Claimed but never recorded as sent or failed - check Resend before resending'
+                                  : entry.error || undefined
+                              }
+                            >
+                              {entry.status === 'sent' ? (
+                                <CheckCircle className="w-3 h-3" />
+                              ) : entry.status === 'failed' ? (
+                                <XCircle className="w-3 h-3" />
+                              ) : (
+                                <Clock className="w-3 h-3" />
+                              )}
+                              <span className="capitalize">{entry.stale ? 'Stuck' : entry.status}</span>
+                            </span>
+                          </td>
+                          <td className="py-4 px-4 text-sm text-gray-400 capitalize">{entry.source}</td>
+                          <td className="py-4 px-4 text-center text-sm text-gray-400">{entry.attempt_count}</td>
+                          <td className="py-4 px-4 text-sm text-gray-400">{entry.topics.join(', ') || '—'}</td>
+                          <td className="py-4 px-4 text-sm text-gray-400">
+                            {new Date(entry.sent_at || entry.claimed_at).toLocaleString('en-US', {
+                              month: 'short',
+                              day: 'numeric',
+                              hour: 'numeric',
+                              minute: '2-digit',
+                              hour12: true,
+                            })}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
             )}
           </div>
         )}
@@ -1053,7 +1855,7 @@ export default function AdminPortal() {
             ) : (
               <>
                 {/* Stats */}
-                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-3 sm:gap-4 mb-8">
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-3 sm:gap-4 mb-8">
                   <div className="bg-[#2a2a2a] border border-[#FFA500]/20 p-4 rounded-lg">
                     <p className="text-xs text-gray-400 mb-1">Total Topics</p>
                     <p className="text-2xl font-medium text-white">{summariesData.totalTopics}</p>
@@ -1076,6 +1878,12 @@ export default function AdminPortal() {
                     <p className="text-xs text-gray-400 mb-1">Emails Sent</p>
                     <p className="text-2xl font-medium text-white">{summariesData.emailsSentToday}</p>
                   </div>
+                  <div className="bg-[#2a2a2a] border border-[#FFA500]/20 p-4 rounded-lg">
+                    <p className="text-xs text-gray-400 mb-1">Unsupported Claims</p>
+                    <p className={`text-2xl font-medium ${summariesData.faithfulnessFailures > 0 ? 'text-yellow-400' : 'text-white'}`}>
+                      {summariesData.faithfulnessFailures}
+                    </p>
+                  </div>
                 </div>
 
                 {/* Topic List */}
@@ -1113,6 +1921,11 @@ export default function AdminPortal() {
                                     Editorial
                                   </span>
                                 )}
+                                {topicData.faithfulnessFailures.length > 0 && (
+                                  <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-900/30 text-yellow-400 border border-yellow-500/30">
+                                    {topicData.faithfulnessFailures.length} dropped
+                                  </span>
+                                )}
                               </div>
                             </div>
                             <div className="flex items-center gap-2 sm:gap-4 flex-shrink-0 ml-2">
@@ -1176,7 +1989,23 @@ export default function AdminPortal() {
                                           <ExternalLink className="w-3 h-3" />
                                         </a>
                                       </div>
-                                      <p className="text-xs text-gray-500 mb-2">{summary.source}</p>
+                                      {summary.citations && summary.citations.length > 1 ? (
+                                        <div className="flex flex-wrap gap-1 mb-2">
+                                          {summary.citations.map((citation) => (
+                                            <a
+                                              key={citation.url}
+                                              href={citation.url}
+                                              target="_blank"
+                                              rel="noopener noreferrer"
+                                              className="px-2 py-0.5 text-xs text-gray-400 bg-[#2a2a2a] border border-[#FFA500]/20 rounded-full hover:text-[#FFA500]"
+                                            >
+                                              {citation.source}
+                                            </a>
+                                          ))}
+                                        </div>
+                                      ) : (
+                                        <p className="text-xs text-gray-500 mb-2">{summary.source}</p>
+                                      )}
                                       {summary.bullets && summary.bullets.length > 0 ? (
                                         <ul className="space-y-1">
                                           {summary.bullets.map((bullet, bIdx) => (
@@ -1195,6 +2024,35 @@ export default function AdminPortal() {
                               </div>
                             )}
 
+                            {/* Bullets and summaries the faithfulness check dropped */}
+                            {topicData.faithfulnessFailures.length > 0 && (
+                              <div className="mb-4">
+                                <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wider mb-2 flex items-center gap-1">
+                                  <AlertTriangle className="w-3 h-3 text-yellow-400" />
+                                  Dropped for unsupported claims ({topicData.faithfulnessFailures.length})
+                                </h4>
+                                <div className="space-y-2">
+                                  {topicData.faithfulnessFailures.map((failure, idx) => (
+                                    <div key={idx} className="p-3 bg-[#1a1a1a] border border-yellow-500/20 rounded">
+                                      <p className="text-xs text-gray-500 mb-1 truncate">{failure.title}</p>
+                                      {failure.reason === 'unknown-url' ? (
+                                        <p className="text-xs text-gray-300">
+                                          Cited a url that isn&apos;t one of the articles: <span className="break-all">{failure.url}</span>
+                                        </p>
+                                      ) : (
+                                        <>
+                                          <p className="text-xs text-gray-300 mb-1">{failure.text}</p>
+                                          <p className="text-xs text-yellow-400">
+                                            Not in the article: {failure.unsupported.map((claim) => claim.text).join(', ')}
+                                          </p>
+                                        </>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
+
                             {/* Articles (show if no summaries, or as fallback) */}
                             {topicData.summaries.length === 0 && topicData.articles.length > 0 && (
                               <div>
@@ -1432,6 +2290,826 @@ export default function AdminPortal() {
             </div>
           </>
         )}
+
+        {/* Sources Tab */}
+        {activeTab === 'sources' && (
+          <>
+            <div className="mb-6">
+              <p className="text-sm text-gray-400">
+                Source quality tiers and per-topic preferred/blocked sources used by article scoring. Changes apply from the next digest run.
+              </p>
+            </div>
+
+            {isLoadingSources ? (
+              <div className="text-center py-12">
+                <div className="w-8 h-8 border-2 border-[#FFA500] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-gray-400">Loading sources...</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Domain Tiers */}
+                <div className="bg-[#2a2a2a] border border-[#FFA500]/20 rounded-lg overflow-hidden">
+                  <div className="px-6 py-4 border-b border-[#FFA500]/20">
+                    <h2 className="text-lg font-medium text-white">Domain Tiers ({sourceDomains.length})</h2>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Tier 1 scores highest; unlisted domains get the default score. Blocked domains are dropped for every topic.
+                    </p>
+                  </div>
+                  <form onSubmit={addSourceDomain} className="px-6 py-4 border-b border-[#FFA500]/10 flex flex-col sm:flex-row gap-2">
+                    <input
+                      type="text"
+                      value={newDomain}
+                      onChange={(e) => setNewDomain(e.target.value)}
+                      placeholder="e.g., reuters.com"
+                      className="flex-1 px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                      required
+                      disabled={isSavingSource}
+                    />
+                    <select
+                      value={newDomainTier}
+                      onChange={(e) => setNewDomainTier(e.target.value)}
+                      className="px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                    >
+                      <option value="">Unranked</option>
+                      <option value="1">Tier 1</option>
+                      <option value="2">Tier 2</option>
+                      <option value="3">Tier 3</option>
+                      <option value="blocked">Blocked</option>
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={isSavingSource}
+                      className="px-4 py-2 bg-gradient-to-r from-[#FFA500] to-[#FF6B47] text-[#1a1a1a] text-sm font-medium rounded-lg hover:from-[#FFD700] hover:to-[#FFA500] disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center space-x-1"
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>Save</span>
+                    </button>
+                  </form>
+                  {sourceDomains.length === 0 ? (
+                    <div className="px-6 py-12 text-center text-sm text-gray-400">
+                      No domains configured. Scoring uses the built-in tiers until the table is seeded.
+                    </div>
+                  ) : (
+                    <div className="divide-y divide-[#FFA500]/10 max-h-[600px] overflow-y-auto">
+                      {sourceDomains.map((source) => (
+                        <div key={source.domain} className="px-6 py-3 flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <p className={`text-sm truncate ${source.blocked ? 'text-red-400 line-through' : 'text-white'}`}>
+                              {source.domain}
+                            </p>
+                            {source.notes && <p className="text-xs text-gray-500 truncate">{source.notes}</p>}
+                          </div>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            <select
+                              value={source.blocked ? 'blocked' : String(source.tier ?? '')}
+                              onChange={(e) =>
+                                saveSource({
+                                  kind: 'domain',
+                                  domain: source.domain,
+                                  tier: e.target.value === 'blocked' || e.target.value === '' ? null : Number(e.target.value),
+                                  blocked: e.target.value === 'blocked',
+                                  notes: source.notes,
+                                })
+                              }
+                              disabled={isSavingSource}
+                              className="px-2 py-1 bg-[#1a1a1a] border border-[#FFA500]/20 rounded text-xs text-white focus:outline-none focus:ring-1 focus:ring-[#FFA500]"
+                            >
+                              <option value="">Unranked</option>
+                              <option value="1">Tier 1</option>
+                              <option value="2">Tier 2</option>
+                              <option value="3">Tier 3</option>
+                              <option value="blocked">Blocked</option>
+                            </select>
+                            <button
+                              type="button"
+                              onClick={() => deleteSource(`kind=domain&domain=${encodeURIComponent(source.domain)}`, source.domain)}
+                              className="text-gray-500 hover:text-red-400"
+                              title="Remove domain"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Topic Sources */}
+                <div className="bg-[#2a2a2a] border border-[#FFA500]/20 rounded-lg overflow-hidden">
+                  <div className="px-6 py-4 border-b border-[#FFA500]/20">
+                    <h2 className="text-lg font-medium text-white">Topic Sources ({topicSources.length})</h2>
+                    <p className="text-xs text-gray-400 mt-1">
+                      A topic key applies to every topic whose name contains it. Preferred sources get a scoring boost; blocked ones are dropped.
+                    </p>
+                  </div>
+                  <form onSubmit={addTopicSource} className="px-6 py-4 border-b border-[#FFA500]/10 flex flex-col sm:flex-row gap-2">
+                    <input
+                      type="text"
+                      value={newTopicKey}
+                      onChange={(e) => setNewTopicKey(e.target.value)}
+                      placeholder="Topic key, e.g. nba"
+                      className="flex-1 px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                      required
+                      disabled={isSavingSource}
+                    />
+                    <input
+                      type="text"
+                      value={newTopicDomain}
+                      onChange={(e) => setNewTopicDomain(e.target.value)}
+                      placeholder="Domain"
+                      className="flex-1 px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                      required
+                      disabled={isSavingSource}
+                    />
+                    <select
+                      value={newTopicSourceMode}
+                      onChange={(e) => setNewTopicSourceMode(e.target.value as 'preferred' | 'blocked')}
+                      className="px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                    >
+                      <option value="preferred">Preferred</option>
+                      <option value="blocked">Blocked</option>
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={isSavingSource}
+                      className="px-4 py-2 bg-gradient-to-r from-[#FFA500] to-[#FF6B47] text-[#1a1a1a] text-sm font-medium rounded-lg hover:from-[#FFD700] hover:to-[#FFA500] disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center space-x-1"
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>Add</span>
+                    </button>
+                  </form>
+                  {topicSources.length === 0 ? (
+                    <div className="px-6 py-12 text-center text-sm text-gray-400">
+                      No topic sources configured. Scoring uses the built-in topic sources until the table is seeded.
+                    </div>
+                  ) : (
+                    <div className="divide-y divide-[#FFA500]/10 max-h-[600px] overflow-y-auto">
+                      {Array.from(new Set(topicSources.map((s) => s.topic_key))).map((topicKey) => (
+                        <div key={topicKey} className="px-6 py-3">
+                          <p className="text-sm font-medium text-white mb-2">{topicKey}</p>
+                          <div className="flex flex-wrap gap-2">
+                            {topicSources
+                              .filter((s) => s.topic_key === topicKey)
+                              .map((source) => (
+                                <span
+                                  key={source.id}
+                                  className={`text-xs px-2 py-1 rounded-full flex items-center gap-1 ${
+                                    source.blocked
+                                      ? 'bg-red-900/30 text-red-400 border border-red-500/30'
+                                      : 'bg-[#FFA500]/10 text-[#FFA500] border border-[#FFA500]/30'
+                                  }`}
+                                >
+                                  {source.domain}
+                                  <button
+                                    type="button"
+                                    onClick={() => deleteSource(`kind=topic&id=${encodeURIComponent(source.id)}`, `${source.domain} from "${topicKey}"`)}
+                                    className="hover:text-white"
+                                    title="Remove"
+                                  >
+                                    <X className="w-3 h-3" />
+                                  </button>
+                                </span>
+                              ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+        {activeTab === 'prompts' && (
+          <>
+            <div className="mb-6">
+              <p className="text-sm text-gray-400">
+                Summarization prompts per topic category and tier. Each save is a new version; the active version applies from the next digest, and any older version can be reactivated. Use {'{topic}'} where the topic name goes.
+              </p>
+            </div>
+
+            {isLoadingPrompts ? (
+              <div className="text-center py-12">
+                <div className="w-8 h-8 border-2 border-[#FFA500] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-gray-400">Loading prompts...</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                {/* Category and Version History */}
+                <div className="bg-[#2a2a2a] border border-[#FFA500]/20 rounded-lg overflow-hidden">
+                  <div className="px-6 py-4 border-b border-[#FFA500]/20 space-y-3">
+                    <h2 className="text-lg font-medium text-white">Category</h2>
+                    <select
+                      value={promptCategoryId}
+                      onChange={(e) => selectPromptCategory(e.target.value, promptTier)}
+                      className="w-full px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                    >
+                      {promptCategories.map((category) => (
+                        <option key={category.id} value={category.id}>
+                          {category.id}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="flex gap-2">
+                      {(['free', 'paid'] as const).map((tier) => (
+                        <button
+                          key={tier}
+                          type="button"
+                          onClick={() => selectPromptCategory(promptCategoryId, tier)}
+                          className={`flex-1 px-3 py-1.5 text-xs rounded-lg border transition-colors ${
+                            promptTier === tier
+                              ? 'bg-[#FFA500]/10 text-[#FFA500] border-[#FFA500]/50'
+                              : 'bg-[#1a1a1a] text-gray-400 border-[#FFA500]/20 hover:text-white'
+                          }`}
+                        >
+                          {tier === 'free' ? 'Free' : 'Paid'}
+                        </button>
+                      ))}
+                    </div>
+                    {(() => {
+                      const category = promptCategories.find((c) => c.id === promptCategoryId);
+                      if (!category) return null;
+                      return (
+                        <p className="text-xs text-gray-500">
+                          {category.keywords.length > 0
+                            ? `Topics containing: ${category.keywords.join(', ')}`
+                            : 'Topics that match no other category'}
+                          {' · '}
+                          {category.format[promptTier]}
+                        </p>
+                      );
+                    })()}
+                  </div>
+
+                  <div className="divide-y divide-[#FFA500]/10 max-h-[600px] overflow-y-auto">
+                    {(() => {
+                      const versions = promptVersions.filter(
+                        (v) => v.category_id === promptCategoryId && v.tier === promptTier
+                      );
+                      const hasActive = versions.some((v) => v.is_active);
+                      return (
+                        <>
+                          <div className="px-6 py-3 flex items-center justify-between gap-3">
+                            <div className="min-w-0">
+                              <p className="text-sm text-white">Built-in</p>
+                              <p className="text-xs text-gray-500">Prompts shipped with the app</p>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                              {!hasActive ? (
+                                <span className="text-xs px-2 py-0.5 rounded-full bg-green-900/30 text-green-400 border border-green-500/30">Active</span>
+                              ) : (
+                                <button
+                                  type="button"
+                                  onClick={() => activatePromptVersion(null, 'the built-in prompts')}
+                                  disabled={isSavingPrompt}
+                                  className="text-xs text-gray-400 hover:text-[#FFA500] flex items-center gap-1 disabled:opacity-50"
+                                  title="Go back to the built-in prompts"
+                                >
+                                  <RotateCcw className="w-3 h-3" />
+                                  <span>Use</span>
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  const defaults = promptCategories.find((c) => c.id === promptCategoryId)?.defaults[promptTier];
+                                  if (defaults) setPromptDraft({ ...defaults });
+                                }}
+                                className="text-xs text-gray-400 hover:text-white"
+                              >
+                                Edit
+                              </button>
+                            </div>
+                          </div>
+                          {versions.map((version) => (
+                            <div key={version.id} className="px-6 py-3 flex items-start justify-between gap-3">
+                              <div className="min-w-0">
+                                <p className="text-sm text-white">Version {version.version}</p>
+                                <p className="text-xs text-gray-500">
+                                  {formatDate(version.created_at)}
+                                  {version.created_by ? ` · ${version.created_by}` : ''}
+                                </p>
+                                {version.notes && <p className="text-xs text-gray-400 mt-1">{version.notes}</p>}
+                              </div>
+                              <div className="flex items-center gap-2 flex-shrink-0">
+                                {version.is_active ? (
+                                  <span className="text-xs px-2 py-0.5 rounded-full bg-green-900/30 text-green-400 border border-green-500/30">Active</span>
+                                ) : (
+                                  <button
+                                    type="button"
+                                    onClick={() => activatePromptVersion(version.id, `version ${version.version}`)}
+                                    disabled={isSavingPrompt}
+                                    className="text-xs text-gray-400 hover:text-[#FFA500] flex items-center gap-1 disabled:opacity-50"
+                                    title="Activate this version"
+                                  >
+                                    <RotateCcw className="w-3 h-3" />
+                                    <span>Use</span>
+                                  </button>
+                                )}
+                                <button
+                                  type="button"
+                                  onClick={() =>
+                                    setPromptDraft({
+                                      system: version.system_prompt,
+                                      directive: version.directive,
+                                      instructions: version.instructions,
+                                    })
+                                  }
+                                  className="text-xs text-gray-400 hover:text-white"
+                                >
+                                  Edit
+                                </button>
+                              </div>
+                            </div>
+                          ))}
+                        </>
+                      );
+                    })()}
+                  </div>
+                </div>
+
+                {/* Editor and Preview */}
+                <div className="lg:col-span-2 space-y-6">
+                  <div className="bg-[#2a2a2a] border border-[#FFA500]/20 rounded-lg p-6 space-y-4">
+                    <h2 className="text-lg font-medium text-white">Draft</h2>
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">System prompt</label>
+                      <textarea
+                        value={promptDraft.system}
+                        onChange={(e) => setPromptDraft({ ...promptDraft, system: e.target.value })}
+                        rows={4}
+                        className="w-full px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white font-mono focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">Task (&quot;From the articles below, ...&quot;)</label>
+                      <textarea
+                        value={promptDraft.directive}
+                        onChange={(e) => setPromptDraft({ ...promptDraft, directive: e.target.value })}
+                        rows={2}
+                        className="w-full px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white font-mono focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">Instructions</label>
+                      <textarea
+                        value={promptDraft.instructions}
+                        onChange={(e) => setPromptDraft({ ...promptDraft, instructions: e.target.value })}
+                        rows={14}
+                        className="w-full px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white font-mono focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                      />
+                    </div>
+                    <input
+                      type="text"
+                      value={promptNotes}
+                      onChange={(e) => setPromptNotes(e.target.value)}
+                      placeholder="What changed (optional)"
+                      className="w-full px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                    />
+                    <div className="flex flex-col sm:flex-row gap-2 sm:justify-end">
+                      <button
+                        type="button"
+                        onClick={() => savePromptVersion(false)}
+                        disabled={isSavingPrompt}
+                        className="px-4 py-2 bg-[#1a1a1a] border border-[#FFA500]/30 text-gray-300 text-sm rounded-lg hover:text-white hover:border-[#FFA500] disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-1"
+                      >
+                        <Save className="w-4 h-4" />
+                        <span>Save version</span>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => savePromptVersion(true)}
+                        disabled={isSavingPrompt}
+                        className="px-4 py-2 bg-gradient-to-r from-[#FFA500] to-[#FF6B47] text-[#1a1a1a] text-sm font-medium rounded-lg hover:from-[#FFD700] hover:to-[#FFA500] disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center space-x-1"
+                      >
+                        <CheckCircle className="w-4 h-4" />
+                        <span>Save &amp; activate</span>
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="bg-[#2a2a2a] border border-[#FFA500]/20 rounded-lg p-6">
+                    <h2 className="text-lg font-medium text-white mb-1">Preview</h2>
+                    <p className="text-xs text-gray-400 mb-4">
+                      Summarizes today&apos;s cached articles for a topic with the draft above. Nothing is saved or sent.
+                    </p>
+                    <form onSubmit={previewPrompt} className="flex flex-col sm:flex-row gap-2 mb-4">
+                      <input
+                        type="text"
+                        value={previewTopic}
+                        onChange={(e) => setPreviewTopic(e.target.value)}
+                        placeholder="Topic, e.g. NBA"
+                        className="flex-1 px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                        required
+                        disabled={isPreviewingPrompt}
+                      />
+                      <button
+                        type="submit"
+                        disabled={isPreviewingPrompt}
+                        className="px-4 py-2 bg-[#1a1a1a] border border-[#FFA500]/30 text-gray-300 text-sm rounded-lg hover:text-white hover:border-[#FFA500] disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-1"
+                      >
+                        <Eye className="w-4 h-4" />
+                        <span>{isPreviewingPrompt ? 'Running...' : 'Preview'}</span>
+                      </button>
+                    </form>
+
+                    {promptPreview && (
+                      <div className="space-y-4">
+                        <p className="text-xs text-gray-500">
+                          {promptPreview.articleCount} cached articles for &quot;{promptPreview.topic}&quot;
+                          {promptPreview.summary.fallback && ' · OpenAI failed, showing fallback summaries'}
+                        </p>
+                        {promptPreview.topicCategory !== promptCategoryId && (
+                          <p className="text-xs text-yellow-400">
+                            Digests use the {promptPreview.topicCategory} category for this topic, so this draft won&apos;t apply to it.
+                          </p>
+                        )}
+                        {promptPreview.summary.summaries.length === 0 ? (
+                          <p className="text-sm text-gray-400">No summaries returned.</p>
+                        ) : (
+                          promptPreview.summary.summaries.map((item, idx) => (
+                            <div key={idx} className="border-l-2 border-[#FFA500]/40 pl-3">
+                              <a
+                                href={item.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-sm font-medium text-[#FFA500] hover:underline"
+                              >
+                                {item.title}
+                              </a>
+                              <p className="text-xs text-gray-500 mb-1">{item.source}</p>
+                              {item.bullets && item.bullets.length > 0 ? (
+                                <ul className="list-disc list-inside space-y-1">
+                                  {item.bullets.map((bullet, bulletIdx) => (
+                                    <li key={bulletIdx} className="text-xs text-gray-300">{bullet}</li>
+                                  ))}
+                                </ul>
+                              ) : (
+                                <p className="text-xs text-gray-300">{item.summary}</p>
+                              )}
+                            </div>
+                          ))
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+        {activeTab === 'experiments' && (
+          <>
+            <div className="mb-6">
+              <p className="text-sm text-gray-400">
+                A/B test two prompts for a topic category and tier. Users are split between control and variant and keep their arm; results compare article click-through per digest and unsubscribes within a week of a delivery. Clicks are only recorded when EMAIL_TRACKING_SECRET is set.
+              </p>
+            </div>
+
+            {isLoadingExperiments ? (
+              <div className="text-center py-12">
+                <div className="w-8 h-8 border-2 border-[#FFA500] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-gray-400">Loading experiments...</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                {/* New Experiment */}
+                <div className="bg-[#2a2a2a] border border-[#FFA500]/20 rounded-lg p-6 h-fit">
+                  <h2 className="text-lg font-medium text-white mb-4">New Experiment</h2>
+                  <form onSubmit={startExperiment} className="space-y-4">
+                    <input
+                      type="text"
+                      value={experimentDraft.name}
+                      onChange={(e) => setExperimentDraft({ ...experimentDraft, name: e.target.value })}
+                      placeholder="Name, e.g. Shorter sports bullets"
+                      className="w-full px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                      required
+                    />
+                    <div className="flex gap-2">
+                      <select
+                        value={experimentDraft.category_id}
+                        onChange={(e) =>
+                          setExperimentDraft({ ...experimentDraft, category_id: e.target.value, control_version_id: '', variant_version_id: '' })
+                        }
+                        className="flex-1 px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                      >
+                        {promptCategories.map((category) => (
+                          <option key={category.id} value={category.id}>
+                            {category.id}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={experimentDraft.tier}
+                        onChange={(e) =>
+                          setExperimentDraft({
+                            ...experimentDraft,
+                            tier: e.target.value as 'free' | 'paid',
+                            control_version_id: '',
+                            variant_version_id: '',
+                          })
+                        }
+                        className="px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                      >
+                        <option value="free">Free</option>
+                        <option value="paid">Paid</option>
+                      </select>
+                    </div>
+                    {(['control_version_id', 'variant_version_id'] as const).map((field) => (
+                      <div key={field}>
+                        <label className="block text-xs text-gray-400 mb-1">
+                          {field === 'control_version_id' ? 'Control' : 'Variant'}
+                        </label>
+                        <select
+                          value={experimentDraft[field]}
+                          onChange={(e) => setExperimentDraft({ ...experimentDraft, [field]: e.target.value })}
+                          className="w-full px-3 py-2 bg-[#1a1a1a] border border-[#FFA500]/20 rounded-lg text-sm text-white focus:outline-none focus:ring-2 focus:ring-[#FFA500] focus:border-transparent"
+                        >
+                          <option value="">Built-in</option>
+                          {promptVersions
+                            .filter((v) => v.category_id === experimentDraft.category_id && v.tier === experimentDraft.tier)
+                            .map((version) => (
+                              <option key={version.id} value={version.id}>
+                                Version {version.version}
+                                {version.is_active ? ' (active)' : ''}
+                                {version.notes ? ` - ${version.notes}` : ''}
+                              </option>
+                            ))}
+                        </select>
+                      </div>
+                    ))}
+                    <div>
+                      <label className="block text-xs text-gray-400 mb-1">
+                        Variant share: {experimentDraft.variant_percent}% of users
+                      </label>
+                      <input
+                        type="range"
+                        min={1}
+                        max={99}
+                        value={experimentDraft.variant_percent}
+                        onChange={(e) => setExperimentDraft({ ...experimentDraft, variant_percent: Number(e.target.value) })}
+                        className="w-full accent-[#FFA500]"
+                      />
+                    </div>
+                    <button
+                      type="submit"
+                      disabled={isSavingExperiment || experimentDraft.control_version_id === experimentDraft.variant_version_id}
+                      className="w-full px-4 py-2 bg-gradient-to-r from-[#FFA500] to-[#FF6B47] text-[#1a1a1a] text-sm font-medium rounded-lg hover:from-[#FFD700] hover:to-[#FFA500] disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center space-x-1"
+                    >
+                      <FlaskConical className="w-4 h-4" />
+                      <span>Start experiment</span>
+                    </button>
+                  </form>
+                </div>
+
+                {/* Experiments and Results */}
+                <div className="lg:col-span-2 space-y-4">
+                  {experiments.length === 0 ? (
+                    <div className="bg-[#2a2a2a] border border-[#FFA500]/20 rounded-lg p-6 text-center">
+                      <p className="text-sm text-gray-400">No experiments yet</p>
+                    </div>
+                  ) : (
+                    experiments.map((experiment) => (
+                      <div key={experiment.id} className="bg-[#2a2a2a] border border-[#FFA500]/20 rounded-lg overflow-hidden">
+                        <div className="px-6 py-4 border-b border-[#FFA500]/20 flex items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <div className="flex items-center gap-2">
+                              <h3 className="text-sm font-medium text-white">{experiment.name}</h3>
+                              {experiment.status === 'running' ? (
+                                <span className="text-xs px-2 py-0.5 rounded-full bg-green-900/30 text-green-400 border border-green-500/30">Running</span>
+                              ) : (
+                                <span className="text-xs px-2 py-0.5 rounded-full bg-gray-800 text-gray-400 border border-gray-600">Stopped</span>
+                              )}
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {experiment.category_id} ({experiment.tier}) · {getPromptVersionLabel(experiment.control_version_id)} vs{' '}
+                              {getPromptVersionLabel(experiment.variant_version_id)} · {100 - experiment.variant_percent}/{experiment.variant_percent} split
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              Started {formatDate(experiment.started_at)}
+                              {experiment.stopped_at ? ` · Stopped ${formatDate(experiment.stopped_at)}` : ''}
+                              {experiment.created_by ? ` · ${experiment.created_by}` : ''}
+                            </p>
+                          </div>
+                          {experiment.status === 'running' && (
+                            <button
+                              type="button"
+                              onClick={() => stopExperiment(experiment)}
+                              disabled={isSavingExperiment}
+                              className="text-xs text-gray-400 hover:text-red-400 flex items-center gap-1 disabled:opacity-50 flex-shrink-0"
+                            >
+                              <Square className="w-3 h-3" />
+                              <span>Stop</span>
+                            </button>
+                          )}
+                        </div>
+
+                        {!experiment.results ? (
+                          <p className="px-6 py-4 text-sm text-gray-400">Results unavailable</p>
+                        ) : (
+                          <div className="px-6 py-4 space-y-3">
+                            <div className="overflow-x-auto">
+                              <table className="w-full text-xs">
+                                <thead>
+                                  <tr className="text-gray-500 text-left">
+                                    <th className="pb-2 font-medium">Arm</th>
+                                    <th className="pb-2 font-medium text-right">Deliveries</th>
+                                    <th className="pb-2 font-medium text-right">Click-through</th>
+                                    <th className="pb-2 font-medium text-right">Users</th>
+                                    <th className="pb-2 font-medium text-right">Unsubscribed</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="text-gray-300">
+                                  {(['control', 'variant'] as const).map((arm) => {
+                                    const stats = experiment.results!.arms[arm];
+                                    return (
+                                      <tr key={arm}>
+                                        <td className="py-1 capitalize">{arm}</td>
+                                        <td className="py-1 text-right">{stats.delivered}</td>
+                                        <td className="py-1 text-right">
+                                          {(stats.clickRate * 100).toFixed(1)}% ({stats.clicked})
+                                        </td>
+                                        <td className="py-1 text-right">{stats.users}</td>
+                                        <td className="py-1 text-right">
+                                          {(stats.unsubscribeRate * 100).toFixed(1)}% ({stats.unsubscribed})
+                                        </td>
+                                      </tr>
+                                    );
+                                  })}
+                                </tbody>
+                              </table>
+                            </div>
+                            {([
+                              ['Click-through', experiment.results.clickThrough],
+                              ['Unsubscribe rate', experiment.results.unsubscribe],
+                            ] as const).map(([label, test]) => (
+                              <p key={label} className="text-xs text-gray-400">
+                                {label}:{' '}
+                                {!test ? (
+                                  'not enough data yet'
+                                ) : (
+                                  <>
+                                    variant {test.difference >= 0 ? '+' : ''}
+                                    {(test.difference * 100).toFixed(1)} pts (z = {test.z.toFixed(2)}, p = {test.pValue.toFixed(3)}){' '}
+                                    {test.significant ? (
+                                      <span className="text-green-400">significant at 95%</span>
+                                    ) : (
+                                      <span className="text-gray-500">not significant</span>
+                                    )}
+                                  </>
+                                )}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+        {activeTab === 'costs' && (
+          <>
+            <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+              <p className="text-sm text-gray-400">
+                Estimated spend on LLM calls, embeddings and news API requests, from per-call usage recorded by each cron run.
+              </p>
+              <select
+                value={costDays}
+                onChange={(e) => {
+                  const days = Number(e.target.value);
+                  setCostDays(days);
+                  loadCosts(days);
+                }}
+                className="bg-[#2a2a2a] border border-[#FFA500]/30 text-white text-sm rounded-lg px-3 py-1.5 focus:outline-none focus:border-[#FFA500]"
+              >
+                <option value={7}>Last 7 days</option>
+                <option value={30}>Last 30 days</option>
+                <option value={90}>Last 90 days</option>
+              </select>
+            </div>
+
+            {isLoadingCosts ? (
+              <div className="text-center py-12">
+                <div className="w-8 h-8 border-2 border-[#FFA500] border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+                <p className="text-gray-400">Loading costs...</p>
+              </div>
+            ) : !costsData ? (
+              <div className="text-center py-12">
+                <DollarSign className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+                <p className="text-gray-400">No data available</p>
+              </div>
+            ) : (
+              <div className="space-y-8">
+                {/* Daily Spend by Stage */}
+                <div className="bg-[#2a2a2a] border border-[#FFA500]/20 rounded-lg p-6">
+                  <div className="flex items-baseline justify-between mb-4">
+                    <h2 className="text-lg font-medium text-white">Daily spend by stage</h2>
+                    <p className="text-sm text-gray-400">{formatCost(costsData.totalCostUsd)} total</p>
+                  </div>
+                  {(() => {
+                    const maxDaily = Math.max(...costsData.daily.map((day) => day.totalCostUsd), 0);
+                    if (maxDaily === 0) {
+                      return <p className="text-sm text-gray-400 py-8 text-center">No recorded spend in this period</p>;
+                    }
+                    return (
+                      <>
+                        <div className="flex items-end gap-[2px] h-48">
+                          {costsData.daily.map((day) => (
+                            <div
+                              key={day.date}
+                              className="flex-1 h-full flex flex-col-reverse"
+                              title={`${day.date}: ${formatCost(day.totalCostUsd)}`}
+                            >
+                              {costsData.stages.map((stage, stageIdx) =>
+                                day.stages[stage] ? (
+                                  <div
+                                    key={stage}
+                                    className={COST_STAGE_COLORS[stageIdx % COST_STAGE_COLORS.length]}
+                                    style={{ height: `${(day.stages[stage] / maxDaily) * 100}%` }}
+                                  />
+                                ) : null
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex justify-between text-xs text-gray-500 mt-2">
+                          <span>{costsData.daily[0]?.date}</span>
+                          <span>Peak {formatCost(maxDaily)}/day</span>
+                          <span>{costsData.daily[costsData.daily.length - 1]?.date}</span>
+                        </div>
+                        <div className="flex flex-wrap gap-4 mt-4">
+                          {costsData.stages.map((stage, stageIdx) => (
+                            <div key={stage} className="flex items-center gap-2 text-xs text-gray-300">
+                              <span className={`w-3 h-3 rounded-sm ${COST_STAGE_COLORS[stageIdx % COST_STAGE_COLORS.length]}`} />
+                              <span>
+                                {stage} ({formatCost(costsData.daily.reduce((total, day) => total + (day.stages[stage] ?? 0), 0))})
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    );
+                  })()}
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                  {/* Top Topics */}
+                  <div className="bg-[#2a2a2a] border border-[#FFA500]/20 rounded-lg overflow-hidden">
+                    <div className="px-6 py-4 border-b border-[#FFA500]/20">
+                      <h2 className="text-lg font-medium text-white">Most expensive topics</h2>
+                    </div>
+                    {costsData.topTopics.length === 0 ? (
+                      <p className="px-6 py-4 text-sm text-gray-400">No topic usage recorded</p>
+                    ) : (
+                      <div className="divide-y divide-[#FFA500]/10">
+                        {costsData.topTopics.map((topic) => (
+                          <div key={topic.topic} className="px-6 py-3 flex items-center justify-between">
+                            <span className="text-sm text-white truncate">{topic.topic}</span>
+                            <span className="text-xs text-gray-400 flex-shrink-0 ml-2">
+                              {formatCost(topic.costUsd)} · {topic.calls} calls
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Recent Runs */}
+                  <div className="bg-[#2a2a2a] border border-[#FFA500]/20 rounded-lg overflow-hidden">
+                    <div className="px-6 py-4 border-b border-[#FFA500]/20">
+                      <h2 className="text-lg font-medium text-white">Recent runs</h2>
+                    </div>
+                    {costsData.runs.length === 0 ? (
+                      <p className="px-6 py-4 text-sm text-gray-400">No runs recorded</p>
+                    ) : (
+                      <div className="divide-y divide-[#FFA500]/10">
+                        {costsData.runs.map((run) => (
+                          <div key={run.runId} className="px-6 py-3 flex items-center justify-between">
+                            <div className="flex items-center gap-2 min-w-0">
+                              {run.status === 'success' ? (
+                                <CheckCircle className="w-4 h-4 text-green-400 flex-shrink-0" />
+                              ) : (
+                                <XCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+                              )}
+                              <span className="text-sm text-white">{formatDate(run.createdAt)}</span>
+                            </div>
+                            <span className="text-xs text-gray-400 flex-shrink-0 ml-2">
+                              {formatCost(run.totalCostUsd)} · {run.calls} calls
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </>
+        )}
       </div>
     </div>
   );
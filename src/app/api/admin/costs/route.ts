@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import type { RunCostStats } from '@/lib/costTracking';
+import { requireAdmin } from '@/lib/adminAuth';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+
+// GET - Estimated spend for the last ?days= days (default 30): daily cost by stage,
+// the most expensive topics and the latest runs' totals
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const adminClient = getSupabaseAdmin();
+
+    const daysParam = Number(request.nextUrl.searchParams.get('days'));
+    const days = Number.isInteger(daysParam) && daysParam > 0 ? Math.min(daysParam, MAX_DAYS) : DEFAULT_DAYS;
+    const since = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    const [dailyResult, topicResult, runResult] = await Promise.all([
+      adminClient
+        .from('usage_costs_daily')
+        .select('usage_date, stage, calls, prompt_tokens, completion_tokens, cost_usd')
+        .gte('usage_date', since)
+        .order('usage_date'),
+      adminClient
+        .from('usage_costs_by_topic')
+        .select('topic, calls, cost_usd')
+        .gte('usage_date', since),
+      adminClient
+        .from('cron_job_logs')
+        .select('created_at, status, run_id, cost_stats')
+        .not('run_id', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(20),
+    ]) as [
+      {
+        data: Array<{ usage_date: string; stage: string; calls: number; prompt_tokens: number; completion_tokens: number; cost_usd: number | string }> | null;
+        error: { message: string } | null;
+      },
+      { data: Array<{ topic: string; calls: number; cost_usd: number | string }> | null; error: { message: string } | null },
+      { data: Array<{ created_at: string; status: string; run_id: string; cost_stats: RunCostStats | null }> | null; error: { message: string } | null },
+    ];
+
+    const queryError = dailyResult.error || topicResult.error || runResult.error;
+    if (queryError) {
+      console.error('Error fetching costs:', queryError);
+      return NextResponse.json({ error: queryError.message }, { status: 500 });
+    }
+
+    // NUMERIC columns come back as strings
+    const stages = new Set<string>();
+    const dailyByDate = new Map<string, { date: string; totalCostUsd: number; stages: Record<string, number> }>();
+    for (const row of dailyResult.data || []) {
+      stages.add(row.stage);
+      const day = dailyByDate.get(row.usage_date) ?? { date: row.usage_date, totalCostUsd: 0, stages: {} };
+      const cost = Number(row.cost_usd);
+      day.stages[row.stage] = (day.stages[row.stage] ?? 0) + cost;
+      day.totalCostUsd += cost;
+      dailyByDate.set(row.usage_date, day);
+    }
+
+    // One entry per day in the range, including days with no usage
+    const daily = Array.from({ length: days }, (_, i) => {
+      const date = new Date(new Date(since + 'T00:00:00Z').getTime() + i * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      return dailyByDate.get(date) ?? { date, totalCostUsd: 0, stages: {} };
+    });
+
+    const topicTotals = new Map<string, { topic: string; calls: number; costUsd: number }>();
+    for (const row of topicResult.data || []) {
+      const totals = topicTotals.get(row.topic) ?? { topic: row.topic, calls: 0, costUsd: 0 };
+      totals.calls += Number(row.calls);
+      totals.costUsd += Number(row.cost_usd);
+      topicTotals.set(row.topic, totals);
+    }
+
+    return NextResponse.json({
+      days,
+      since,
+      totalCostUsd: daily.reduce((total, day) => total + day.totalCostUsd, 0),
+      stages: Array.from(stages).sort(),
+      daily,
+      topTopics: Array.from(topicTotals.values())
+        .sort((a, b) => b.costUsd - a.costUsd)
+        .slice(0, 10),
+      runs: (runResult.data || []).map((run) => ({
+        createdAt: run.created_at,
+        status: run.status,
+        runId: run.run_id,
+        totalCostUsd: run.cost_stats?.totalCostUsd ?? 0,
+        calls: Object.values(run.cost_stats?.stages ?? {}).reduce((total, stage) => total + stage.calls, 0),
+      })),
+    });
+  } catch (error) {
+    console.error('Error in costs API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
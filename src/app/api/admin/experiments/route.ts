@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { PromptExperimentRow, ExperimentResults, getExperimentResults } from '@/lib/experiments';
+import { PromptVersionRow, findCategory, resetPromptVersions } from '@/lib/promptVersions';
+import { requireAdmin } from '@/lib/adminAuth';
+
+// Prompt A/B experiments (prompt_experiments) with per-arm engagement results.
+// Starting or stopping one applies from the next summary generated.
+
+// GET - All experiments, newest first, with results per arm
+export async function GET() {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const { data, error } = await getSupabaseAdmin()
+      .from('prompt_experiments')
+      .select('*')
+      .order('started_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching experiments:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const experiments = await Promise.all(
+      ((data || []) as PromptExperimentRow[]).map(async (experiment) => {
+        let results: ExperimentResults | null = null;
+        try {
+          results = await getExperimentResults(experiment.id);
+        } catch (resultsError) {
+          console.error(`Error loading results for experiment ${experiment.id}:`, resultsError);
+        }
+        return { ...experiment, results };
+      })
+    );
+
+    return NextResponse.json({ experiments });
+  } catch (error) {
+    console.error('Error fetching experiments:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Start an experiment ({ name, category_id, tier, control_version_id,
+// variant_version_id, variant_percent }); a null version id means the built-in prompts
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const body = await request.json();
+    const category = typeof body.category_id === 'string' ? findCategory(body.category_id) : null;
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const controlVersionId = typeof body.control_version_id === 'string' && body.control_version_id ? body.control_version_id : null;
+    const variantVersionId = typeof body.variant_version_id === 'string' && body.variant_version_id ? body.variant_version_id : null;
+    const variantPercent = body.variant_percent === undefined ? 50 : Number(body.variant_percent);
+
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+    if (!category) {
+      return NextResponse.json({ error: 'Unknown category' }, { status: 400 });
+    }
+    if (body.tier !== 'free' && body.tier !== 'paid') {
+      return NextResponse.json({ error: "Tier must be 'free' or 'paid'" }, { status: 400 });
+    }
+    if (controlVersionId === variantVersionId) {
+      return NextResponse.json({ error: 'Control and variant must use different prompts' }, { status: 400 });
+    }
+    if (!Number.isInteger(variantPercent) || variantPercent < 1 || variantPercent > 99) {
+      return NextResponse.json({ error: 'Variant share must be a whole percentage between 1 and 99' }, { status: 400 });
+    }
+
+    const adminClient = getSupabaseAdmin();
+    const versionIds = [controlVersionId, variantVersionId].filter((id): id is string => !!id);
+    const { data: versions } = await adminClient
+      .from('prompt_versions')
+      .select('id, category_id, tier')
+      .in('id', versionIds);
+
+    const matching = ((versions || []) as Array<Pick<PromptVersionRow, 'id' | 'category_id' | 'tier'>>).filter(
+      (version) => version.category_id === category.id && version.tier === body.tier
+    );
+    if (matching.length !== versionIds.length) {
+      return NextResponse.json({ error: 'Both prompts must be versions of this category and tier' }, { status: 400 });
+    }
+
+    const { data, error } = await adminClient
+      .from('prompt_experiments')
+      .insert({
+        name,
+        category_id: category.id,
+        tier: body.tier,
+        control_version_id: controlVersionId,
+        variant_version_id: variantVersionId,
+        variant_percent: variantPercent,
+        created_by: admin.email,
+      } as never)
+      .select()
+      .single<PromptExperimentRow>();
+
+    if (error) {
+      // The unique index allows one running experiment per category and tier
+      const message = error.code === '23505'
+        ? `An experiment is already running for ${category.id} (${body.tier})`
+        : error.message;
+      return NextResponse.json({ error: message }, { status: error.code === '23505' ? 409 : 500 });
+    }
+
+    resetPromptVersions();
+    return NextResponse.json({ experiment: data });
+  } catch (error) {
+    console.error('Error starting experiment:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Stop a running experiment ({ id }). Its users go back to the active prompts;
+// results stay available.
+export async function PUT(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const body = await request.json();
+    if (typeof body.id !== 'string' || !body.id) {
+      return NextResponse.json({ error: 'Experiment ID is required' }, { status: 400 });
+    }
+
+    const { data, error } = await getSupabaseAdmin()
+      .from('prompt_experiments')
+      .update({ status: 'stopped', stopped_at: new Date().toISOString() } as never)
+      .eq('id', body.id)
+      .eq('status', 'running')
+      .select()
+      .maybeSingle<PromptExperimentRow>();
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'No running experiment with that ID' }, { status: 404 });
+    }
+
+    resetPromptVersions();
+    return NextResponse.json({ experiment: data });
+  } catch (error) {
+    console.error('Error stopping experiment:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
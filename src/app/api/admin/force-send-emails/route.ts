@@ -3,8 +3,14 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { fetchNewsForMultipleTopics } from '@/lib/newsapi';
-import { summarizeNews } from '@/lib/openai';
-import { sendNewsDigest } from '@/lib/email';
+import { getLocalDateString, resolveTimezone } from '@/lib/deliverySchedule';
+import { startSummaryRun } from '@/lib/summaryStore';
+import { startProviderRun, getProviderRunStats } from '@/lib/newsProviders';
+import { resetSourceConfig } from '@/lib/sourceConfig';
+import { resetPromptVersions } from '@/lib/promptVersions';
+import { startLlmRun, getLlmRunStats } from '@/lib/llm';
+import { startUsageRun, flushUsageRun } from '@/lib/costTracking';
+import { UserWithRelations, USER_DIGEST_SELECT, prepareUserEmail, sendPreparedEmail } from '@/lib/digest';
 
 export async function POST(request: NextRequest) {
   try {
@@ -47,44 +53,17 @@ export async function POST(request: NextRequest) {
 
     const startTime = Date.now();
     console.log('🚨 FORCE SENDING EMAILS TO ALL USERS (Admin triggered)');
-
-    // Define types for the query result
-    interface UserTopic {
-      topic_name: string;
-    }
-
-    interface EmailSetting {
-      paused: boolean;
-      delivery_time: string;
-      timezone: string;
-    }
-
-    interface UserWithRelations {
-      id: string;
-      email: string;
-      subscription_tier: 'free' | 'paid';
-      user_topics: UserTopic[] | null;
-      user_email_settings: EmailSetting[] | null;
-    }
+    resetSourceConfig();
+    resetPromptVersions();
+    startSummaryRun();
+    const providerRun = startProviderRun();
+    const llmRun = startLlmRun();
+    const usageRun = startUsageRun();
 
     // Get all users with topics and their email settings
     const { data: users, error: usersError } = (await getSupabaseAdmin()
       .from('users')
-      .select(
-        `
-        id,
-        email,
-        subscription_tier,
-        user_topics (
-          topic_name
-        ),
-        user_email_settings (
-          paused,
-          delivery_time,
-          timezone
-        )
-      `
-      )
+      .select(USER_DIGEST_SELECT)
       .not('user_topics', 'is', null)) as {
       data: UserWithRelations[] | null;
       error: unknown;
@@ -119,86 +98,43 @@ export async function POST(request: NextRequest) {
       try {
         results.processed++;
 
-        // Check if user has paused emails
-        const emailSettings = user.user_email_settings?.[0];
-        if (emailSettings?.paused) {
-          const reason = `User ${user.email} has paused emails`;
-          console.log(reason);
-          results.skipped++;
-          results.skipReasons.push(reason);
-          continue;
-        }
-
-        if (!user.user_topics || user.user_topics.length === 0) {
-          const reason = `User ${user.email} has no topics`;
-          console.log(reason);
-          results.skipped++;
-          results.skipReasons.push(reason);
+        // Fetch news for all topics, dated in the user's timezone
+        const timezone = resolveTimezone(user.user_email_settings?.[0]?.timezone);
+        const localDate = getLocalDateString(timezone);
+        const topics = user.user_topics?.map((ut) => ut.topic_name) || [];
+        const newsData = topics.length > 0
+          ? await fetchNewsForMultipleTopics(topics, { cacheDate: localDate })
+          : {};
+
+        // Paused users and users without topics are skipped here
+        const prepResult = await prepareUserEmail(user, newsData, localDate);
+        if (prepResult.skipped || !prepResult.emailData) {
+          if (prepResult.error) {
+            results.failed++;
+            results.errors.push(prepResult.error);
+          } else {
+            results.skipped++;
+            if (prepResult.skipReason) results.skipReasons.push(prepResult.skipReason);
+          }
           continue;
         }
 
-        const topics = user.user_topics.map((ut) => ut.topic_name);
-        console.log(
-          `Processing user ${user.email} with topics: ${topics.join(', ')}`
-        );
-
-        // Fetch news for all topics
-        const newsData = await fetchNewsForMultipleTopics(topics);
-
-        // Generate summaries for each topic
-        const summaries = [];
-        for (const topic of topics) {
-          const articles = newsData[topic] || [];
-          if (articles.length > 0) {
-            const summary = await summarizeNews(
-              topic,
-              articles,
-              user.subscription_tier === 'paid'
-            );
-            if (summary.summaries.length > 0) {
-              summaries.push(summary);
-            }
-          }
-        }
+        // Force-send still goes through the send ledger: users who already got
+        // today's digest are skipped rather than emailed twice
+        const sendResult = await sendPreparedEmail(prepResult.emailData, 'force');
 
-        if (summaries.length === 0) {
-          const reason = `No news found for user ${user.email}`;
-          console.log(reason);
+        if (sendResult.skipped) {
           results.skipped++;
-          results.skipReasons.push(reason);
+          if (sendResult.skipReason) results.skipReasons.push(sendResult.skipReason);
           continue;
         }
 
-        // Send email digest
-        const emailSent = await sendNewsDigest(
-          user.email,
-          summaries,
-          user.subscription_tier === 'paid'
-        );
-
-        if (emailSent) {
-          // Store in email archive
-          try {
-            await getSupabaseAdmin()
-              .from('email_archive')
-              .insert({
-                user_id: user.id,
-                subject: `Your SnipIt Daily Digest - ${new Date().toLocaleDateString()}`,
-                content: summaries as unknown,
-                topics: topics,
-              } as never);
-          } catch (archiveError) {
-            console.error(
-              `Failed to archive email for ${user.email}:`,
-              archiveError
-            );
-          }
-
+        if (sendResult.successful) {
           results.successful++;
           console.log(`Successfully sent digest to ${user.email}`);
         } else {
           results.failed++;
-          results.errors.push(`Failed to send email to ${user.email}`);
+          results.errors.push(sendResult.error || `Failed to send email to ${user.email}`);
           console.error(`Failed to send email to ${user.email}`);
         }
 
@@ -217,6 +153,7 @@ export async function POST(request: NextRequest) {
 
     // Log execution results to database
     try {
+      const costStats = await flushUsageRun(usageRun);
       await getSupabaseAdmin().from('cron_job_logs').insert({
         status,
         processed_count: results.processed,
@@ -225,6 +162,10 @@ export async function POST(request: NextRequest) {
         skipped_count: results.skipped,
         errors: results.errors,
         skip_reasons: results.skipReasons,
+        provider_stats: getProviderRunStats(providerRun),
+        llm_stats: getLlmRunStats(llmRun),
+        run_id: costStats.runId,
+        cost_stats: costStats,
         execution_time_ms: executionTime,
         execution_date: new Date().toISOString(),
       } as never);
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCachedArticles } from '@/lib/newsapi';
+import { summarizeNews } from '@/lib/openai';
+import { findCategory } from '@/lib/promptVersions';
+import { getTopicCategory, getCategoryPrompts } from '@/lib/topicCategories';
+import { requireAdmin } from '@/lib/adminAuth';
+
+// POST - Summarize today's cached articles for a topic with a draft prompt
+// ({ category_id, tier, topic, system_prompt, directive, instructions }). Nothing
+// is saved or sent.
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const body = await request.json();
+    const category = typeof body.category_id === 'string' ? findCategory(body.category_id) : null;
+    const topic = typeof body.topic === 'string' ? body.topic.trim() : '';
+
+    if (!category) {
+      return NextResponse.json({ error: 'Unknown category' }, { status: 400 });
+    }
+    if (body.tier !== 'free' && body.tier !== 'paid') {
+      return NextResponse.json({ error: "Tier must be 'free' or 'paid'" }, { status: 400 });
+    }
+    if (!topic) {
+      return NextResponse.json({ error: 'Topic is required' }, { status: 400 });
+    }
+
+    const articles = await getCachedArticles(topic);
+    if (articles.length === 0) {
+      return NextResponse.json(
+        { error: `No cached articles for "${topic}" today. Previews use articles already fetched by a digest run.` },
+        { status: 404 }
+      );
+    }
+
+    const tier: 'free' | 'paid' = body.tier;
+    const draft = {
+      system: String(body.system_prompt ?? ''),
+      directive: String(body.directive ?? ''),
+      instructions: String(body.instructions ?? ''),
+    };
+
+    console.log(`[Prompts] Previewing ${category.id}/${tier} draft for "${topic}" (${articles.length} articles)`);
+
+    const summary = await summarizeNews(topic, articles, tier === 'paid', {
+      prompts: {
+        category,
+        tier,
+        prompts: getCategoryPrompts(category, tier, topic, draft),
+        versionId: null,
+        experiment: null,
+      },
+    });
+
+    return NextResponse.json({
+      topic,
+      // The category the topic uses in digests, which may differ from the one previewed
+      topicCategory: getTopicCategory(topic).id,
+      articleCount: articles.length,
+      summary,
+    });
+  } catch (error) {
+    console.error('Error previewing prompt:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { PromptVersionRow, getAllCategories, findCategory, resetPromptVersions } from '@/lib/promptVersions';
+import { requireAdmin } from '@/lib/adminAuth';
+
+// Summarization prompt versions per topic category and tier (prompt_versions).
+// Saving creates a new version; activating one (or going back to the built-in
+// prompts) applies from the next summary generated.
+
+function isTier(value: unknown): value is 'free' | 'paid' {
+  return value === 'free' || value === 'paid';
+}
+
+// Make the given version the pair's active one, or none (built-in prompts), in one
+// transaction (activate_prompt_version in docs/sql/create-prompt-versions-table.sql)
+function activateVersion(categoryId: string, tier: 'free' | 'paid', id: string | null) {
+  return getSupabaseAdmin()
+    .rpc('activate_prompt_version' as never, {
+      p_category_id: categoryId,
+      p_tier: tier,
+      p_version_id: id,
+    } as never)
+    .maybeSingle<PromptVersionRow>();
+}
+
+// GET - Categories with their built-in prompts, and every saved version
+export async function GET() {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const { data, error } = await getSupabaseAdmin()
+      .from('prompt_versions')
+      .select('*')
+      .order('category_id', { ascending: true })
+      .order('tier', { ascending: true })
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching prompt versions:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      categories: getAllCategories().map((category) => ({
+        id: category.id,
+        keywords: category.keywords,
+        format: category.format,
+        defaults: {
+          free: category.prompts.free,
+          paid: category.prompts.paid,
+        },
+      })),
+      versions: (data || []) as PromptVersionRow[],
+    });
+  } catch (error) {
+    console.error('Error fetching prompt versions:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST - Save a new version ({ category_id, tier, system_prompt, directive, instructions,
+// notes, activate })
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const body = await request.json();
+    const category = typeof body.category_id === 'string' ? findCategory(body.category_id) : null;
+
+    if (!category) {
+      return NextResponse.json({ error: 'Unknown category' }, { status: 400 });
+    }
+    if (!isTier(body.tier)) {
+      return NextResponse.json({ error: "Tier must be 'free' or 'paid'" }, { status: 400 });
+    }
+
+    const fields = ['system_prompt', 'directive', 'instructions'] as const;
+    for (const field of fields) {
+      if (typeof body[field] !== 'string' || !body[field].trim()) {
+        return NextResponse.json({ error: `${field} is required` }, { status: 400 });
+      }
+    }
+
+    const adminClient = getSupabaseAdmin();
+    const { data: latest } = await adminClient
+      .from('prompt_versions')
+      .select('version')
+      .eq('category_id', category.id)
+      .eq('tier', body.tier)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle<{ version: number }>();
+
+    const { data, error } = await adminClient
+      .from('prompt_versions')
+      .insert({
+        category_id: category.id,
+        tier: body.tier,
+        version: (latest?.version ?? 0) + 1,
+        system_prompt: body.system_prompt.trim(),
+        directive: body.directive.trim(),
+        instructions: body.instructions.trim(),
+        notes: typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null,
+        created_by: admin.email,
+      } as never)
+      .select()
+      .single<PromptVersionRow>();
+
+    if (error || !data) {
+      return NextResponse.json({ error: error?.message || 'Failed to save prompt version' }, { status: 500 });
+    }
+
+    if (body.activate) {
+      const { data: activated, error: activateError } = await activateVersion(category.id, body.tier, data.id);
+      if (activateError) {
+        return NextResponse.json({ error: activateError.message }, { status: 500 });
+      }
+      resetPromptVersions();
+      return NextResponse.json({ version: activated });
+    }
+
+    return NextResponse.json({ version: data });
+  } catch (error) {
+    console.error('Error saving prompt version:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Activate a version ({ category_id, tier, id }), or go back to the built-in
+// prompts ({ category_id, tier, id: null })
+export async function PUT(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const body = await request.json();
+    const category = typeof body.category_id === 'string' ? findCategory(body.category_id) : null;
+
+    if (!category) {
+      return NextResponse.json({ error: 'Unknown category' }, { status: 400 });
+    }
+    if (!isTier(body.tier)) {
+      return NextResponse.json({ error: "Tier must be 'free' or 'paid'" }, { status: 400 });
+    }
+
+    const id = typeof body.id === 'string' && body.id ? body.id : null;
+    if (id) {
+      const { data: existing } = await getSupabaseAdmin()
+        .from('prompt_versions')
+        .select('category_id, tier')
+        .eq('id', id)
+        .maybeSingle<Pick<PromptVersionRow, 'category_id' | 'tier'>>();
+
+      if (!existing || existing.category_id !== category.id || existing.tier !== body.tier) {
+        return NextResponse.json({ error: 'Prompt version not found for this category and tier' }, { status: 404 });
+      }
+    }
+
+    const { data, error } = await activateVersion(category.id, body.tier, id);
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    resetPromptVersions();
+    return NextResponse.json({ version: data });
+  } catch (error) {
+    console.error('Error activating prompt version:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { LedgerEntry, isStaleClaim } from '@/lib/sendLedger';
+import { requireAdmin } from '@/lib/adminAuth';
+
+// GET - Digest send ledger for a local date (who was sent what, by which trigger)
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const adminClient = getSupabaseAdmin();
+
+    const dateParam = request.nextUrl.searchParams.get('date');
+    const date = dateParam && /^\d{4}-\d{2}-\d{2}$/.test(dateParam) ? dateParam : new Date().toISOString().split('T')[0];
+
+    const { data, error } = (await adminClient
+      .from('digest_send_ledger')
+      .select('*, users ( email )')
+      .eq('local_date', date)
+      .order('claimed_at', { ascending: false })) as {
+      data: Array<LedgerEntry & { users: { email: string } | null }> | null;
+      error: { message: string } | null;
+    };
+
+    if (error) {
+      console.error('Error fetching send ledger:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    // Stale claims may or may not have been emailed, so they are never retried
+    // automatically and need a manual check
+    const now = Date.now();
+    const entries = (data || []).map(({ users, ...entry }) => ({
+      ...entry,
+      email: users?.email ?? null,
+      stale: isStaleClaim(entry, now),
+    }));
+
+    return NextResponse.json({
+      date,
+      total: entries.length,
+      sent: entries.filter((e) => e.status === 'sent').length,
+      claimed: entries.filter((e) => e.status === 'claimed').length,
+      stale: entries.filter((e) => e.stale).length,
+      failed: entries.filter((e) => e.status === 'failed').length,
+      entries,
+    });
+  } catch (error) {
+    console.error('Error in send ledger API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { SourceDomainRow, TopicSourceRow, resetSourceConfig } from '@/lib/sourceConfig';
+import { requireAdmin } from '@/lib/adminAuth';
+
+// Source configuration: quality tier per domain (source_domains) and preferred/blocked
+// domains per topic (topic_sources). Scoring picks up changes on its next run.
+
+// "https://www.Reuters.com/world" -> "reuters.com"
+function normalizeDomain(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const domain = value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .split('/')[0];
+  return /^[a-z0-9.-]+\.[a-z]{2,}$/.test(domain) ? domain : null;
+}
+
+// GET - All domain tiers and topic source entries
+export async function GET() {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const adminClient = getSupabaseAdmin();
+    const [domainsResult, topicSourcesResult] = await Promise.all([
+      adminClient.from('source_domains').select('*').order('domain', { ascending: true }),
+      adminClient
+        .from('topic_sources')
+        .select('*')
+        .order('topic_key', { ascending: true })
+        .order('domain', { ascending: true }),
+    ]);
+
+    const error = domainsResult.error || topicSourcesResult.error;
+    if (error) {
+      console.error('Error fetching source configuration:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      domains: (domainsResult.data || []) as SourceDomainRow[],
+      topicSources: (topicSourcesResult.data || []) as TopicSourceRow[],
+    });
+  } catch (error) {
+    console.error('Error fetching source configuration:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT - Create or update a domain ({ kind: 'domain', domain, tier, blocked, notes })
+// or a topic source ({ kind: 'topic', topic_key, domain, preferred, blocked })
+export async function PUT(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const body = await request.json();
+    const domain = normalizeDomain(body.domain);
+
+    if (!domain) {
+      return NextResponse.json({ error: 'A valid domain is required (e.g. reuters.com)' }, { status: 400 });
+    }
+
+    if (body.kind === 'domain') {
+      const tier = body.tier === null || body.tier === undefined ? null : Number(body.tier);
+      if (tier !== null && ![1, 2, 3].includes(tier)) {
+        return NextResponse.json({ error: 'Tier must be 1, 2, 3 or empty' }, { status: 400 });
+      }
+
+      const { data, error } = await getSupabaseAdmin()
+        .from('source_domains')
+        .upsert({
+          domain,
+          tier,
+          blocked: Boolean(body.blocked),
+          notes: typeof body.notes === 'string' && body.notes.trim() ? body.notes.trim() : null,
+          updated_at: new Date().toISOString(),
+        } as never)
+        .select()
+        .single<SourceDomainRow>();
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      resetSourceConfig();
+      return NextResponse.json({ domain: data });
+    }
+
+    if (body.kind === 'topic') {
+      const topicKey = typeof body.topic_key === 'string' ? body.topic_key.trim().toLowerCase() : '';
+      if (!topicKey) {
+        return NextResponse.json({ error: 'Topic key is required' }, { status: 400 });
+      }
+
+      const { data, error } = await getSupabaseAdmin()
+        .from('topic_sources')
+        .upsert(
+          {
+            topic_key: topicKey,
+            domain,
+            preferred: body.preferred !== false,
+            blocked: Boolean(body.blocked),
+            updated_at: new Date().toISOString(),
+          } as never,
+          { onConflict: 'topic_key,domain' }
+        )
+        .select()
+        .single<TopicSourceRow>();
+
+      if (error) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+      }
+
+      resetSourceConfig();
+      return NextResponse.json({ topicSource: data });
+    }
+
+    return NextResponse.json({ error: "kind must be 'domain' or 'topic'" }, { status: 400 });
+  } catch (error) {
+    console.error('Error updating source configuration:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE - Remove a domain (?kind=domain&domain=...) or topic source (?kind=topic&id=...)
+export async function DELETE(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if ('denied' in admin) return admin.denied;
+
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get('kind');
+    const adminClient = getSupabaseAdmin();
+
+    let error: { message: string } | null = null;
+    if (kind === 'domain') {
+      const domain = normalizeDomain(searchParams.get('domain'));
+      if (!domain) {
+        return NextResponse.json({ error: 'Domain is required' }, { status: 400 });
+      }
+      ({ error } = await adminClient.from('source_domains').delete().eq('domain', domain));
+    } else if (kind === 'topic') {
+      const id = searchParams.get('id');
+      if (!id) {
+        return NextResponse.json({ error: 'Topic source ID is required' }, { status: 400 });
+      }
+      ({ error } = await adminClient.from('topic_sources').delete().eq('id', id));
+    } else {
+      return NextResponse.json({ error: "kind must be 'domain' or 'topic'" }, { status: 400 });
+    }
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    resetSourceConfig();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting source configuration:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
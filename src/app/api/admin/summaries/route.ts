@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
+import type { FaithfulnessFailure } from '@/lib/faithfulness';
+import type { SummaryCitation } from '@/lib/openai';
 
 interface ArticleCacheEntry {
   topic: string;
@@ -87,9 +89,12 @@ export async function GET(request: NextRequest) {
       .lte('sent_at', todayEnd) as { data: Array<{ topics: string[]; content: unknown; sent_at: string }> | null };
 
     // Aggregate summaries by topic from all emails sent today
-    type SummaryItem = { title: string; summary: string; bullets?: string[]; url: string; source: string };
-    type TopicContent = { topic: string; summaries: SummaryItem[] };
+    type SummaryItem = { title: string; summary: string; bullets?: string[]; url: string; source: string; citations?: SummaryCitation[] };
+    type TopicContent = { topic: string; summaries: SummaryItem[]; faithfulnessFailures?: FaithfulnessFailure[] };
     const topicSummaries = new Map<string, SummaryItem[]>();
+    // What the faithfulness check dropped, per summary version sent (keyed by text so
+    // a summary shared by many digests is listed once)
+    const topicFailures = new Map<string, Map<string, FaithfulnessFailure>>();
     for (const archive of (archiveEntries || [])) {
       const content = archive.content as TopicContent[];
       if (Array.isArray(content)) {
@@ -97,6 +102,11 @@ export async function GET(request: NextRequest) {
           if (!topicSummaries.has(topicSummary.topic)) {
             topicSummaries.set(topicSummary.topic, topicSummary.summaries || []);
           }
+          for (const failure of topicSummary.faithfulnessFailures || []) {
+            const failures = topicFailures.get(topicSummary.topic) ?? new Map<string, FaithfulnessFailure>();
+            failures.set(`${failure.url}||${failure.text}`, failure);
+            topicFailures.set(topicSummary.topic, failures);
+          }
         }
       }
     }
@@ -105,6 +115,7 @@ export async function GET(request: NextRequest) {
     const topicResults = allUserTopics.map((topicName: string) => {
       const cacheData = topicCache.get(topicName);
       const summaries = topicSummaries.get(topicName);
+      const faithfulnessFailures = Array.from(topicFailures.get(topicName)?.values() ?? []);
 
       // Get the final articles (from multi-source-editorial or multi-source-deterministic)
       const finalCache = cacheData?.find(
@@ -138,7 +149,9 @@ export async function GET(request: NextRequest) {
           bullets: s.bullets,
           url: s.url,
           source: s.source,
+          citations: s.citations,
         })) || [],
+        faithfulnessFailures,
       };
     });
 
@@ -148,6 +161,7 @@ export async function GET(request: NextRequest) {
       withArticles: topicResults.filter((t) => t.articleCount > 0).length,
       withSummaries: topicResults.filter((t) => t.summaryCount > 0).length,
       failed: topicResults.filter((t) => t.status === 'failed').length,
+      faithfulnessFailures: topicResults.reduce((total, t) => total + t.faithfulnessFailures.length, 0),
       topics: topicResults,
       emailsSentToday: (archiveEntries || []).length,
     });
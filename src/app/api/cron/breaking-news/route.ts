@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { startProviderRun, getProviderRunStats } from '@/lib/newsProviders';
+import { resetSourceConfig } from '@/lib/sourceConfig';
+import { startLlmRun, getLlmRunStats } from '@/lib/llm';
+import { startUsageRun, flushUsageRun } from '@/lib/costTracking';
+import { delay, EMAIL_RATE_LIMIT_DELAY_MS } from '@/lib/digest';
+import {
+  AlertDelivery,
+  AlertSubscriber,
+  loadAlertSubscribers,
+  detectBreakingStory,
+  deliverBreakingAlert,
+  recordAlertRecipients,
+} from '@/lib/breakingNews';
+
+// Stop starting new topics this long into the run (maxDuration is 300s)
+const TIME_BUDGET_MS = 240000;
+
+// Intraday breaking-news monitor for opted-in Pro subscribers (runs every 30 minutes)
+export async function GET(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+  const providerRun = startProviderRun();
+  const llmRun = startLlmRun();
+  const usageRun = startUsageRun();
+  const errors: string[] = [];
+  const skipReasons: string[] = [];
+  const deliveries: Record<AlertDelivery, number> = {
+    sent: 0,
+    quiet_hours: 0,
+    daily_cap: 0,
+    already_sent: 0,
+    failed: 0,
+  };
+  let topicsChecked = 0;
+  let alertsDetected = 0;
+
+  try {
+    console.log('[Breaking] Starting breaking news check...');
+    resetSourceConfig();
+
+    const subscribers = await loadAlertSubscribers();
+
+    // Subscribers per topic
+    const subscribersByTopic = new Map<string, AlertSubscriber[]>();
+    for (const user of subscribers) {
+      for (const { topic_name } of user.user_topics ?? []) {
+        const topicSubscribers = subscribersByTopic.get(topic_name) ?? [];
+        topicSubscribers.push(user);
+        subscribersByTopic.set(topic_name, topicSubscribers);
+      }
+    }
+
+    console.log(`[Breaking] ${subscribers.length} subscribers across ${subscribersByTopic.size} topics`);
+
+    for (const [topic, topicSubscribers] of subscribersByTopic) {
+      if (Date.now() - startTime >= TIME_BUDGET_MS) {
+        skipReasons.push(`Time budget reached after ${topicsChecked}/${subscribersByTopic.size} topics`);
+        break;
+      }
+
+      topicsChecked++;
+
+      try {
+        const alert = await detectBreakingStory(topic);
+        if (!alert) continue;
+
+        alertsDetected++;
+        let recipients = 0;
+
+        for (const user of topicSubscribers) {
+          try {
+            const outcome = await deliverBreakingAlert(user, alert);
+            deliveries[outcome]++;
+            if (outcome === 'sent') {
+              recipients++;
+              await delay(EMAIL_RATE_LIMIT_DELAY_MS);
+            } else if (outcome === 'failed') {
+              errors.push(`Failed to send alert ${alert.id} to ${user.email}`);
+            }
+          } catch (error) {
+            deliveries.failed++;
+            errors.push(`Alert ${alert.id} for ${user.email}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+
+        await recordAlertRecipients(alert.id, recipients);
+        console.log(`[Breaking] Alert ${alert.id} for "${topic}" sent to ${recipients}/${topicSubscribers.length} subscribers`);
+      } catch (error) {
+        errors.push(`Topic "${topic}": ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (deliveries.quiet_hours > 0) skipReasons.push(`${deliveries.quiet_hours} in quiet hours`);
+    if (deliveries.daily_cap > 0) skipReasons.push(`${deliveries.daily_cap} at daily alert cap`);
+
+    const executionTime = Date.now() - startTime;
+
+    try {
+      const costStats = await flushUsageRun(usageRun);
+      await getSupabaseAdmin().from('cron_job_logs').insert({
+        status: errors.length > 0 && deliveries.sent === 0 && alertsDetected > 0 ? 'failed' : 'success',
+        processed_count: topicsChecked,
+        successful_count: deliveries.sent,
+        failed_count: deliveries.failed,
+        skipped_count: deliveries.quiet_hours + deliveries.daily_cap + deliveries.already_sent,
+        errors,
+        skip_reasons: skipReasons,
+        provider_stats: getProviderRunStats(providerRun),
+        llm_stats: getLlmRunStats(llmRun),
+        run_id: costStats.runId,
+        cost_stats: costStats,
+        execution_time_ms: executionTime,
+      } as never);
+    } catch (logError) {
+      console.error('[Breaking] Failed to log execution:', logError);
+    }
+
+    console.log(`[Breaking] Checked ${topicsChecked} topics, ${alertsDetected} alerts, ${deliveries.sent} emails sent in ${executionTime}ms`);
+
+    return NextResponse.json({
+      message: 'Breaking news check completed',
+      results: { topicsChecked, alertsDetected, deliveries, errors },
+      executionTimeMs: executionTime,
+    });
+  } catch (error) {
+    const executionTime = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Breaking] Breaking news check failed:', error);
+
+    try {
+      const costStats = await flushUsageRun(usageRun);
+      await getSupabaseAdmin().from('cron_job_logs').insert({
+        status: 'failed',
+        processed_count: topicsChecked,
+        successful_count: deliveries.sent,
+        failed_count: deliveries.failed,
+        skipped_count: 0,
+        errors: [...errors, errorMessage],
+        provider_stats: getProviderRunStats(providerRun),
+        llm_stats: getLlmRunStats(llmRun),
+        run_id: costStats.runId,
+        cost_stats: costStats,
+        execution_time_ms: executionTime,
+      } as never);
+    } catch (logError) {
+      console.error('[Breaking] Failed to log failure:', logError);
+    }
+
+    return NextResponse.json(
+      { error: 'Breaking news check failed', details: errorMessage, executionTimeMs: executionTime },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
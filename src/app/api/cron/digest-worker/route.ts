@@ -0,0 +1,329 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { fetchNewsForMultipleTopics } from '@/lib/newsapi';
+import { NewsArticle } from '@/lib/openai';
+import { startSummaryRun, getSummaryRunStats } from '@/lib/summaryStore';
+import { startProviderRun, getProviderRunStats } from '@/lib/newsProviders';
+import { resetSourceConfig } from '@/lib/sourceConfig';
+import { resetPromptVersions } from '@/lib/promptVersions';
+import { startLlmRun, getLlmRunStats } from '@/lib/llm';
+import { startUsageRun, flushUsageRun } from '@/lib/costTracking';
+import {
+  UserWithRelations,
+  PrepareResult,
+  Results,
+  USER_DIGEST_SELECT,
+  EMAIL_RATE_LIMIT_DELAY_MS,
+  prepareUserEmail,
+  sendPreparedEmail,
+  delay,
+} from '@/lib/digest';
+import {
+  DigestJob,
+  leaseDigestJobs,
+  completeDigestJob,
+  failDigestJob,
+  releaseDigestJob,
+  getDigestQueueStats,
+} from '@/lib/digestQueue';
+
+// Jobs leased per chunk. Each chunk is summarized in parallel, so this is also the
+// OpenAI concurrency per worker.
+const WORKER_CHUNK_SIZE = 10;
+// Visibility timeout: a chunk must finish well within this or its jobs are handed
+// to another worker (the send ledger still prevents a double send)
+const LEASE_VISIBILITY_SECONDS = 180;
+// Stop leasing new chunks, and stop sending, after this long; jobs not yet sent are
+// handed back to the queue for the next worker. Workers run every minute, so keeping
+// each one short means invocations rarely overlap and the Resend rate limit
+// (2 req/sec per API key) holds across workers.
+const WORKER_TIME_BUDGET_MS = 45000;
+
+// Load the users for a chunk of jobs
+async function loadJobUsers(jobs: DigestJob[]): Promise<Map<string, UserWithRelations>> {
+  const userIds = Array.from(new Set(jobs.map((job) => job.user_id)));
+  const { data, error } = (await getSupabaseAdmin()
+    .from('users')
+    .select(USER_DIGEST_SELECT)
+    .in('id', userIds)) as {
+    data: UserWithRelations[] | null;
+    error: unknown;
+  };
+
+  if (error) {
+    throw new Error(`Failed to load users for digest jobs: ${String((error as { message?: string }).message ?? error)}`);
+  }
+
+  return new Map((data || []).map((user) => [user.id, user]));
+}
+
+// Fetch news once per unique topic per local date in the chunk
+async function fetchChunkNews(
+  jobs: DigestJob[],
+  usersById: Map<string, UserWithRelations>
+): Promise<Map<string, Record<string, NewsArticle[]>>> {
+  const topicsByDate = new Map<string, Set<string>>();
+  for (const job of jobs) {
+    const user = usersById.get(job.user_id);
+    const topics = topicsByDate.get(job.local_date) ?? new Set<string>();
+    for (const ut of user?.user_topics || []) {
+      topics.add(ut.topic_name);
+    }
+    topicsByDate.set(job.local_date, topics);
+  }
+
+  const newsByDate = new Map<string, Record<string, NewsArticle[]>>();
+  for (const [localDate, topics] of topicsByDate) {
+    newsByDate.set(
+      localDate,
+      topics.size > 0
+        ? await fetchNewsForMultipleTopics(Array.from(topics), { cacheDate: localDate })
+        : {}
+    );
+  }
+
+  return newsByDate;
+}
+
+// Run one leased chunk: prepare all emails in parallel, then send sequentially until
+// the deadline. Returns how many jobs were handed back unsent.
+async function processChunk(
+  jobs: DigestJob[],
+  workerId: string,
+  results: Results,
+  deadline: number
+): Promise<number> {
+  const usersById = await loadJobUsers(jobs);
+  const newsByDate = await fetchChunkNews(jobs, usersById);
+
+  const prepared = await Promise.allSettled(
+    jobs.map((job): Promise<PrepareResult | null> => {
+      const user = usersById.get(job.user_id);
+      return user
+        ? prepareUserEmail(user, newsByDate.get(job.local_date) ?? {}, job.local_date)
+        : Promise.resolve(null);
+    })
+  );
+
+  let sentInChunk = 0;
+  let released = 0;
+  for (let i = 0; i < jobs.length; i++) {
+    const job = jobs[i];
+    const settled = prepared[i];
+
+    if (settled.status === 'rejected') {
+      const errorMsg = settled.reason instanceof Error ? settled.reason.message : String(settled.reason);
+      await failDigestJob(job, workerId, errorMsg);
+      results.failed++;
+      results.errors.push(`Job ${job.id}: ${errorMsg}`);
+      continue;
+    }
+
+    const prepResult = settled.value;
+
+    if (!prepResult) {
+      // User was deleted after the job was enqueued
+      await completeDigestJob(job, workerId, 'skipped');
+      results.skipped++;
+      results.skipReasons.push(`User ${job.user_id} no longer exists`);
+      continue;
+    }
+
+    if (prepResult.skipped || !prepResult.emailData) {
+      // Preparation errors are already logged to digest_failures for the retry worker
+      const outcome = prepResult.error ? 'failed' : 'skipped';
+      await completeDigestJob(job, workerId, outcome);
+      if (prepResult.error) {
+        results.failed++;
+        results.errors.push(prepResult.error);
+      } else {
+        results.skipped++;
+        if (prepResult.skipReason) results.skipReasons.push(prepResult.skipReason);
+      }
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      // Out of time: the summaries are stored, so the next worker picks this up cheaply
+      await releaseDigestJob(job, workerId);
+      released++;
+      continue;
+    }
+
+    if (sentInChunk > 0) await delay(EMAIL_RATE_LIMIT_DELAY_MS);
+    sentInChunk++;
+
+    try {
+      const sendResult = await sendPreparedEmail(prepResult.emailData, 'cron');
+
+      if (sendResult.skipped) {
+        await completeDigestJob(job, workerId, 'skipped');
+        results.skipped++;
+        if (sendResult.skipReason) results.skipReasons.push(sendResult.skipReason);
+        continue;
+      }
+
+      results.processed++;
+      if (sendResult.successful) {
+        await completeDigestJob(job, workerId, 'sent');
+        results.successful++;
+      } else {
+        // Send failures are logged to digest_failures; the retry worker owns them
+        await completeDigestJob(job, workerId, 'failed');
+        results.failed++;
+        if (sendResult.error) results.errors.push(sendResult.error);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      await failDigestJob(job, workerId, errorMsg);
+      results.failed++;
+      results.errors.push(`Job ${job.id}: ${errorMsg}`);
+    }
+  }
+
+  return released;
+}
+
+export async function GET(request: NextRequest) {
+  // Verify this is a legitimate cron request
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+  const summaryRun = startSummaryRun();
+  const providerRun = startProviderRun();
+  const llmRun = startLlmRun();
+  const usageRun = startUsageRun();
+  const supabase = getSupabaseAdmin();
+  const workerId = `worker-${randomUUID()}`;
+
+  try {
+    resetSourceConfig();
+    resetPromptVersions();
+
+    const results: Results = {
+      processed: 0,
+      successful: 0,
+      failed: 0,
+      skipped: 0,
+      errors: [],
+      skipReasons: [],
+    };
+    let jobsLeased = 0;
+    let jobsReleased = 0;
+    let chunks = 0;
+    const deadline = startTime + WORKER_TIME_BUDGET_MS;
+
+    while (Date.now() < deadline) {
+      const jobs = await leaseDigestJobs(workerId, WORKER_CHUNK_SIZE, LEASE_VISIBILITY_SECONDS);
+      if (jobs.length === 0) break;
+
+      jobsLeased += jobs.length;
+      chunks++;
+      console.log(`[Worker] ${workerId} leased ${jobs.length} digest jobs (chunk ${chunks})`);
+
+      try {
+        jobsReleased += await processChunk(jobs, workerId, results, deadline);
+      } catch (error) {
+        // Chunk-level failure (e.g. users couldn't be loaded) - release every job
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`[Worker] Chunk failed:`, errorMsg);
+        for (const job of jobs) {
+          await failDigestJob(job, workerId, errorMsg);
+        }
+        results.failed += jobs.length;
+        results.errors.push(errorMsg);
+      }
+    }
+
+    const executionTime = Date.now() - startTime;
+
+    if (jobsLeased === 0) {
+      return NextResponse.json({
+        message: 'No digest jobs to process',
+        executionTimeMs: executionTime,
+      });
+    }
+
+    const status = results.failed > 0 && results.successful === 0 ? 'failed' : 'success';
+
+    // Log execution results
+    try {
+      const costStats = await flushUsageRun(usageRun);
+      await supabase.from('cron_job_logs').insert({
+        status,
+        processed_count: results.processed,
+        successful_count: results.successful,
+        failed_count: results.failed,
+        skipped_count: results.skipped,
+        errors: results.errors.slice(0, 50), // Cap errors to avoid huge logs
+        skip_reasons: results.skipReasons.slice(0, 50),
+        provider_stats: getProviderRunStats(providerRun),
+        llm_stats: getLlmRunStats(llmRun),
+        run_id: costStats.runId,
+        cost_stats: costStats,
+        execution_time_ms: executionTime,
+      } as never);
+    } catch (logError) {
+      console.error('[Worker] Failed to log execution:', logError);
+    }
+
+    const summaryStats = getSummaryRunStats(summaryRun);
+    const queue = await getDigestQueueStats();
+
+    console.log(
+      `[Worker] Completed ${jobsLeased} jobs in ${chunks} chunks: ${results.successful} sent, ${results.failed} failed, ${results.skipped} skipped, ${jobsReleased} handed back in ${executionTime}ms`
+    );
+    console.log(
+      `[Worker] Summaries: ${summaryStats.generated} generated, ${summaryStats.storeHits} from store, ${summaryStats.memoryHits} shared in-run`
+    );
+
+    return NextResponse.json({
+      message: 'Digest worker completed',
+      workerId,
+      jobsLeased,
+      jobsReleased,
+      chunks,
+      results,
+      queue,
+      summaryStats,
+      executionTimeMs: executionTime,
+    });
+  } catch (error) {
+    const executionTime = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    try {
+      const costStats = await flushUsageRun(usageRun);
+      await supabase.from('cron_job_logs').insert({
+        status: 'failed',
+        processed_count: 0,
+        successful_count: 0,
+        failed_count: 0,
+        skipped_count: 0,
+        errors: [errorMessage],
+        provider_stats: getProviderRunStats(providerRun),
+        llm_stats: getLlmRunStats(llmRun),
+        run_id: costStats.runId,
+        cost_stats: costStats,
+        execution_time_ms: executionTime,
+      } as never);
+    } catch (logError) {
+      console.error('[Worker] Failed to log failure:', logError);
+    }
+
+    console.error('[Worker] Fatal error:', error);
+    return NextResponse.json(
+      { error: 'Digest worker failed', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
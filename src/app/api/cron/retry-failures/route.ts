@@ -0,0 +1,274 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { fetchNewsForMultipleTopics } from '@/lib/newsapi';
+import { startSummaryRun } from '@/lib/summaryStore';
+import { startProviderRun, getProviderRunStats } from '@/lib/newsProviders';
+import { resetSourceConfig } from '@/lib/sourceConfig';
+import { resetPromptVersions } from '@/lib/promptVersions';
+import { startLlmRun, getLlmRunStats } from '@/lib/llm';
+import { startUsageRun, flushUsageRun } from '@/lib/costTracking';
+import { getLocalDateString } from '@/lib/deliverySchedule';
+import { getLedgeredSends, DAILY_DIGEST_KIND } from '@/lib/sendLedger';
+import {
+  UserWithRelations,
+  Results,
+  USER_DIGEST_SELECT,
+  EMAIL_RATE_LIMIT_DELAY_MS,
+  prepareUserEmail,
+  sendPreparedEmail,
+  delay,
+} from '@/lib/digest';
+import {
+  DigestFailure,
+  getDueFailures,
+  recordRetryAttempt,
+  resolveDigestFailures,
+  abandonDigestFailure,
+} from '@/lib/digestFailures';
+
+// Failures retried per run; the rest wait for the next run
+const MAX_FAILURES_PER_RUN = 25;
+// Time budget: stop processing if we're within 20s of the 300s limit
+const TIME_BUDGET_MS = 280000;
+
+type RetryOutcome = 'sent' | 'failed' | 'skipped' | 'abandoned' | 'resolved';
+
+// Retry a single failure: re-run fetch/summarize/send for the user's delivery day
+async function retryFailure(
+  failure: DigestFailure,
+  user: UserWithRelations | undefined
+): Promise<{ outcome: RetryOutcome; message: string | null }> {
+  if (!user) {
+    await abandonDigestFailure(failure, 'User no longer exists');
+    return { outcome: 'abandoned', message: `User ${failure.user_id} no longer exists` };
+  }
+
+  // Only retry for the current delivery day - a digest for yesterday is stale
+  const localDate = getLocalDateString(user.user_email_settings?.[0]?.timezone);
+  if (failure.local_date !== localDate) {
+    await abandonDigestFailure(failure, `Delivery day ${failure.local_date} has passed`);
+    return { outcome: 'abandoned', message: `Delivery day ${failure.local_date} has passed for ${user.email}` };
+  }
+
+  // Another run may have delivered it in the meantime
+  const alreadySent = await getLedgeredSends([user.id], [localDate], DAILY_DIGEST_KIND, ['sent']);
+  if (alreadySent.size > 0) {
+    await resolveDigestFailures(user.id, localDate);
+    return { outcome: 'resolved', message: null };
+  }
+
+  const topics = user.user_topics?.map((ut) => ut.topic_name) || [];
+  const newsData = topics.length > 0
+    ? await fetchNewsForMultipleTopics(topics, { cacheDate: localDate })
+    : {};
+
+  // Failures are recorded on this failure row (recordRetryAttempt), not logged anew
+  const prepResult = await prepareUserEmail(user, newsData, localDate, 'retry');
+
+  if (prepResult.error || (!prepResult.skipped && !prepResult.emailData)) {
+    const errorMsg = prepResult.error || 'Failed to prepare digest';
+    await recordRetryAttempt(failure, errorMsg);
+    return { outcome: 'failed', message: errorMsg };
+  }
+
+  if (prepResult.skipped || !prepResult.emailData) {
+    // Paused, no topics or no news - nothing left to retry (a summarization
+    // failure comes back as an error above and keeps its backoff)
+    const reason = prepResult.skipReason || 'Nothing to send';
+    await abandonDigestFailure(failure, reason);
+    return { outcome: 'abandoned', message: reason };
+  }
+
+  const sendResult = await sendPreparedEmail(prepResult.emailData, 'retry');
+
+  if (sendResult.successful) {
+    // sendPreparedEmail resolves the user's open failures for the day
+    return { outcome: 'sent', message: null };
+  }
+
+  if (sendResult.skipped) {
+    // Claimed by another run right now - check again on the next run
+    return { outcome: 'skipped', message: sendResult.skipReason };
+  }
+
+  const errorMsg = sendResult.error || 'Unknown send error';
+  await recordRetryAttempt(failure, errorMsg);
+  return { outcome: 'failed', message: errorMsg };
+}
+
+export async function GET(request: NextRequest) {
+  // Verify this is a legitimate cron request
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+  startSummaryRun();
+  const providerRun = startProviderRun();
+  const llmRun = startLlmRun();
+  const usageRun = startUsageRun();
+  const supabase = getSupabaseAdmin();
+
+  try {
+    console.log('[Retry] Starting digest failure retry process...');
+    resetSourceConfig();
+    resetPromptVersions();
+
+    const failures = await getDueFailures(MAX_FAILURES_PER_RUN);
+
+    if (failures.length === 0) {
+      console.log('[Retry] No failures due for retry');
+      return NextResponse.json({
+        message: 'No failures due for retry',
+        executionTimeMs: Date.now() - startTime,
+      });
+    }
+
+    console.log(`[Retry] ${failures.length} failures due for retry`);
+
+    const userIds = Array.from(new Set(failures.map((f) => f.user_id)));
+    const { data: users, error: usersError } = (await supabase
+      .from('users')
+      .select(USER_DIGEST_SELECT)
+      .in('id', userIds)) as {
+      data: UserWithRelations[] | null;
+      error: unknown;
+    };
+
+    if (usersError) {
+      console.error('[Retry] Error fetching users:', usersError);
+      return NextResponse.json(
+        { error: 'Failed to fetch users' },
+        { status: 500 }
+      );
+    }
+
+    const usersById = new Map((users || []).map((user) => [user.id, user]));
+
+    const results: Results = {
+      processed: 0,
+      successful: 0,
+      failed: 0,
+      skipped: 0,
+      errors: [],
+      skipReasons: [],
+    };
+    let resolved = 0;
+    let abandoned = 0;
+
+    for (let i = 0; i < failures.length; i++) {
+      if (Date.now() - startTime >= TIME_BUDGET_MS) {
+        console.warn(`[Retry] Time budget reached, ${failures.length - i} failures left for the next run`);
+        break;
+      }
+
+      if (i > 0) await delay(EMAIL_RATE_LIMIT_DELAY_MS);
+
+      const failure = failures[i];
+      try {
+        const { outcome, message } = await retryFailure(failure, usersById.get(failure.user_id));
+
+        switch (outcome) {
+          case 'sent':
+            results.processed++;
+            results.successful++;
+            break;
+          case 'failed':
+            results.processed++;
+            results.failed++;
+            if (message) results.errors.push(message);
+            break;
+          case 'resolved':
+            resolved++;
+            break;
+          case 'abandoned':
+            abandoned++;
+            results.skipped++;
+            if (message) results.skipReasons.push(message);
+            break;
+          case 'skipped':
+            results.skipped++;
+            if (message) results.skipReasons.push(message);
+            break;
+        }
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        console.error(`[Retry] Error retrying failure ${failure.id}:`, errorMsg);
+        await recordRetryAttempt(failure, errorMsg);
+        results.processed++;
+        results.failed++;
+        results.errors.push(`Failure ${failure.id}: ${errorMsg}`);
+      }
+    }
+
+    const executionTime = Date.now() - startTime;
+    const status = results.failed > 0 && results.successful === 0 ? 'failed' : 'success';
+
+    // Log execution results
+    try {
+      const costStats = await flushUsageRun(usageRun);
+      await supabase.from('cron_job_logs').insert({
+        status,
+        processed_count: results.processed,
+        successful_count: results.successful,
+        failed_count: results.failed,
+        skipped_count: results.skipped,
+        errors: results.errors.slice(0, 50),
+        skip_reasons: results.skipReasons.slice(0, 50),
+        provider_stats: getProviderRunStats(providerRun),
+        llm_stats: getLlmRunStats(llmRun),
+        run_id: costStats.runId,
+        cost_stats: costStats,
+        execution_time_ms: executionTime,
+      } as never);
+    } catch (logError) {
+      console.error('[Retry] Failed to log execution:', logError);
+    }
+
+    console.log(
+      `[Retry] Completed: ${results.successful} sent, ${results.failed} failed, ${resolved} already resolved, ${abandoned} abandoned in ${executionTime}ms`
+    );
+
+    return NextResponse.json({
+      message: 'Digest failure retry completed',
+      results,
+      resolved,
+      abandoned,
+      executionTimeMs: executionTime,
+    });
+  } catch (error) {
+    const executionTime = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    try {
+      const costStats = await flushUsageRun(usageRun);
+      await supabase.from('cron_job_logs').insert({
+        status: 'failed',
+        processed_count: 0,
+        successful_count: 0,
+        failed_count: 0,
+        skipped_count: 0,
+        errors: [errorMessage],
+        provider_stats: getProviderRunStats(providerRun),
+        llm_stats: getLlmRunStats(llmRun),
+        run_id: costStats.runId,
+        cost_stats: costStats,
+        execution_time_ms: executionTime,
+      } as never);
+    } catch (logError) {
+      console.error('[Retry] Failed to log failure:', logError);
+    }
+
+    console.error('[Retry] Retry process failed:', error);
+    return NextResponse.json(
+      { error: 'Retry process failed', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -1,326 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
-import { fetchNewsForMultipleTopics } from '@/lib/newsapi';
-import { summarizeNews, NewsArticle } from '@/lib/openai';
-import { sendNewsDigest } from '@/lib/email';
+import { isDeliveryDue, getLocalDateString } from '@/lib/deliverySchedule';
+import { getLedgeredSends, DAILY_DIGEST_KIND } from '@/lib/sendLedger';
+import { UserWithRelations, USER_DIGEST_SELECT } from '@/lib/digest';
+import { enqueueDigestJobs } from '@/lib/digestQueue';
 
-// Types
-interface UserTopic {
-  topic_name: string;
-}
-
-interface EmailSetting {
-  paused: boolean;
-  delivery_time: string;
-  timezone: string;
-}
-
-interface UserWithRelations {
-  id: string;
-  email: string;
-  subscription_tier: 'free' | 'paid';
-  user_topics: UserTopic[] | null;
-  user_email_settings: EmailSetting[] | null;
-}
-
-interface ProcessResult {
-  processed: boolean;
-  successful: boolean;
-  skipped: boolean;
-  error: string | null;
-  skipReason: string | null;
-}
-
-interface Results {
-  processed: number;
-  successful: number;
-  failed: number;
-  skipped: number;
-  errors: string[];
-  skipReasons: string[];
-}
-
-// Timeout for individual summarization calls (15 seconds)
-const SUMMARIZATION_TIMEOUT_MS = 15000;
-// Rate limit delay for email sending (Resend allows 2 req/sec, so 500ms between each)
-const EMAIL_RATE_LIMIT_DELAY_MS = 550;
-// Process summarization in parallel batches to avoid overwhelming OpenAI
-const SUMMARIZATION_CONCURRENCY = 10;
-
-// US timezone groups for digest delivery at 6:45 AM local time
-const US_TIMEZONES = [
-  'America/New_York',
-  'America/Chicago',
-  'America/Denver',
-  'America/Los_Angeles',
-] as const;
-
-// Determine which US timezones currently have local time around 6:45 AM.
-// Uses a window (6:43-6:50) instead of exact match to tolerate Vercel cron jitter.
-function getMatchingTimezones(): string[] {
-  const now = new Date();
-  const matching: string[] = [];
-
-  for (const tz of US_TIMEZONES) {
-    const formatter = new Intl.DateTimeFormat('en-US', {
-      timeZone: tz,
-      hour: 'numeric',
-      minute: 'numeric',
-      hourCycle: 'h23',
-    });
-    const parts = formatter.formatToParts(now);
-    const hour = parseInt(parts.find(p => p.type === 'hour')?.value || '-1');
-    const minute = parseInt(parts.find(p => p.type === 'minute')?.value || '-1');
-
-    if (hour === 6 && minute >= 43 && minute <= 50) {
-      matching.push(tz);
-    }
-  }
-
-  return matching;
-}
-
-// Utility function to wrap promises with a timeout
-async function withTimeout<T>(
-  promise: Promise<T>,
-  timeoutMs: number,
-  label: string
-): Promise<T> {
-  const timeoutPromise = new Promise<never>((_, reject) =>
-    setTimeout(
-      () => reject(new Error(`${label} timed out after ${timeoutMs}ms`)),
-      timeoutMs
-    )
-  );
-  return Promise.race([promise, timeoutPromise]);
-}
-
-// Utility function to delay execution
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-// Log digest failure to database
-async function logDigestFailure(
-  userId: string,
-  topics: string[],
-  failureReason: string,
-  failureType: 'fetch_error' | 'summary_error' | 'email_error' | 'unknown',
-  errorDetails?: any
-): Promise<void> {
-  try {
-    await getSupabaseAdmin()
-      .from('digest_failures')
-      .insert({
-        user_id: userId,
-        failure_reason: failureReason,
-        failure_type: failureType,
-        topics: topics,
-        error_details: errorDetails ? JSON.stringify(errorDetails) : null,
-        retry_count: 0,
-        resolved: false,
-      } as never);
-
-    console.log(`[Cron] Logged digest failure for user ${userId}: ${failureReason}`);
-  } catch (error) {
-    console.error(`[Cron] Failed to log digest failure:`, error);
-    // Don't fail the whole process if logging fails
-  }
-}
-
-// Prepared email data for a user (after summarization, before sending)
-interface PreparedEmail {
-  user: UserWithRelations;
-  summaries: Awaited<ReturnType<typeof summarizeNews>>[];
-  topics: string[];
-  isPaid: boolean;
-}
-
-// Result from preparing a user's email (summarization phase)
-interface PrepareResult {
-  prepared: boolean;
-  skipped: boolean;
-  skipReason: string | null;
-  error: string | null;
-  emailData: PreparedEmail | null;
-}
-
-// Prepare a single user's email content (generate summaries) without sending
-async function prepareUserEmail(
-  user: UserWithRelations,
-  newsData: Record<string, NewsArticle[]>
-): Promise<PrepareResult> {
-  const result: PrepareResult = {
-    prepared: false,
-    skipped: false,
-    skipReason: null,
-    error: null,
-    emailData: null,
-  };
-
-  try {
-    // Check if user has paused emails
-    const emailSettings = user.user_email_settings?.[0];
-    if (emailSettings?.paused) {
-      result.skipped = true;
-      result.skipReason = `User ${user.email} has paused emails`;
-      return result;
-    }
-
-    if (!user.user_topics || user.user_topics.length === 0) {
-      result.skipped = true;
-      result.skipReason = `User ${user.email} has no topics`;
-      return result;
-    }
-
-    const topics = user.user_topics.map((ut) => ut.topic_name);
-    console.log(
-      `[Cron] Preparing email for ${user.email} with topics: ${topics.join(', ')}`
-    );
-
-    // Generate summaries for each topic using pre-fetched news data (PARALLELIZED)
-    const isPaid = user.subscription_tier === 'paid';
-    const topicsWithArticles = topics.filter(topic => (newsData[topic] || []).length > 0);
-
-    // Process all topics in parallel with timeout protection
-    const summaryPromises = topicsWithArticles.map(async (topic) => {
-      try {
-        const summary = await withTimeout(
-          summarizeNews(topic, newsData[topic], isPaid),
-          SUMMARIZATION_TIMEOUT_MS,
-          `Summarization for "${topic}"`
-        );
-        return { topic, summary, error: null };
-      } catch (error) {
-        console.error(`[Cron] Error generating summary for topic "${topic}":`, error);
-        return { topic, summary: null, error };
-      }
-    });
-
-    const summaryResults = await Promise.allSettled(summaryPromises);
-
-    const summaries: Awaited<ReturnType<typeof summarizeNews>>[] = [];
-    let hadSummaryErrors = false;
-
-    for (const settledResult of summaryResults) {
-      if (settledResult.status === 'fulfilled') {
-        const { summary, error } = settledResult.value;
-        if (error) {
-          hadSummaryErrors = true;
-        } else if (summary && summary.summaries.length > 0) {
-          summaries.push(summary);
-        }
-      } else {
-        hadSummaryErrors = true;
-        console.error(`[Cron] Unexpected summary promise rejection:`, settledResult.reason);
-      }
-    }
-
-    if (summaries.length === 0) {
-      if (hadSummaryErrors) {
-        await logDigestFailure(
-          user.id,
-          topics,
-          `Failed to generate summaries for topics: ${topics.join(', ')}`,
-          'summary_error',
-          { message: 'All summary generation attempts failed' }
-        );
-      }
-
-      result.skipped = true;
-      result.skipReason = `No news found for user ${user.email} (topics: ${topics.join(', ')})`;
-      console.log(`[Cron] Skipping ${user.email}: No summaries generated`);
-      return result;
-    }
-
-    // Return prepared email data (don't send yet)
-    result.prepared = true;
-    result.emailData = { user, summaries, topics, isPaid };
-    return result;
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    result.error = `Error preparing email for ${user.email}: ${errorMsg}`;
-    console.error(result.error);
-
-    const topics = user.user_topics?.map((ut) => ut.topic_name) || [];
-    await logDigestFailure(
-      user.id,
-      topics,
-      errorMsg,
-      'unknown',
-      { stack: error instanceof Error ? error.stack : undefined }
-    );
-  }
-
-  return result;
-}
-
-// Send a prepared email (called sequentially with rate limiting)
-async function sendPreparedEmail(
-  emailData: PreparedEmail
-): Promise<ProcessResult> {
-  const result: ProcessResult = {
-    processed: true,
-    successful: false,
-    skipped: false,
-    error: null,
-    skipReason: null,
-  };
-
-  const { user, summaries, topics, isPaid } = emailData;
-
-  try {
-    const emailResult = await sendNewsDigest(user.email, summaries, isPaid);
-
-    if (emailResult.success) {
-      // Store in email archive
-      try {
-        await getSupabaseAdmin()
-          .from('email_archive')
-          .insert({
-            user_id: user.id,
-            subject: `Your SnipIt Daily Digest - ${new Date().toLocaleDateString()}`,
-            content: summaries as unknown,
-            topics: topics,
-          } as never);
-      } catch (archiveError) {
-        console.error(
-          `[Cron] Failed to archive email for ${user.email}:`,
-          archiveError
-        );
-      }
-
-      result.successful = true;
-      console.log(`[Cron] ✅ Successfully sent digest to ${user.email} (${summaries.length} topics)`);
-    } else {
-      const errorMsg = emailResult.error || 'Unknown email error';
-      result.error = `Failed to send email to ${user.email}: ${errorMsg}`;
-      console.error(`[Cron] ❌ ${result.error}`);
-
-      await logDigestFailure(
-        user.id,
-        topics,
-        errorMsg,
-        'email_error',
-        emailResult.details
-      );
-    }
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    result.error = `Error sending email to ${user.email}: ${errorMsg}`;
-    console.error(result.error);
-
-    await logDigestFailure(
-      user.id,
-      topics,
-      errorMsg,
-      'email_error',
-      { stack: error instanceof Error ? error.stack : undefined }
-    );
-  }
-
-  return result;
-}
+// How long after a user's slot a run may still pick them up. Jobs and the send
+// ledger are both keyed per user and local date, so a missed run is recovered by
+// the next ones without duplicates.
+const DELIVERY_CATCH_UP_MINUTES = 120;
 
 export async function GET(request: NextRequest) {
   // Verify this is a legitimate cron request
@@ -333,43 +21,15 @@ export async function GET(request: NextRequest) {
   const supabase = getSupabaseAdmin();
 
   try {
-    console.log('[Cron] Starting daily digest process...');
-
-    // Determine which US timezones currently have 6:45 AM local time
-    const matchingTimezones = getMatchingTimezones();
+    console.log('[Cron] Starting daily digest enqueue...');
 
-    if (matchingTimezones.length === 0) {
-      console.log('[Cron] No US timezone currently at 6:45 AM, skipping');
-      return NextResponse.json({
-        message: 'No timezone match at current time',
-        executionTimeMs: Date.now() - startTime,
-      });
-    }
-
-    console.log(`[Cron] Timezones at 6:45 AM: ${matchingTimezones.join(', ')}`);
-
-    // Get users whose timezone matches, with topics and email settings
+    // Get users with topics and email settings
     const query = supabase
       .from('users')
-      .select(
-        `
-        id,
-        email,
-        subscription_tier,
-        user_topics (
-          topic_name
-        ),
-        user_email_settings (
-          paused,
-          delivery_time,
-          timezone
-        )
-      `
-      )
+      .select(USER_DIGEST_SELECT)
       .not('user_topics', 'is', null);
 
-    // Filter by matching timezones via the user_email_settings relation
-    // We fetch all users with topics, then filter by timezone in-memory
+    // We fetch all users with topics, then filter by delivery slot in-memory
     // since Supabase doesn't support filtering on nested relation fields directly
     const { data: allUsers, error: usersError } = (await query) as {
       data: UserWithRelations[] | null;
@@ -389,22 +49,40 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ message: 'No users to process' });
     }
 
-    // Filter to users whose timezone matches
-    const users = allUsers.filter(user => {
-      const tz = user.user_email_settings?.[0]?.timezone || 'America/New_York';
-      return matchingTimezones.includes(tz);
+    // Filter to users whose local delivery slot has arrived (within the catch-up window)
+    const now = new Date();
+    const dueUsers = allUsers.filter(user => {
+      const settings = user.user_email_settings?.[0];
+      return isDeliveryDue(settings?.delivery_time, settings?.timezone, now, DELIVERY_CATCH_UP_MINUTES);
     });
 
+    // Each user's digest is for their local calendar date
+    const localDateByUser = new Map<string, string>();
+    for (const user of dueUsers) {
+      localDateByUser.set(user.id, getLocalDateString(user.user_email_settings?.[0]?.timezone, now));
+    }
+
+    // Drop users who already got (or are getting) today's digest from an earlier run.
+    // Failed sends are left to the retry-failures worker and its backoff.
+    const ledgered = await getLedgeredSends(
+      dueUsers.map(user => user.id),
+      Array.from(new Set(localDateByUser.values())),
+      DAILY_DIGEST_KIND,
+      ['claimed', 'sent', 'failed']
+    );
+    const users = dueUsers.filter(user => !ledgered.has(`${user.id}|${localDateByUser.get(user.id)}`));
+    const alreadySentCount = dueUsers.length - users.length;
+
     if (users.length === 0) {
-      console.log(`[Cron] No users in matching timezones (${matchingTimezones.join(', ')})`);
+      console.log(`[Cron] No users due for delivery in this window (${alreadySentCount} already sent)`);
       return NextResponse.json({
-        message: 'No users in matching timezones',
-        matchingTimezones,
+        message: 'No users due for delivery',
+        alreadySent: alreadySentCount,
         executionTimeMs: Date.now() - startTime,
       });
     }
 
-    console.log(`[Cron] Found ${users.length} users in matching timezones (of ${allUsers.length} total)`);
+    console.log(`[Cron] Found ${users.length} users due for delivery (of ${allUsers.length} total, ${alreadySentCount} already sent)`);
 
     // Filter to active users (not paused, have topics)
     const activeUsers = users.filter(user => {
@@ -424,91 +102,24 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Collect all unique topics across all active users
-    const uniqueTopics = new Set<string>();
-    for (const user of activeUsers) {
-      for (const ut of user.user_topics!) {
-        uniqueTopics.add(ut.topic_name);
-      }
-    }
-
-    console.log(`[Cron] Fetching news for ${uniqueTopics.size} unique topics`);
-
-    // Fetch news once for all unique topics (major optimization!)
-    const newsData: Record<string, NewsArticle[]> = {};
-    if (uniqueTopics.size > 0) {
-      const fetchedNews = await fetchNewsForMultipleTopics(Array.from(uniqueTopics));
-      Object.assign(newsData, fetchedNews);
-    }
-
-    const results: Results = {
-      processed: 0,
-      successful: 0,
-      failed: 0,
-      skipped: skippedCount,
-      errors: [],
-      skipReasons: [],
-    };
-
-    // PHASE 1: Prepare all emails (summarization) with controlled concurrency
-    console.log(`[Cron] Phase 1: Preparing ${activeUsers.length} emails...`);
-
-    const preparedEmails: PreparedEmail[] = [];
-
-    // Process in batches to control OpenAI concurrency
-    for (let i = 0; i < activeUsers.length; i += SUMMARIZATION_CONCURRENCY) {
-      const batch = activeUsers.slice(i, i + SUMMARIZATION_CONCURRENCY);
-      const batchPromises = batch.map(user => prepareUserEmail(user, newsData));
-      const batchResults = await Promise.allSettled(batchPromises);
-
-      for (const settledResult of batchResults) {
-        if (settledResult.status === 'fulfilled') {
-          const prepResult = settledResult.value;
-          if (prepResult.skipped) {
-            results.skipped++;
-            if (prepResult.skipReason) results.skipReasons.push(prepResult.skipReason);
-          } else if (prepResult.error) {
-            results.failed++;
-            results.errors.push(prepResult.error);
-          } else if (prepResult.prepared && prepResult.emailData) {
-            preparedEmails.push(prepResult.emailData);
-          }
-        } else {
-          results.failed++;
-          results.errors.push(`Preparation failed: ${settledResult.reason}`);
-        }
-      }
-    }
-
-    // PHASE 2: Send emails sequentially with rate limiting (Resend: 2 req/sec)
-    console.log(`[Cron] Phase 2: Sending ${preparedEmails.length} emails...`);
-
-    for (let i = 0; i < preparedEmails.length; i++) {
-      if (i > 0) await delay(EMAIL_RATE_LIMIT_DELAY_MS);
-
-      const sendResult = await sendPreparedEmail(preparedEmails[i]);
-      results.processed++;
-
-      if (sendResult.successful) {
-        results.successful++;
-      } else if (sendResult.error) {
-        results.failed++;
-        results.errors.push(sendResult.error);
-      }
-    }
+    // Enqueue one job per user; digest-worker invocations do the fetching,
+    // summarizing and rate-limited sending in bounded chunks
+    const enqueued = await enqueueDigestJobs(
+      activeUsers.map(user => ({ userId: user.id, localDate: localDateByUser.get(user.id)! }))
+    );
+    const alreadyQueued = activeUsers.length - enqueued;
 
     const executionTime = Date.now() - startTime;
-    const status = results.failed > 0 && results.successful === 0 ? 'failed' : 'success';
 
     // Log execution results
     try {
       await supabase.from('cron_job_logs').insert({
-        status,
-        processed_count: results.processed,
-        successful_count: results.successful,
-        failed_count: results.failed,
-        skipped_count: results.skipped,
-        errors: results.errors.length > 0 ? results.errors.slice(0, 50) : [], // Cap errors to avoid huge logs
+        status: 'success',
+        processed_count: activeUsers.length,
+        successful_count: enqueued,
+        failed_count: 0,
+        skipped_count: skippedCount + alreadySentCount + alreadyQueued,
+        errors: [],
         execution_time_ms: executionTime,
       } as never);
     } catch (logError) {
@@ -516,14 +127,17 @@ export async function GET(request: NextRequest) {
     }
 
     console.log(
-      `[Cron] Completed: ${results.successful} sent, ${results.failed} failed, ${results.skipped} skipped in ${executionTime}ms`
+      `[Cron] Enqueued ${enqueued} digest jobs (${alreadyQueued} already queued, ${skippedCount} skipped) in ${executionTime}ms`
     );
 
     return NextResponse.json({
-      message: 'Daily digest process completed',
-      results,
+      message: 'Digest jobs enqueued',
+      enqueued,
+      alreadyQueued,
+      alreadySent: alreadySentCount,
+      skipped: skippedCount,
+      localDates: Array.from(new Set(localDateByUser.values())),
       executionTimeMs: executionTime,
-      uniqueTopics: uniqueTopics.size,
     });
   } catch (error) {
     const executionTime = Date.now() - startTime;
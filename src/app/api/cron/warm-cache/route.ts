@@ -1,14 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { fetchNewsForMultipleTopics } from '@/lib/newsapi';
+import { getSharedSummary, startSummaryRun, getSummaryRunStats } from '@/lib/summaryStore';
+import { startProviderRun, getProviderRunStats } from '@/lib/newsProviders';
+import { resetSourceConfig } from '@/lib/sourceConfig';
+import { resetPromptVersions } from '@/lib/promptVersions';
+import { startLlmRun, getLlmRunStats } from '@/lib/llm';
+import { startUsageRun, flushUsageRun } from '@/lib/costTracking';
 
 interface TopicInfo {
   topic_name: string;
   user_count: number;
+  tiers: ('free' | 'paid')[];
+}
+
+interface UserTopicRow {
+  topic_name: string;
+  users: { subscription_tier: 'free' | 'paid' } | null;
 }
 
 // Time budget: stop processing if we're within 20s of the 300s limit
 const TIME_BUDGET_MS = 280000;
+// Summaries generated in parallel while pre-warming the summary store
+const SUMMARY_WARM_CONCURRENCY = 5;
 
 // Get all unique topics across all users
 async function getAllUserTopics(): Promise<TopicInfo[]> {
@@ -16,7 +30,7 @@ async function getAllUserTopics(): Promise<TopicInfo[]> {
 
   const { data, error } = await supabase
     .from('user_topics')
-    .select('topic_name')
+    .select('topic_name, users ( subscription_tier )')
     .order('topic_name');
 
   if (error) {
@@ -28,16 +42,18 @@ async function getAllUserTopics(): Promise<TopicInfo[]> {
     return [];
   }
 
-  // Count occurrences of each topic
-  const topicCounts = new Map<string, number>();
-  for (const row of data as { topic_name: string }[]) {
-    const count = topicCounts.get(row.topic_name) || 0;
-    topicCounts.set(row.topic_name, count + 1);
+  // Count occurrences of each topic and which tiers subscribe to it
+  const topicCounts = new Map<string, { count: number; tiers: Set<'free' | 'paid'> }>();
+  for (const row of data as unknown as UserTopicRow[]) {
+    const entry = topicCounts.get(row.topic_name) || { count: 0, tiers: new Set() };
+    entry.count++;
+    entry.tiers.add(row.users?.subscription_tier || 'free');
+    topicCounts.set(row.topic_name, entry);
   }
 
   // Convert to array and sort by popularity
   const topicInfos: TopicInfo[] = Array.from(topicCounts.entries())
-    .map(([topic_name, user_count]) => ({ topic_name, user_count }))
+    .map(([topic_name, { count, tiers }]) => ({ topic_name, user_count: count, tiers: Array.from(tiers) }))
     .sort((a, b) => b.user_count - a.user_count);
 
   return topicInfos;
@@ -51,9 +67,15 @@ export async function GET(request: NextRequest) {
   }
 
   const startTime = Date.now();
+  const summaryRun = startSummaryRun();
+  const providerRun = startProviderRun();
+  const llmRun = startLlmRun();
+  const usageRun = startUsageRun();
 
   try {
     console.log('[Cache Warming] Starting cache warming process...');
+    resetSourceConfig();
+    resetPromptVersions();
 
     // Get all unique topics across all users
     const topics = await getAllUserTopics();
@@ -95,11 +117,45 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // Pre-generate shared summaries so send-digests only has to read them.
+    // Most popular topics first, stopping when the time budget runs out.
+    const summaryJobs = topics.flatMap((t) =>
+      (newsData[t.topic_name] || []).length > 0
+        ? t.tiers.map((tier) => ({ topic: t.topic_name, isPaid: tier === 'paid' }))
+        : []
+    );
+    let summariesWarmed = 0;
+
+    for (let i = 0; i < summaryJobs.length; i += SUMMARY_WARM_CONCURRENCY) {
+      if (Date.now() - startTime >= TIME_BUDGET_MS) {
+        console.warn(`[Cache Warming] Time budget reached, warmed ${summariesWarmed}/${summaryJobs.length} summaries`);
+        break;
+      }
+
+      const batch = summaryJobs.slice(i, i + SUMMARY_WARM_CONCURRENCY);
+      const batchResults = await Promise.allSettled(
+        batch.map((job) => getSharedSummary(job.topic, newsData[job.topic], job.isPaid))
+      );
+
+      for (const [index, result] of batchResults.entries()) {
+        if (result.status === 'fulfilled') {
+          summariesWarmed++;
+        } else {
+          const job = batch[index];
+          errors.push(`Summary warming failed for "${job.topic}" (${job.isPaid ? 'paid' : 'free'})`);
+        }
+      }
+    }
+
+    const summaryStats = getSummaryRunStats(summaryRun);
+    console.log(`[Cache Warming] Summaries: ${summaryStats.generated} generated, ${summaryStats.storeHits} already stored`);
+
     const executionTime = Date.now() - startTime;
 
     // Log execution to database
     try {
       const supabase = getSupabaseAdmin();
+      const costStats = await flushUsageRun(usageRun);
       await supabase.from('cron_job_logs').insert({
         status: failed > 0 && successful === 0 ? 'failed' : 'success',
         processed_count: topicNames.length,
@@ -107,6 +163,10 @@ export async function GET(request: NextRequest) {
         failed_count: failed,
         skipped_count: 0,
         errors,
+        provider_stats: getProviderRunStats(providerRun),
+        llm_stats: getLlmRunStats(llmRun),
+        run_id: costStats.runId,
+        cost_stats: costStats,
         execution_time_ms: executionTime,
       } as never);
 
@@ -124,6 +184,8 @@ export async function GET(request: NextRequest) {
         successful,
         failed,
         errors,
+        summariesWarmed,
+        summaryJobs: summaryJobs.length,
       },
       executionTimeMs: executionTime,
     });
@@ -136,6 +198,7 @@ export async function GET(request: NextRequest) {
     // Log failure to database
     try {
       const supabase = getSupabaseAdmin();
+      const costStats = await flushUsageRun(usageRun);
       await supabase.from('cron_job_logs').insert({
         status: 'failed',
         processed_count: 0,
@@ -143,6 +206,10 @@ export async function GET(request: NextRequest) {
         failed_count: 0,
         skipped_count: 0,
         errors: [errorMessage],
+        provider_stats: getProviderRunStats(providerRun),
+        llm_stats: getLlmRunStats(llmRun),
+        run_id: costStats.runId,
+        cost_stats: costStats,
         execution_time_ms: executionTime,
       } as never);
     } catch (logError) {
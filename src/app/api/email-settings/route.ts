@@ -2,20 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { getSupabaseAdmin } from '@/lib/supabase';
 import { cookies } from 'next/headers';
-
-const VALID_TIMEZONES = [
-  'America/New_York',
-  'America/Chicago',
-  'America/Denver',
-  'America/Los_Angeles',
-];
-
-const TIMEZONE_OFFSETS: Record<string, string> = {
-  'America/New_York': '-05:00',
-  'America/Chicago': '-06:00',
-  'America/Denver': '-07:00',
-  'America/Los_Angeles': '-08:00',
-};
+import { isValidDeliveryTime, isValidTimezone, DEFAULT_DELIVERY_TIME, DEFAULT_TIMEZONE } from '@/lib/deliverySchedule';
+import { isSummaryDepth, SummaryDepth } from '@/lib/summaryDepth';
 
 export async function GET(request: NextRequest) {
   try {
@@ -59,6 +47,7 @@ export async function GET(request: NextRequest) {
       delivery_time: string;
       timezone: string;
       paused: boolean;
+      summary_depth?: SummaryDepth;
       updated_at?: string;
     };
 
@@ -81,8 +70,8 @@ export async function GET(request: NextRequest) {
         .from('user_email_settings')
         .insert({
           user_id: user.id,
-          delivery_time: '06:45:00-05:00',
-          timezone: 'America/New_York',
+          delivery_time: `${DEFAULT_DELIVERY_TIME}:00`,
+          timezone: DEFAULT_TIMEZONE,
           paused: false,
         } as never)
         .select()
@@ -141,7 +130,16 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { paused, timezone } = body;
+    const {
+      paused,
+      timezone,
+      delivery_time: deliveryTime,
+      breaking_alerts: breakingAlerts,
+      alert_quiet_start: quietStart,
+      alert_quiet_end: quietEnd,
+      alert_daily_cap: alertDailyCap,
+      summary_depth: summaryDepth,
+    } = body;
 
     // Build update payload — only include fields that were provided
     const updatePayload: Record<string, unknown> = {
@@ -154,15 +152,74 @@ export async function PUT(request: NextRequest) {
     }
 
     if (timezone !== undefined) {
-      if (!VALID_TIMEZONES.includes(timezone)) {
+      if (!isValidTimezone(timezone)) {
         return NextResponse.json(
-          { error: 'Invalid timezone. Must be one of: ' + VALID_TIMEZONES.join(', ') },
+          { error: 'Invalid timezone. Must be an IANA timezone such as Europe/London' },
           { status: 400 }
         );
       }
       updatePayload.timezone = timezone;
-      const utcOffset = TIMEZONE_OFFSETS[timezone] || '-05:00';
-      updatePayload.delivery_time = `06:45:00${utcOffset}`;
+    }
+
+    if (deliveryTime !== undefined) {
+      if (typeof deliveryTime !== 'string' || !isValidDeliveryTime(deliveryTime)) {
+        return NextResponse.json(
+          { error: 'Invalid delivery time. Use HH:MM on a 15-minute boundary' },
+          { status: 400 }
+        );
+      }
+      // Plain local time; it is interpreted in the user's timezone at send time
+      updatePayload.delivery_time = `${deliveryTime.slice(0, 5)}:00`;
+    }
+
+    if (breakingAlerts !== undefined) {
+      if (breakingAlerts === true) {
+        // Breaking news alerts are a Pro feature
+        const { data: userData } = await getSupabaseAdmin()
+          .from('users')
+          .select('subscription_tier')
+          .eq('id', user.id)
+          .single<{ subscription_tier: string }>();
+
+        if (userData?.subscription_tier !== 'paid') {
+          return NextResponse.json(
+            { error: 'Breaking news alerts are available on the Pro plan' },
+            { status: 403 }
+          );
+        }
+      }
+      updatePayload.breaking_alerts = breakingAlerts === true;
+    }
+
+    for (const [field, value] of [['alert_quiet_start', quietStart], ['alert_quiet_end', quietEnd]] as const) {
+      if (value === undefined) continue;
+      if (typeof value !== 'string' || !isValidDeliveryTime(value)) {
+        return NextResponse.json(
+          { error: 'Invalid quiet hours. Use HH:MM on a 15-minute boundary' },
+          { status: 400 }
+        );
+      }
+      updatePayload[field] = `${value.slice(0, 5)}:00`;
+    }
+
+    if (alertDailyCap !== undefined) {
+      if (!Number.isInteger(alertDailyCap) || alertDailyCap < 1 || alertDailyCap > 10) {
+        return NextResponse.json(
+          { error: 'Daily alert cap must be between 1 and 10' },
+          { status: 400 }
+        );
+      }
+      updatePayload.alert_daily_cap = alertDailyCap;
+    }
+
+    if (summaryDepth !== undefined) {
+      if (!isSummaryDepth(summaryDepth)) {
+        return NextResponse.json(
+          { error: 'Invalid summary depth. Use headline, brief or deep' },
+          { status: 400 }
+        );
+      }
+      updatePayload.summary_depth = summaryDepth;
     }
 
     const { data, error } = await getSupabaseAdmin()
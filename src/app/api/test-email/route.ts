@@ -4,6 +4,7 @@ import { getSupabaseAdmin } from '@/lib/supabase';
 import { fetchNewsForMultipleTopics } from '@/lib/newsapi';
 import { summarizeNews } from '@/lib/openai';
 import { sendNewsDigest } from '@/lib/email';
+import { getPromptVersionIds } from '@/lib/promptVersions';
 import { cookies } from 'next/headers';
 
 export async function POST(request: NextRequest) {
@@ -143,6 +144,7 @@ export async function POST(request: NextRequest) {
             subject: `Your SnipIt Daily Digest - ${new Date().toLocaleDateString()}`,
             content: summaries as unknown,
             topics: topics,
+            prompt_version_ids: getPromptVersionIds(summaries),
           } as never);
         console.log(`[Test Email] ✅ Email archived successfully`);
       } catch (archiveError) {
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import type { NewsArticle } from '@/lib/openai';
+import { checkFaithfulness, describeFailure } from '@/lib/faithfulness';
+
+/**
+ * Test endpoint for the faithfulness check: runs fixed bullets against a fixed
+ * article and sports context, and reports which were kept. No network calls.
+ *
+ * Usage with curl:
+ *   curl "http://localhost:3000/api/test-faithfulness"
+ *
+ * Returns 200 when every case behaves as expected, 500 otherwise
+ */
+
+const ARTICLE: NewsArticle = {
+  title: 'Celtics hold off Knicks behind Tatum',
+  description: 'Boston beat New York 118-111 on Tuesday as Jayson Tatum scored 34 points.',
+  url: 'https://example.com/celtics-knicks',
+  publishedAt: '2025-01-01T00:00:00Z',
+  source: { name: 'Example Sports' },
+};
+
+// Sports prompt context, as built from TheSportsDB scores
+const SPORTS_CONTEXT = 'Boston Celtics 118 - 111 New York Knicks (Match Finished)';
+
+const CASES: Array<{ name: string; bullet: string; kept: boolean }> = [
+  { name: 'quick-score abbreviations and status', bullet: 'BOS 118 — NYK 111 (Final) | Tatum 34 pts.', kept: true },
+  { name: 'unsourced team abbreviation', bullet: 'Tatum scored 34 points against the LAL.', kept: false },
+  { name: 'unsourced score', bullet: 'Boston won 120-111 behind Tatum.', kept: false },
+];
+
+export async function GET() {
+  const results = CASES.map((testCase) => {
+    const { summaries, failures } = checkFaithfulness(
+      [{ title: ARTICLE.title, summary: '', bullets: [testCase.bullet], url: ARTICLE.url, source: ARTICLE.source.name }],
+      [ARTICLE],
+      { format: 'bullets', sharedContext: SPORTS_CONTEXT }
+    );
+    const kept = summaries.length > 0;
+    return {
+      name: testCase.name,
+      bullet: testCase.bullet,
+      expected: testCase.kept ? 'kept' : 'dropped',
+      passed: kept === testCase.kept,
+      failures: failures.map(describeFailure),
+    };
+  });
+
+  const passed = results.every((result) => result.passed);
+  return NextResponse.json({ success: passed, results }, { status: passed ? 200 : 500 });
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchNewsForTopic } from '@/lib/newsapi';
+import { summarizeNews } from '@/lib/openai';
+import { generateEmailHTML } from '@/lib/email';
+import { resolveSummaryDepth } from '@/lib/summaryDepth';
+
+/**
+ * Test endpoint for the whole digest path: fetch, score, rank, summarize and render
+ * the email for one topic. Nothing is sent.
+ *
+ * Works offline against recorded fixtures (see FIXTURE_MODE in docs/README.md):
+ *   FIXTURE_MODE=record npm run dev   # then hit the endpoint once with real keys
+ *   FIXTURE_MODE=replay npm run dev   # same request, served from fixtures/
+ *
+ * Usage with curl:
+ *   curl "http://localhost:3000/api/test-pipeline?topic=nba"
+ *   curl "http://localhost:3000/api/test-pipeline?topic=nba&paid=1&nocache=1"
+ *   curl "http://localhost:3000/api/test-pipeline?topic=nba&depth=headline"
+ *
+ * Returns the rendered email HTML
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const topic = request.nextUrl.searchParams.get('topic');
+    const isPaid = request.nextUrl.searchParams.get('paid') === '1';
+    const depth = resolveSummaryDepth(request.nextUrl.searchParams.get('depth'));
+    const noCacheParam = request.nextUrl.searchParams.get('nocache');
+    const noCache = noCacheParam === '1' || noCacheParam === 'true';
+
+    if (!topic) {
+      return NextResponse.json(
+        {
+          error: 'Topic parameter is required',
+          usage: 'GET /api/test-pipeline?topic=<topic_name>&paid=1&nocache=1&depth=headline|brief|deep',
+          example: 'GET /api/test-pipeline?topic=nba',
+        },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[Test Pipeline] Running digest pipeline for topic: "${topic}"`);
+
+    const articles = await fetchNewsForTopic(topic, {
+      useCache: !noCache,
+      writeCache: !noCache,
+    });
+
+    if (articles.length === 0) {
+      return NextResponse.json({ topic, error: 'No articles found for this topic' }, { status: 404 });
+    }
+
+    const summary = await summarizeNews(topic, articles, isPaid, { depth });
+    console.log(`[Test Pipeline] ${articles.length} articles, ${summary.summaries.length} summaries`);
+
+    return new NextResponse(generateEmailHTML('preview@snipit.news', [summary], isPaid, { depth }), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+      },
+    });
+  } catch (error) {
+    console.error('[Test Pipeline] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to run digest pipeline',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
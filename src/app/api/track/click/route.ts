@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyClick, recordEmailEvents } from '@/lib/emailEvents';
+
+/**
+ * Article link redirect for digest emails: records the click in email_events and
+ * sends the reader on to the article. Links are built and signed by buildClickUrl
+ * (src/lib/emailEvents.ts); anything else is rejected rather than redirected.
+ */
+export async function GET(request: NextRequest) {
+  const click = verifyClick(request.nextUrl.searchParams);
+
+  if (!click) {
+    return NextResponse.json({ error: 'Invalid link' }, { status: 400 });
+  }
+
+  await recordEmailEvents([
+    {
+      event_type: 'click',
+      archive_id: click.archiveId,
+      topic: click.topic,
+      url: click.url,
+      experiment_id: click.experimentId,
+      arm: click.arm,
+    },
+  ]);
+
+  return NextResponse.redirect(click.url, 302);
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupabaseAdmin } from '@/lib/supabase';
+import { recordUnsubscribe, verifyUnsubscribe } from '@/lib/emailEvents';
+
+// POST - Unsubscribe the recipient of a digest from daily digests ({ userId, token }
+// from the signed link in the email, see buildUnsubscribeUrl): removes the user's
+// topics, pauses delivery and records the unsubscribe for engagement stats. The
+// response doesn't say whether the user exists.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, token } = await request.json();
+
+    if (!verifyUnsubscribe(userId, token)) {
+      return NextResponse.json(
+        { error: 'This unsubscribe link is invalid. Use the link in one of your emails, or pause digests from your dashboard.' },
+        { status: 400 }
+      );
+    }
+
+    const adminClient = getSupabaseAdmin();
+
+    // Remove all topics for this user and pause email delivery
+    const { error: topicsError } = await adminClient.from('user_topics').delete().eq('user_id', userId);
+
+    if (topicsError) {
+      console.error('Error deleting topics:', topicsError);
+      return NextResponse.json({ error: 'Error unsubscribing. Please try again.' }, { status: 500 });
+    }
+
+    const { error: settingsError } = await adminClient
+      .from('user_email_settings')
+      .update({ paused: true } as never)
+      .eq('user_id', userId);
+
+    if (settingsError) {
+      console.error('Error updating email settings for unsubscribe:', settingsError);
+      // Don't fail unsubscribe if pausing fails; topics are already removed
+    }
+
+    await recordUnsubscribe(userId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unsubscribing:', error);
+    return NextResponse.json({ error: 'Something went wrong. Please try again.' }, { status: 500 });
+  }
+}
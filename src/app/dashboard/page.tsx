@@ -1,11 +1,18 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabase';
-import { Plus, X, Crown, Clock, Pause, Play, Mail, Check, ChevronDown } from 'lucide-react';
+import { Plus, X, Crown, Clock, Pause, Play, Mail, Check, ChevronDown, Zap } from 'lucide-react';
 import Navigation from '@/components/Navigation';
 import TopicSelector from '@/components/TopicSelector';
+import {
+  DELIVERY_SLOT_MINUTES,
+  DEFAULT_DELIVERY_TIME,
+  formatDeliveryTime,
+  parseDeliveryTime,
+} from '@/lib/deliverySchedule';
+import { DEFAULT_SUMMARY_DEPTH, SUMMARY_DEPTH_OPTIONS, SummaryDepth } from '@/lib/summaryDepth';
 
 interface User {
   id: string;
@@ -26,8 +33,15 @@ interface EmailSettings {
   delivery_time: string;
   timezone: string;
   paused: boolean;
+  breaking_alerts?: boolean;
+  alert_quiet_start?: string;
+  alert_quiet_end?: string;
+  alert_daily_cap?: number;
+  summary_depth?: SummaryDepth;
 }
 
+type AlertSettings = Pick<EmailSettings, 'breaking_alerts' | 'alert_quiet_start' | 'alert_quiet_end' | 'alert_daily_cap'>;
+
 interface MainTopic {
   name: string;
   subtopics: string[];
@@ -41,12 +55,45 @@ interface EmailArchive {
   content: unknown;
 }
 
-const TIMEZONE_OPTIONS = [
-  { value: 'America/New_York', label: 'EST (Eastern)' },
-  { value: 'America/Chicago', label: 'CST (Central)' },
-  { value: 'America/Denver', label: 'MST (Mountain)' },
-  { value: 'America/Los_Angeles', label: 'PST (Pacific)' },
-] as const;
+// Every IANA timezone the browser knows about, labelled with its current UTC offset
+function getTimezoneOptions(selected: string): { value: string; label: string }[] {
+  const zones = Intl.supportedValuesOf('timeZone');
+  if (!zones.includes(selected)) {
+    zones.unshift(selected);
+  }
+
+  const now = new Date();
+  return zones.map((zone) => {
+    let offset = '';
+    try {
+      offset = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'shortOffset' })
+        .formatToParts(now)
+        .find((p) => p.type === 'timeZoneName')?.value || '';
+    } catch {
+      // Unknown to this browser - show the bare name
+    }
+    const name = zone.replace(/_/g, ' ');
+    return { value: zone, label: offset ? `${name} (${offset})` : name };
+  });
+}
+
+// Delivery slots on the same 15-minute grid the send-digests cron runs on
+const DELIVERY_TIME_OPTIONS = Array.from(
+  { length: (24 * 60) / DELIVERY_SLOT_MINUTES },
+  (_, i) => {
+    const minutes = i * DELIVERY_SLOT_MINUTES;
+    return { value: formatDeliveryTime(minutes), label: formatTimeLabel(minutes) };
+  }
+);
+
+// Format minutes after midnight as a 12-hour label, e.g. "6:45 AM"
+function formatTimeLabel(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  const period = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:${String(minute).padStart(2, '0')} ${period}`;
+}
 
 export default function Dashboard() {
   const router = useRouter();
@@ -60,6 +107,11 @@ export default function Dashboard() {
   const [isPaused, setIsPaused] = useState(false);
   const [selectedTimezone, setSelectedTimezone] = useState('America/New_York');
   const [isSavingTimezone, setIsSavingTimezone] = useState(false);
+  const [selectedDeliveryTime, setSelectedDeliveryTime] = useState(DEFAULT_DELIVERY_TIME);
+  const [isSavingDeliveryTime, setIsSavingDeliveryTime] = useState(false);
+  const [isSavingAlerts, setIsSavingAlerts] = useState(false);
+  const [isSavingDepth, setIsSavingDepth] = useState(false);
+  const timezoneOptions = useMemo(() => getTimezoneOptions(selectedTimezone), [selectedTimezone]);
   const [archive, setArchive] = useState<EmailArchive[]>([]);
   const [availableTopics, setAvailableTopics] = useState<MainTopic[]>([]);
   const [activeTab, setActiveTab] = useState<'topics' | 'settings' | 'archive'>(
@@ -127,6 +179,10 @@ export default function Dashboard() {
           setEmailSettings(settings);
           setIsPaused(settings.paused || false);
           setSelectedTimezone(settings.timezone || 'America/New_York');
+          const deliveryMinutes = parseDeliveryTime(settings.delivery_time);
+          if (deliveryMinutes !== null) {
+            setSelectedDeliveryTime(formatDeliveryTime(deliveryMinutes));
+          }
         }
       }
 
@@ -260,6 +316,106 @@ export default function Dashboard() {
     }
   };
 
+  const updateDeliveryTime = async (newDeliveryTime: string) => {
+    const previousDeliveryTime = selectedDeliveryTime;
+    setSelectedDeliveryTime(newDeliveryTime);
+    setIsSavingDeliveryTime(true);
+
+    try {
+      const response = await fetch('/api/email-settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          delivery_time: newDeliveryTime,
+        }),
+      });
+
+      if (response.ok) {
+        const { settings } = await response.json();
+        setEmailSettings(settings);
+      } else {
+        setSelectedDeliveryTime(previousDeliveryTime);
+        const { error } = await response.json();
+        alert('Error updating delivery time: ' + error);
+      }
+    } catch (error) {
+      setSelectedDeliveryTime(previousDeliveryTime);
+      console.error('Error updating delivery time:', error);
+      alert('Error updating delivery time');
+    } finally {
+      setIsSavingDeliveryTime(false);
+    }
+  };
+
+  const updateSummaryDepth = async (depth: SummaryDepth) => {
+    if (!emailSettings) return;
+    const previousSettings = emailSettings;
+    setEmailSettings({ ...emailSettings, summary_depth: depth });
+    setIsSavingDepth(true);
+
+    try {
+      const response = await fetch('/api/email-settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ summary_depth: depth }),
+      });
+
+      if (response.ok) {
+        const { settings } = await response.json();
+        setEmailSettings(settings);
+      } else {
+        setEmailSettings(previousSettings);
+        const { error } = await response.json();
+        alert('Error updating summary depth: ' + error);
+      }
+    } catch (error) {
+      setEmailSettings(previousSettings);
+      console.error('Error updating summary depth:', error);
+      alert('Error updating summary depth');
+    } finally {
+      setIsSavingDepth(false);
+    }
+  };
+
+  const updateAlertSettings = async (changes: AlertSettings) => {
+    if (!emailSettings) return;
+    const previousSettings = emailSettings;
+    setEmailSettings({ ...emailSettings, ...changes });
+    setIsSavingAlerts(true);
+
+    try {
+      const response = await fetch('/api/email-settings', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(changes),
+      });
+
+      if (response.ok) {
+        const { settings } = await response.json();
+        setEmailSettings(settings);
+      } else {
+        setEmailSettings(previousSettings);
+        const { error } = await response.json();
+        alert('Error updating breaking news alerts: ' + error);
+      }
+    } catch (error) {
+      setEmailSettings(previousSettings);
+      console.error('Error updating breaking news alerts:', error);
+      alert('Error updating breaking news alerts');
+    } finally {
+      setIsSavingAlerts(false);
+    }
+  };
+
   const togglePause = async () => {
     const newPausedState = !isPaused;
     setIsPaused(newPausedState);
@@ -389,8 +545,8 @@ export default function Dashboard() {
   const canAddMore = topics.length < maxTopics;
 
   // Format delivery time for display
-  const formatDeliveryTime = () => {
-    return '6:45 AM';
+  const getDeliveryTimeLabel = () => {
+    return formatTimeLabel(parseDeliveryTime(selectedDeliveryTime) ?? 0);
   };
 
   return (
@@ -420,7 +576,7 @@ export default function Dashboard() {
           <div className="bg-[#1a1a1a] p-6 border border-[#FFA500]/20">
             <p className="text-sm text-gray-400 mb-2">Next Digest</p>
             <p className="text-lg font-medium text-white">
-              {formatDeliveryTime()}
+              {getDeliveryTimeLabel()}
             </p>
           </div>
 
@@ -600,8 +756,32 @@ export default function Dashboard() {
                   Delivery Time
                 </h3>
                 <p className="text-sm text-gray-400 mb-4">
-                  Your daily digest is sent at <strong className="text-white">6:45 AM</strong> in your selected timezone.
+                  Your daily digest is sent at <strong className="text-white">{getDeliveryTimeLabel()}</strong> in your selected timezone, adjusted automatically for daylight saving time.
                 </p>
+                <div className="flex items-center gap-3 mb-4">
+                  <label htmlFor="delivery-time-select" className="text-sm text-gray-400">
+                    Time
+                  </label>
+                  <div className="relative">
+                    <select
+                      id="delivery-time-select"
+                      value={selectedDeliveryTime}
+                      onChange={(e) => updateDeliveryTime(e.target.value)}
+                      disabled={isSavingDeliveryTime}
+                      className="appearance-none bg-[#2a2a2a] border border-[#FFA500]/30 text-white text-sm px-4 py-2 pr-9 focus:outline-none focus:border-[#FFA500] transition-colors disabled:opacity-50 cursor-pointer"
+                    >
+                      {DELIVERY_TIME_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <ChevronDown className="absolute right-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+                  </div>
+                  {isSavingDeliveryTime && (
+                    <div className="w-4 h-4 border-2 border-[#FFA500]/30 border-t-[#FFA500] rounded-full animate-spin" />
+                  )}
+                </div>
                 <div className="flex items-center gap-3">
                   <label htmlFor="timezone-select" className="text-sm text-gray-400">
                     Timezone
@@ -614,7 +794,7 @@ export default function Dashboard() {
                       disabled={isSavingTimezone}
                       className="appearance-none bg-[#2a2a2a] border border-[#FFA500]/30 text-white text-sm px-4 py-2 pr-9 focus:outline-none focus:border-[#FFA500] transition-colors disabled:opacity-50 cursor-pointer"
                     >
-                      {TIMEZONE_OPTIONS.map((tz) => (
+                      {timezoneOptions.map((tz) => (
                         <option key={tz.value} value={tz.value}>
                           {tz.label}
                         </option>
@@ -628,6 +808,131 @@ export default function Dashboard() {
                 </div>
               </div>
 
+              {/* Summary Depth */}
+              {emailSettings && (
+                <div className="p-6 bg-[#1a1a1a] border border-[#FFA500]/20 mb-6">
+                  <h3 className="font-medium text-white mb-2">
+                    Summary Depth
+                  </h3>
+                  <p className="text-sm text-gray-400 mb-4">
+                    How much of each story your digest covers, within your plan&apos;s limits.
+                  </p>
+                  <div className="flex flex-wrap items-center gap-3">
+                    {SUMMARY_DEPTH_OPTIONS.map((option) => {
+                      const isSelected = (emailSettings.summary_depth ?? DEFAULT_SUMMARY_DEPTH) === option.value;
+                      return (
+                        <button
+                          key={option.value}
+                          onClick={() => updateSummaryDepth(option.value)}
+                          disabled={isSavingDepth || isSelected}
+                          title={option.description}
+                          className={`px-4 py-2 text-sm font-medium transition-colors disabled:cursor-default ${
+                            isSelected
+                              ? 'bg-gradient-to-r from-[#FFA500] to-[#FF6B47] text-[#1a1a1a]'
+                              : 'bg-[#1a1a1a] border border-[#FFA500]/30 text-[#FFA500] hover:border-[#FFA500] disabled:opacity-50'
+                          }`}
+                        >
+                          {option.label}
+                        </button>
+                      );
+                    })}
+                    {isSavingDepth && (
+                      <div className="w-4 h-4 border-2 border-[#FFA500]/30 border-t-[#FFA500] rounded-full animate-spin" />
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-3">
+                    {SUMMARY_DEPTH_OPTIONS.find((option) => option.value === (emailSettings.summary_depth ?? DEFAULT_SUMMARY_DEPTH))?.description}
+                  </p>
+                </div>
+              )}
+
+              {/* Breaking News Alerts (Pro) */}
+              {user?.subscription_tier === 'paid' && emailSettings && (
+                <div className="p-6 bg-[#1a1a1a] border border-[#FFA500]/20 mb-6">
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-medium text-white flex items-center gap-2">
+                      <Zap className="w-4 h-4 text-[#FFA500]" />
+                      Breaking News Alerts
+                    </h3>
+                    <button
+                      onClick={() => updateAlertSettings({ breaking_alerts: !emailSettings.breaking_alerts })}
+                      disabled={isSavingAlerts}
+                      className={`px-4 py-2 text-sm font-medium transition-colors disabled:opacity-50 ${
+                        emailSettings.breaking_alerts
+                          ? 'bg-[#1a1a1a] border border-[#FFA500]/30 text-[#FFA500] hover:border-[#FFA500]'
+                          : 'bg-gradient-to-r from-[#FFA500] to-[#FF6B47] text-[#1a1a1a] hover:from-[#FFD700] hover:to-[#FFA500]'
+                      }`}
+                    >
+                      {emailSettings.breaking_alerts ? 'Turn Off' : 'Turn On'}
+                    </button>
+                  </div>
+                  <p className="text-sm text-gray-400 mb-4">
+                    Get a short email when a major story breaks in one of your topics, between digests.
+                  </p>
+                  {emailSettings.breaking_alerts && (
+                    <div className="flex flex-wrap items-center gap-3">
+                      <label htmlFor="quiet-start-select" className="text-sm text-gray-400">
+                        Quiet hours
+                      </label>
+                      <div className="relative">
+                        <select
+                          id="quiet-start-select"
+                          value={formatDeliveryTime(parseDeliveryTime(emailSettings.alert_quiet_start) ?? 22 * 60)}
+                          onChange={(e) => updateAlertSettings({ alert_quiet_start: e.target.value })}
+                          disabled={isSavingAlerts}
+                          className="appearance-none bg-[#2a2a2a] border border-[#FFA500]/30 text-white text-sm px-4 py-2 pr-9 focus:outline-none focus:border-[#FFA500] transition-colors disabled:opacity-50 cursor-pointer"
+                        >
+                          {DELIVERY_TIME_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                        <ChevronDown className="absolute right-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+                      </div>
+                      <span className="text-sm text-gray-400">to</span>
+                      <div className="relative">
+                        <select
+                          id="quiet-end-select"
+                          value={formatDeliveryTime(parseDeliveryTime(emailSettings.alert_quiet_end) ?? 7 * 60)}
+                          onChange={(e) => updateAlertSettings({ alert_quiet_end: e.target.value })}
+                          disabled={isSavingAlerts}
+                          className="appearance-none bg-[#2a2a2a] border border-[#FFA500]/30 text-white text-sm px-4 py-2 pr-9 focus:outline-none focus:border-[#FFA500] transition-colors disabled:opacity-50 cursor-pointer"
+                        >
+                          {DELIVERY_TIME_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                        <ChevronDown className="absolute right-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+                      </div>
+                      <label htmlFor="alert-cap-select" className="text-sm text-gray-400 sm:ml-4">
+                        Max per day
+                      </label>
+                      <div className="relative">
+                        <select
+                          id="alert-cap-select"
+                          value={emailSettings.alert_daily_cap ?? 3}
+                          onChange={(e) => updateAlertSettings({ alert_daily_cap: Number(e.target.value) })}
+                          disabled={isSavingAlerts}
+                          className="appearance-none bg-[#2a2a2a] border border-[#FFA500]/30 text-white text-sm px-4 py-2 pr-9 focus:outline-none focus:border-[#FFA500] transition-colors disabled:opacity-50 cursor-pointer"
+                        >
+                          {[1, 2, 3, 5, 10].map((cap) => (
+                            <option key={cap} value={cap}>
+                              {cap}
+                            </option>
+                          ))}
+                        </select>
+                        <ChevronDown className="absolute right-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+                      </div>
+                      {isSavingAlerts && (
+                        <div className="w-4 h-4 border-2 border-[#FFA500]/30 border-t-[#FFA500] rounded-full animate-spin" />
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
 
               {/* Subscription & Account Management */}
               <div className="p-6 bg-[#1a1a1a] border border-[#FFA500]/20 space-y-6">
@@ -601,7 +601,7 @@ export default function LandingPage() {
                 Get your digest
               </h3>
               <p className="text-gray-400 leading-relaxed">
-                Receive your personalized news digest every morning at 6:45 AM.
+                Receive your personalized news digest every day at the time you choose (6:45 AM by default).
               </p>
             </div>
           </div>
@@ -1,72 +1,38 @@
 'use client';
 
-import { useState, useEffect, Suspense } from 'react';
+import { useState, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
-import { supabase } from '@/lib/supabase';
 
 function UnsubscribePageContent() {
-  const [email, setEmail] = useState('');
   const [isUnsubscribing, setIsUnsubscribing] = useState(false);
   const [message, setMessage] = useState('');
   const searchParams = useSearchParams();
-
-  useEffect(() => {
-    const emailParam = searchParams.get('email');
-    if (emailParam) {
-      setEmail(emailParam);
-    }
-  }, [searchParams]);
+  // Signed link from a digest email (see buildUnsubscribeUrl)
+  const userId = searchParams.get('u');
+  const token = searchParams.get('s');
 
   const handleUnsubscribe = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!email) return;
+    if (!userId || !token) return;
 
     setIsUnsubscribing(true);
     setMessage('');
 
     try {
-      // Find user by email
-      const { data: user, error: userError } = await supabase
-        .from('users')
-        .select('id')
-        .eq('email', email)
-        .single();
-
-      if (userError || !user) {
-        setMessage('Email not found. You may already be unsubscribed.');
-        return;
-      }
-
-      // Remove all topics for this user and pause email delivery
-      const { error: topicsError } = await supabase
-        .from('user_topics')
-        .delete()
-        .eq('user_id', user.id);
-
-      if (topicsError) {
-        setMessage('Error unsubscribing. Please try again.');
-        console.error('Error deleting topics:', topicsError);
+      const response = await fetch('/api/unsubscribe', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ userId, token }),
+      });
+
+      if (!response.ok) {
+        const { error: errorData } = await response.json();
+        setMessage(errorData || 'Error unsubscribing. Please try again.');
         return;
       }
 
-      // Pause email delivery if settings exist
-      const { error: settingsError } = await supabase
-        .from('user_email_settings')
-        .upsert(
-          {
-            user_id: user.id,
-            paused: true,
-          },
-          {
-            onConflict: 'user_id',
-          }
-        );
-
-      if (settingsError) {
-        console.error('Error updating email settings for unsubscribe:', settingsError);
-        // Don't fail unsubscribe if pausing fails; topics are already removed
-      }
-
       setMessage(
         'Successfully unsubscribed! You will no longer receive daily digests.'
       );
@@ -87,38 +53,30 @@ function UnsubscribePageContent() {
           </div>
           <h1 className="text-2xl font-bold text-gray-900 mb-2">Unsubscribe</h1>
           <p className="text-gray-600">
-            We're sorry to see you go! Enter your email to unsubscribe from
-            daily digests.
+            {userId && token
+              ? "We're sorry to see you go! Confirm below to unsubscribe from daily digests."
+              : 'To unsubscribe, use the unsubscribe link in one of your digest emails, or sign in and pause your digests from your dashboard.'}
           </p>
         </div>
 
-        <form onSubmit={handleUnsubscribe} className="space-y-4">
-          <div>
-            <label
-              htmlFor="email"
-              className="block text-sm font-medium text-gray-700 mb-2"
+        {userId && token ? (
+          <form onSubmit={handleUnsubscribe} className="space-y-4">
+            <button
+              type="submit"
+              disabled={isUnsubscribing || message.includes('Successfully')}
+              className="w-full bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              Email Address
-            </label>
-            <input
-              type="email"
-              id="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              placeholder="your@email.com"
-              required
-            />
-          </div>
-
-          <button
-            type="submit"
-            disabled={isUnsubscribing || !email}
-            className="w-full bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              {isUnsubscribing ? 'Unsubscribing...' : 'Unsubscribe'}
+            </button>
+          </form>
+        ) : (
+          <a
+            href="/dashboard"
+            className="block w-full text-center bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 transition-colors"
           >
-            {isUnsubscribing ? 'Unsubscribing...' : 'Unsubscribe'}
-          </button>
-        </form>
+            Go to Dashboard
+          </a>
+        )}
 
         {message && (
           <div
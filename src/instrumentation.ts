@@ -0,0 +1,7 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.FIXTURE_MODE) {
+    const { installFixtures } = await import('./lib/fixtures');
+    installFixtures();
+  }
+}
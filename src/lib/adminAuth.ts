@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { cookies } from 'next/headers';
+import { getSupabaseAdmin } from './supabase';
+
+// Admin check for the admin API routes: the signed-in user (from the session
+// cookie) must have role 'admin' in the users table.
+
+// Returns an error response unless the caller is an admin, otherwise the admin's email
+export async function requireAdmin(): Promise<{ denied: NextResponse } | { email: string | null }> {
+  const cookieStore = await cookies();
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll() {},
+      },
+    }
+  );
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { denied: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { data: userData } = await getSupabaseAdmin()
+    .from('users')
+    .select('role')
+    .eq('id', user.id)
+    .single<{ role: string }>();
+
+  if (!userData || userData.role !== 'admin') {
+    return { denied: NextResponse.json({ error: 'Forbidden' }, { status: 403 }) };
+  }
+
+  return { email: user.email ?? null };
+}
@@ -0,0 +1,80 @@
+import { getSupabaseAdmin } from './supabase';
+
+// Shared daily request quota per news provider, stored in api_quota_usage so every
+// serverless invocation counts against the same budget. Increments go through the
+// increment_api_quota function, which checks and bumps the count in one statement.
+
+// Usage is re-read from the database at most this often per instance; our own
+// reservations update the cached value immediately
+const USAGE_CACHE_TTL_MS = 30 * 1000;
+
+const usageCache = new Map<string, { date: string; used: number; fetchedAt: number }>();
+
+// Quota days follow UTC, like the providers' own resets
+function getUsageDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+function setCachedUsage(provider: string, used: number): void {
+  usageCache.set(provider, { date: getUsageDate(), used, fetchedAt: Date.now() });
+}
+
+// Requests used today across all instances
+export async function getApiQuotaUsed(provider: string): Promise<number> {
+  const today = getUsageDate();
+  const cached = usageCache.get(provider);
+  if (cached && cached.date === today && Date.now() - cached.fetchedAt < USAGE_CACHE_TTL_MS) {
+    return cached.used;
+  }
+
+  try {
+    const { data, error } = await getSupabaseAdmin()
+      .from('api_quota_usage')
+      .select('request_count')
+      .eq('provider', provider)
+      .eq('usage_date', today)
+      .maybeSingle<{ request_count: number }>();
+
+    if (error) {
+      console.error(`[Quota] Error loading ${provider} usage:`, error);
+      return cached?.date === today ? cached.used : 0;
+    }
+
+    const used = data?.request_count ?? 0;
+    setCachedUsage(provider, used);
+    return used;
+  } catch (error) {
+    console.error(`[Quota] Error loading ${provider} usage:`, error);
+    return cached?.date === today ? cached.used : 0;
+  }
+}
+
+// Reserve one request before calling a provider. Returns false if today's limit is
+// used up. dailyLimit null counts the request without enforcing a limit.
+// If the quota table can't be reached the request is allowed - a tracking outage
+// shouldn't stop digests, and the provider's own 429 still protects us.
+export async function reserveApiRequest(provider: string, dailyLimit: number | null): Promise<boolean> {
+  try {
+    const { data, error } = await getSupabaseAdmin().rpc('increment_api_quota' as never, {
+      p_provider: provider,
+      p_limit: dailyLimit,
+    } as never);
+
+    if (error) {
+      console.error(`[Quota] Failed to reserve ${provider} request:`, error);
+      return true;
+    }
+
+    if (data === null) {
+      if (dailyLimit !== null) setCachedUsage(provider, dailyLimit);
+      console.warn(`[Quota] ${provider} daily limit reached (${dailyLimit})`);
+      return false;
+    }
+
+    setCachedUsage(provider, data as number);
+    return true;
+  } catch (error) {
+    console.error(`[Quota] Failed to reserve ${provider} request:`, error);
+    return true;
+  }
+}
@@ -0,0 +1,368 @@
+import { lookup } from 'dns';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Readable } from 'stream';
+import { NewsArticle } from './openai';
+import { isUsingFixtures } from './fixtures';
+import { toPlainText } from './utils/feedParser';
+import { cleanArticleContent, truncateAtSentenceBoundary } from './utils/articleCleaning';
+
+// Full-text extraction: fetches each selected article's page and pulls out the main
+// body, so summaries work from the actual story rather than a truncated API blurb.
+// Set ARTICLE_EXTRACTION=off to skip it (summaries then fall back to descriptions).
+
+const PAGE_TIMEOUT_MS = 6000;
+const EXTRACTION_CONCURRENCY = 4;
+// Pages larger than this are almost always app shells or galleries, not articles
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+// Redirects are followed by hand so every hop's host can be checked
+const MAX_REDIRECTS = 5;
+// Stored with the cached article and sent to the prompt, so keep it bounded
+export const MAX_CONTENT_CHARS = 6000;
+// Paragraphs shorter than this are usually captions, bylines or UI text
+const MIN_PARAGRAPH_CHARS = 60;
+// Less extracted text than this isn't worth more than the description
+const MIN_CONTENT_CHARS = 400;
+
+// Elements that never hold article body text
+const BOILERPLATE_ELEMENTS = ['script', 'style', 'noscript', 'svg', 'nav', 'header', 'footer', 'aside', 'figure', 'iframe', 'template'];
+// Class/id fragments marking comment threads, promos and related-story rails
+const BOILERPLATE_HINT = /comment|related|recommend|promo|newsletter|subscribe|share|social|sidebar|footer|advert|\bad-|cookie|popup|modal/i;
+
+// Article URLs come from third-party feeds and APIs, so never fetch anything that
+// isn't on the public internet (loopback, private networks, cloud metadata, etc.)
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isExtractionEnabled(): boolean {
+  return process.env.ARTICLE_EXTRACTION !== 'off';
+}
+
+function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return PRIVATE_ADDRESSES.check(mapped[1], 'ipv4');
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+const PAGE_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; SnipitNews/1.0; +https://snipit.news)',
+  Accept: 'text/html,application/xhtml+xml',
+};
+// Statuses whose Response can't carry a body
+const NULL_BODY_STATUSES = [204, 205, 304];
+
+// Throws unless the URL is http(s), and if the host is an IP address, a public one.
+// Hostnames are checked as they are resolved for the connection (see checkedLookup).
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new Error(`Refusing to fetch non-public host ${url.hostname}`);
+  }
+}
+
+// DNS lookup for page requests that fails unless every address is public. The
+// connection uses the addresses checked here, so a host can't pass the check and
+// then re-resolve to a private address (DNS rebinding).
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some((entry) => isPrivateAddress(entry.address))) {
+      callback(new Error(`Refusing to fetch non-public host ${hostname}`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// One GET with node's http client, so the connection goes through checkedLookup.
+// No shared agent: a pooled socket could have been opened without the check.
+function requestPage(url: URL, signal: AbortSignal): Promise<Response> {
+  const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const request = send(url, { headers: PAGE_HEADERS, lookup: checkedLookup, agent: false, signal }, (res) => {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(res.headers)) {
+        for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+          headers.append(name, item);
+        }
+      }
+
+      const status = res.statusCode ?? 502;
+      const hasBody = !NULL_BODY_STATUSES.includes(status);
+      if (!hasBody) res.resume();
+
+      resolve(
+        new Response(hasBody ? (Readable.toWeb(res) as ReadableStream<Uint8Array>) : null, {
+          status,
+          statusText: res.statusMessage,
+          headers,
+        })
+      );
+    });
+
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+// Fetch a page, checking the host of the URL and of every redirect
+async function fetchPublicPage(url: string, signal: AbortSignal): Promise<Response> {
+  let target = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    assertPublicUrl(target);
+
+    // With fixtures installed (never in production) pages are recorded and replayed
+    // through fetch
+    const response = isUsingFixtures()
+      ? await fetch(target, { headers: PAGE_HEADERS, redirect: 'manual', signal })
+      : await requestPage(target, signal);
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects fetching ${url}`);
+    }
+    target = new URL(location, target);
+  }
+}
+
+// Read the body as text, giving up (null) as soon as it passes MAX_PAGE_BYTES
+async function readLimitedText(response: Response): Promise<string | null> {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > MAX_PAGE_BYTES || !response.body) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    if (received > MAX_PAGE_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+
+  return text + decoder.decode();
+}
+
+function stripBoilerplate(html: string): string {
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, ' ');
+  for (const tag of BOILERPLATE_ELEMENTS) {
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[\\s\\S]*?</${tag}>`, 'gi'), ' ');
+  }
+  return cleaned;
+}
+
+interface Container {
+  id: number;
+  tag: string;
+  boilerplate: boolean;
+  articleBody: boolean;
+}
+
+function hasBoilerplateHint(attributes: string): boolean {
+  for (const match of attributes.matchAll(/\b(?:class|id)\s*=\s*["']([^"']*)["']/gi)) {
+    if (BOILERPLATE_HINT.test(match[1])) return true;
+  }
+  return false;
+}
+
+// Paragraph text worth keeping: long enough and ending like a sentence
+function toParagraphText(html: string): string | null {
+  const text = cleanArticleContent(toPlainText(html));
+  return text.length >= MIN_PARAGRAPH_CHARS && /[.!?]["'”’)]?$/.test(text) ? text : null;
+}
+
+// Readability-style candidate selection in a single pass over the tags. Each
+// paragraph scores its parent container (and half for the grandparent); the body
+// is the paragraphs under an <article>/articleBody container if that holds enough
+// text, otherwise under the highest-scoring container.
+function findMainContent(html: string): string[] {
+  const stack: Container[] = [];
+  const paragraphs: Array<{ text: string; ancestors: number[] }> = [];
+  const scores = new Map<number, number>();
+  const articleBodies = new Set<number>();
+  let nextId = 0;
+  let paragraphStart = -1;
+  let paragraphIsBoilerplate = false;
+
+  const closeParagraph = (end: number) => {
+    if (paragraphStart < 0) return;
+    const text = paragraphIsBoilerplate ? null : toParagraphText(html.slice(paragraphStart, end));
+    paragraphStart = -1;
+
+    if (!text || stack.some((c) => c.boilerplate)) return;
+
+    paragraphs.push({ text, ancestors: stack.map((c) => c.id) });
+    const parent = stack[stack.length - 1];
+    const grandparent = stack[stack.length - 2];
+    if (parent) scores.set(parent.id, (scores.get(parent.id) ?? 0) + text.length);
+    if (grandparent) scores.set(grandparent.id, (scores.get(grandparent.id) ?? 0) + text.length / 2);
+  };
+
+  for (const match of html.matchAll(/<(\/?)(main|article|div|section|p)\b([^>]*)>/gi)) {
+    const [, closing, rawTag, attributes] = match;
+    const tag = rawTag.toLowerCase();
+    const index = match.index ?? 0;
+
+    // Any tag here ends an open paragraph (HTML lets </p> be omitted)
+    closeParagraph(index);
+
+    if (tag === 'p') {
+      if (!closing) {
+        paragraphStart = index + match[0].length;
+        paragraphIsBoilerplate = hasBoilerplateHint(attributes);
+      }
+      continue;
+    }
+
+    if (!closing) {
+      const container: Container = {
+        id: nextId++,
+        tag,
+        boilerplate: hasBoilerplateHint(attributes),
+        articleBody: tag === 'article' || /itemprop\s*=\s*["']articleBody["']/i.test(attributes),
+      };
+      if (container.articleBody) articleBodies.add(container.id);
+      stack.push(container);
+    } else {
+      // Pop back to the matching open tag, tolerating unbalanced markup
+      for (let i = stack.length - 1; i >= 0; i--) {
+        if (stack[i].tag === tag) {
+          stack.length = i;
+          break;
+        }
+      }
+    }
+  }
+  closeParagraph(html.length);
+
+  const paragraphsUnder = (id: number) => paragraphs.filter((p) => p.ancestors.includes(id)).map((p) => p.text);
+
+  // An explicit article container wins if it holds enough text
+  let bestBody: string[] = [];
+  for (const id of articleBodies) {
+    const body = paragraphsUnder(id);
+    if (body.join(' ').length > bestBody.join(' ').length) bestBody = body;
+  }
+  if (bestBody.join(' ').length >= MIN_CONTENT_CHARS) {
+    return bestBody;
+  }
+
+  let bestId = -1;
+  let bestScore = 0;
+  for (const [id, score] of scores) {
+    if (score > bestScore) {
+      bestId = id;
+      bestScore = score;
+    }
+  }
+
+  // Fall back to every paragraph on the page
+  return bestId >= 0 ? paragraphsUnder(bestId) : paragraphs.map((p) => p.text);
+}
+
+// Extract the main body text of an article page. Returns null when the page can't
+// be fetched or doesn't contain enough article text (paywalls, video pages, etc.).
+export async function extractArticleText(url: string): Promise<string | null> {
+  try {
+    const response = await fetchPublicPage(url, AbortSignal.timeout(PAGE_TIMEOUT_MS));
+
+    if (!response.ok) {
+      console.warn(`[Extraction] ${response.status} fetching ${url}`);
+      return null;
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('html')) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const html = await readLimitedText(response);
+    if (html === null) {
+      return null;
+    }
+
+    const paragraphs = findMainContent(stripBoilerplate(html));
+
+    // Drop repeated paragraphs (pull quotes, duplicated mobile/desktop markup)
+    const unique = Array.from(new Set(paragraphs));
+    const text = unique.join('\n\n');
+
+    if (text.length < MIN_CONTENT_CHARS) {
+      return null;
+    }
+
+    return truncateAtSentenceBoundary(text, MAX_CONTENT_CHARS);
+  } catch (error) {
+    console.warn(`[Extraction] Failed to extract ${url}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Add extracted full text to articles that don't have it yet. Articles whose page
+// can't be extracted are returned unchanged.
+export async function extractArticleContents(articles: NewsArticle[]): Promise<NewsArticle[]> {
+  if (!isExtractionEnabled()) {
+    return articles;
+  }
+
+  const results = [...articles];
+  let extracted = 0;
+
+  for (let i = 0; i < articles.length; i += EXTRACTION_CONCURRENCY) {
+    const batch = articles.slice(i, i + EXTRACTION_CONCURRENCY);
+    const contents = await Promise.all(
+      batch.map((article) => (article.content ? Promise.resolve(article.content) : extractArticleText(article.url)))
+    );
+
+    contents.forEach((content, index) => {
+      if (content) {
+        results[i + index] = { ...batch[index], content };
+        extracted++;
+      }
+    });
+  }
+
+  console.log(`[Extraction] Extracted full text for ${extracted}/${articles.length} articles`);
+  return results;
+}
@@ -1,66 +1,18 @@
 import { NewsArticle } from './openai';
-import { getSourcesForTopic } from './newsSources';
-
-// Source quality tiers (based on reputation and reliability)
-const SOURCE_QUALITY_TIERS = {
-  tier1: {
-    // Top-tier sources (highly reputable)
-    sources: [
-      'reuters.com',
-      'apnews.com',
-      'bbc.com',
-      'npr.org',
-      'theguardian.com',
-      'wsj.com',
-      'nytimes.com',
-      'washingtonpost.com',
-      'economist.com',
-      'bloomberg.com',
-      'ft.com', // Financial Times
-    ],
-    score: 1.0,
-  },
-  tier2: {
-    // Reputable sources (good quality)
-    sources: [
-      'cnn.com',
-      'axios.com',
-      'politico.com',
-      'theatlantic.com',
-      'forbes.com',
-      'cnbc.com',
-      'techcrunch.com',
-      'theverge.com',
-      'arstechnica.com',
-      'wired.com',
-      'espn.com',
-      'cbssports.com',
-      'si.com', // Sports Illustrated
-      'nature.com',
-      'sciencedaily.com',
-    ],
-    score: 0.8,
-  },
-  tier3: {
-    // Decent sources (acceptable quality)
-    sources: [
-      'usatoday.com',
-      'latimes.com',
-      'chicagotribune.com',
-      'huffpost.com',
-      'businessinsider.com',
-      'marketwatch.com',
-      'engadget.com',
-      'mashable.com',
-      'bleacherreport.com',
-    ],
-    score: 0.6,
-  },
-  default: {
-    // Unknown sources
-    score: 0.4,
-  },
+import { SourceConfig, SourceTier, getDefaultSourceConfig, getPreferredSources, getSourceTier, matchesSourceDomain } from './sourceConfig';
+import { clusterArticles, getOutlet } from './storyClustering';
+
+// Quality score per source tier; unranked sources get the default
+const TIER_QUALITY_SCORES: Record<SourceTier, number> = {
+  1: 1.0,
+  2: 0.8,
+  3: 0.6,
 };
+const DEFAULT_QUALITY_SCORE = 0.4;
+
+// Share of relevance taken from the semantic score when embeddings are available;
+// the rest stays with keyword matching, which still rewards exact topic mentions
+const SEMANTIC_RELEVANCE_WEIGHT = 0.7;
 
 // Calculate TF-IDF relevance score for keyword matching
 function calculateKeywordRelevance(article: NewsArticle, topic: string): number {
@@ -131,84 +83,117 @@ function calculateRecencyScore(article: NewsArticle): number {
 }
 
 // Calculate source quality score
-function calculateSourceQuality(article: NewsArticle): number {
-  const url = article.url.toLowerCase();
-  const sourceName = article.source.name.toLowerCase();
-
-  // Check each tier
-  for (const tier of [SOURCE_QUALITY_TIERS.tier1, SOURCE_QUALITY_TIERS.tier2, SOURCE_QUALITY_TIERS.tier3]) {
-    for (const source of tier.sources) {
-      if (url.includes(source) || sourceName.includes(source)) {
-        return tier.score;
-      }
-    }
-  }
-
-  return SOURCE_QUALITY_TIERS.default.score;
+function calculateSourceQuality(article: NewsArticle, sourceConfig: SourceConfig): number {
+  const tier = getSourceTier(sourceConfig, article);
+  return tier ? TIER_QUALITY_SCORES[tier] : DEFAULT_QUALITY_SCORE;
 }
 
-// Diversity score placeholder (for future clustering)
-function calculateDiversityScore(): number {
-  return 1.0;
+// Coverage score: how many distinct outlets report the story. One outlet scores 0,
+// rising on a log scale to 1.0 at COVERAGE_SATURATION outlets.
+const COVERAGE_SATURATION = 5;
+
+function calculateCoverageScore(outletCount: number): number {
+  if (outletCount <= 1) return 0;
+  return Math.min(1, Math.log(outletCount) / Math.log(COVERAGE_SATURATION));
 }
 
 // Calculate preferred source boost for topic-specific sources
-function calculatePreferredSourceBoost(article: NewsArticle, topic: string): number {
-  const preferredSources = getSourcesForTopic(topic);
-  const url = article.url.toLowerCase();
-  const sourceName = article.source.name.toLowerCase();
-
-  for (const source of preferredSources) {
-    if (url.includes(source) || sourceName.includes(source)) {
-      return 0.15;
-    }
-  }
+function calculatePreferredSourceBoost(article: NewsArticle, topic: string, sourceConfig: SourceConfig): number {
+  const preferredSources = getPreferredSources(sourceConfig, topic);
+  return preferredSources.some((source) => matchesSourceDomain(article, source)) ? 0.15 : 0.0;
+}
 
-  return 0.0;
+// Other outlets' articles on the same story, attached to its representative. The
+// description lets the summarizer synthesize across outlets and cite them.
+export interface StorySibling {
+  title: string;
+  description: string;
+  url: string;
+  source: string;
 }
 
 // Combined scoring algorithm
 export interface ScoredArticle extends NewsArticle {
   relevanceScore: number;
+  semanticScore: number | null; // Embedding similarity to the topic, null if unavailable
   recencyScore: number;
   sourceQualityScore: number;
-  diversityScore: number;
+  coverageScore: number;
   preferredSourceBoost: number;
   totalScore: number;
+  outletCount: number; // Distinct outlets covering this story
+  siblings: StorySibling[];
 }
 
+// Score articles and collapse them into stories: each story cluster is represented
+// once, by its highest-scoring article, with the other outlets' coverage attached.
+// semanticScores (from getSemanticRelevance, keyed by URL) are blended into
+// relevance; without them relevance is keyword matching alone. sourceConfig (from
+// loadSourceConfig) supplies tiers and preferred sources, defaulting to the built-ins.
 export function scoreArticles(
   articles: NewsArticle[],
-  topic: string
+  topic: string,
+  semanticScores?: Map<string, number> | null,
+  sourceConfig: SourceConfig = getDefaultSourceConfig()
 ): ScoredArticle[] {
-  // Calculate all scores
-  const scoredArticles: ScoredArticle[] = articles.map((article) => {
-    const relevanceScore = calculateKeywordRelevance(article, topic);
-    const recencyScore = calculateRecencyScore(article);
-    const sourceQualityScore = calculateSourceQuality(article);
-    const diversityScore = calculateDiversityScore();
-    const preferredSourceBoost = calculatePreferredSourceBoost(article, topic);
-
-    // Weighted total score: Relevance 45%, Recency 30%, Source Quality 25%
-    const totalScore =
-      relevanceScore * 0.45 +
-      recencyScore * 0.30 +
-      sourceQualityScore * 0.25 +
-      preferredSourceBoost;
+  const clusters = clusterArticles(articles);
+
+  const representatives: ScoredArticle[] = clusters.map((cluster) => {
+    const coverageScore = calculateCoverageScore(cluster.outlets.length);
+
+    // Calculate all scores
+    const scoredMembers = cluster.members.map((article) => {
+      const keywordScore = calculateKeywordRelevance(article, topic);
+      const semanticScore = semanticScores?.get(article.url) ?? null;
+      const relevanceScore = semanticScore === null
+        ? keywordScore
+        : semanticScore * SEMANTIC_RELEVANCE_WEIGHT + keywordScore * (1 - SEMANTIC_RELEVANCE_WEIGHT);
+      const recencyScore = calculateRecencyScore(article);
+      const sourceQualityScore = calculateSourceQuality(article, sourceConfig);
+      const preferredSourceBoost = calculatePreferredSourceBoost(article, topic, sourceConfig);
+
+      // Weighted total score: Relevance 40%, Recency 25%, Source Quality 20%, Coverage 15%
+      const totalScore =
+        relevanceScore * 0.40 +
+        recencyScore * 0.25 +
+        sourceQualityScore * 0.20 +
+        coverageScore * 0.15 +
+        preferredSourceBoost;
+
+      return { article, relevanceScore, semanticScore, recencyScore, sourceQualityScore, preferredSourceBoost, totalScore };
+    });
+
+    const best = scoredMembers.reduce((a, b) => (b.totalScore > a.totalScore ? b : a));
+    const bestOutlet = getOutlet(best.article);
 
     return {
-      ...article,
-      relevanceScore,
-      recencyScore,
-      sourceQualityScore,
-      diversityScore,
-      preferredSourceBoost,
-      totalScore,
+      ...best.article,
+      relevanceScore: best.relevanceScore,
+      semanticScore: best.semanticScore,
+      recencyScore: best.recencyScore,
+      sourceQualityScore: best.sourceQualityScore,
+      coverageScore,
+      preferredSourceBoost: best.preferredSourceBoost,
+      totalScore: best.totalScore,
+      outletCount: cluster.outlets.length,
+      // One sibling per other outlet
+      siblings: cluster.members
+        .filter((member) => member !== best.article)
+        .filter((member, index, others) => {
+          const outlet = getOutlet(member);
+          return outlet !== bestOutlet && others.findIndex((o) => getOutlet(o) === outlet) === index;
+        })
+        .map((member) => ({ title: member.title, description: member.description, url: member.url, source: member.source.name })),
     };
   });
 
+  const storyCount = representatives.length;
+  if (storyCount < articles.length) {
+    console.log(`[Scoring] Clustered ${articles.length} articles into ${storyCount} stories`);
+  }
+
   // Sort by total score (highest first)
-  return scoredArticles.sort((a, b) => b.totalScore - a.totalScore);
+  return representatives.sort((a, b) => b.totalScore - a.totalScore);
 }
 
 // Filter and select top articles based on scores
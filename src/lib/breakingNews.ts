@@ -0,0 +1,304 @@
+import { getSupabaseAdmin } from './supabase';
+import { NewsSummary } from './openai';
+import { fetchRecentStoriesForTopic } from './newsapi';
+import { selectTopArticles } from './articleScoring';
+import { rankArticlesEditorially } from './editorialRanking';
+import { sendBreakingNewsAlert } from './email';
+import { getLocalDateString, getLocalMinutes, parseDeliveryTime, resolveTimezone } from './deliverySchedule';
+import { LedgerClaim, markDigestSent, markDigestFailed } from './sendLedger';
+import { getStoryFingerprint, storySimilarity, TITLE_SIMILARITY_THRESHOLD } from './storyClustering';
+import { cleanArticleContent, truncateAtSentenceBoundary } from './utils/articleCleaning';
+
+// Breaking news alerts for Pro subscribers. The breaking-news cron polls each topic
+// that has opted-in subscribers, ranks the last few hours of stories with the
+// editorial ranker, and records any story at or above the importance threshold in
+// breaking_alerts. Each subscriber gets a single-story email, outside their quiet
+// hours and up to their daily cap. Sends are claimed in the send ledger as
+// digest kind "breaking:<alert id>", so no one gets the same alert twice; the
+// claim_breaking_alert RPC checks the cap in the same transaction as the claim.
+//
+// BREAKING_NEWS_PROVIDERS  providers to poll (default "rss" - no quota to spend)
+// BREAKING_NEWS_THRESHOLD  editorial importance (1-10) that triggers an alert (default 9)
+
+export const BREAKING_DIGEST_KIND_PREFIX = 'breaking:';
+
+const DEFAULT_PROVIDERS = ['rss'];
+const DEFAULT_IMPORTANCE_THRESHOLD = 9;
+// Only stories published this recently can trigger an alert
+const FRESHNESS_WINDOW_MS = 3 * 60 * 60 * 1000;
+// Stories sent to the editorial ranker per topic
+const CANDIDATES_PER_TOPIC = 10;
+// A story already alerted within this window isn't alerted again from another outlet
+const RECENT_ALERT_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Alert emails keep to a short paragraph
+const MAX_ALERT_SUMMARY_CHARS = 400;
+
+export interface AlertSettings {
+  paused: boolean;
+  timezone: string;
+  breaking_alerts: boolean;
+  alert_quiet_start: string;
+  alert_quiet_end: string;
+  alert_daily_cap: number;
+}
+
+export interface AlertSubscriber {
+  id: string;
+  email: string;
+  user_topics: Array<{ topic_name: string }> | null;
+  user_email_settings: AlertSettings[] | null;
+}
+
+export interface BreakingAlert {
+  id: string;
+  topic: string;
+  url: string;
+  title: string;
+  description: string;
+  source: string;
+  importance_score: number;
+  reasoning: string | null;
+  outlet_count: number;
+  also_reported_by: string[];
+}
+
+export type AlertDelivery = 'sent' | 'quiet_hours' | 'daily_cap' | 'already_sent' | 'failed';
+
+export function getBreakingNewsProviders(): string[] {
+  const configured = process.env.BREAKING_NEWS_PROVIDERS;
+  if (!configured || !configured.trim()) return DEFAULT_PROVIDERS;
+
+  return configured
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function getImportanceThreshold(): number {
+  const configured = parseInt(process.env.BREAKING_NEWS_THRESHOLD || '', 10);
+  return configured >= 1 && configured <= 10 ? configured : DEFAULT_IMPORTANCE_THRESHOLD;
+}
+
+// Paid users who opted in and haven't paused email
+export async function loadAlertSubscribers(): Promise<AlertSubscriber[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('users')
+    .select(`
+      id,
+      email,
+      user_topics (
+        topic_name
+      ),
+      user_email_settings (
+        paused,
+        timezone,
+        breaking_alerts,
+        alert_quiet_start,
+        alert_quiet_end,
+        alert_daily_cap
+      )
+    `)
+    .eq('subscription_tier', 'paid');
+
+  if (error) {
+    throw new Error(`Failed to load alert subscribers: ${error.message}`);
+  }
+
+  return ((data || []) as unknown as AlertSubscriber[]).filter((user) => {
+    const settings = user.user_email_settings?.[0];
+    return settings?.breaking_alerts && !settings.paused && (user.user_topics?.length ?? 0) > 0;
+  });
+}
+
+// Quiet hours run from start to end in the user's timezone, possibly overnight
+// (22:00-07:00). Equal start and end means no quiet hours.
+export function isInQuietHours(settings: AlertSettings, now: Date = new Date()): boolean {
+  const start = parseDeliveryTime(settings.alert_quiet_start);
+  const end = parseDeliveryTime(settings.alert_quiet_end);
+  if (start === null || end === null || start === end) return false;
+
+  const localMinutes = getLocalMinutes(resolveTimezone(settings.timezone), now);
+  return start < end
+    ? localMinutes >= start && localMinutes < end
+    : localMinutes >= start || localMinutes < end;
+}
+
+// Alerts recorded for a topic recently, to avoid alerting one story twice
+async function loadRecentAlerts(topic: string): Promise<Array<{ url: string; title: string }>> {
+  const since = new Date(Date.now() - RECENT_ALERT_WINDOW_MS).toISOString();
+  const { data, error } = await getSupabaseAdmin()
+    .from('breaking_alerts')
+    .select('url, title')
+    .eq('topic', topic)
+    .gte('detected_at', since);
+
+  if (error) {
+    throw new Error(`Failed to load recent alerts for "${topic}": ${error.message}`);
+  }
+
+  return (data || []) as Array<{ url: string; title: string }>;
+}
+
+// Look for a new breaking story on a topic. Returns the recorded alert, or null if
+// nothing crossed the threshold. At most one alert per topic per run.
+export async function detectBreakingStory(topic: string): Promise<BreakingAlert | null> {
+  const stories = await fetchRecentStoriesForTopic(topic, getBreakingNewsProviders(), FRESHNESS_WINDOW_MS);
+  if (stories.length === 0) {
+    return null;
+  }
+
+  const candidates = selectTopArticles(stories, CANDIDATES_PER_TOPIC);
+  const ranking = await rankArticlesEditorially(candidates, topic, { useCache: false });
+
+  // The deterministic fallback isn't an editorial judgment - never alert on it
+  if (ranking.fallback) {
+    console.log(`[Breaking] Editorial ranking unavailable for "${topic}", skipping`);
+    return null;
+  }
+
+  const threshold = getImportanceThreshold();
+  const recentAlerts = await loadRecentAlerts(topic);
+  const recentTitles = recentAlerts.map((alert) => getStoryFingerprint(alert.title));
+  const candidatesByUrl = new Map(candidates.map((article) => [article.url, article]));
+
+  for (const ranked of ranking.rankedArticles) {
+    if (ranked.importanceScore < threshold) break;
+
+    const article = candidatesByUrl.get(ranked.url);
+    if (!article) continue;
+
+    const title = getStoryFingerprint(article.title);
+    const alreadyAlerted = recentAlerts.some((alert) => alert.url === article.url)
+      || recentTitles.some((recent) => storySimilarity(title, recent) >= TITLE_SIMILARITY_THRESHOLD);
+    if (alreadyAlerted) continue;
+
+    const { data, error } = await getSupabaseAdmin()
+      .from('breaking_alerts')
+      .insert({
+        topic,
+        url: article.url,
+        title: article.title,
+        description: article.description,
+        source: article.source.name,
+        published_at: article.publishedAt,
+        importance_score: ranked.importanceScore,
+        reasoning: ranked.reasoning || null,
+        outlet_count: article.outletCount,
+        also_reported_by: article.siblings.map((sibling) => sibling.source),
+      } as never)
+      .select()
+      .single<BreakingAlert>();
+
+    if (error || !data) {
+      // A concurrent run recorded it first
+      console.warn(`[Breaking] Could not record alert for "${topic}":`, error?.message);
+      return null;
+    }
+
+    console.log(`[Breaking] "${topic}": ${article.title} (importance ${ranked.importanceScore}, ${article.outletCount} outlets)`);
+    return data;
+  }
+
+  return null;
+}
+
+// Claim an alert send in the ledger, unless the user is at their daily cap or
+// already has this alert. Throws if the ledger can't be reached - never send unclaimed.
+async function claimAlertSend(
+  userId: string,
+  localDate: string,
+  alert: BreakingAlert,
+  dailyCap: number
+): Promise<LedgerClaim | 'daily_cap' | 'already_sent'> {
+  const digestKind = `${BREAKING_DIGEST_KIND_PREFIX}${alert.id}`;
+  const { data, error } = await getSupabaseAdmin().rpc('claim_breaking_alert' as never, {
+    p_user_id: userId,
+    p_local_date: localDate,
+    p_digest_kind: digestKind,
+    p_source: 'cron',
+    p_topics: [alert.topic],
+    p_daily_cap: dailyCap,
+  } as never);
+
+  const row = (data as Array<{ outcome: string; claim_id: string | null }> | null)?.[0];
+  if (error || !row) {
+    throw new Error(`Failed to claim alert ${alert.id} for user ${userId}: ${error?.message ?? 'no result'}`);
+  }
+
+  if (row.outcome === 'claimed' && row.claim_id) {
+    return { id: row.claim_id, userId, localDate, digestKind };
+  }
+
+  return row.outcome === 'daily_cap' ? 'daily_cap' : 'already_sent';
+}
+
+// Send an alert to one subscriber, respecting quiet hours and the daily cap
+export async function deliverBreakingAlert(
+  user: AlertSubscriber,
+  alert: BreakingAlert,
+  now: Date = new Date()
+): Promise<AlertDelivery> {
+  const settings = user.user_email_settings![0];
+  if (isInQuietHours(settings, now)) {
+    return 'quiet_hours';
+  }
+
+  const timezone = resolveTimezone(settings.timezone);
+  const localDate = getLocalDateString(timezone, now);
+  const claim = await claimAlertSend(user.id, localDate, alert, settings.alert_daily_cap);
+  if (claim === 'daily_cap' || claim === 'already_sent') {
+    return claim;
+  }
+
+  const summary = truncateAtSentenceBoundary(cleanArticleContent(alert.description), MAX_ALERT_SUMMARY_CHARS);
+  const emailResult = await sendBreakingNewsAlert(user.email, user.id, {
+    topic: alert.topic,
+    title: alert.title,
+    summary,
+    url: alert.url,
+    source: alert.source,
+    alsoReportedBy: alert.also_reported_by,
+  });
+
+  if (!emailResult.success) {
+    await markDigestFailed(claim, emailResult.error || 'Unknown email error');
+    return 'failed';
+  }
+
+  await markDigestSent(claim, (emailResult.details as { id?: string } | null)?.id);
+
+  // Archive it like a digest, so the next digest treats the story as already seen
+  try {
+    const content: NewsSummary[] = [
+      { topic: alert.topic, summaries: [{ title: alert.title, summary, url: alert.url, source: alert.source }] },
+    ];
+    const { error: archiveError } = await getSupabaseAdmin()
+      .from('email_archive')
+      .insert({
+        user_id: user.id,
+        subject: `Breaking: ${alert.title}`,
+        content: content as unknown,
+        topics: [alert.topic],
+      } as never);
+
+    if (archiveError) {
+      console.error(`[Breaking] Failed to archive alert for ${user.email}:`, archiveError);
+    }
+  } catch (archiveError) {
+    console.error(`[Breaking] Failed to archive alert for ${user.email}:`, archiveError);
+  }
+
+  return 'sent';
+}
+
+export async function recordAlertRecipients(alertId: string, recipientCount: number): Promise<void> {
+  try {
+    await getSupabaseAdmin()
+      .from('breaking_alerts')
+      .update({ recipient_count: recipientCount } as never)
+      .eq('id', alertId);
+  } catch (error) {
+    // Don't throw - the count is informational
+    console.error(`[Breaking] Failed to record recipients for alert ${alertId}:`, error);
+  }
+}
@@ -0,0 +1,210 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { getSupabaseAdmin } from './supabase';
+
+// Token and cost accounting. Every LLM call (summarization, editorial ranking,
+// repairs and retries), embedding request and news provider search records its
+// model, tokens, latency and estimated cost. Records are tagged with the topic and
+// user digest they were made for, taken from the async context set with
+// withUsageContext, and buffered for the cron run that made them; flushUsageRun
+// writes them to usage_events (rolled up per run, topic, digest and day by the views
+// in docs/sql/create-usage-events-table.sql) and returns the run's totals for
+// cron_job_logs.cost_stats.
+//
+// Crons overlap on warm instances (the digest worker runs every minute), so each
+// run's id and buffer live in the async context of the request that started it
+// rather than in module state.
+//
+// Summaries and news are shared across users, so their cost lands on the digest
+// whose preparation produced them; later digests reusing them cost nothing.
+//
+// Prices are USD per million tokens. News providers are priced per request from
+// NEWS_REQUEST_COSTS, e.g. "newsapi:0.0004,currents:0.0002" (unlisted providers
+// cost nothing, like RSS).
+
+export type UsageKind = 'llm' | 'embeddings' | 'news';
+
+export interface UsageContext {
+  topic?: string;
+  userId?: string;
+}
+
+export interface UsageRecord {
+  kind: UsageKind;
+  stage: string; // LLM stage, 'embeddings', or the news provider id
+  backend: string; // openai, local, mock, ollama, or the news provider id
+  model: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  success: boolean;
+}
+
+export interface StageCostStats {
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface RunCostStats {
+  runId: string;
+  totalCostUsd: number;
+  stages: Record<string, StageCostStats>;
+}
+
+// A cron run's buffered usage, from startUsageRun
+export interface UsageRun {
+  id: string;
+  events: UsageEventRow[];
+}
+
+interface UsageEventRow {
+  run_id: string | null;
+  kind: UsageKind;
+  stage: string;
+  backend: string;
+  model: string | null;
+  topic: string | null;
+  user_id: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  cost_usd: number;
+  success: boolean;
+}
+
+const MODEL_PRICES: Array<{ prefix: string; input: number; output: number }> = [
+  // Longest prefixes first, so "gpt-4o-mini" isn't priced as "gpt-4o"
+  { prefix: 'gpt-4.1-nano', input: 0.1, output: 0.4 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-3.5-turbo', input: 0.5, output: 1.5 },
+  { prefix: 'text-embedding-3-small', input: 0.02, output: 0 },
+  { prefix: 'text-embedding-3-large', input: 0.13, output: 0 },
+];
+
+// Self-hosted and mock backends cost nothing per token
+const FREE_BACKENDS = new Set(['local', 'mock', 'ollama', 'hash']);
+
+// Rows per insert when flushing
+const FLUSH_BATCH_SIZE = 500;
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+// Events are only buffered inside a run, so requests outside a cron run (previews,
+// test routes) don't accumulate
+const usageRuns = new AsyncLocalStorage<UsageRun>();
+const unpricedModels = new Set<string>();
+
+// Run fn with topic/user attribution added to the current context
+export function withUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageContext.run({ ...usageContext.getStore(), ...context }, fn);
+}
+
+function getNewsRequestCost(provider: string): number {
+  for (const entry of (process.env.NEWS_REQUEST_COSTS || '').split(',')) {
+    const [id, cost] = entry.split(':').map((part) => part.trim());
+    if (id?.toLowerCase() === provider && cost) {
+      const parsed = Number(cost);
+      if (Number.isFinite(parsed)) return parsed;
+    }
+  }
+  return 0;
+}
+
+export function estimateCostUsd(record: UsageRecord): number {
+  if (record.kind === 'news') {
+    return record.success ? getNewsRequestCost(record.stage) : 0;
+  }
+  if (FREE_BACKENDS.has(record.backend) || !record.model) return 0;
+
+  const price = MODEL_PRICES.find((entry) => record.model!.startsWith(entry.prefix));
+  if (!price) {
+    if (!unpricedModels.has(record.model)) {
+      unpricedModels.add(record.model);
+      console.warn(`[Costs] No price for model "${record.model}", recording its calls at $0`);
+    }
+    return 0;
+  }
+
+  return (record.promptTokens * price.input + record.completionTokens * price.output) / 1_000_000;
+}
+
+// Record one call. Attribution comes from the async context, overridden by context.
+export function recordUsage(record: UsageRecord, context?: UsageContext): void {
+  const run = usageRuns.getStore();
+  if (!run) return;
+
+  const attribution = { ...usageContext.getStore(), ...context };
+  run.events.push({
+    run_id: run.id,
+    kind: record.kind,
+    stage: record.stage,
+    backend: record.backend,
+    model: record.model,
+    topic: attribution.topic ?? null,
+    user_id: attribution.userId ?? null,
+    prompt_tokens: record.promptTokens,
+    completion_tokens: record.completionTokens,
+    latency_ms: record.latencyMs,
+    cost_usd: estimateCostUsd(record),
+    success: record.success,
+  });
+}
+
+// Start recording for a cron run (call at the start of the route handler). Calls
+// made from the rest of the handler's async flow are buffered on the returned run,
+// whose id is also stored on the run's cron_job_logs row.
+export function startUsageRun(): UsageRun {
+  const run: UsageRun = { id: randomUUID(), events: [] };
+  usageRuns.enterWith(run);
+  return run;
+}
+
+export function getUsageRunStats(run: UsageRun): RunCostStats {
+  const stages: Record<string, StageCostStats> = {};
+  let totalCostUsd = 0;
+
+  for (const event of run.events) {
+    const stats = (stages[event.stage] ??= { calls: 0, errors: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 });
+    stats.calls++;
+    if (!event.success) stats.errors++;
+    stats.promptTokens += event.prompt_tokens;
+    stats.completionTokens += event.completion_tokens;
+    stats.costUsd += event.cost_usd;
+    totalCostUsd += event.cost_usd;
+  }
+
+  return { runId: run.id, totalCostUsd, stages };
+}
+
+// Write the run's buffered usage events. Returns the run totals for the
+// cron_job_logs row. Never throws - cost tracking must not fail a run.
+export async function flushUsageRun(run: UsageRun): Promise<RunCostStats> {
+  const stats = getUsageRunStats(run);
+  // Take the buffer, so a second flush (e.g. from an error path) doesn't double-insert
+  const events = run.events.splice(0);
+
+  try {
+    for (let i = 0; i < events.length; i += FLUSH_BATCH_SIZE) {
+      const { error } = await getSupabaseAdmin()
+        .from('usage_events')
+        .insert(events.slice(i, i + FLUSH_BATCH_SIZE) as never);
+      if (error) {
+        console.error(`[Costs] Failed to store ${events.length} usage events:`, error);
+        break;
+      }
+    }
+  } catch (error) {
+    // Don't throw - the totals still go to cron_job_logs
+    console.error(`[Costs] Failed to store ${events.length} usage events:`, error);
+  }
+
+  if (events.length > 0) {
+    console.log(`[Costs] Run ${stats.runId}: ${events.length} calls, estimated $${stats.totalCostUsd.toFixed(4)}`);
+  }
+  return stats;
+}
@@ -1,40 +1,23 @@
 import { NewsArticle } from './openai';
+import { NewsProvider } from './newsProviders';
+import { getApiQuotaUsed, reserveApiRequest } from './apiQuota';
 import { cleanArticleContent, isGarbageDescription } from './utils/articleCleaning';
 
 const CURRENTS_API_KEY = process.env.CURRENTS_API_KEY;
 const CURRENTS_API_BASE_URL = 'https://api.currentsapi.services/v1';
 
-// Rate limiting tracking (600 requests per day for free tier)
-let requestCount = 0;
-let requestResetTime = Date.now() + 24 * 60 * 60 * 1000;
+const QUOTA_PROVIDER = 'currents';
 
-function checkRateLimit(): boolean {
-  // Reset counter if 24 hours passed
-  if (Date.now() > requestResetTime) {
-    requestCount = 0;
-    requestResetTime = Date.now() + 24 * 60 * 60 * 1000;
-  }
-
-  // Free tier: 600 requests/day
-  // Pro tier: 50,000 requests/day
-  const limit = process.env.CURRENTS_API_TIER === 'pro' ? 50000 : 600;
-
-  if (requestCount >= limit) {
-    console.warn(`[CurrentsAPI] Rate limit reached (${requestCount}/${limit})`);
-    return false;
-  }
-
-  requestCount++;
-  return true;
+// Free tier: 600 requests/day
+// Pro tier: 50,000 requests/day
+function getDailyLimit(): number {
+  return process.env.CURRENTS_API_TIER === 'pro' ? 50000 : 600;
 }
 
-export function getRemainingRequests(): number {
-  if (Date.now() > requestResetTime) {
-    requestCount = 0;
-    requestResetTime = Date.now() + 24 * 60 * 60 * 1000;
-  }
-  const limit = process.env.CURRENTS_API_TIER === 'pro' ? 50000 : 600;
-  return Math.max(0, limit - requestCount);
+// Remaining requests today, shared across all invocations (see apiQuota.ts)
+export async function getRemainingRequests(): Promise<number> {
+  const used = await getApiQuotaUsed(QUOTA_PROVIDER);
+  return Math.max(0, getDailyLimit() - used);
 }
 
 async function fetchNewsFromCurrents(
@@ -45,7 +28,7 @@ async function fetchNewsFromCurrents(
     throw new Error('CURRENTS_API_KEY is not configured');
   }
 
-  if (!checkRateLimit()) {
+  if (!(await reserveApiRequest(QUOTA_PROVIDER, getDailyLimit()))) {
     throw new Error('CurrentsAPI rate limit exceeded');
   }
 
@@ -199,6 +182,26 @@ export async function fetchNewsForTopicFromCurrents(
   }
 }
 
+export const currentsProvider: NewsProvider = {
+  id: 'currents',
+  name: 'Currents API',
+  search: fetchNewsForTopicFromCurrents,
+  async getQuota() {
+    const used = await getApiQuotaUsed(QUOTA_PROVIDER);
+    const limit = getDailyLimit();
+    return { used, limit, remaining: Math.max(0, limit - used) };
+  },
+  async healthCheck() {
+    if (!CURRENTS_API_KEY) {
+      return { healthy: false, reason: 'CURRENTS_API_KEY is not configured' };
+    }
+    if ((await getRemainingRequests()) === 0) {
+      return { healthy: false, reason: 'Daily request limit reached' };
+    }
+    return { healthy: true };
+  },
+};
+
 export async function fetchNewsForMultipleTopicsFromCurrents(
   topics: string[]
 ): Promise<Record<string, NewsArticle[]>> {
@@ -0,0 +1,112 @@
+// Delivery scheduling for daily digests.
+// Users pick a local delivery time on a 15-minute grid; the send-digests cron runs
+// every 15 minutes and picks up every user whose slot falls in the current window.
+
+export const DELIVERY_SLOT_MINUTES = 15;
+export const DEFAULT_DELIVERY_TIME = '06:45';
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+// Any IANA timezone the runtime's Intl data knows about (DST is handled by Intl)
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || timezone.length === 0) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Fall back to the default for missing or unrecognized timezone strings
+export function resolveTimezone(timezone: string | null | undefined): string {
+  return isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+}
+
+// Local calendar date ("YYYY-MM-DD") in the given timezone. Used for cache dating
+// so a subscriber's digest is built from "their" day rather than the UTC day.
+export function getLocalDateString(timezone: string | null | undefined, now: Date = new Date()): string {
+  const formatter = new Intl.DateTimeFormat('en-CA', {
+    timeZone: resolveTimezone(timezone),
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  });
+  const parts = formatter.formatToParts(now);
+  const get = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return `${get('year')}-${get('month')}-${get('day')}`;
+}
+
+// Date as shown in email subjects, in the recipient's timezone
+export function formatLocalDate(
+  timezone: string | null | undefined,
+  options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric' },
+  now: Date = new Date()
+): string {
+  return now.toLocaleDateString('en-US', { ...options, timeZone: resolveTimezone(timezone) });
+}
+
+// Parse "HH:MM" or "HH:MM:SS" into minutes after local midnight. Legacy timetz
+// values like "06:45:00-05:00" are accepted too; the offset is ignored because the
+// user's timezone column is the source of truth for where the time is interpreted.
+export function parseDeliveryTime(deliveryTime: string | null | undefined): number | null {
+  if (!deliveryTime) return null;
+
+  const match = /^(\d{1,2}):(\d{2})/.exec(deliveryTime.trim());
+  if (!match) return null;
+
+  const hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  if (hour > 23 || minute > 59) return null;
+
+  return hour * 60 + minute;
+}
+
+// Validate a delivery time submitted from the dashboard (must sit on the slot grid)
+export function isValidDeliveryTime(deliveryTime: string): boolean {
+  if (!/^\d{2}:\d{2}(:00)?$/.test(deliveryTime)) return false;
+  const minutes = parseDeliveryTime(deliveryTime);
+  return minutes !== null && minutes % DELIVERY_SLOT_MINUTES === 0;
+}
+
+// Format minutes after midnight as "HH:MM"
+export function formatDeliveryTime(minutes: number): string {
+  const hour = Math.floor(minutes / 60);
+  const minute = minutes % 60;
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
+// Current minutes after local midnight in the given timezone
+export function getLocalMinutes(timezone: string, now: Date = new Date()): number {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  });
+  const parts = formatter.formatToParts(now);
+  const hour = parseInt(parts.find(p => p.type === 'hour')?.value || '0');
+  const minute = parseInt(parts.find(p => p.type === 'minute')?.value || '0');
+  return hour * 60 + minute;
+}
+
+// A user is due when their local time is inside [slot, slot + window). With the
+// default window (one cron interval) each slot is matched by exactly one run and
+// cron jitter of a few minutes still lands in the right window. Callers that dedupe
+// through the send ledger pass a wider catch-up window so a missed run is recovered
+// by the next one. The window never wraps past local midnight.
+export function isDeliveryDue(
+  deliveryTime: string | null | undefined,
+  timezone: string | null | undefined,
+  now: Date = new Date(),
+  windowMinutes: number = DELIVERY_SLOT_MINUTES
+): boolean {
+  const slot = parseDeliveryTime(deliveryTime) ?? parseDeliveryTime(DEFAULT_DELIVERY_TIME)!;
+
+  // Unknown timezone strings fall back to the default rather than never sending
+  const localMinutes = getLocalMinutes(resolveTimezone(timezone), now);
+
+  // Snap the stored time to the grid so legacy off-grid values still get picked up
+  const slotStart = slot - (slot % DELIVERY_SLOT_MINUTES);
+  const window = Math.max(windowMinutes, DELIVERY_SLOT_MINUTES);
+  return localMinutes >= slotStart && localMinutes < slotStart + window;
+}
@@ -0,0 +1,395 @@
+import { randomUUID } from 'crypto';
+import { getSupabaseAdmin } from './supabase';
+import { NewsArticle, NewsSummary } from './openai';
+import { sendNewsDigest } from './email';
+import { getSharedSummary } from './summaryStore';
+import { formatLocalDate, resolveTimezone } from './deliverySchedule';
+import { claimDigestSend, markDigestSent, markDigestFailed, LedgerSource } from './sendLedger';
+import { logDigestFailure, resolveDigestFailures } from './digestFailures';
+import { loadSeenStories, filterSeenStories } from './seenStories';
+import { getPromptVersionIds } from './promptVersions';
+import { recordDeliveries } from './emailEvents';
+import { withUsageContext } from './costTracking';
+import { resolveSummaryDepth, SummaryDepth } from './summaryDepth';
+
+// Per-user digest pipeline shared by the send-digests cron, the retry worker and
+// admin force-send: summarize a user's topics, then claim, send and archive.
+
+// Types
+export interface UserTopic {
+  topic_name: string;
+}
+
+export interface EmailSetting {
+  paused: boolean;
+  delivery_time: string;
+  timezone: string;
+  summary_depth: string | null;
+}
+
+export interface UserWithRelations {
+  id: string;
+  email: string;
+  subscription_tier: 'free' | 'paid';
+  user_topics: UserTopic[] | null;
+  user_email_settings: EmailSetting[] | null;
+}
+
+export interface ProcessResult {
+  processed: boolean;
+  successful: boolean;
+  skipped: boolean;
+  error: string | null;
+  skipReason: string | null;
+}
+
+export interface Results {
+  processed: number;
+  successful: number;
+  failed: number;
+  skipped: number;
+  errors: string[];
+  skipReasons: string[];
+}
+
+// Users with the relations the digest pipeline needs
+export const USER_DIGEST_SELECT = `
+  id,
+  email,
+  subscription_tier,
+  user_topics (
+    topic_name
+  ),
+  user_email_settings (
+    paused,
+    delivery_time,
+    timezone,
+    summary_depth
+  )
+`;
+
+// Timeout for individual summarization calls (15 seconds)
+const SUMMARIZATION_TIMEOUT_MS = 15000;
+// Rate limit delay for email sending (Resend allows 2 req/sec, so 500ms between each)
+export const EMAIL_RATE_LIMIT_DELAY_MS = 550;
+
+// Utility function to wrap promises with a timeout
+async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  label: string
+): Promise<T> {
+  const timeoutPromise = new Promise<never>((_, reject) =>
+    setTimeout(
+      () => reject(new Error(`${label} timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    )
+  );
+  return Promise.race([promise, timeoutPromise]);
+}
+
+// Utility function to delay execution
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Prepared email data for a user (after summarization, before sending)
+export interface PreparedEmail {
+  user: UserWithRelations;
+  summaries: NewsSummary[];
+  topics: string[];
+  isPaid: boolean;
+  depth: SummaryDepth;
+  timezone: string;
+  localDate: string;
+}
+
+// Result from preparing a user's email (summarization phase)
+export interface PrepareResult {
+  prepared: boolean;
+  skipped: boolean;
+  skipReason: string | null;
+  error: string | null;
+  emailData: PreparedEmail | null;
+}
+
+// The retry worker records each attempt on the failure it is retrying, so its
+// runs don't log failures of their own
+function logsFailures(source: LedgerSource): boolean {
+  return source !== 'retry';
+}
+
+// Prepare a single user's email content (generate summaries) without sending
+export async function prepareUserEmail(
+  user: UserWithRelations,
+  newsData: Record<string, NewsArticle[]>,
+  localDate: string,
+  source: LedgerSource = 'cron'
+): Promise<PrepareResult> {
+  const result: PrepareResult = {
+    prepared: false,
+    skipped: false,
+    skipReason: null,
+    error: null,
+    emailData: null,
+  };
+
+  try {
+    // Check if user has paused emails
+    const emailSettings = user.user_email_settings?.[0];
+    if (emailSettings?.paused) {
+      result.skipped = true;
+      result.skipReason = `User ${user.email} has paused emails`;
+      return result;
+    }
+
+    if (!user.user_topics || user.user_topics.length === 0) {
+      result.skipped = true;
+      result.skipReason = `User ${user.email} has no topics`;
+      return result;
+    }
+
+    const topics = user.user_topics.map((ut) => ut.topic_name);
+    console.log(
+      `[Digest] Preparing email for ${user.email} with topics: ${topics.join(', ')}`
+    );
+
+    // Generate summaries for each topic using pre-fetched news data (PARALLELIZED)
+    const isPaid = user.subscription_tier === 'paid';
+    const depth = resolveSummaryDepth(emailSettings?.summary_depth);
+    const topicsWithArticles = topics.filter(topic => (newsData[topic] || []).length > 0);
+
+    // Process all topics in parallel with timeout protection.
+    // Summaries are shared across users with the same topic, tier, depth, articles and
+    // prompts (a running prompt experiment puts each user in one of two arms).
+    const summaryPromises = topicsWithArticles.map(async (topic) => {
+      try {
+        // Summaries generated here are charged to this user's digest (see costTracking.ts)
+        const summary = await withUsageContext({ userId: user.id }, () => withTimeout(
+          getSharedSummary(topic, newsData[topic], isPaid, user.id, depth),
+          SUMMARIZATION_TIMEOUT_MS,
+          `Summarization for "${topic}"`
+        ));
+        return { topic, summary, error: null };
+      } catch (error) {
+        console.error(`[Digest] Error generating summary for topic "${topic}":`, error);
+        return { topic, summary: null, error };
+      }
+    });
+
+    // Stories from the user's recent digests, loaded alongside summarization
+    const [summaryResults, seenStories] = await Promise.all([
+      Promise.allSettled(summaryPromises),
+      loadSeenStories(user.id),
+    ]);
+
+    const summaries: NewsSummary[] = [];
+    let hadSummaryErrors = false;
+    let droppedAsSeen = 0;
+
+    for (const settledResult of summaryResults) {
+      if (settledResult.status === 'fulfilled') {
+        const { summary, error } = settledResult.value;
+        if (error) {
+          hadSummaryErrors = true;
+        } else if (summary && summary.summaries.length > 0) {
+          // Leave out stories the user already received, unless materially updated
+          const unseen = filterSeenStories(summary, seenStories);
+          droppedAsSeen += summary.summaries.length - unseen.summaries.length;
+          if (unseen.summaries.length > 0) {
+            summaries.push(unseen);
+          }
+        }
+      } else {
+        hadSummaryErrors = true;
+        console.error(`[Digest] Unexpected summary promise rejection:`, settledResult.reason);
+      }
+    }
+
+    if (droppedAsSeen > 0) {
+      console.log(`[Digest] Dropped ${droppedAsSeen} stories ${user.email} already received`);
+    }
+
+    if (summaries.length === 0) {
+      if (droppedAsSeen > 0 && !hadSummaryErrors) {
+        result.skipped = true;
+        result.skipReason = `No new stories for user ${user.email} since their last digest (topics: ${topics.join(', ')})`;
+        console.log(`[Digest] Skipping ${user.email}: every story was already sent`);
+        return result;
+      }
+
+      // A summarization failure is worth retrying, unlike a day with no news
+      if (hadSummaryErrors) {
+        const errorMsg = `Failed to generate summaries for topics: ${topics.join(', ')}`;
+        result.error = `${errorMsg} (${user.email})`;
+        console.error(`[Digest] ${result.error}`);
+
+        if (logsFailures(source)) {
+          await logDigestFailure(
+            user.id,
+            localDate,
+            topics,
+            errorMsg,
+            'summary_error',
+            { message: 'All summary generation attempts failed' }
+          );
+        }
+        return result;
+      }
+
+      result.skipped = true;
+      result.skipReason = `No news found for user ${user.email} (topics: ${topics.join(', ')})`;
+      console.log(`[Digest] Skipping ${user.email}: No summaries generated`);
+      return result;
+    }
+
+    // Return prepared email data (don't send yet)
+    result.prepared = true;
+    result.emailData = {
+      user,
+      summaries,
+      topics,
+      isPaid,
+      depth,
+      timezone: resolveTimezone(emailSettings?.timezone),
+      localDate,
+    };
+    return result;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    result.error = `Error preparing email for ${user.email}: ${errorMsg}`;
+    console.error(result.error);
+
+    if (logsFailures(source)) {
+      const topics = user.user_topics?.map((ut) => ut.topic_name) || [];
+      await logDigestFailure(
+        user.id,
+        localDate,
+        topics,
+        errorMsg,
+        'unknown',
+        { stack: error instanceof Error ? error.stack : undefined }
+      );
+    }
+  }
+
+  return result;
+}
+
+// Send a prepared email (called sequentially with rate limiting)
+export async function sendPreparedEmail(
+  emailData: PreparedEmail,
+  source: LedgerSource = 'cron'
+): Promise<ProcessResult> {
+  const result: ProcessResult = {
+    processed: true,
+    successful: false,
+    skipped: false,
+    error: null,
+    skipReason: null,
+  };
+
+  const { user, summaries, topics, isPaid, depth, timezone, localDate } = emailData;
+
+  // Claim the send in the ledger first - another run may already have sent it
+  let claim;
+  try {
+    claim = await claimDigestSend(user.id, localDate, source, topics);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    result.error = `Could not claim digest for ${user.email}: ${errorMsg}`;
+    console.error(`[Digest] ❌ ${result.error}`);
+    return result;
+  }
+
+  if (!claim) {
+    result.processed = false;
+    result.skipped = true;
+    result.skipReason = `User ${user.email} already has a digest for ${localDate}`;
+    console.log(`[Digest] Skipping ${user.email}: digest for ${localDate} already claimed`);
+    return result;
+  }
+
+  // Once the provider has accepted the email the claim must never be released, even
+  // if a later step fails, or another run would send it again
+  let accepted = false;
+
+  try {
+    // Chosen up front so the email's tracked links can point at its archive entry
+    const archiveId = randomUUID();
+    const emailResult = await sendNewsDigest(user.email, summaries, isPaid, { timezone, archiveId, depth, userId: user.id });
+
+    if (emailResult.success) {
+      accepted = true;
+      await markDigestSent(claim, (emailResult.details as { id?: string } | null)?.id);
+      await resolveDigestFailures(user.id, localDate);
+
+      // Store in email archive
+      try {
+        await getSupabaseAdmin()
+          .from('email_archive')
+          .insert({
+            id: archiveId,
+            user_id: user.id,
+            subject: `Your SnipIt Daily Digest - ${formatLocalDate(timezone, {})}`,
+            content: summaries as unknown,
+            topics: topics,
+            prompt_version_ids: getPromptVersionIds(summaries),
+          } as never);
+      } catch (archiveError) {
+        console.error(
+          `[Digest] Failed to archive email for ${user.email}:`,
+          archiveError
+        );
+      }
+
+      // Experiment topics in this digest, for per-arm engagement rates
+      await recordDeliveries(archiveId, user.id, summaries);
+
+      result.successful = true;
+      console.log(`[Digest] ✅ Successfully sent digest to ${user.email} (${summaries.length} topics)`);
+    } else {
+      const errorMsg = emailResult.error || 'Unknown email error';
+      result.error = `Failed to send email to ${user.email}: ${errorMsg}`;
+      console.error(`[Digest] ❌ ${result.error}`);
+
+      await markDigestFailed(claim, errorMsg);
+      if (logsFailures(source)) {
+        await logDigestFailure(
+          user.id,
+          localDate,
+          topics,
+          errorMsg,
+          'email_error',
+          emailResult.details
+        );
+      }
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+
+    if (accepted) {
+      result.successful = true;
+      console.error(`[Digest] Sent digest to ${user.email}, but recording it failed: ${errorMsg}`);
+      return result;
+    }
+
+    result.error = `Error sending email to ${user.email}: ${errorMsg}`;
+    console.error(result.error);
+
+    await markDigestFailed(claim, errorMsg);
+    if (logsFailures(source)) {
+      await logDigestFailure(
+        user.id,
+        localDate,
+        topics,
+        errorMsg,
+        'email_error',
+        { stack: error instanceof Error ? error.stack : undefined }
+      );
+    }
+  }
+
+  return result;
+}
+
@@ -0,0 +1,167 @@
+import { getSupabaseAdmin } from './supabase';
+
+// Failed digest deliveries. One unresolved row per user and local date; the retry
+// worker (/api/cron/retry-failures) re-runs the pipeline with exponential backoff
+// until the digest goes out or the attempts run out.
+
+export type DigestFailureType = 'fetch_error' | 'summary_error' | 'email_error' | 'unknown';
+
+export interface DigestFailure {
+  id: string;
+  user_id: string;
+  local_date: string | null;
+  failure_reason: string;
+  failure_type: DigestFailureType;
+  topics: string[];
+  retry_count: number;
+  next_retry_at: string | null;
+  resolved: boolean;
+  created_at: string;
+}
+
+// Give up after this many retries (the original send is not counted)
+export const MAX_RETRY_ATTEMPTS = 4;
+// First retry 10 minutes after the failure, then 20, 40, 80
+const BASE_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+export function getRetryDelayMs(retryCount: number): number {
+  return BASE_RETRY_DELAY_MS * Math.pow(2, retryCount);
+}
+
+// Log digest failure to database. A repeat failure for the same user and local
+// date updates the open row instead of adding another one, so the retry count and
+// schedule stay with a single record.
+export async function logDigestFailure(
+  userId: string,
+  localDate: string,
+  topics: string[],
+  failureReason: string,
+  failureType: DigestFailureType,
+  errorDetails?: any
+): Promise<void> {
+  try {
+    const supabase = getSupabaseAdmin();
+    const details = errorDetails ? JSON.stringify(errorDetails) : null;
+
+    const { data: existing, error: lookupError } = await supabase
+      .from('digest_failures')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('local_date', localDate)
+      .eq('resolved', false)
+      .limit(1)
+      .maybeSingle<{ id: string }>();
+
+    // Without the lookup an insert could duplicate the open row
+    if (lookupError) {
+      throw new Error(lookupError.message);
+    }
+
+    if (existing) {
+      await supabase
+        .from('digest_failures')
+        .update({
+          failure_reason: failureReason,
+          failure_type: failureType,
+          topics: topics,
+          error_details: details,
+          last_error: failureReason,
+        } as never)
+        .eq('id', existing.id);
+    } else {
+      await supabase
+        .from('digest_failures')
+        .insert({
+          user_id: userId,
+          local_date: localDate,
+          failure_reason: failureReason,
+          failure_type: failureType,
+          topics: topics,
+          error_details: details,
+          last_error: failureReason,
+          retry_count: 0,
+          next_retry_at: new Date(Date.now() + getRetryDelayMs(0)).toISOString(),
+          resolved: false,
+        } as never);
+    }
+
+    console.log(`[Digest] Logged digest failure for user ${userId}: ${failureReason}`);
+  } catch (error) {
+    console.error(`[Digest] Failed to log digest failure:`, error);
+    // Don't fail the whole process if logging fails
+  }
+}
+
+// Mark a user's open failures for a local date as resolved (the digest went out)
+export async function resolveDigestFailures(userId: string, localDate: string): Promise<void> {
+  try {
+    await getSupabaseAdmin()
+      .from('digest_failures')
+      .update({
+        resolved: true,
+        resolved_at: new Date().toISOString(),
+        next_retry_at: null,
+      } as never)
+      .eq('user_id', userId)
+      .eq('local_date', localDate)
+      .eq('resolved', false);
+  } catch (error) {
+    console.error(`[Digest] Failed to resolve digest failures for user ${userId}:`, error);
+  }
+}
+
+// Unresolved failures whose next retry is due, oldest first
+export async function getDueFailures(limit: number): Promise<DigestFailure[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from('digest_failures')
+    .select('id, user_id, local_date, failure_reason, failure_type, topics, retry_count, next_retry_at, resolved, created_at')
+    .eq('resolved', false)
+    .not('local_date', 'is', null)
+    .lte('next_retry_at', new Date().toISOString())
+    .lt('retry_count', MAX_RETRY_ATTEMPTS)
+    .order('next_retry_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load digest failures: ${error.message}`);
+  }
+
+  return (data || []) as DigestFailure[];
+}
+
+// Record a retry attempt. Schedules the next one with exponential backoff, or
+// stops retrying once the attempts are used up.
+export async function recordRetryAttempt(failure: DigestFailure, errorMessage: string): Promise<void> {
+  const retryCount = failure.retry_count + 1;
+  const nextRetryAt = retryCount < MAX_RETRY_ATTEMPTS
+    ? new Date(Date.now() + getRetryDelayMs(retryCount)).toISOString()
+    : null;
+
+  try {
+    await getSupabaseAdmin()
+      .from('digest_failures')
+      .update({
+        retry_count: retryCount,
+        next_retry_at: nextRetryAt,
+        last_error: errorMessage.slice(0, 1000),
+      } as never)
+      .eq('id', failure.id);
+  } catch (error) {
+    console.error(`[Digest] Failed to record retry for failure ${failure.id}:`, error);
+  }
+}
+
+// Stop retrying a failure without resolving it (e.g. the delivery day has passed)
+export async function abandonDigestFailure(failure: DigestFailure, reason: string): Promise<void> {
+  try {
+    await getSupabaseAdmin()
+      .from('digest_failures')
+      .update({
+        next_retry_at: null,
+        last_error: reason,
+      } as never)
+      .eq('id', failure.id);
+  } catch (error) {
+    console.error(`[Digest] Failed to abandon failure ${failure.id}:`, error);
+  }
+}
@@ -0,0 +1,177 @@
+import { getSupabaseAdmin } from './supabase';
+import { DAILY_DIGEST_KIND } from './sendLedger';
+
+// Digest job queue backed by the digest_jobs table. Leasing, completion and retry
+// backoff live in plpgsql (docs/sql/create-digest-jobs-table.sql) so concurrent
+// workers coordinate through row locks rather than in-process state.
+
+export interface DigestJob {
+  id: string;
+  user_id: string;
+  local_date: string;
+  digest_kind: string;
+  status: 'pending' | 'leased' | 'done' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  available_at: string;
+  leased_until: string | null;
+  lease_owner: string | null;
+  outcome: string | null;
+  last_error: string | null;
+}
+
+export interface DigestQueueStats {
+  pending: number;
+  leased: number;
+  done: number;
+  failed: number;
+}
+
+export type DigestJobOutcome = 'sent' | 'skipped' | 'failed';
+
+// Enqueue one job per (user, local date). Jobs that already exist are left alone,
+// so overlapping cron runs and catch-up windows can enqueue the same user freely.
+// Returns the number of newly created jobs.
+export async function enqueueDigestJobs(
+  jobs: Array<{ userId: string; localDate: string }>,
+  digestKind: string = DAILY_DIGEST_KIND
+): Promise<number> {
+  if (jobs.length === 0) return 0;
+
+  const { data, error } = await getSupabaseAdmin()
+    .from('digest_jobs')
+    .upsert(
+      jobs.map((job) => ({
+        user_id: job.userId,
+        local_date: job.localDate,
+        digest_kind: digestKind,
+      })) as never,
+      {
+        onConflict: 'user_id,local_date,digest_kind',
+        ignoreDuplicates: true,
+      }
+    )
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to enqueue digest jobs: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
+
+// Lease up to `limit` jobs. Leased jobs are invisible to other workers until the
+// visibility timeout passes, after which they are handed out again.
+export async function leaseDigestJobs(
+  workerId: string,
+  limit: number,
+  visibilitySeconds: number
+): Promise<DigestJob[]> {
+  const { data, error } = await getSupabaseAdmin().rpc('lease_digest_jobs' as never, {
+    p_worker: workerId,
+    p_limit: limit,
+    p_visibility_seconds: visibilitySeconds,
+  } as never);
+
+  if (error) {
+    throw new Error(`Failed to lease digest jobs: ${(error as { message: string }).message}`);
+  }
+
+  return (data || []) as DigestJob[];
+}
+
+// Returns false if the lease was lost (another worker took the job over)
+export async function completeDigestJob(
+  job: DigestJob,
+  workerId: string,
+  outcome: DigestJobOutcome
+): Promise<boolean> {
+  try {
+    const { data, error } = await getSupabaseAdmin().rpc('complete_digest_job' as never, {
+      p_job_id: job.id,
+      p_worker: workerId,
+      p_outcome: outcome,
+    } as never);
+
+    if (error) {
+      console.error(`[Queue] Failed to complete job ${job.id}:`, error);
+      return false;
+    }
+
+    return data === true;
+  } catch (error) {
+    console.error(`[Queue] Failed to complete job ${job.id}:`, error);
+    return false;
+  }
+}
+
+// Hand back a job the worker didn't get to; it is leased again right away without
+// using up an attempt. Returns false if the lease was lost.
+export async function releaseDigestJob(job: DigestJob, workerId: string): Promise<boolean> {
+  try {
+    const { data, error } = await getSupabaseAdmin().rpc('release_digest_job' as never, {
+      p_job_id: job.id,
+      p_worker: workerId,
+    } as never);
+
+    if (error) {
+      console.error(`[Queue] Failed to hand back job ${job.id}:`, error);
+      return false;
+    }
+
+    return data === true;
+  } catch (error) {
+    console.error(`[Queue] Failed to hand back job ${job.id}:`, error);
+    return false;
+  }
+}
+
+// Release a job after an unexpected error; it is retried with backoff until its
+// attempts run out. Returns the job's new status, or null if the lease was lost.
+export async function failDigestJob(
+  job: DigestJob,
+  workerId: string,
+  errorMessage: string,
+  retryDelaySeconds: number = 60
+): Promise<string | null> {
+  try {
+    const { data, error } = await getSupabaseAdmin().rpc('fail_digest_job' as never, {
+      p_job_id: job.id,
+      p_worker: workerId,
+      p_error: errorMessage.slice(0, 1000),
+      p_retry_delay_seconds: retryDelaySeconds,
+    } as never);
+
+    if (error) {
+      console.error(`[Queue] Failed to release job ${job.id}:`, error);
+      return null;
+    }
+
+    return (data as string | null) ?? null;
+  } catch (error) {
+    console.error(`[Queue] Failed to release job ${job.id}:`, error);
+    return null;
+  }
+}
+
+export async function getDigestQueueStats(): Promise<DigestQueueStats | null> {
+  try {
+    const { data, error } = await getSupabaseAdmin().rpc('get_digest_queue_stats' as never);
+
+    if (error || !data) {
+      return null;
+    }
+
+    const row = (data as Array<Record<keyof DigestQueueStats, number | string>>)[0];
+    if (!row) return null;
+
+    return {
+      pending: Number(row.pending),
+      leased: Number(row.leased),
+      done: Number(row.done),
+      failed: Number(row.failed),
+    };
+  } catch {
+    return null;
+  }
+}
@@ -1,4 +1,6 @@
-import { openai } from './openai';
+import { completeValidatedJson, getLlmClient } from './llm';
+import { editorialRankingSchema, formatSchemaIssues } from './llmSchemas';
+import { withUsageContext } from './costTracking';
 import { ScoredArticle } from './articleScoring';
 import { getSupabaseAdmin } from './supabase';
 
@@ -15,20 +17,18 @@ export interface EditorialRankingResult {
   fallback: boolean;
 }
 
-const EDITORIAL_MODEL = 'gpt-4o-mini';
 const EDITORIAL_TIMEOUT_MS = 20000;
 
 // Check for cached editorial ranking
-async function checkEditorialCache(topic: string): Promise<EditorialRankingResult | null> {
+async function checkEditorialCache(topic: string, cacheDate: string): Promise<EditorialRankingResult | null> {
   try {
     const supabase = getSupabaseAdmin();
-    const today = new Date().toISOString().split('T')[0];
 
     const { data, error } = await supabase
       .from('article_cache')
       .select('articles, created_at')
       .eq('topic', topic)
-      .eq('date', today)
+      .eq('date', cacheDate)
       .eq('source', 'editorial-ranking')
       .limit(1)
       .single();
@@ -46,16 +46,15 @@ async function checkEditorialCache(topic: string): Promise<EditorialRankingResul
 }
 
 // Store editorial ranking in cache
-async function storeEditorialCache(topic: string, result: EditorialRankingResult): Promise<void> {
+async function storeEditorialCache(topic: string, cacheDate: string, result: EditorialRankingResult): Promise<void> {
   try {
     const supabase = getSupabaseAdmin();
-    const today = new Date().toISOString().split('T')[0];
 
     await supabase
       .from('article_cache')
       .upsert({
         topic,
-        date: today,
+        date: cacheDate,
         source: 'editorial-ranking',
         articles: result as unknown,
         expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
@@ -69,15 +68,20 @@ async function storeEditorialCache(topic: string, result: EditorialRankingResult
   }
 }
 
-// Deterministic fallback: scale totalScore (0-1) to importance (1-10)
-function deterministicFallback(candidates: ScoredArticle[]): EditorialRankingResult {
-  const rankedArticles: EditorialRankedArticle[] = candidates.map((article) => ({
-    url: article.url,
-    importanceScore: Math.max(1, Math.min(10, Math.round(article.totalScore * 10))),
-    reasoning: 'Deterministic score (editorial ranking unavailable)',
-  }));
+// Scale totalScore (0-1) to importance (1-10)
+function rankDeterministically(candidates: ScoredArticle[], reasoning: string): EditorialRankedArticle[] {
+  return candidates
+    .map((article) => ({
+      url: article.url,
+      importanceScore: Math.max(1, Math.min(10, Math.round(article.totalScore * 10))),
+      reasoning,
+    }))
+    .sort((a, b) => b.importanceScore - a.importanceScore);
+}
 
-  rankedArticles.sort((a, b) => b.importanceScore - a.importanceScore);
+// Deterministic fallback when the LLM is unavailable
+function deterministicFallback(candidates: ScoredArticle[]): EditorialRankingResult {
+  const rankedArticles = rankDeterministically(candidates, 'Deterministic score (editorial ranking unavailable)');
 
   return {
     rankedArticles,
@@ -89,8 +93,13 @@ function deterministicFallback(candidates: ScoredArticle[]): EditorialRankingRes
 
 export async function rankArticlesEditorially(
   candidates: ScoredArticle[],
-  topic: string
+  topic: string,
+  options?: { cacheDate?: string; useCache?: boolean }
 ): Promise<EditorialRankingResult> {
+  const cacheDate = options?.cacheDate ?? new Date().toISOString().split('T')[0];
+  // The cache holds one ranking per topic and day; intraday callers rank fresh sets
+  const useCache = options?.useCache ?? true;
+
   if (candidates.length === 0) {
     return {
       rankedArticles: [],
@@ -101,7 +110,7 @@ export async function rankArticlesEditorially(
   }
 
   // Check cache first
-  const cached = await checkEditorialCache(topic);
+  const cached = useCache ? await checkEditorialCache(topic, cacheDate) : null;
   if (cached) {
     return cached;
   }
@@ -115,6 +124,8 @@ export async function rankArticlesEditorially(
     publishedAt: a.publishedAt,
     url: a.url,
     deterministicScore: Math.round(a.totalScore * 100) / 100,
+    outletCount: a.outletCount,
+    alsoReportedBy: a.siblings.map((s) => s.source),
   }));
 
   const systemPrompt = `You are a senior news editor with 20+ years of experience at a major international newsroom. Your job is to rank news articles by genuine editorial importance for the topic "${topic}".
@@ -125,6 +136,7 @@ Exercise independent editorial judgment — do NOT simply mirror the determinist
 - **Novelty**: Genuinely new information outranks rehashed or incremental updates
 - **Diversity**: Ensure the top results cover different sub-stories within the topic — avoid clustering multiple articles about the same event
 - **Source credibility**: Weight authoritative primary sources over aggregators or opinion pieces
+- **Coverage**: Each article represents one story; "outletCount" is how many outlets are reporting it ("alsoReportedBy" lists the others). Broad independent coverage is a strong signal of importance
 
 Return a JSON object with a "rankings" array. Each entry must have:
 - "url": the article URL (must match exactly from input)
@@ -136,63 +148,42 @@ Rank ALL provided articles. Output ONLY valid JSON, no markdown fences.`;
   const userPrompt = `Rank these ${articlePayload.length} articles for the topic "${topic}":\n\n${JSON.stringify(articlePayload, null, 2)}`;
 
   try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), EDITORIAL_TIMEOUT_MS);
-
-    const response = await openai.chat.completions.create({
-      model: EDITORIAL_MODEL,
-      temperature: 0.2,
-      max_tokens: 2000,
-      response_format: { type: 'json_object' },
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-    }, { signal: controller.signal });
-
-    clearTimeout(timeout);
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      console.warn(`[Editorial] Empty response from LLM for "${topic}", using fallback`);
-      return deterministicFallback(candidates);
-    }
-
-    const parsed = JSON.parse(content);
-    const rankings: EditorialRankedArticle[] = parsed.rankings;
-
-    if (!Array.isArray(rankings) || rankings.length === 0) {
-      console.warn(`[Editorial] Invalid rankings format for "${topic}", using fallback`);
-      return deterministicFallback(candidates);
-    }
-
-    // Validate and normalize rankings
-    const validRankings = rankings
-      .filter((r) => r.url && typeof r.importanceScore === 'number')
-      .map((r) => ({
-        url: r.url,
-        importanceScore: Math.max(1, Math.min(10, Math.round(r.importanceScore))),
-        reasoning: r.reasoning || '',
-      }));
-
-    if (validRankings.length === 0) {
-      console.warn(`[Editorial] No valid rankings for "${topic}", using fallback`);
-      return deterministicFallback(candidates);
+    const { value, model, issues } = await withUsageContext({ topic }, () => completeValidatedJson(
+      'editorial',
+      {
+        temperature: 0.2,
+        maxTokens: 2000,
+        timeoutMs: EDITORIAL_TIMEOUT_MS,
+        maxRetries: 1,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt },
+        ],
+        mockResponse: () => ({ rankings: rankDeterministically(candidates, 'Mock editorial ranking') }),
+      },
+      editorialRankingSchema
+    ));
+
+    if (issues.length > 0) {
+      console.warn(`[Editorial] Dropped ${issues.length} invalid rankings for "${topic}": ${formatSchemaIssues(issues)}`);
     }
 
+    const validRankings = value.rankings;
     validRankings.sort((a, b) => b.importanceScore - a.importanceScore);
 
     const result: EditorialRankingResult = {
       rankedArticles: validRankings,
-      model: EDITORIAL_MODEL,
+      model,
       timestamp: new Date().toISOString(),
       fallback: false,
     };
 
-    console.log(`[Editorial] Ranked ${validRankings.length} articles for "${topic}" via ${EDITORIAL_MODEL}`);
+    console.log(`[Editorial] Ranked ${validRankings.length} articles for "${topic}" via ${model}`);
 
-    // Cache the result
-    await storeEditorialCache(topic, result);
+    // Cache the result (mock rankings would otherwise be served to real digests)
+    if (useCache && getLlmClient('editorial').id !== 'mock') {
+      await storeEditorialCache(topic, cacheDate, result);
+    }
 
     return result;
   } catch (error) {
@@ -1,5 +1,8 @@
 import { Resend } from 'resend';
-import { NewsSummary } from './openai';
+import { NewsSummary, SummaryCitation } from './openai';
+import { formatLocalDate } from './deliverySchedule';
+import { buildClickUrl, buildUnsubscribeUrl } from './emailEvents';
+import { DEFAULT_SUMMARY_DEPTH, SummaryDepth } from './summaryDepth';
 
 // Lazy initialization for Resend client
 let _resend: Resend | null = null;
@@ -21,7 +24,10 @@ const getResend = () => {
 export async function sendNewsDigest(
   email: string,
   summaries: NewsSummary[],
-  isPaid: boolean = false
+  isPaid: boolean = false,
+  // archiveId: email_archive id the digest will be stored under, for click tracking
+  // depth: the recipient's summary depth; userId: the recipient, for the unsubscribe link
+  options?: { timezone?: string; archiveId?: string; depth?: SummaryDepth; userId?: string }
 ): Promise<{ success: boolean; error?: string; details?: unknown }> {
   try {
     if (!process.env.RESEND_API_KEY) {
@@ -30,12 +36,16 @@ export async function sendNewsDigest(
       return { success: false, error: errorMsg };
     }
 
-    const html = generateEmailHTML(email, summaries, isPaid);
+    const html = generateEmailHTML(email, summaries, isPaid, {
+      archiveId: options?.archiveId,
+      depth: options?.depth,
+      userId: options?.userId,
+    });
 
     const { data, error } = await getResend().emails.send({
       from: 'SnipIt <nofluff@newsletter.snipit.news>', // Using custom domain
       to: [email],
-      subject: `Your SnipIt Daily Digest - ${new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`,
+      subject: `Your SnipIt Daily Digest - ${formatLocalDate(options?.timezone)}`,
       html,
     });
 
@@ -63,8 +73,49 @@ export async function sendNewsDigest(
   }
 }
 
-function generateEmailHTML(email: string, summaries: NewsSummary[], isPaid: boolean): string {
+// Shown before the title of a story the reader saw in a recent digest
+const UPDATE_LABEL_HTML = '<span style="display:inline-block;background:#fe7e4c;color:#ffffff;font-size:11px;line-height:16px;font-weight:bold;letter-spacing:0.5px;text-transform:uppercase;padding:1px 6px;margin-right:8px;border-radius:3px;vertical-align:middle">Update</span>';
+
+// Subtitle under "The Cut", by summary depth
+const DEPTH_SUBTITLES: Record<SummaryDepth, { label: string; readingTime: string }> = {
+  headline: { label: 'Headlines Only', readingTime: 'Under 30 Seconds' },
+  brief: { label: 'Quick Bullet-Point Summary', readingTime: 'Under 60 Seconds' },
+  deep: { label: 'Deep Dive', readingTime: 'About 5 Minutes' },
+};
+
+// First sentence of a summary or bullet, for headline-only digests. Initials and
+// titles ("U.S.", "Dr.") don't end a sentence.
+const FIRST_SENTENCE_PATTERN = /^.*?(?<!\b(?:[A-Z]|Mr|Mrs|Ms|Dr|St|Jr|Sr))[.!?]["”’)]?(?=\s+["“‘(]?[A-Z0-9]|$)/;
+
+function getFirstSentence(text: string): string {
+  return FIRST_SENTENCE_PATTERN.exec(text.trim())?.[0] ?? text.trim();
+}
+
+// Small linked chips naming each outlet a story cites, shown under its text. Older
+// stored summaries have no citations and show none.
+function renderCitationChips(citations: SummaryCitation[] | undefined, href: (url: string) => string): string {
+  if (!citations || citations.length === 0) {
+    return '';
+  }
+  return `
+                            <div style="clear:both;padding-top:6px">${citations.map((citation) => `<a href="${href(citation.url)}" style="display:inline-block;background:#f0f0f0;color:#707070;font-size:12px;line-height:18px;text-decoration:none;padding:1px 8px;margin:0 6px 6px 0;border-radius:9px" target="_blank">${citation.source}</a>`).join('')}</div>`;
+}
+
+export function generateEmailHTML(
+  email: string,
+  summaries: NewsSummary[],
+  isPaid: boolean,
+  options?: { archiveId?: string; depth?: SummaryDepth; userId?: string }
+): string {
   const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://snipit.news';
+  // Summaries are written for the reader's depth; headline-only digests are also
+  // trimmed here, since fallback and older stored summaries can run longer
+  const depth = options?.depth ?? DEFAULT_SUMMARY_DEPTH;
+  const headlineOnly = depth === 'headline';
+  const subtitle = DEPTH_SUBTITLES[depth];
+  // Article links go through the click tracker when the digest will be archived
+  const articleHref = (topicSummary: NewsSummary, url: string) =>
+    options?.archiveId ? buildClickUrl(options.archiveId, topicSummary, url) : url;
 
   return `<!DOCTYPE html>
 <html lang="en">
@@ -210,8 +261,8 @@ function generateEmailHTML(email: string, summaries: NewsSummary[], isPaid: bool
                       The Cut
                     </p>
                     <p style="font-size:18px;line-height:24px;color:#707070;font-weight:bold;margin-top:16px;margin-bottom:24px" class="subtitle-size">
-                      Quick Bullet-Point Summary –
-                      <span style="font-style:italic;font-weight:normal">Under 60 Seconds</span>
+                      ${subtitle.label} –
+                      <span style="font-style:italic;font-weight:normal">${subtitle.readingTime}</span>
                     </p>
                   </td>
                 </tr>
@@ -296,8 +347,10 @@ function generateEmailHTML(email: string, summaries: NewsSummary[], isPaid: bool
                     
                     <!-- Bullets (Template Style) -->
                     ${(() => {
-                      if (isPaid) {
-                        // Paid: paragraph format with article title
+                      // Older stored summaries have no format: paid was paragraphs, free was bullets
+                      const format = topicSummary.format ?? (isPaid ? 'paragraphs' : 'bullets');
+                      if (format === 'paragraphs') {
+                        // Paragraph format with article title
                         return topicSummary.summaries.map((article) => `
                     <table align="center" width="100%" border="0" cellpadding="0" cellspacing="0" role="presentation" style="margin-bottom:30px">
                       <tbody>
@@ -306,15 +359,16 @@ function generateEmailHTML(email: string, summaries: NewsSummary[], isPaid: bool
                             <img src="https://res.cloudinary.com/dgqg2myag/image/upload/v1748662914/snipit-logo-black_fttbsx.png" alt="•" style="display:block;outline:none;border:none;text-decoration:none;height:27px;width:27px" class="bullet-logo-size">
                           </td>
                           <td style="font-family:Raleway,sans-serif;vertical-align:top">
-                            <a href="${article.url}" style="color:#fe7e4c;text-decoration-line:none;font-weight:bold;font-size:22px;margin-top:0;margin-bottom:12px;display:block;line-height:28px" target="_blank" class="article-title-size">${article.title}</a>
-                            <p style="font-size:16px;line-height:22px;margin:0;letter-spacing:0;font-weight:500;margin-top:0;margin-bottom:0;margin-left:0;margin-right:0;color:#000000">${article.summary}</p>
+                            <a href="${articleHref(topicSummary, article.url)}" style="color:#fe7e4c;text-decoration-line:none;font-weight:bold;font-size:22px;margin-top:0;margin-bottom:12px;display:block;line-height:28px" target="_blank" class="article-title-size">${article.isUpdate ? UPDATE_LABEL_HTML : ''}${article.title}</a>
+                            <p style="font-size:16px;line-height:22px;margin:0;letter-spacing:0;font-weight:500;margin-top:0;margin-bottom:0;margin-left:0;margin-right:0;color:#000000">${headlineOnly ? getFirstSentence(article.summary) : article.summary}</p>
+                            ${renderCitationChips(article.citations, (url) => articleHref(topicSummary, url))}
                           </td>
                         </tr>
                       </tbody>
                     </table>
                     `).join('');
                       } else {
-                        // Free: Group articles by title/URL to avoid duplicate titles
+                        // Bullets: Group articles by title/URL to avoid duplicate titles
                         // Group summaries by title to combine bullets from the same article
                         const groupedArticles = new Map<string, typeof topicSummary.summaries>();
                         
@@ -342,10 +396,19 @@ function generateEmailHTML(email: string, summaries: NewsSummary[], isPaid: bool
                               allBullets.push(article.summary.trim());
                             }
                           });
+                          // Headline-only digests show one line per story
+                          if (headlineOnly && allBullets.length > 0) {
+                            allBullets.splice(0, allBullets.length, getFirstSentence(allBullets[0]));
+                          }
                           
                           if (allBullets.length === 0) {
                             return '';
                           }
+
+                          // Every outlet cited by any of the grouped summaries, once each
+                          const citations = articles
+                            .flatMap((article) => article.citations ?? [])
+                            .filter((citation, index, all) => all.findIndex((c) => c.url === citation.url) === index);
                           
                           // Show title once, then all bullets below it with visual bullet points
                           return `
@@ -356,7 +419,7 @@ function generateEmailHTML(email: string, summaries: NewsSummary[], isPaid: bool
                             <img src="https://res.cloudinary.com/dgqg2myag/image/upload/v1748662914/snipit-logo-black_fttbsx.png" alt="•" style="display:block;outline:none;border:none;text-decoration:none;height:20px;width:20px" />
                           </td>
                           <td style="font-family:Raleway,sans-serif;vertical-align:top">
-                            <a href="${firstArticle.url}" style="color:#fe7e4c;text-decoration-line:none;font-weight:bold;font-size:18px;margin-top:0;margin-bottom:6px;display:block;line-height:24px" target="_blank">${title}</a>
+                            <a href="${articleHref(topicSummary, firstArticle.url)}" style="color:#fe7e4c;text-decoration-line:none;font-weight:bold;font-size:18px;margin-top:0;margin-bottom:6px;display:block;line-height:24px" target="_blank">${firstArticle.isUpdate ? UPDATE_LABEL_HTML : ''}${title}</a>
                             ${allBullets.map((bullet) => {
                               const cleanBullet = bullet.replace(/^[•\-\*]\s*/, '').trim();
                               if (!cleanBullet || cleanBullet.length === 0) {
@@ -377,6 +440,7 @@ function generateEmailHTML(email: string, summaries: NewsSummary[], isPaid: bool
                               </tbody>
                             </table>`;
                             }).join('')}
+                            ${renderCitationChips(citations, (url) => articleHref(topicSummary, url))}
                           </td>
                         </tr>
                       </tbody>
@@ -404,7 +468,7 @@ function generateEmailHTML(email: string, summaries: NewsSummary[], isPaid: bool
                       To manage your preferences or unsubscribe at any time, visit
                       <a href="${appUrl}/dashboard" style="color:#cccccc;text-decoration:none"> your dashboard</a>
                       or
-                      <a href="${appUrl}/unsubscribe?email=${encodeURIComponent(email)}" style="color:#cccccc;text-decoration:none">unsubscribe here</a>.
+                      <a href="${buildUnsubscribeUrl(options?.userId)}" style="color:#cccccc;text-decoration:none">unsubscribe here</a>.
                     </p>
                     <p style="color:#777;font-size:10px;margin-top:8px;font-family:Roboto,sans-serif">© 2024 SnipIt. Stay informed, stay focused.</p>
                   </td>
@@ -418,3 +482,116 @@ function generateEmailHTML(email: string, summaries: NewsSummary[], isPaid: bool
 </body>
 </html>`;
 }
+
+// Single-story alert sent between digests (see breakingNews.ts)
+export async function sendBreakingNewsAlert(
+  email: string,
+  userId: string,
+  alert: { topic: string; title: string; summary: string; url: string; source: string; alsoReportedBy: string[] }
+): Promise<{ success: boolean; error?: string; details?: unknown }> {
+  try {
+    if (!process.env.RESEND_API_KEY) {
+      const errorMsg = 'RESEND_API_KEY is not configured';
+      console.error(`[Email] ${errorMsg}`);
+      return { success: false, error: errorMsg };
+    }
+
+    const { data, error } = await getResend().emails.send({
+      from: 'SnipIt <nofluff@newsletter.snipit.news>',
+      to: [email],
+      subject: `Breaking: ${alert.title}`,
+      html: generateBreakingAlertHTML(userId, alert),
+    });
+
+    if (error) {
+      console.error(`[Email] Failed to send alert to ${email}:`, typeof error === 'object' ? JSON.stringify(error, null, 2) : error);
+      return {
+        success: false,
+        error: `Resend API error: ${typeof error === 'object' && 'message' in error ? error.message : String(error)}`,
+        details: error,
+      };
+    }
+
+    console.log(`[Email] Sent breaking alert to ${email}`, data?.id ? `(ID: ${data.id})` : '');
+    return { success: true, details: data };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[Email] Exception sending alert to ${email}:`, errorMessage);
+    return { success: false, error: errorMessage, details: error };
+  }
+}
+
+function generateBreakingAlertHTML(
+  userId: string,
+  alert: { topic: string; title: string; summary: string; url: string; source: string; alsoReportedBy: string[] }
+): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://snipit.news';
+  const topicName = alert.topic.charAt(0).toUpperCase() + alert.topic.slice(1);
+  const coverage = alert.alsoReportedBy.length > 0
+    ? `${alert.source}, also reported by ${alert.alsoReportedBy.slice(0, 4).join(', ')}`
+    : alert.source;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta content="text/html; charset=UTF-8" http-equiv="Content-Type">
+    <meta name="x-apple-disable-message-reformatting">
+    <title>SnipIt Breaking News</title>
+</head>
+<body style="margin:0;padding:0;background-color:#ffffff">
+    <table align="center" width="100%" border="0" cellpadding="0" cellspacing="0" role="presentation" style="max-width:640px;width:100%;margin:0 auto;background-color:#ffffff">
+      <tbody>
+        <tr>
+          <td>
+            <!-- Header -->
+            <table align="center" width="100%" border="0" cellpadding="0" cellspacing="0" role="presentation" style="background:#2d2d2d;color:#ffffff;padding:20px 16px">
+              <tbody>
+                <tr>
+                  <td style="text-align:center">
+                    <img src="https://res.cloudinary.com/dgqg2myag/image/upload/v1748666252/logo-white_gp5iuq.png" alt="SnipIt" style="display:block;outline:none;border:none;text-decoration:none;height:32px;margin:0 auto">
+                    <p style="font-size:18px;line-height:22px;letter-spacing:0px;text-transform:uppercase;margin:10px 0 0 0;font-family:Roboto,sans-serif;color:#fe7e4c;font-weight:bold">
+                      Breaking · ${topicName}
+                    </p>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+
+            <!-- Story -->
+            <table align="center" width="100%" border="0" cellpadding="0" cellspacing="0" role="presentation" style="background-color:#fbfbfb;padding:32px 16px">
+              <tbody>
+                <tr>
+                  <td style="font-family:Raleway,sans-serif">
+                    <a href="${alert.url}" style="color:#fe7e4c;text-decoration-line:none;font-weight:bold;font-size:22px;line-height:28px;display:block;margin-bottom:12px" target="_blank">${alert.title}</a>
+                    <p style="font-size:16px;line-height:22px;margin:0 0 16px 0;color:#000000">${alert.summary}</p>
+                    <p style="font-size:13px;line-height:18px;margin:0;color:#707070">${coverage}</p>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+
+            <!-- Footer -->
+            <table align="center" width="100%" border="0" cellpadding="0" cellspacing="0" role="presentation" style="background:#2d2d2d">
+              <tbody>
+                <tr>
+                  <td style="text-align:center;padding:20px">
+                    <p style="color:#999;font-size:11px;margin:0;font-family:Roboto,sans-serif;line-height:18px">
+                      You're receiving this alert because breaking news alerts are on for your SnipIt topics.
+                      <br />
+                      Turn them off or change quiet hours in
+                      <a href="${appUrl}/dashboard" style="color:#cccccc;text-decoration:none">your dashboard</a>,
+                      or <a href="${buildUnsubscribeUrl(userId)}" style="color:#cccccc;text-decoration:none">unsubscribe here</a>.
+                    </p>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </td>
+        </tr>
+      </tbody>
+    </table>
+</body>
+</html>`;
+}
@@ -0,0 +1,174 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getSupabaseAdmin } from './supabase';
+import { NewsSummary } from './openai';
+import { ExperimentArm } from './experiments';
+
+// Digest engagement events (email_events): a delivery per topic in a prompt
+// experiment, article clicks through the /api/track/click redirect, and
+// unsubscribes. Click links are signed with EMAIL_TRACKING_SECRET so the redirect
+// can't be used to send people anywhere else; without the secret, emails link
+// straight to the articles and no clicks are recorded. Unsubscribe links are signed
+// with the same secret over the recipient's user id, so only the recipient of an
+// email can unsubscribe through it.
+
+export type EmailEventType = 'delivered' | 'click' | 'unsubscribe';
+
+export interface EmailEvent {
+  event_type: EmailEventType;
+  archive_id?: string | null;
+  user_id?: string | null;
+  topic?: string | null;
+  url?: string | null;
+  experiment_id?: string | null;
+  arm?: ExperimentArm | null;
+}
+
+// Verified parameters of a tracked click
+export interface ClickParams {
+  archiveId: string;
+  topic: string;
+  url: string;
+  experimentId: string | null;
+  arm: ExperimentArm | null;
+}
+
+// Unsubscribes count against experiment arms the user received in this window
+const UNSUBSCRIBE_ATTRIBUTION_DAYS = 7;
+
+// Signature over the link's parameters, in query order (d, t, u, e, a)
+function signClick(values: Array<string | null>, secret: string): string {
+  return createHmac('sha256', secret).update(JSON.stringify(values)).digest('hex').slice(0, 32);
+}
+
+// Redirect URL that records a click on an article in an archived digest, or the
+// article URL itself when tracking isn't configured
+export function buildClickUrl(archiveId: string, topicSummary: NewsSummary, url: string): string {
+  const secret = process.env.EMAIL_TRACKING_SECRET;
+  if (!secret) return url;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://snipit.news';
+  const experimentId = topicSummary.experiment?.id ?? null;
+  const arm = topicSummary.experiment?.arm ?? null;
+
+  const query = new URLSearchParams({ d: archiveId, t: topicSummary.topic, u: url });
+  if (experimentId && arm) {
+    query.set('e', experimentId);
+    query.set('a', arm);
+  }
+  query.set('s', signClick([archiveId, topicSummary.topic, url, experimentId, arm], secret));
+
+  return `${appUrl}/api/track/click?${query.toString()}`;
+}
+
+function signUnsubscribe(userId: string, secret: string): string {
+  return createHmac('sha256', secret).update(JSON.stringify(['unsubscribe', userId])).digest('hex').slice(0, 32);
+}
+
+// One-click unsubscribe page for the recipient. Without the secret (or a user, e.g.
+// test sends) the page asks the reader to pause digests from their dashboard.
+export function buildUnsubscribeUrl(userId?: string | null): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://snipit.news';
+  const secret = process.env.EMAIL_TRACKING_SECRET;
+  if (!secret || !userId) return `${appUrl}/unsubscribe`;
+
+  const query = new URLSearchParams({ u: userId, s: signUnsubscribe(userId, secret) });
+  return `${appUrl}/unsubscribe?${query.toString()}`;
+}
+
+// True if the signature is ours for this user id
+export function verifyUnsubscribe(userId: unknown, signature: unknown): userId is string {
+  const secret = process.env.EMAIL_TRACKING_SECRET;
+  if (!secret || typeof userId !== 'string' || typeof signature !== 'string' || !userId || !signature) return false;
+
+  const expected = Buffer.from(signUnsubscribe(userId, secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Parameters of a click link, or null if it wasn't signed by us
+export function verifyClick(searchParams: URLSearchParams): ClickParams | null {
+  const secret = process.env.EMAIL_TRACKING_SECRET;
+  const archiveId = searchParams.get('d');
+  const topic = searchParams.get('t');
+  const url = searchParams.get('u');
+  const signature = searchParams.get('s');
+
+  if (!secret || !archiveId || !topic || !url || !signature) return null;
+
+  const experimentId = searchParams.get('e');
+  const arm = searchParams.get('a');
+
+  const expected = Buffer.from(signClick([archiveId, topic, url, experimentId, arm], secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  if (!/^https?:\/\//i.test(url)) return null;
+
+  return {
+    archiveId,
+    topic,
+    url,
+    experimentId,
+    arm: arm === 'control' || arm === 'variant' ? arm : null,
+  };
+}
+
+export async function recordEmailEvents(events: EmailEvent[]): Promise<void> {
+  if (events.length === 0) return;
+
+  try {
+    const { error } = await getSupabaseAdmin().from('email_events').insert(events as never);
+    if (error) {
+      console.error(`[Events] Failed to record ${events.length} email events:`, error);
+    }
+  } catch (error) {
+    // Don't throw - engagement tracking never blocks a send or a redirect
+    console.error(`[Events] Failed to record ${events.length} email events:`, error);
+  }
+}
+
+// One delivery per experiment topic in a sent digest (the denominator for its arm)
+export async function recordDeliveries(archiveId: string, userId: string, summaries: NewsSummary[]): Promise<void> {
+  await recordEmailEvents(
+    summaries
+      .filter((summary) => summary.experiment)
+      .map((summary) => ({
+        event_type: 'delivered' as const,
+        archive_id: archiveId,
+        user_id: userId,
+        topic: summary.topic,
+        experiment_id: summary.experiment!.id,
+        arm: summary.experiment!.arm,
+      }))
+  );
+}
+
+// Record an unsubscribe, attributed to each experiment arm the user received recently
+export async function recordUnsubscribe(userId: string): Promise<void> {
+  const events: EmailEvent[] = [{ event_type: 'unsubscribe', user_id: userId }];
+
+  try {
+    const since = new Date(Date.now() - UNSUBSCRIBE_ATTRIBUTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = (await getSupabaseAdmin()
+      .from('email_events')
+      .select('experiment_id, arm')
+      .eq('user_id', userId)
+      .eq('event_type', 'delivered')
+      .gte('created_at', since)) as {
+      data: Array<{ experiment_id: string; arm: ExperimentArm }> | null;
+      error: { message: string } | null;
+    };
+
+    if (error) {
+      console.error(`[Events] Error loading deliveries for user ${userId}:`, error);
+    }
+
+    const arms = new Map((data || []).map((row) => [row.experiment_id, row.arm]));
+    for (const [experimentId, arm] of arms) {
+      events.push({ event_type: 'unsubscribe', user_id: userId, experiment_id: experimentId, arm });
+    }
+  } catch (error) {
+    console.error(`[Events] Error loading deliveries for user ${userId}:`, error);
+  }
+
+  await recordEmailEvents(events);
+}
@@ -0,0 +1,179 @@
+import { createHash } from 'crypto';
+import { NewsArticle } from './openai';
+import { withUsageContext } from './costTracking';
+import { embedTexts, isMockLlmBackend } from './llm';
+
+// Semantic relevance: embeds each article and a profile of the topic, and scores
+// articles by cosine similarity. The backend is pluggable:
+//   EMBEDDINGS_BACKEND=openai  OpenAI text-embedding-3-small (default when OPENAI_API_KEY is set)
+//   EMBEDDINGS_BACKEND=ollama  a local Ollama server (EMBEDDINGS_URL, EMBEDDINGS_MODEL)
+//   EMBEDDINGS_BACKEND=hash    dependency-free hashed bag-of-words vectors, for offline runs
+//   EMBEDDINGS_BACKEND=off     keyword relevance only
+// OpenAI calls go through llm.ts, so they count in the run's LLM stats. Under
+// LLM_BACKEND=mock the hash backend stands in for OpenAI, keeping mock runs offline.
+// Any failure returns null and scoring falls back to keyword relevance.
+
+export interface EmbeddingBackend {
+  id: string;
+  embed(texts: string[]): Promise<number[][]>;
+  // Cosine similarities this backend typically produces for an unrelated and a
+  // clearly on-topic article. Used to map raw similarity onto a 0-1 score.
+  similarityRange: [number, number];
+}
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+const EMBEDDING_TIMEOUT_MS = 15000;
+// Characters of article text embedded per article
+const MAX_ARTICLE_TEXT_CHARS = 1000;
+const HASH_DIMENSIONS = 512;
+
+const openaiBackend: EmbeddingBackend = {
+  id: 'openai',
+  similarityRange: [0.15, 0.55],
+  async embed(texts) {
+    return embedTexts(OPENAI_EMBEDDING_MODEL, texts, EMBEDDING_TIMEOUT_MS);
+  },
+};
+
+const ollamaBackend: EmbeddingBackend = {
+  id: 'ollama',
+  similarityRange: [0.35, 0.75],
+  async embed(texts) {
+    const baseUrl = process.env.EMBEDDINGS_URL || 'http://localhost:11434';
+    const response = await fetch(`${baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: process.env.EMBEDDINGS_MODEL || 'nomic-embed-text', input: texts }),
+      signal: AbortSignal.timeout(EMBEDDING_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama embeddings error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { embeddings?: number[][] };
+    if (!data.embeddings || data.embeddings.length !== texts.length) {
+      throw new Error('Ollama embeddings response is missing vectors');
+    }
+    return data.embeddings;
+  },
+};
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/[^\w\s]/g, ' ').split(/\s+/).filter((word) => word.length > 1);
+}
+
+// Feature hashing: words and word pairs are hashed into a fixed number of buckets
+const hashBackend: EmbeddingBackend = {
+  id: 'hash',
+  similarityRange: [0.02, 0.3],
+  async embed(texts) {
+    return texts.map((text) => {
+      const vector = new Array<number>(HASH_DIMENSIONS).fill(0);
+      const words = tokenize(text);
+      const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+      for (const feature of features) {
+        const digest = createHash('md5').update(feature).digest();
+        const bucket = digest.readUInt32BE(0) % HASH_DIMENSIONS;
+        // Signed hashing keeps collisions from only ever adding similarity
+        vector[bucket] += digest[4] & 1 ? 1 : -1;
+      }
+
+      return vector;
+    });
+  },
+};
+
+const BACKENDS: Record<string, EmbeddingBackend> = {
+  openai: openaiBackend,
+  ollama: ollamaBackend,
+  hash: hashBackend,
+};
+
+let backendOverride: EmbeddingBackend | null | undefined;
+
+// Topic profile embeddings, keyed by backend and topic. Topics repeat across
+// invocations on a warm instance, articles don't.
+const topicEmbeddings = new Map<string, number[]>();
+
+// Replace the configured backend (e.g. with a stub); pass undefined to restore it
+export function setEmbeddingBackend(backend: EmbeddingBackend | null | undefined): void {
+  backendOverride = backend;
+  topicEmbeddings.clear();
+}
+
+export function getEmbeddingBackend(): EmbeddingBackend | null {
+  if (backendOverride !== undefined) return backendOverride;
+
+  const configured = (process.env.EMBEDDINGS_BACKEND || '').trim().toLowerCase();
+  if (configured === 'off') return null;
+
+  let backend: EmbeddingBackend | null = process.env.OPENAI_API_KEY ? openaiBackend : null;
+  if (configured) {
+    backend = BACKENDS[configured] ?? null;
+    if (!backend) {
+      console.warn(`[Embeddings] Unknown backend "${configured}", using keyword relevance`);
+    }
+  }
+
+  return backend === openaiBackend && isMockLlmBackend() ? hashBackend : backend;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// Topic profiles describe what an on-topic article looks like, so short or
+// ambiguous topic names ("AI", "Apple") embed with their news sense
+function getTopicProfile(topic: string): string {
+  return `News about ${topic}: latest developments, announcements, analysis and events related to ${topic}.`;
+}
+
+function getArticleText(article: NewsArticle): string {
+  return `${article.title}. ${article.description}`.slice(0, MAX_ARTICLE_TEXT_CHARS);
+}
+
+// Semantic relevance (0-1) per article URL, or null if embeddings are unavailable
+export async function getSemanticRelevance(
+  articles: NewsArticle[],
+  topic: string
+): Promise<Map<string, number> | null> {
+  const backend = getEmbeddingBackend();
+  if (!backend || articles.length === 0) {
+    return null;
+  }
+
+  try {
+    const topicKey = `${backend.id}||${topic.toLowerCase()}`;
+    const cachedTopic = topicEmbeddings.get(topicKey);
+    const texts = articles.map(getArticleText);
+    const vectors = await withUsageContext({ topic }, () =>
+      backend.embed(cachedTopic ? texts : [getTopicProfile(topic), ...texts])
+    );
+
+    const topicVector = cachedTopic ?? vectors.shift()!;
+    topicEmbeddings.set(topicKey, topicVector);
+
+    const [low, high] = backend.similarityRange;
+    const scores = new Map<string, number>();
+    articles.forEach((article, i) => {
+      const similarity = cosineSimilarity(topicVector, vectors[i]);
+      scores.set(article.url, Math.max(0, Math.min(1, (similarity - low) / (high - low))));
+    });
+
+    console.log(`[Embeddings] Scored ${articles.length} articles for "${topic}" with ${backend.id}`);
+    return scores;
+  } catch (error) {
+    console.error(`[Embeddings] ${backend.id} failed for "${topic}", using keyword relevance:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
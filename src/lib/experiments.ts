@@ -0,0 +1,142 @@
+import { createHash } from 'crypto';
+import { getSupabaseAdmin } from './supabase';
+
+// Prompt A/B experiments. An experiment runs two prompts for one topic category and
+// tier - control and variant, each a prompt_versions row or the built-in prompts -
+// and splits users between them by a hash of (experiment, user), so a user stays in
+// the same arm for the whole experiment. Summaries are shared per arm. Deliveries,
+// article clicks and unsubscribes are logged to email_events with the arm (see
+// emailEvents.ts), and compared per arm with a two-proportion z-test.
+
+export type ExperimentArm = 'control' | 'variant';
+
+export interface PromptExperimentRow {
+  id: string;
+  name: string;
+  category_id: string;
+  tier: 'free' | 'paid';
+  control_version_id: string | null; // NULL = built-in prompts
+  variant_version_id: string | null;
+  variant_percent: number; // Share of users in the variant arm (1-99)
+  status: 'running' | 'stopped';
+  created_by: string | null;
+  started_at: string;
+  stopped_at: string | null;
+}
+
+// The arm a summary was written for
+export interface ExperimentAssignment {
+  id: string;
+  arm: ExperimentArm;
+}
+
+export interface ArmStats {
+  delivered: number; // Digests that included the experiment's topic
+  clicked: number; // ...with at least one click on one of its stories
+  clickRate: number;
+  users: number; // Distinct recipients
+  unsubscribed: number; // ...who unsubscribed within a week of a delivery
+  unsubscribeRate: number;
+}
+
+export interface ProportionTest {
+  difference: number; // Variant rate minus control rate
+  z: number;
+  pValue: number; // Two-sided
+  significant: boolean; // pValue < SIGNIFICANCE_LEVEL
+}
+
+export interface ExperimentResults {
+  arms: Record<ExperimentArm, ArmStats>;
+  clickThrough: ProportionTest | null; // null until both arms have data
+  unsubscribe: ProportionTest | null;
+}
+
+const SIGNIFICANCE_LEVEL = 0.05;
+
+export function assignArm(experiment: Pick<PromptExperimentRow, 'id' | 'variant_percent'>, userId: string): ExperimentArm {
+  const hash = createHash('sha256').update(`${experiment.id}:${userId}`).digest('hex');
+  const bucket = parseInt(hash.slice(0, 8), 16) % 100;
+  return bucket < experiment.variant_percent ? 'variant' : 'control';
+}
+
+export function getArmVersionId(experiment: PromptExperimentRow, arm: ExperimentArm): string | null {
+  return arm === 'variant' ? experiment.variant_version_id : experiment.control_version_id;
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(x) / Math.SQRT2));
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Pooled two-proportion z-test of variant vs control
+export function twoProportionZTest(
+  controlSuccesses: number,
+  controlTotal: number,
+  variantSuccesses: number,
+  variantTotal: number
+): ProportionTest | null {
+  if (controlTotal === 0 || variantTotal === 0) return null;
+
+  const controlRate = controlSuccesses / controlTotal;
+  const variantRate = variantSuccesses / variantTotal;
+  const pooled = (controlSuccesses + variantSuccesses) / (controlTotal + variantTotal);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / controlTotal + 1 / variantTotal));
+
+  // Both arms all-or-nothing: no variance to test against
+  if (standardError === 0) return null;
+
+  const z = (variantRate - controlRate) / standardError;
+  const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+  return { difference: variantRate - controlRate, z, pValue, significant: pValue < SIGNIFICANCE_LEVEL };
+}
+
+function emptyArmStats(): ArmStats {
+  return { delivered: 0, clicked: 0, clickRate: 0, users: 0, unsubscribed: 0, unsubscribeRate: 0 };
+}
+
+export async function getExperimentResults(experimentId: string): Promise<ExperimentResults> {
+  const { data, error } = await getSupabaseAdmin().rpc('get_experiment_arm_stats' as never, {
+    p_experiment_id: experimentId,
+  } as never);
+
+  if (error) {
+    throw new Error(`Failed to load experiment stats: ${(error as { message: string }).message}`);
+  }
+
+  const arms: Record<ExperimentArm, ArmStats> = { control: emptyArmStats(), variant: emptyArmStats() };
+  for (const row of (data as Array<Record<string, string | number>> | null) ?? []) {
+    const arm = row.arm as ExperimentArm;
+    if (!arms[arm]) continue;
+
+    const stats = arms[arm];
+    stats.delivered = Number(row.delivered);
+    stats.clicked = Number(row.clicked);
+    stats.users = Number(row.users);
+    stats.unsubscribed = Number(row.unsubscribed);
+    stats.clickRate = stats.delivered > 0 ? stats.clicked / stats.delivered : 0;
+    stats.unsubscribeRate = stats.users > 0 ? stats.unsubscribed / stats.users : 0;
+  }
+
+  return {
+    arms,
+    clickThrough: twoProportionZTest(
+      arms.control.clicked,
+      arms.control.delivered,
+      arms.variant.clicked,
+      arms.variant.delivered
+    ),
+    unsubscribe: twoProportionZTest(
+      arms.control.unsubscribed,
+      arms.control.users,
+      arms.variant.unsubscribed,
+      arms.variant.users
+    ),
+  };
+}
@@ -0,0 +1,295 @@
+import type { NewsArticle, NewsSummary, SummaryCitation } from './openai';
+import type { SummaryFormat } from './topicCategories';
+
+// Post-summarization faithfulness check. Every number (including percentages and
+// currency amounts) and proper noun in a bullet - or a sentence, for paragraph
+// summaries - must appear in the text of the article the summary cites, matched on
+// url. Unsupported bullets and sentences are dropped, as are summaries citing a url
+// that isn't one of the articles or left with nothing supported. What was dropped is
+// kept on the NewsSummary so the admin summaries tab can show it.
+//
+// Short all-caps tokens may abbreviate source words, as in the sports quick-score
+// format ("BOS 118 — NYK 111 (Final)" for Boston Celtics and New York Knicks).
+//
+// Synthesized summaries are checked against every outlet they cite: the article plus
+// the cited siblings (other outlets' coverage of the same story). Citations of urls
+// that aren't the article or one of its siblings are removed.
+
+type SummaryItem = NewsSummary['summaries'][number];
+
+export type ClaimKind = 'number' | 'percentage' | 'currency' | 'name';
+
+export interface UnsupportedClaim {
+  kind: ClaimKind;
+  text: string;
+}
+
+export interface FaithfulnessFailure {
+  title: string;
+  url: string;
+  text: string; // Dropped bullet or sentence; empty when the whole summary was dropped
+  reason: 'unsupported' | 'unknown-url';
+  unsupported: UnsupportedClaim[];
+}
+
+export interface FaithfulnessResult {
+  summaries: SummaryItem[];
+  failures: FaithfulnessFailure[];
+}
+
+// Source text the article text is checked against, plus any text shared by all
+// summaries (the topic and category prompt context such as sports scores)
+interface SourceIndex {
+  words: Set<string>;
+  numbers: Set<number>;
+  sequence: string[]; // Words in order, '' between separate texts
+}
+
+// Capitalized words that aren't names, or that models restate from dates
+const IGNORED_NAMES = new Set([
+  'i', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august',
+  'september', 'october', 'november', 'december', 'jan', 'feb', 'mar', 'apr', 'jun',
+  'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+  // Game statuses the sports quick-score format asks for
+  'final', 'ft', 'ht', 'ot', 'aet',
+]);
+
+// All-caps tokens short enough to be abbreviations ("NYK", "BOS", "OKC")
+const ABBREVIATION_PATTERN = /^[A-Z]{2,5}$/;
+
+const SCALES: Record<string, number> = {
+  thousand: 1e3,
+  k: 1e3,
+  million: 1e6,
+  m: 1e6,
+  mn: 1e6,
+  billion: 1e9,
+  bn: 1e9,
+  b: 1e9,
+  trillion: 1e12,
+  tn: 1e12,
+};
+
+// A number with optional thousands separators and decimals, its currency symbol,
+// and a following percent sign or scale word ("$1.2 billion", "45%", "3,500")
+const NUMBER_PATTERN = /([$€£¥])?\s?(\d+(?:,\d{3})*(?:\.\d+)?)(\s?%|\s?percent\b|\s?per cent\b)?(?:\s?(thousand|million|billion|trillion|bn|mn|tn|k|m|b)\b)?/gi;
+
+// Title-case words and acronyms, with apostrophes, hyphens and inner dots ("O'Neal", "U.S.")
+const NAME_PATTERN = /^[A-Z][\w'’.-]*$/;
+
+function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/[’']s$/, '')
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    return `${parsed.hostname.replace(/^www\./, '').toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return url.trim().replace(/\/+$/, '').toLowerCase();
+  }
+}
+
+function extractNumbers(text: string): Array<{ kind: ClaimKind; text: string; values: number[] }> {
+  const claims: Array<{ kind: ClaimKind; text: string; values: number[] }> = [];
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const [matched, currency, digits, percent, scale] = match;
+    const value = Number(digits.replace(/,/g, ''));
+    if (!Number.isFinite(value)) continue;
+
+    const values = [value];
+    const multiplier = scale ? SCALES[scale.toLowerCase()] : undefined;
+    if (multiplier) values.push(value * multiplier);
+
+    claims.push({
+      kind: currency ? 'currency' : percent ? 'percentage' : 'number',
+      text: matched.trim(),
+      values,
+    });
+  }
+  return claims;
+}
+
+function buildSourceIndex(text: string): SourceIndex {
+  const numbers = new Set<number>();
+  for (const claim of extractNumbers(text)) {
+    for (const value of claim.values) numbers.add(value);
+  }
+
+  const sequence: string[] = [];
+  for (const word of text.split(/[\s/]+/)) {
+    for (const part of word.split(/[-–—]/)) {
+      const normalized = normalizeWord(part);
+      if (normalized) sequence.push(normalized);
+    }
+  }
+
+  return { words: new Set(sequence), numbers, sequence };
+}
+
+function mergeIndexes(a: SourceIndex, b: SourceIndex): SourceIndex {
+  return {
+    words: new Set([...a.words, ...b.words]),
+    numbers: new Set([...a.numbers, ...b.numbers]),
+    sequence: [...a.sequence, '', ...b.sequence],
+  };
+}
+
+// Names may be inflected differently in the source ("Democrats" / "Democratic"), so
+// longer words match on a prefix; short words and acronyms must match exactly
+function hasWord(index: SourceIndex, word: string): boolean {
+  if (index.words.has(word)) return true;
+  if (word.length <= 4) return false;
+
+  const stem = word.slice(0, Math.max(4, word.length - 2));
+  for (const sourceWord of index.words) {
+    if (sourceWord.startsWith(stem)) return true;
+  }
+  return false;
+}
+
+// Whether the abbreviation spells prefixes of consecutive source words, starting at
+// word `start`: "nyk" from new york knicks, "okc" from oklahoma city
+function spellsFrom(sequence: string[], start: number, abbreviation: string): boolean {
+  if (!abbreviation) return true;
+  const word = sequence[start];
+  if (!word) return false;
+
+  for (let length = Math.min(word.length, abbreviation.length); length >= 1; length--) {
+    if (word.startsWith(abbreviation.slice(0, length)) && spellsFrom(sequence, start + 1, abbreviation.slice(length))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// A short all-caps token is supported by a source word it begins ("BOS" for Boston)
+// or by the source words it abbreviates ("NYK" for New York Knicks)
+function hasAbbreviation(index: SourceIndex, token: string): boolean {
+  const abbreviation = token.toLowerCase();
+  for (const sourceWord of index.words) {
+    if (sourceWord.startsWith(abbreviation)) return true;
+  }
+  return index.sequence.some((word, start) => word[0] === abbreviation[0] && spellsFrom(index.sequence, start, abbreviation));
+}
+
+// Proper nouns in a bullet or sentence. The first word is skipped, since it's
+// capitalized anyway.
+function extractNames(text: string): string[] {
+  const names: string[] = [];
+  const tokens = text.split(/\s+/);
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const startsSentence = index === 0 || /[.!?:;"“]$/.test(previous ?? '');
+    const word = token.replace(/^["“‘'(\[]+|["”’'),.:;!?\]]+$/g, '');
+
+    if (startsSentence || !NAME_PATTERN.test(word)) return;
+    if (IGNORED_NAMES.has(word.toLowerCase())) return;
+    names.push(word);
+  });
+
+  return names;
+}
+
+function findUnsupported(text: string, index: SourceIndex): UnsupportedClaim[] {
+  const unsupported: UnsupportedClaim[] = [];
+
+  for (const claim of extractNumbers(text)) {
+    if (!claim.values.some((value) => index.numbers.has(value))) {
+      unsupported.push({ kind: claim.kind, text: claim.text });
+    }
+  }
+
+  for (const name of extractNames(text)) {
+    if (ABBREVIATION_PATTERN.test(name) && hasAbbreviation(index, name)) continue;
+
+    // Hyphenated and dotted names ("Jean-Luc", "U.S.") match part by part
+    const parts = name.includes('.') ? [normalizeWord(name)] : name.split(/[-–—]/).map(normalizeWord);
+    if (parts.some((part) => part && !/^\d+$/.test(part) && !hasWord(index, part))) {
+      unsupported.push({ kind: 'name', text: name });
+    }
+  }
+
+  return unsupported;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?]["”’)]?)\s+(?=["“‘(]?[A-Z0-9])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+export function checkFaithfulness(
+  summaries: SummaryItem[],
+  articles: NewsArticle[],
+  options: { format: SummaryFormat; sharedContext?: string }
+): FaithfulnessResult {
+  const sharedIndex = buildSourceIndex(options.sharedContext ?? '');
+  const articlesByUrl = new Map<string, { article: NewsArticle; index: SourceIndex }>();
+  for (const article of articles) {
+    const text = `${article.title}\n${article.description ?? ''}\n${article.content ?? ''}\n${article.source.name}`;
+    articlesByUrl.set(normalizeUrl(article.url), { article, index: mergeIndexes(buildSourceIndex(text), sharedIndex) });
+  }
+
+  const failures: FaithfulnessFailure[] = [];
+  const checked: SummaryItem[] = [];
+
+  for (const item of summaries) {
+    const cited = articlesByUrl.get(normalizeUrl(item.url));
+    if (!cited) {
+      failures.push({ title: item.title, url: item.url, text: '', reason: 'unknown-url', unsupported: [] });
+      continue;
+    }
+
+    // Outlet names and urls come from the articles, not the model
+    const citations: SummaryCitation[] = [{ source: cited.article.source.name, url: cited.article.url }];
+    let index = cited.index;
+    for (const citation of item.citations ?? []) {
+      const url = normalizeUrl(citation.url);
+      if (citations.some((existing) => normalizeUrl(existing.url) === url)) continue;
+
+      const sibling = cited.article.siblings?.find((candidate) => normalizeUrl(candidate.url) === url);
+      if (!sibling) {
+        console.warn(`[Faithfulness] Removed citation of ${citation.url} from "${item.title}": not coverage of the cited story`);
+        continue;
+      }
+      citations.push({ source: sibling.source, url: sibling.url });
+      index = mergeIndexes(index, buildSourceIndex(`${sibling.title}\n${sibling.description ?? ''}\n${sibling.source}`));
+    }
+
+    // Each unit (bullet or sentence) stands or falls on its own
+    const keepSupported = (units: string[]) =>
+      units.filter((unit) => {
+        const unsupported = findUnsupported(unit, index);
+        if (unsupported.length > 0) {
+          failures.push({ title: item.title, url: item.url, text: unit, reason: 'unsupported', unsupported });
+          return false;
+        }
+        return true;
+      });
+
+    if (options.format === 'bullets') {
+      const bullets = keepSupported(item.bullets ?? []);
+      if (bullets.length > 0) checked.push({ ...item, bullets, citations });
+    } else {
+      const sentences = keepSupported(splitSentences(item.summary));
+      if (sentences.length > 0) checked.push({ ...item, summary: sentences.join(' '), citations });
+    }
+  }
+
+  return { summaries: checked, failures };
+}
+
+export function describeFailure(failure: FaithfulnessFailure): string {
+  if (failure.reason === 'unknown-url') {
+    return `"${failure.title}" cites a url that isn't one of the articles (${failure.url})`;
+  }
+  const claims = failure.unsupported.map((claim) => `${claim.kind} "${claim.text}"`).join(', ');
+  return `"${failure.title}": ${claims} not in the source`;
+}
@@ -0,0 +1,234 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+// Record/replay of outbound HTTP for offline development. Every external call the
+// pipeline makes - news providers, RSS feeds, article pages, TheSportsDB, OpenAI,
+// Supabase (PostgREST) and Resend - goes through fetch, so wrapping the global fetch
+// covers all of them.
+//
+// FIXTURE_MODE=record  calls go to the network as usual; each response is saved
+// FIXTURE_MODE=replay  responses are served from disk; a call with no recording fails
+// FIXTURE_DIR          where fixtures live (default "fixtures")
+//
+// Fixtures are keyed by method, service, path, query and body. API keys are
+// redacted and timestamps/dates normalized, so a replay matches the recording even
+// with dummy keys on a different day. Repeated identical calls replay their
+// responses in recorded order (the last one repeats). Replay also moves the clock
+// back to when the fixtures were recorded, so recency filters and scoring see the
+// articles as they were.
+
+export type FixtureMode = 'record' | 'replay';
+
+const DEFAULT_FIXTURE_DIR = 'fixtures';
+const MANIFEST_FILE = 'manifest.json';
+
+// Known hosts map to a stable service name, so e.g. any Supabase project replays the same fixtures
+const SERVICE_HOSTS: Array<{ pattern: RegExp; service: string }> = [
+  { pattern: /(^|\.)newsapi\.org$/, service: 'newsapi' },
+  { pattern: /(^|\.)currentsapi\.services$/, service: 'currents' },
+  { pattern: /(^|\.)thesportsdb\.com$/, service: 'thesportsdb' },
+  { pattern: /(^|\.)openai\.com$/, service: 'openai' },
+  { pattern: /(^|\.)supabase\.(co|in)$/, service: 'supabase' },
+  { pattern: /(^|\.)resend\.com$/, service: 'resend' },
+];
+
+const SECRET_PARAM = /key|token|secret|signature|password/i;
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g;
+const ISO_DATE = /\d{4}-\d{2}-\d{2}/g;
+
+interface RecordedResponse {
+  status: number;
+  statusText: string;
+  contentType: string | null;
+  body: string;
+}
+
+interface FixtureFile {
+  request: { method: string; url: string; body: string };
+  responses: RecordedResponse[];
+}
+
+let installed = false;
+const realFetch: typeof fetch = globalThis.fetch;
+// Calls served (replay) or recorded (record) per fixture in this process
+const callCounts = new Map<string, number>();
+
+export function getFixtureMode(): FixtureMode | null {
+  const mode = process.env.FIXTURE_MODE?.trim().toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : null;
+}
+
+function getFixtureDir(): string {
+  return path.resolve(process.cwd(), process.env.FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+}
+
+function getServiceName(url: URL): string {
+  const supabaseHost = process.env.NEXT_PUBLIC_SUPABASE_URL
+    ? new URL(process.env.NEXT_PUBLIC_SUPABASE_URL).host
+    : null;
+  if (url.host === supabaseHost) return 'supabase';
+
+  return SERVICE_HOSTS.find(({ pattern }) => pattern.test(url.hostname))?.service ?? url.host;
+}
+
+function normalizeText(text: string): string {
+  return text.replace(ISO_TIMESTAMP, '<timestamp>').replace(ISO_DATE, '<date>');
+}
+
+// "https://newsapi.org/v2/everything?q=nba&from=2025-01-02&apiKey=abc"
+//   -> "newsapi/v2/everything?q=nba&from=<date>&apiKey=redacted"
+function normalizeUrl(url: URL): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of new URLSearchParams(url.search)) {
+    params.append(name, SECRET_PARAM.test(name) ? 'redacted' : normalizeText(value));
+  }
+  const query = decodeURIComponent(params.toString());
+  return `${getServiceName(url)}${normalizeText(url.pathname)}${query ? `?${query}` : ''}`;
+}
+
+async function describeRequest(
+  input: RequestInfo | URL,
+  init?: RequestInit
+): Promise<{ method: string; url: URL; body: string }> {
+  if (input instanceof Request) {
+    return {
+      method: (init?.method ?? input.method).toUpperCase(),
+      url: new URL(input.url),
+      body: typeof init?.body === 'string' ? init.body : await input.clone().text(),
+    };
+  }
+
+  return {
+    method: (init?.method ?? 'GET').toUpperCase(),
+    url: new URL(input.toString()),
+    body: typeof init?.body === 'string' ? init.body : '',
+  };
+}
+
+function getFixturePath(method: string, url: URL, normalizedUrl: string, normalizedBody: string): string {
+  const hash = createHash('sha256')
+    .update(`${method} ${normalizedUrl}\n${normalizedBody}`)
+    .digest('hex')
+    .slice(0, 16);
+  const service = getServiceName(url).replace(/[^a-z0-9.-]/gi, '_');
+  return path.join(getFixtureDir(), service, `${method.toLowerCase()}-${hash}.json`);
+}
+
+function readFixture(filePath: string): FixtureFile | null {
+  if (!existsSync(filePath)) return null;
+  return JSON.parse(readFileSync(filePath, 'utf8')) as FixtureFile;
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  // Null-body statuses can't be constructed with a body
+  const body = [204, 205, 304].includes(recorded.status) ? null : recorded.body;
+  return new Response(body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.contentType ? { 'content-type': recorded.contentType } : undefined,
+  });
+}
+
+// fetch with recording or replay, depending on FIXTURE_MODE
+export const fixtureFetch: typeof fetch = async (input, init) => {
+  const mode = getFixtureMode();
+  if (!mode) {
+    return realFetch(input, init);
+  }
+
+  const { method, url, body } = await describeRequest(input, init);
+  const normalizedUrl = normalizeUrl(url);
+  const normalizedBody = normalizeText(body);
+  const filePath = getFixturePath(method, url, normalizedUrl, normalizedBody);
+  const callIndex = callCounts.get(filePath) ?? 0;
+  callCounts.set(filePath, callIndex + 1);
+
+  if (mode === 'replay') {
+    const fixture = readFixture(filePath);
+    if (!fixture || fixture.responses.length === 0) {
+      throw new Error(
+        `[Fixtures] No recording for ${method} ${normalizedUrl} (${path.relative(process.cwd(), filePath)}) - run with FIXTURE_MODE=record first`
+      );
+    }
+    return toResponse(fixture.responses[Math.min(callIndex, fixture.responses.length - 1)]);
+  }
+
+  const response = await realFetch(input, init);
+  try {
+    const recorded: RecordedResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get('content-type'),
+      body: await response.clone().text(),
+    };
+
+    // The first call this run replaces an older recording; repeats are appended
+    const existing = callIndex > 0 ? readFixture(filePath) : null;
+    const fixture: FixtureFile = {
+      request: { method, url: normalizedUrl, body: normalizedBody },
+      responses: [...(existing?.responses ?? []), recorded],
+    };
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify(fixture, null, 2));
+  } catch (error) {
+    // Don't throw - the caller still gets the live response
+    console.error(`[Fixtures] Failed to record ${method} ${normalizedUrl}:`, error);
+  }
+
+  return response;
+};
+
+// Shift "now" to a fixed point in the past; time still advances from there
+function installFixtureClock(recordedAt: number): void {
+  const RealDate = Date;
+  const offset = recordedAt - RealDate.now();
+
+  class FixtureDate extends RealDate {
+    constructor(...args: unknown[]) {
+      if (args.length === 0) {
+        super(RealDate.now() + offset);
+      } else {
+        super(...(args as [number]));
+      }
+    }
+
+    static now(): number {
+      return RealDate.now() + offset;
+    }
+  }
+
+  globalThis.Date = FixtureDate as DateConstructor;
+}
+
+// Whether fetch goes through the fixture layer (recording or replaying)
+export function isUsingFixtures(): boolean {
+  return installed;
+}
+
+// Route all fetch calls through the fixture layer. Called once at server startup
+// (src/instrumentation.ts); a no-op unless FIXTURE_MODE is set.
+export function installFixtures(): void {
+  const mode = getFixtureMode();
+  if (!mode || installed) return;
+
+  if (process.env.VERCEL_ENV === 'production') {
+    console.warn('[Fixtures] FIXTURE_MODE is ignored in production');
+    return;
+  }
+
+  installed = true;
+  globalThis.fetch = fixtureFetch;
+
+  const manifestPath = path.join(getFixtureDir(), MANIFEST_FILE);
+  if (mode === 'record') {
+    mkdirSync(getFixtureDir(), { recursive: true });
+    writeFileSync(manifestPath, JSON.stringify({ recordedAt: new Date().toISOString() }, null, 2));
+  } else if (existsSync(manifestPath)) {
+    const { recordedAt } = JSON.parse(readFileSync(manifestPath, 'utf8')) as { recordedAt: string };
+    installFixtureClock(new Date(recordedAt).getTime());
+    console.log(`[Fixtures] Clock set to ${recordedAt}`);
+  }
+
+  console.log(`[Fixtures] ${mode === 'record' ? 'Recording' : 'Replaying'} external calls (${getFixtureDir()})`);
+}
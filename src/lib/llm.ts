@@ -0,0 +1,393 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import OpenAI from 'openai';
+import { LlmOutputSchema, SchemaIssue, formatSchemaIssues } from './llmSchemas';
+import { recordUsage } from './costTracking';
+
+// LLM backends for the pipeline's JSON completions. Each stage picks its backend
+// and model from the environment, falling back to the global setting:
+//   LLM_BACKEND=openai   OpenAI chat completions (default)
+//   LLM_BACKEND=local    any OpenAI-compatible server (Ollama, vLLM, llama.cpp) at LLM_URL
+//   LLM_BACKEND=mock     deterministic responses built by the caller, no network
+//   LLM_MODEL            model name (default gpt-4o-mini, or llama3.1 for local)
+//   LLM_BACKEND_<STAGE>, LLM_MODEL_<STAGE>  per-stage overrides, e.g. LLM_BACKEND_EDITORIAL=mock
+// Token usage, calls, errors and schema validation failures are tallied per stage
+// for the cron run that made them (see startLlmRun), and each call is recorded for cost accounting (costTracking.ts).
+// OpenAI embeddings (embedTexts) share the SDK client and are tallied as stage "embeddings".
+
+export type LlmStage = 'summarization' | 'editorial';
+// Run tallies also cover embeddings, which don't go through a stage client
+type LlmRunStage = LlmStage | 'embeddings';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmJsonRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+  // Retries on rate limits, 5xx and timeouts
+  maxRetries?: number;
+  // What the mock backend returns for this request
+  mockResponse?: () => unknown;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  usage: LlmUsage;
+}
+
+export interface LlmValidatedCompletion<T> {
+  value: T;
+  model: string;
+  // Items the schema dropped from an otherwise valid response
+  issues: SchemaIssue[];
+  repaired: boolean;
+}
+
+export interface LlmClient {
+  id: string;
+  model: string;
+  completeJson(request: LlmJsonRequest): Promise<LlmCompletion>;
+}
+
+export interface LlmRunStats {
+  backend: string;
+  model: string;
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalLatencyMs: number;
+  validationFailures: number; // Responses that failed their schema (before or after repair)
+  repairs: number; // ...that a repair prompt fixed
+  validationErrors: string[]; // Most recent failures, for the run log
+}
+
+// A cron run's per-stage tallies, from startLlmRun
+export interface LlmRun {
+  stats: Map<LlmRunStage, LlmRunStats>;
+}
+
+const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
+const DEFAULT_LOCAL_URL = 'http://localhost:11434/v1';
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_RETRIES = 2;
+const MAX_VALIDATION_ERRORS_KEPT = 5;
+
+// SDK clients are created on first use, so a missing key only matters to stages that use it
+const sdkClients = new Map<string, OpenAI>();
+const clientOverrides = new Map<LlmStage, LlmClient>();
+// Held in the async context of the run's request, so overlapping runs keep separate tallies
+const llmRuns = new AsyncLocalStorage<LlmRun>();
+
+function getSdkClient(backend: 'openai' | 'local'): OpenAI {
+  let client = sdkClients.get(backend);
+  if (!client) {
+    client = backend === 'openai'
+      ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+      : new OpenAI({
+          baseURL: process.env.LLM_URL || DEFAULT_LOCAL_URL,
+          // Most local servers ignore the key, but the SDK requires one
+          apiKey: process.env.LLM_API_KEY || 'local',
+        });
+    sdkClients.set(backend, client);
+  }
+  return client;
+}
+
+function createChatClient(backend: 'openai' | 'local', model: string): LlmClient {
+  return {
+    id: backend,
+    model,
+    async completeJson(request) {
+      const completion = await getSdkClient(backend).chat.completions.create(
+        {
+          model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          response_format: { type: 'json_object' },
+        },
+        {
+          timeout: request.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+          maxRetries: request.maxRetries ?? DEFAULT_MAX_RETRIES,
+        }
+      );
+
+      return {
+        content: completion.choices[0]?.message?.content ?? '',
+        model: completion.model || model,
+        usage: {
+          promptTokens: completion.usage?.prompt_tokens ?? 0,
+          completionTokens: completion.usage?.completion_tokens ?? 0,
+        },
+      };
+    },
+  };
+}
+
+// Rough token count for backends that don't report usage (~4 characters per token)
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function createMockClient(model: string): LlmClient {
+  return {
+    id: 'mock',
+    model,
+    async completeJson(request) {
+      const content = JSON.stringify(request.mockResponse?.() ?? {});
+      return {
+        content,
+        model,
+        usage: {
+          promptTokens: estimateTokens(request.messages.map((message) => message.content).join('\n')),
+          completionTokens: estimateTokens(content),
+        },
+      };
+    },
+  };
+}
+
+function getStageSetting(name: 'BACKEND' | 'MODEL', stage: LlmStage): string {
+  const value = process.env[`LLM_${name}_${stage.toUpperCase()}`] || process.env[`LLM_${name}`] || '';
+  return value.trim();
+}
+
+// Replace the configured client for a stage (e.g. with a stub); pass undefined to restore it
+export function setLlmClient(stage: LlmStage, client: LlmClient | undefined): void {
+  if (client) {
+    clientOverrides.set(stage, client);
+  } else {
+    clientOverrides.delete(stage);
+  }
+}
+
+export function getLlmClient(stage: LlmStage): LlmClient {
+  const override = clientOverrides.get(stage);
+  if (override) return override;
+
+  const backend = getStageSetting('BACKEND', stage).toLowerCase() || 'openai';
+  const model = getStageSetting('MODEL', stage);
+
+  if (backend === 'local') return createChatClient('local', model || DEFAULT_LOCAL_MODEL);
+  if (backend === 'mock') return createMockClient(model || 'mock');
+  if (backend !== 'openai') {
+    console.warn(`[LLM] Unknown backend "${backend}" for ${stage}, using openai`);
+  }
+  return createChatClient('openai', model || DEFAULT_OPENAI_MODEL);
+}
+
+function getStageStats(stage: LlmRunStage, client: Pick<LlmClient, 'id' | 'model'>): LlmRunStats {
+  const runStats = llmRuns.getStore()?.stats;
+  let stats = runStats?.get(stage);
+  if (!stats) {
+    stats = {
+      backend: client.id,
+      model: client.model,
+      calls: 0,
+      errors: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalLatencyMs: 0,
+      validationFailures: 0,
+      repairs: 0,
+      validationErrors: [],
+    };
+    // Outside a run the tallies are counted and dropped
+    runStats?.set(stage, stats);
+  }
+  return stats;
+}
+
+// Run a JSON completion on the stage's backend, recording usage and latency
+export async function completeJson(stage: LlmStage, request: LlmJsonRequest): Promise<LlmCompletion> {
+  const client = getLlmClient(stage);
+  const stats = getStageStats(stage, client);
+
+  const startTime = Date.now();
+  stats.calls++;
+
+  try {
+    const completion = await client.completeJson(request);
+    const latencyMs = Date.now() - startTime;
+    stats.promptTokens += completion.usage.promptTokens;
+    stats.completionTokens += completion.usage.completionTokens;
+    stats.totalLatencyMs += latencyMs;
+    recordUsage({
+      kind: 'llm',
+      stage,
+      backend: client.id,
+      model: completion.model,
+      promptTokens: completion.usage.promptTokens,
+      completionTokens: completion.usage.completionTokens,
+      latencyMs,
+      success: true,
+    });
+    console.log(
+      `[LLM] ${stage} via ${client.id}/${completion.model}: ${completion.usage.promptTokens} prompt + ${completion.usage.completionTokens} completion tokens`
+    );
+    return completion;
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    stats.errors++;
+    stats.totalLatencyMs += latencyMs;
+    recordUsage({
+      kind: 'llm',
+      stage,
+      backend: client.id,
+      model: client.model,
+      promptTokens: 0,
+      completionTokens: 0,
+      latencyMs,
+      success: false,
+    });
+    throw error;
+  }
+}
+
+// Whether the pipeline runs on the mock backend (LLM_BACKEND=mock). Mock runs make no
+// network calls, so embeddings stand down too.
+export function isMockLlmBackend(): boolean {
+  return (process.env.LLM_BACKEND || '').trim().toLowerCase() === 'mock';
+}
+
+// Embed texts with OpenAI, recording usage and latency like a completion. Vectors
+// come back in input order. Refuses to run under the mock backend.
+export async function embedTexts(model: string, texts: string[], timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<number[][]> {
+  if (isMockLlmBackend()) {
+    throw new Error('OpenAI embeddings are disabled under LLM_BACKEND=mock');
+  }
+
+  const stats = getStageStats('embeddings', { id: 'openai', model });
+  const startTime = Date.now();
+  stats.calls++;
+
+  try {
+    const response = await getSdkClient('openai').embeddings.create(
+      { model, input: texts },
+      { timeout: timeoutMs, maxRetries: DEFAULT_MAX_RETRIES }
+    );
+    const latencyMs = Date.now() - startTime;
+    const promptTokens = response.usage?.prompt_tokens ?? 0;
+    stats.promptTokens += promptTokens;
+    stats.totalLatencyMs += latencyMs;
+    recordUsage({
+      kind: 'embeddings',
+      stage: 'embeddings',
+      backend: 'openai',
+      model: response.model || model,
+      promptTokens,
+      completionTokens: 0,
+      latencyMs,
+      success: true,
+    });
+    return response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    stats.errors++;
+    stats.totalLatencyMs += latencyMs;
+    recordUsage({
+      kind: 'embeddings',
+      stage: 'embeddings',
+      backend: 'openai',
+      model,
+      promptTokens: 0,
+      completionTokens: 0,
+      latencyMs,
+      success: false,
+    });
+    throw error;
+  }
+}
+
+function parseAndValidate<T>(content: string, schema: LlmOutputSchema<T>) {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { ok: false as const, issues: [{ path: '$', message: `not valid JSON (${message})` }] };
+  }
+  return schema.validate(data);
+}
+
+function recordValidationFailure(stage: LlmStage, schema: LlmOutputSchema<unknown>, issues: SchemaIssue[]): void {
+  const stats = getStageStats(stage, getLlmClient(stage));
+  stats.validationFailures++;
+  stats.validationErrors.push(`${schema.name}: ${formatSchemaIssues(issues, 3)}`);
+  if (stats.validationErrors.length > MAX_VALIDATION_ERRORS_KEPT) {
+    stats.validationErrors.shift();
+  }
+}
+
+// Run a JSON completion and validate it against a schema. A response that fails
+// gets one repair prompt quoting the issues and the expected shape; if that fails
+// too, throws an "Invalid ..." error.
+export async function completeValidatedJson<T>(
+  stage: LlmStage,
+  request: LlmJsonRequest,
+  schema: LlmOutputSchema<T>
+): Promise<LlmValidatedCompletion<T>> {
+  const completion = await completeJson(stage, request);
+  const result = parseAndValidate(completion.content, schema);
+  if (result.ok) {
+    return { value: result.value, model: completion.model, issues: result.issues, repaired: false };
+  }
+
+  recordValidationFailure(stage, schema, result.issues);
+  console.warn(`[LLM] ${stage} response failed ${schema.name} schema (${formatSchemaIssues(result.issues)}), requesting repair`);
+
+  const repairCompletion = await completeJson(stage, {
+    ...request,
+    messages: [
+      ...request.messages,
+      { role: 'assistant', content: completion.content },
+      {
+        role: 'user',
+        content: `Your response did not match the required format:
+${result.issues.slice(0, 10).map((issue) => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Fix these problems and return the complete corrected response as a single JSON object of this shape, with no other text:
+${schema.shape}`,
+      },
+    ],
+  });
+
+  const repaired = parseAndValidate(repairCompletion.content, schema);
+  if (!repaired.ok) {
+    recordValidationFailure(stage, schema, repaired.issues);
+    throw new Error(`Invalid ${schema.name} response after repair: ${formatSchemaIssues(repaired.issues)}`);
+  }
+
+  getStageStats(stage, getLlmClient(stage)).repairs++;
+  console.log(`[LLM] ${stage} response repaired to match ${schema.name} schema`);
+  return { value: repaired.value, model: repairCompletion.model, issues: repaired.issues, repaired: true };
+}
+
+// Start tallying for a cron run (call at the start of the route handler). Calls
+// made from the rest of the handler's async flow are counted on the returned run.
+export function startLlmRun(): LlmRun {
+  const run: LlmRun = { stats: new Map() };
+  llmRuns.enterWith(run);
+  return run;
+}
+
+export function getLlmRunStats(run: LlmRun): Record<string, LlmRunStats> {
+  return Object.fromEntries(
+    Array.from(run.stats.entries()).map(([stage, stats]) => [
+      stage,
+      { ...stats, validationErrors: [...stats.validationErrors] },
+    ])
+  );
+}
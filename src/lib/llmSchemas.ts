@@ -0,0 +1,211 @@
+import type { NewsSummary, SummaryCitation } from './openai';
+import type { SummaryFormat } from './topicCategories';
+import type { EditorialRankedArticle } from './editorialRanking';
+
+// Typed schemas for the pipeline's JSON completions: one per summary format and one
+// for editorial ranking. A schema checks the parsed response and returns the typed
+// value. Items that fail their own checks are dropped and reported as issues, and
+// the response fails as a whole only when nothing usable is left. On failure,
+// completeValidatedJson (llm.ts) sends one repair prompt listing the issues.
+
+export interface SchemaIssue {
+  path: string; // e.g. "summaries[2].bullets[1]"
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { ok: true; value: T; issues: SchemaIssue[] }
+  | { ok: false; issues: SchemaIssue[] };
+
+export interface LlmOutputSchema<T> {
+  name: string;
+  // The expected JSON, quoted in repair prompts
+  shape: string;
+  validate(data: unknown): SchemaResult<T>;
+}
+
+type SummaryItem = NewsSummary['summaries'][number];
+
+export interface SummaryResponse {
+  summaries: SummaryItem[]; // Empty when the model found nothing relevant
+}
+
+export interface EditorialRankingResponse {
+  rankings: EditorialRankedArticle[];
+}
+
+// Bullets must be complete sentences: text without terminal punctuation is usually
+// a truncated article description copied verbatim
+const TERMINAL_PUNCTUATION = /[.!?)"']$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+// Check the fields every item needs, reporting the missing ones
+function hasStrings(item: Record<string, unknown>, fields: string[], path: string, issues: SchemaIssue[]): boolean {
+  const missing = fields.filter((field) => !isNonEmptyString(item[field]));
+  for (const field of missing) {
+    issues.push({ path: `${path}.${field}`, message: 'expected a non-empty string' });
+  }
+  return missing.length === 0;
+}
+
+// Validate a response's item array, keeping the items that pass
+function validateArray<T>(
+  data: unknown,
+  key: string,
+  validateItem: (item: Record<string, unknown>, path: string, issues: SchemaIssue[]) => T | null,
+  options: { allowEmpty: boolean }
+): SchemaResult<T[]> {
+  if (!isRecord(data)) {
+    return { ok: false, issues: [{ path: '$', message: 'expected a JSON object' }] };
+  }
+
+  const items = data[key];
+  if (!Array.isArray(items)) {
+    return { ok: false, issues: [{ path: key, message: 'expected an array' }] };
+  }
+  if (items.length === 0) {
+    return options.allowEmpty
+      ? { ok: true, value: [], issues: [] }
+      : { ok: false, issues: [{ path: key, message: 'expected at least one item' }] };
+  }
+
+  const issues: SchemaIssue[] = [];
+  const values: T[] = [];
+  items.forEach((item, index) => {
+    const path = `${key}[${index}]`;
+    if (!isRecord(item)) {
+      issues.push({ path, message: 'expected an object' });
+      return;
+    }
+    const value = validateItem(item, path, issues);
+    if (value) values.push(value);
+  });
+
+  if (values.length === 0) {
+    return { ok: false, issues };
+  }
+  return { ok: true, value: values, issues };
+}
+
+// Citations are optional; malformed entries are dropped without failing the item
+function validateCitations(item: Record<string, unknown>, path: string, issues: SchemaIssue[]): SummaryCitation[] | undefined {
+  if (item.citations === undefined) return undefined;
+  if (!Array.isArray(item.citations)) {
+    issues.push({ path: `${path}.citations`, message: 'expected an array' });
+    return undefined;
+  }
+
+  const citations: SummaryCitation[] = [];
+  item.citations.forEach((citation, index) => {
+    const citationPath = `${path}.citations[${index}]`;
+    if (!isRecord(citation)) {
+      issues.push({ path: citationPath, message: 'expected an object' });
+    } else if (hasStrings(citation, ['source', 'url'], citationPath, issues)) {
+      citations.push({ source: citation.source as string, url: citation.url as string });
+    }
+  });
+  return citations;
+}
+
+function validateBulletItem(item: Record<string, unknown>, path: string, issues: SchemaIssue[]): SummaryItem | null {
+  if (!hasStrings(item, ['title', 'url', 'source'], path, issues)) return null;
+
+  if (!Array.isArray(item.bullets) || item.bullets.length === 0) {
+    issues.push({ path: `${path}.bullets`, message: 'expected an array of at least one bullet' });
+    return null;
+  }
+
+  const bullets: string[] = [];
+  item.bullets.forEach((bullet, index) => {
+    if (!isNonEmptyString(bullet)) {
+      issues.push({ path: `${path}.bullets[${index}]`, message: 'expected a non-empty string' });
+    } else if (!TERMINAL_PUNCTUATION.test(bullet.trim())) {
+      issues.push({ path: `${path}.bullets[${index}]`, message: 'bullet is cut off (no terminal punctuation)' });
+    } else {
+      bullets.push(bullet);
+    }
+  });
+
+  if (bullets.length === 0) return null;
+
+  return {
+    title: item.title as string,
+    summary: typeof item.summary === 'string' ? item.summary : '',
+    bullets,
+    url: item.url as string,
+    source: item.source as string,
+    citations: validateCitations(item, path, issues),
+  };
+}
+
+function validateParagraphItem(item: Record<string, unknown>, path: string, issues: SchemaIssue[]): SummaryItem | null {
+  if (!hasStrings(item, ['title', 'summary', 'url', 'source'], path, issues)) return null;
+
+  return {
+    title: item.title as string,
+    summary: item.summary as string,
+    url: item.url as string,
+    source: item.source as string,
+    citations: validateCitations(item, path, issues),
+  };
+}
+
+const bulletSummarySchema: LlmOutputSchema<SummaryResponse> = {
+  name: 'bullet summaries',
+  shape: '{"summaries": [{"title": string, "bullets": [string, ...], "url": string, "source": string, "citations"?: [{"source": string, "url": string}, ...]}]}',
+  validate(data) {
+    const result = validateArray(data, 'summaries', validateBulletItem, { allowEmpty: true });
+    return result.ok ? { ok: true, value: { summaries: result.value }, issues: result.issues } : result;
+  },
+};
+
+const paragraphSummarySchema: LlmOutputSchema<SummaryResponse> = {
+  name: 'paragraph summaries',
+  shape: '{"summaries": [{"title": string, "summary": string, "url": string, "source": string, "citations"?: [{"source": string, "url": string}, ...]}]}',
+  validate(data) {
+    const result = validateArray(data, 'summaries', validateParagraphItem, { allowEmpty: true });
+    return result.ok ? { ok: true, value: { summaries: result.value }, issues: result.issues } : result;
+  },
+};
+
+export function getSummarySchema(format: SummaryFormat): LlmOutputSchema<SummaryResponse> {
+  return format === 'paragraphs' ? paragraphSummarySchema : bulletSummarySchema;
+}
+
+export const editorialRankingSchema: LlmOutputSchema<EditorialRankingResponse> = {
+  name: 'editorial ranking',
+  shape: '{"rankings": [{"url": string, "importanceScore": integer 1-10, "reasoning": string}]}',
+  validate(data) {
+    const result = validateArray(
+      data,
+      'rankings',
+      (item, path, issues): EditorialRankedArticle | null => {
+        if (!hasStrings(item, ['url'], path, issues)) return null;
+        if (typeof item.importanceScore !== 'number' || !Number.isFinite(item.importanceScore)) {
+          issues.push({ path: `${path}.importanceScore`, message: 'expected a number' });
+          return null;
+        }
+        return {
+          url: item.url as string,
+          importanceScore: Math.max(1, Math.min(10, Math.round(item.importanceScore))),
+          reasoning: typeof item.reasoning === 'string' ? item.reasoning : '',
+        };
+      },
+      { allowEmpty: false }
+    );
+    return result.ok ? { ok: true, value: { rankings: result.value }, issues: result.issues } : result;
+  },
+};
+
+export function formatSchemaIssues(issues: SchemaIssue[], limit = 5): string {
+  const listed = issues.slice(0, limit).map((issue) => `${issue.path}: ${issue.message}`);
+  if (issues.length > limit) listed.push(`and ${issues.length - limit} more`);
+  return listed.join('; ');
+}
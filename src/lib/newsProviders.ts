@@ -0,0 +1,198 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { NewsArticle } from './openai';
+import { recordUsage } from './costTracking';
+
+// News provider registry. Each source (NewsAPI, Currents, ...) implements
+// NewsProvider and registers itself; fetchNewsForTopic walks the registry in
+// priority order and falls back to the next provider until it has enough articles.
+//
+// NEWS_PROVIDERS (e.g. "rss,newsapi") overrides the registered priority order.
+// Providers left out of the list are disabled.
+
+export interface ProviderQuota {
+  used: number;
+  limit: number | null; // null = unknown / not tracked
+  remaining: number | null;
+}
+
+export interface ProviderHealth {
+  healthy: boolean;
+  reason?: string;
+}
+
+export interface NewsProvider {
+  id: string; // Stable identifier, used in NEWS_PROVIDERS and logs
+  name: string; // Display name for logs
+  // Search recent articles for a topic. Throws on failure; the registry records it.
+  search(topic: string): Promise<NewsArticle[]>;
+  getQuota(): Promise<ProviderQuota>;
+  healthCheck(): Promise<ProviderHealth>;
+}
+
+// One provider call, stored with the article cache row it contributed to
+export interface ProviderCallMetric {
+  provider: string;
+  latencyMs: number;
+  articleCount: number;
+  error: string | null;
+}
+
+// Per-provider totals for a cron run
+export interface ProviderRunStats {
+  calls: number;
+  articles: number;
+  errors: number;
+  totalLatencyMs: number;
+}
+
+// A cron run's per-provider totals, from startProviderRun
+export interface ProviderRun {
+  stats: Map<string, ProviderRunStats>;
+}
+
+const registeredProviders: Array<{ provider: NewsProvider; priority: number }> = [];
+
+// Held in the async context of the run's request, so overlapping runs keep separate totals
+const providerRuns = new AsyncLocalStorage<ProviderRun>();
+
+// Register a provider. Lower priority values are tried first.
+export function registerNewsProvider(provider: NewsProvider, priority: number): void {
+  const existing = registeredProviders.findIndex((entry) => entry.provider.id === provider.id);
+  if (existing >= 0) {
+    registeredProviders.splice(existing, 1);
+  }
+  registeredProviders.push({ provider, priority });
+}
+
+function getConfiguredOrder(): string[] | null {
+  const configured = process.env.NEWS_PROVIDERS;
+  if (!configured || !configured.trim()) return null;
+
+  return configured
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// All enabled providers in fallback order
+export function getNewsProviders(): NewsProvider[] {
+  const order = getConfiguredOrder();
+  const byPriority = [...registeredProviders]
+    .sort((a, b) => a.priority - b.priority)
+    .map((entry) => entry.provider);
+
+  if (!order) return byPriority;
+
+  const providers: NewsProvider[] = [];
+  for (const id of order) {
+    const provider = byPriority.find((p) => p.id === id);
+    if (provider) {
+      providers.push(provider);
+    } else {
+      console.warn(`[Providers] Unknown provider "${id}" in NEWS_PROVIDERS, ignoring`);
+    }
+  }
+  return providers;
+}
+
+// Enabled providers that currently pass their health check, in fallback order
+export async function getAvailableNewsProviders(): Promise<NewsProvider[]> {
+  const providers = getNewsProviders();
+  const health = await Promise.all(
+    providers.map(async (provider) => {
+      try {
+        return await provider.healthCheck();
+      } catch (error) {
+        return { healthy: false, reason: error instanceof Error ? error.message : String(error) };
+      }
+    })
+  );
+
+  return providers.filter((provider, index) => {
+    if (!health[index].healthy) {
+      console.log(`[Providers] Skipping ${provider.name}: ${health[index].reason ?? 'unhealthy'}`);
+      return false;
+    }
+    return true;
+  });
+}
+
+// Run a provider search, timing it and recording the outcome. Never throws - a
+// failed call returns no articles and a metric carrying the error.
+export async function searchProvider(
+  provider: NewsProvider,
+  topic: string
+): Promise<{ articles: NewsArticle[]; metric: ProviderCallMetric }> {
+  const startTime = Date.now();
+  let articles: NewsArticle[] = [];
+  let errorMessage: string | null = null;
+
+  try {
+    articles = await provider.search(topic);
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[Providers] ${provider.name} failed for "${topic}":`, errorMessage);
+  }
+
+  const metric: ProviderCallMetric = {
+    provider: provider.id,
+    latencyMs: Date.now() - startTime,
+    articleCount: articles.length,
+    error: errorMessage,
+  };
+
+  recordUsage({
+    kind: 'news',
+    stage: provider.id,
+    backend: provider.id,
+    model: null,
+    promptTokens: 0,
+    completionTokens: 0,
+    latencyMs: metric.latencyMs,
+    success: !errorMessage,
+  }, { topic });
+
+  // Outside a run the totals aren't kept
+  const runStats = providerRuns.getStore()?.stats;
+  if (runStats) {
+    const stats = runStats.get(provider.id) ?? { calls: 0, articles: 0, errors: 0, totalLatencyMs: 0 };
+    stats.calls++;
+    stats.articles += metric.articleCount;
+    stats.totalLatencyMs += metric.latencyMs;
+    if (errorMessage) stats.errors++;
+    runStats.set(provider.id, stats);
+  }
+
+  return { articles, metric };
+}
+
+// Remaining quota for sizing fetch batches: the smallest known remaining quota
+// among providers that still have some, or null if none of them track a limit.
+// Providers already at zero are skipped by the fallback anyway.
+export async function getRemainingProviderQuota(): Promise<number | null> {
+  const quotas = await Promise.all(
+    getNewsProviders().map((provider) =>
+      provider.getQuota().catch(() => ({ used: 0, limit: null, remaining: null }) as ProviderQuota)
+    )
+  );
+
+  let remaining: number | null = null;
+  for (const quota of quotas) {
+    if (quota.remaining !== null && quota.remaining > 0) {
+      remaining = remaining === null ? quota.remaining : Math.min(remaining, quota.remaining);
+    }
+  }
+  return remaining;
+}
+
+// Start totalling provider calls for a cron run (call at the start of the route
+// handler). Calls made from the rest of the handler's async flow count toward it.
+export function startProviderRun(): ProviderRun {
+  const run: ProviderRun = { stats: new Map() };
+  providerRuns.enterWith(run);
+  return run;
+}
+
+export function getProviderRunStats(run: ProviderRun): Record<string, ProviderRunStats> {
+  return Object.fromEntries(Array.from(run.stats.entries()).map(([id, stats]) => [id, { ...stats }]));
+}
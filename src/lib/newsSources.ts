@@ -267,18 +267,132 @@ export const DEFAULT_SOURCES = [
   'nytimes.com',
 ];
 
-// Helper function to get sources for a topic
-export function getSourcesForTopic(topic: string): string[] {
-  // Convert topic to lowercase for matching
+// RSS/Atom feeds for the publishers above. A feed with `topics` only covers those
+// TOPIC_SOURCES keys and is used as-is; a feed without is the publisher's general
+// feed, and its entries are filtered down to the topic.
+export interface FeedSource {
+  url: string;
+  topics?: string[];
+}
+
+export const PUBLISHER_FEEDS: Record<string, FeedSource[]> = {
+  // Sports
+  'espn.com': [
+    { url: 'https://www.espn.com/espn/rss/nba/news', topics: ['nba'] },
+    { url: 'https://www.espn.com/espn/rss/nfl/news', topics: ['nfl'] },
+    { url: 'https://www.espn.com/espn/rss/soccer/news', topics: ['soccer'] },
+    { url: 'https://www.espn.com/espn/rss/tennis/news', topics: ['tennis'] },
+    { url: 'https://www.espn.com/espn/rss/news' },
+  ],
+  'atptour.com': [{ url: 'https://www.atptour.com/en/media/rss-feed/xml-feed', topics: ['tennis'] }],
+  'skysports.com': [{ url: 'https://www.skysports.com/rss/12040', topics: ['soccer'] }],
+
+  // Technology
+  'wired.com': [{ url: 'https://www.wired.com/feed/rss' }],
+  'technologyreview.com': [{ url: 'https://www.technologyreview.com/feed/' }],
+  'arstechnica.com': [{ url: 'https://feeds.arstechnica.com/arstechnica/index' }],
+  'techcrunch.com': [{ url: 'https://techcrunch.com/feed/' }],
+  'theverge.com': [{ url: 'https://www.theverge.com/rss/index.xml' }],
+  'krebsonsecurity.com': [{ url: 'https://krebsonsecurity.com/feed/', topics: ['cybersecurity'] }],
+  'darkreading.com': [{ url: 'https://www.darkreading.com/rss.xml', topics: ['cybersecurity'] }],
+  'thehackernews.com': [{ url: 'https://feeds.feedburner.com/TheHackersNews', topics: ['cybersecurity'] }],
+  'zdnet.com': [{ url: 'https://www.zdnet.com/news/rss.xml' }],
+  'nasa.gov': [{ url: 'https://www.nasa.gov/news-release/feed/', topics: ['space exploration'] }],
+  'space.com': [{ url: 'https://www.space.com/feeds/all', topics: ['space exploration'] }],
+
+  // Business and Finance
+  'cnbc.com': [{ url: 'https://www.cnbc.com/id/100003114/device/rss/rss.html' }],
+  'coindesk.com': [{ url: 'https://www.coindesk.com/arc/outboundfeeds/rss/', topics: ['cryptocurrency', 'crypto'] }],
+  'cointelegraph.com': [{ url: 'https://cointelegraph.com/rss', topics: ['cryptocurrency', 'crypto'] }],
+  'venturebeat.com': [{ url: 'https://venturebeat.com/feed/' }],
+
+  // Politics and World News
+  'politico.com': [{ url: 'https://rss.politico.com/politics-news.xml', topics: ['us politics', 'politics'] }],
+  'bbc.com': [{ url: 'https://feeds.bbci.co.uk/news/world/rss.xml' }],
+  'theguardian.com': [
+    { url: 'https://www.theguardian.com/football/rss', topics: ['soccer'] },
+    { url: 'https://www.theguardian.com/environment/climate-crisis/rss', topics: ['climate change', 'climate'] },
+    { url: 'https://www.theguardian.com/world/rss' },
+  ],
+  'nytimes.com': [{ url: 'https://rss.nytimes.com/services/xml/rss/nyt/HomePage.xml' }],
+  'foreignpolicy.com': [{ url: 'https://foreignpolicy.com/feed/', topics: ['global politics'] }],
+  'scmp.com': [{ url: 'https://www.scmp.com/rss/91/feed', topics: ['asia'] }],
+
+  // Science and Health
+  'nature.com': [{ url: 'https://www.nature.com/nature.rss' }],
+  'scientificamerican.com': [{ url: 'http://rss.sciam.com/ScientificAmerican-Global' }],
+  'statnews.com': [{ url: 'https://www.statnews.com/feed/' }],
+
+  // Entertainment
+  'variety.com': [{ url: 'https://variety.com/feed/' }],
+  'hollywoodreporter.com': [{ url: 'https://www.hollywoodreporter.com/feed/' }],
+  'deadline.com': [{ url: 'https://deadline.com/feed/', topics: ['movies'] }],
+  'indiewire.com': [{ url: 'https://www.indiewire.com/feed/', topics: ['movies'] }],
+  'billboard.com': [{ url: 'https://www.billboard.com/feed/', topics: ['music'] }],
+  'pitchfork.com': [{ url: 'https://pitchfork.com/feed/feed-news/rss', topics: ['music'] }],
+  'rollingstone.com': [{ url: 'https://www.rollingstone.com/feed/' }],
+
+  // Gaming
+  'polygon.com': [{ url: 'https://www.polygon.com/rss/index.xml' }],
+  'kotaku.com': [{ url: 'https://kotaku.com/rss' }],
+  'ign.com': [{ url: 'https://feeds.feedburner.com/ign/all' }],
+  'gamespot.com': [{ url: 'https://www.gamespot.com/feeds/mashup/' }],
+
+  // Food
+  'eater.com': [{ url: 'https://www.eater.com/rss/index.xml' }],
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Shortest key that may match the start of a longer word ("tech" in "technology");
+// shorter ones ("ai", "art") must be whole words
+const MIN_PREFIX_KEY_LENGTH = 4;
+
+// Key matching a topic (TOPIC_SOURCES keys by default), or null if none does. Keys
+// only match at word starts and the longest match wins, so "us politics" picks "us
+// politics" over "politics" and "art" doesn't match "artificial intelligence".
+export function findTopicKey(topic: string, keys: Iterable<string> = Object.keys(TOPIC_SOURCES)): string | null {
   const normalizedTopic = topic.toLowerCase().trim();
+  const longestFirst = Array.from(keys).sort((a, b) => b.length - a.length);
 
-  // Find matching topic sources
-  for (const [key, sources] of Object.entries(TOPIC_SOURCES)) {
-    if (normalizedTopic.includes(key.toLowerCase())) {
-      return sources;
+  for (const key of longestFirst) {
+    const wordEnd = key.length >= MIN_PREFIX_KEY_LENGTH ? '' : '($|[^a-z0-9])';
+    if (new RegExp(`(^|[^a-z0-9])${escapeRegExp(key.toLowerCase())}${wordEnd}`).test(normalizedTopic)) {
+      return key;
     }
   }
 
+  return null;
+}
+
+// Helper function to get sources for a topic
+export function getSourcesForTopic(topic: string): string[] {
+  const key = findTopicKey(topic);
+
   // Return default sources if no match found
-  return DEFAULT_SOURCES;
+  return key ? TOPIC_SOURCES[key] : DEFAULT_SOURCES;
+}
+
+// Feeds for the given source domains (the topic's preferred sources), with whether
+// each one is specific to the topic
+export function getFeedsForTopic(
+  topic: string,
+  domains: string[]
+): Array<{ url: string; domain: string; topicSpecific: boolean }> {
+  const key = findTopicKey(topic);
+  const feeds: Array<{ url: string; domain: string; topicSpecific: boolean }> = [];
+
+  for (const domain of domains) {
+    for (const feed of PUBLISHER_FEEDS[domain] ?? []) {
+      if (!feed.topics) {
+        feeds.push({ url: feed.url, domain, topicSpecific: false });
+      } else if (key && feed.topics.includes(key)) {
+        feeds.push({ url: feed.url, domain, topicSpecific: true });
+      }
+    }
+  }
+
+  return feeds;
 }
@@ -1,14 +1,41 @@
 import { NewsArticle } from './openai';
-import { fetchNewsForTopicFromCurrents, getRemainingRequests } from './currentsapi';
+import { currentsProvider } from './currentsapi';
+import { rssProvider } from './rssFeeds';
 import { getSupabaseAdmin } from './supabase';
 import { scoreArticles, selectTopArticles, ScoredArticle } from './articleScoring';
 import { rankArticlesEditorially } from './editorialRanking';
+import { extractArticleContents } from './articleExtraction';
+import { getSemanticRelevance } from './embeddings';
 import { cleanArticleContent, isGarbageDescription } from './utils/articleCleaning';
+import { getApiQuotaUsed, reserveApiRequest } from './apiQuota';
+import { loadSourceConfig, isSourceBlocked } from './sourceConfig';
+import {
+  NewsProvider,
+  ProviderCallMetric,
+  registerNewsProvider,
+  getAvailableNewsProviders,
+  getNewsProviders,
+  searchProvider,
+  getRemainingProviderQuota,
+} from './newsProviders';
 
 const NEWS_API_KEY = process.env.NEWS_API_KEY;
 const NEWS_API_BASE_URL = 'https://newsapi.org/v2';
 
 const MIN_REQUIRED = 25;
+const MIN_ARTICLES_NEEDED = 3;
+
+// NewsAPI requests are counted in the shared quota table (see apiQuota.ts). The limit
+// depends on the plan, so it is only enforced when NEWS_API_DAILY_LIMIT is set; a 429
+// pauses the provider for a while either way.
+const NEWS_API_QUOTA_PROVIDER = 'newsapi';
+const NEWS_API_RATE_LIMIT_COOLDOWN_MS = 15 * 60 * 1000;
+let newsApiRateLimitedUntil = 0;
+
+function getNewsApiDailyLimit(): number | null {
+  const limit = parseInt(process.env.NEWS_API_DAILY_LIMIT || '', 10);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+}
 
 async function fetchNewsForTopicWithTimeWindow(
   topic: string,
@@ -26,6 +53,10 @@ async function fetchNewsForTopicWithTimeWindow(
   // Normalize topic - remove periods to avoid API encoding issues (e.g., "U.S." -> "US")
   const normalizedTopic = topic.replace(/\./g, '');
 
+  if (!(await reserveApiRequest(NEWS_API_QUOTA_PROVIDER, getNewsApiDailyLimit()))) {
+    throw new Error('NewsAPI daily request limit reached');
+  }
+
   const response = await fetch(
     `${NEWS_API_BASE_URL}/everything?` +
       `q=${encodeURIComponent(normalizedTopic)}&` +
@@ -38,6 +69,7 @@ async function fetchNewsForTopicWithTimeWindow(
 
   if (!response.ok) {
     if (response.status === 429) {
+      newsApiRateLimitedUntil = Date.now() + NEWS_API_RATE_LIMIT_COOLDOWN_MS;
       throw new Error('NewsAPI rate limit exceeded');
     }
     const errorText = await response.text();
@@ -145,6 +177,50 @@ async function fetchNewsForTopicWithTimeWindow(
   return sortedArticles;
 }
 
+// Last 24 hours, widened to 48 hours when that comes up short
+async function fetchNewsForTopicFromNewsApi(topic: string): Promise<NewsArticle[]> {
+  const articles = await fetchNewsForTopicWithTimeWindow(topic, 1);
+
+  if (articles.length < MIN_ARTICLES_NEEDED) {
+    console.log(`[NewsAPI] Only ${articles.length} from 24h, trying 48h...`);
+    const articles48h = await fetchNewsForTopicWithTimeWindow(topic, 2);
+    // Add only new articles from 48h window
+    const existingUrls = new Set(articles.map((a) => a.url));
+    articles.push(...articles48h.filter((a) => !existingUrls.has(a.url)));
+  }
+
+  return articles;
+}
+
+const newsApiProvider: NewsProvider = {
+  id: 'newsapi',
+  name: 'NewsAPI',
+  search: fetchNewsForTopicFromNewsApi,
+  async getQuota() {
+    const used = await getApiQuotaUsed(NEWS_API_QUOTA_PROVIDER);
+    const limit = getNewsApiDailyLimit();
+    return { used, limit, remaining: limit === null ? null : Math.max(0, limit - used) };
+  },
+  async healthCheck() {
+    if (!NEWS_API_KEY) {
+      return { healthy: false, reason: 'NEWS_API_KEY is not configured' };
+    }
+    if (Date.now() < newsApiRateLimitedUntil) {
+      return { healthy: false, reason: 'Rate limited, cooling down' };
+    }
+    const { remaining } = await newsApiProvider.getQuota();
+    if (remaining === 0) {
+      return { healthy: false, reason: 'Daily request limit reached' };
+    }
+    return { healthy: true };
+  },
+};
+
+// Built-in providers in default fallback order (NEWS_PROVIDERS can override it)
+registerNewsProvider(newsApiProvider, 10);
+registerNewsProvider(currentsProvider, 20);
+registerNewsProvider(rssProvider, 30);
+
 // Cross-source deduplication: title prefix + URL hostname+path match
 function deduplicateAcrossSources(articles: NewsArticle[]): NewsArticle[] {
   const seen = new Set<string>();
@@ -190,17 +266,22 @@ function deduplicateAcrossSources(articles: NewsArticle[]): NewsArticle[] {
   return result;
 }
 
-// Check if we have fresh cache for a topic (from today's date)
-async function checkArticleCache(topic: string): Promise<NewsArticle[] | null> {
+// Cache rows are dated by calendar day; callers building digests for a specific
+// timezone pass that timezone's local date, everyone else gets the UTC date
+function getCacheDate(cacheDate?: string): string {
+  return cacheDate ?? new Date().toISOString().split('T')[0]; // "YYYY-MM-DD"
+}
+
+// Check if we have fresh cache for a topic (from the given cache date)
+async function checkArticleCache(topic: string, cacheDate: string): Promise<NewsArticle[] | null> {
   try {
     const supabase = getSupabaseAdmin();
-    const today = new Date().toISOString().split('T')[0]; // "YYYY-MM-DD"
 
     const { data, error } = await supabase
       .from('article_cache')
       .select('articles, created_at, source')
       .eq('topic', topic)
-      .eq('date', today)
+      .eq('date', cacheDate)
       .order('created_at', { ascending: false })
       .limit(1)
       .single();
@@ -211,7 +292,7 @@ async function checkArticleCache(topic: string): Promise<NewsArticle[] | null> {
 
     const cacheData = data as { articles: NewsArticle[]; created_at: string; source: string };
     const articles = cacheData.articles;
-    console.log(`[Cache] Found today's cache for "${topic}" (${articles.length} articles, source: ${cacheData.source})`);
+    console.log(`[Cache] Found ${cacheDate} cache for "${topic}" (${articles.length} articles, source: ${cacheData.source})`);
     return articles;
   } catch (error) {
     console.error(`[Cache] Error checking cache for "${topic}":`, error);
@@ -219,25 +300,32 @@ async function checkArticleCache(topic: string): Promise<NewsArticle[] | null> {
   }
 }
 
+// Cached articles for a topic (today's by default) without fetching anything; empty if none
+export async function getCachedArticles(topic: string, cacheDate?: string): Promise<NewsArticle[]> {
+  return (await checkArticleCache(topic, getCacheDate(cacheDate))) ?? [];
+}
+
 // Store articles in cache
 async function storeArticleCache(
   topic: string,
   articles: NewsArticle[],
   source: string,
-  fetchDurationMs?: number
+  cacheDate: string,
+  fetchDurationMs?: number,
+  providerStats: ProviderCallMetric[] = []
 ): Promise<void> {
   try {
     const supabase = getSupabaseAdmin();
-    const today = new Date().toISOString().split('T')[0];
 
     await supabase
       .from('article_cache')
       .upsert({
         topic,
-        date: today,
+        date: cacheDate,
         source,
         articles: articles as unknown,
         fetch_duration_ms: fetchDurationMs,
+        provider_stats: providerStats,
         expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
       } as never, {
         onConflict: 'topic,date,source'
@@ -280,15 +368,15 @@ async function fetchStaleCache(topic: string): Promise<NewsArticle[]> {
 // Multi-source news fetcher with editorial ranking
 export async function fetchNewsForTopic(
   topic: string,
-  options?: { useCache?: boolean; writeCache?: boolean }
+  options?: { useCache?: boolean; writeCache?: boolean; cacheDate?: string }
 ): Promise<NewsArticle[]> {
-  const MIN_ARTICLES_NEEDED = 3;
   const { useCache = true, writeCache = true } = options ?? {};
+  const cacheDate = getCacheDate(options?.cacheDate);
 
   try {
-    // Strategy 0: Check cache first (must be from today's date)
+    // Strategy 0: Check cache first (must be from the cache date)
     if (useCache) {
-      const cachedArticles = await checkArticleCache(topic);
+      const cachedArticles = await checkArticleCache(topic, cacheDate);
       if (cachedArticles && cachedArticles.length >= MIN_ARTICLES_NEEDED) {
         return cachedArticles.slice(0, 10);
       }
@@ -297,36 +385,25 @@ export async function fetchNewsForTopic(
     const startTime = Date.now();
     let allRawArticles: NewsArticle[] = [];
 
-    // Strategy 1: NewsAPI first (primary source)
-    try {
-      console.log(`[Multi-Source] Trying NewsAPI for "${topic}"...`);
-      const newsApiArticles = await fetchNewsForTopicWithTimeWindow(topic, 1);
-      console.log(`[Multi-Source] NewsAPI returned ${newsApiArticles.length} articles for "${topic}"`);
-      allRawArticles.push(...newsApiArticles);
-
-      // If not enough from 24h, try 48h
-      if (newsApiArticles.length < MIN_ARTICLES_NEEDED) {
-        console.log(`[Multi-Source] Only ${newsApiArticles.length} from 24h, trying 48h...`);
-        const articles48h = await fetchNewsForTopicWithTimeWindow(topic, 2);
-        // Add only new articles from 48h window
-        const existingUrls = new Set(allRawArticles.map((a) => a.url));
-        const newArticles = articles48h.filter((a) => !existingUrls.has(a.url));
-        allRawArticles.push(...newArticles);
-      }
-    } catch (error) {
-      console.error(`[Multi-Source] NewsAPI failed for "${topic}":`, error);
-    }
+    const providerStats: ProviderCallMetric[] = [];
+    const sourceConfig = await loadSourceConfig();
 
-    // Strategy 2: Currents API fallback (or supplement if NewsAPI < MIN_REQUIRED)
-    if (allRawArticles.length < MIN_REQUIRED) {
-      try {
-        console.log(`[Multi-Source] Trying Currents API for "${topic}" (have ${allRawArticles.length} articles)...`);
-        const currentsArticles = await fetchNewsForTopicFromCurrents(topic);
-        console.log(`[Multi-Source] Currents API returned ${currentsArticles.length} articles for "${topic}"`);
-        allRawArticles.push(...currentsArticles);
-      } catch (error) {
-        console.error(`[Multi-Source] Currents API failed for "${topic}":`, error);
-      }
+    // Strategy 1: Providers in fallback order, moving on while we have fewer than MIN_REQUIRED
+    for (const provider of await getAvailableNewsProviders()) {
+      if (allRawArticles.length >= MIN_REQUIRED) break;
+
+      console.log(`[Multi-Source] Trying ${provider.name} for "${topic}" (have ${allRawArticles.length} articles)...`);
+      const { articles, metric } = await searchProvider(provider, topic);
+      providerStats.push(metric);
+
+      // Add only articles we don't already have from a higher-priority provider,
+      // leaving out sources blocked for this topic
+      const existingUrls = new Set(allRawArticles.map((a) => a.url));
+      allRawArticles.push(
+        ...articles.filter((a) => !existingUrls.has(a.url) && !isSourceBlocked(sourceConfig, a, topic))
+      );
+
+      console.log(`[Multi-Source] ${provider.name} returned ${articles.length} articles for "${topic}" in ${metric.latencyMs}ms`);
     }
 
     const fetchDuration = Date.now() - startTime;
@@ -334,7 +411,7 @@ export async function fetchNewsForTopic(
     if (allRawArticles.length < MIN_ARTICLES_NEEDED) {
       console.log(`[Multi-Source] Only ${allRawArticles.length} articles total, trying stale cache...`);
 
-      // Strategy 3: Last resort - use stale cache
+      // Strategy 2: Last resort - use stale cache
       if (useCache) {
         const staleArticles = await fetchStaleCache(topic);
         if (staleArticles.length > 0) {
@@ -347,15 +424,16 @@ export async function fetchNewsForTopic(
       return [];
     }
 
-    // Cross-source dedup, then score merged set, select top 25
+    // Cross-source dedup, then cluster into stories and score them, select top 10
     const dedupedArticles = deduplicateAcrossSources(allRawArticles);
-    const scoredArticles = scoreArticles(dedupedArticles, topic);
+    const semanticScores = await getSemanticRelevance(dedupedArticles, topic);
+    const scoredArticles = scoreArticles(dedupedArticles, topic, semanticScores, sourceConfig);
     const top10 = selectTopArticles(scoredArticles, 10);
 
-    console.log(`[Multi-Source] Scored ${scoredArticles.length} articles, selected top ${top10.length} for editorial ranking`);
+    console.log(`[Multi-Source] Scored ${scoredArticles.length} stories, selected top ${top10.length} for editorial ranking`);
 
     // Editorial ranking
-    const editorialResult = await rankArticlesEditorially(top10, topic);
+    const editorialResult = await rankArticlesEditorially(top10, topic, { cacheDate });
 
     // Map editorial results back to full ScoredArticle objects, select top 7
     const editorialUrlOrder = editorialResult.rankedArticles.map((r) => r.url);
@@ -376,13 +454,14 @@ export async function fetchNewsForTopic(
       }
     }
 
-    const finalArticles = editoriallyRanked.slice(0, 7);
+    // Full-text extraction for the articles that will actually be summarized
+    const finalArticles = await extractArticleContents(editoriallyRanked.slice(0, 7));
 
     console.log(`[Multi-Source] Final selection: ${finalArticles.length} articles for "${topic}" (editorial fallback: ${editorialResult.fallback})`);
 
     // Cache final articles
     if (writeCache) {
-      await storeArticleCache(topic, finalArticles, editorialResult.fallback ? 'multi-source-deterministic' : 'multi-source-editorial', fetchDuration);
+      await storeArticleCache(topic, finalArticles, editorialResult.fallback ? 'multi-source-deterministic' : 'multi-source-editorial', cacheDate, fetchDuration, providerStats);
     }
 
     return finalArticles;
@@ -392,22 +471,63 @@ export async function fetchNewsForTopic(
   }
 }
 
+// Fresh, scored stories for the intraday breaking-news monitor. Skips the article
+// cache and only asks the given providers, so polling all day doesn't eat the API
+// quotas the morning digests depend on. Only articles published within maxAgeMs.
+export async function fetchRecentStoriesForTopic(
+  topic: string,
+  providerIds: string[],
+  maxAgeMs: number
+): Promise<ScoredArticle[]> {
+  const sourceConfig = await loadSourceConfig();
+  const available = await getAvailableNewsProviders();
+  const providers = getNewsProviders().filter(
+    (provider) => providerIds.includes(provider.id) && available.includes(provider)
+  );
+
+  const cutoff = Date.now() - maxAgeMs;
+  const rawArticles: NewsArticle[] = [];
+
+  for (const provider of providers) {
+    const { articles } = await searchProvider(provider, topic);
+    const existingUrls = new Set(rawArticles.map((a) => a.url));
+    rawArticles.push(
+      ...articles.filter((a) =>
+        !existingUrls.has(a.url)
+        && new Date(a.publishedAt).getTime() >= cutoff
+        && !isSourceBlocked(sourceConfig, a, topic)
+      )
+    );
+  }
+
+  if (rawArticles.length === 0) {
+    return [];
+  }
+
+  const dedupedArticles = deduplicateAcrossSources(rawArticles);
+  const semanticScores = await getSemanticRelevance(dedupedArticles, topic);
+  return scoreArticles(dedupedArticles, topic, semanticScores, sourceConfig);
+}
+
 export async function fetchNewsForMultipleTopics(
-  topics: string[]
+  topics: string[],
+  options?: { cacheDate?: string }
 ): Promise<Record<string, NewsArticle[]>> {
   const results: Record<string, NewsArticle[]> = {};
 
   // Check remaining API quota to determine batch size
-  const remainingRequests = getRemainingRequests();
+  const remainingRequests = await getRemainingProviderQuota();
   console.log(`[Multi-Source] Starting parallel fetch for ${topics.length} topics`);
-  console.log(`[Multi-Source] Remaining API requests: ${remainingRequests}`);
+  console.log(`[Multi-Source] Remaining API requests: ${remainingRequests ?? 'untracked'}`);
 
   // Determine batch size based on remaining quota
   // Each topic may use 1-2 requests (24h fetch, possibly 48h retry)
   const estimatedRequestsPerTopic = 2;
-  const safeTopicLimit = Math.floor(remainingRequests / estimatedRequestsPerTopic);
   const baseBatchSize = 5;
-  const batchSize = remainingRequests < topics.length * estimatedRequestsPerTopic
+  const safeTopicLimit = remainingRequests === null
+    ? baseBatchSize
+    : Math.floor(remainingRequests / estimatedRequestsPerTopic);
+  const batchSize = remainingRequests !== null && remainingRequests < topics.length * estimatedRequestsPerTopic
     ? Math.max(2, Math.min(baseBatchSize, safeTopicLimit))
     : baseBatchSize;
 
@@ -422,7 +542,7 @@ export async function fetchNewsForMultipleTopics(
       await new Promise((resolve) => setTimeout(resolve, indexInBatch * 100));
 
       try {
-        const articles = await fetchNewsForTopic(topic);
+        const articles = await fetchNewsForTopic(topic, { cacheDate: options?.cacheDate });
         return { topic, articles, success: true };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -1,1029 +1,23 @@
 import OpenAI from 'openai';
 import { getSupabaseAdmin } from './supabase';
 import { truncateAtSentenceBoundary, cleanArticleContent, isGarbageDescription } from './utils/articleCleaning';
-import { fetchSportsScores, prioritizeScores } from './sportsScores';
+import { SummaryFormat } from './topicCategories';
+import { resolvePrompts, ResolvedPrompts } from './promptVersions';
+import type { ExperimentAssignment } from './experiments';
+import { completeValidatedJson } from './llm';
+import { withUsageContext } from './costTracking';
+import { getSummarySchema } from './llmSchemas';
+import { checkFaithfulness, describeFailure, FaithfulnessFailure } from './faithfulness';
+import type { StorySibling } from './articleScoring';
+import { DEFAULT_SUMMARY_DEPTH, getDepthSettings, SummaryDepth } from './summaryDepth';
 
 export const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
-// ============================================================================
-// TOPIC CONFIGURATION
-// ============================================================================
-// Configuration-driven approach for topic detection and prompt generation
-
-interface TopicConfig {
-  keywords: string[];
-  freeInstructions: string;
-  paidInstructions: string;
-  freeSystemPrompt: string;
-  paidSystemPrompt: string;
-  promptDescription: {
-    free: string;
-    paid: string;
-  };
-}
-
-type TopicCategory =
-  | 'sports' | 'business' | 'stocks' | 'tech' | 'health' | 'politics'
-  | 'worldNews' | 'science' | 'environment' | 'lifestyle'
-  | 'education' | 'food' | 'gaming' | 'culture' | 'parenting'
-  | 'automotive' | 'career' | 'adventure' | 'personalDevelopment'
-  | 'default';
-
-// Helper to detect topic category from user's topic string
-function detectTopicCategory(topic: string): TopicCategory {
-  const topicLower = topic.toLowerCase();
-
-  for (const [category, config] of Object.entries(TOPIC_CONFIGS)) {
-    if (category === 'default') continue;
-    if (config.keywords.some(k => topicLower.includes(k.toLowerCase()))) {
-      return category as TopicCategory;
-    }
-  }
-  return 'default';
-}
-
-// Get the appropriate config for a topic
-function getTopicConfig(topic: string): TopicConfig {
-  const category = detectTopicCategory(topic);
-  return TOPIC_CONFIGS[category];
-}
-
-// Topic configurations with keywords and instructions
-const TOPIC_CONFIGS: Record<TopicCategory, TopicConfig> = {
-  sports: {
-    keywords: [
-      'sports', 'nba', 'nfl', 'mlb', 'nhl', 'soccer', 'la liga', 'ligue 1',
-      'epl', 'tennis', 'golf', 'esports', 'motorsports', 'athlete spotlights',
-      'recovery and injury prevention'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff sports news summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style (must follow):
-- Each bullet must feel like a complete update, not a headline.
-- Write bullets to the point: what happened + key detail + why it matters (standings/playoffs/availability/next game).
-- Use scores/stats/records ONLY if explicitly included in the article text provided. Never guess.
-
-Quick Score Add-on (IMPORTANT):
-- If an article includes an actual game result with a score, format the start of the bullet as a one-line "quick score" like:
-  BOS 118 — NYK 111 (Final) | Tatum 34 pts | Celtics: 8–2 last 10
-- Keep it to ONE line, using " | " separators.
-- Include: score + status (Final/OT/etc). Add 1 standout stat line and 1 trend (streak/record/standing) ONLY if stated.
-- After the quick score line, add a short "so what" clause if needed (1 short sentence max) ONLY if supported by the article.
-
-Selection guidance:
-- For league topics (NBA/NFL/etc), prefer:
-  - 1–2 quick-score game updates (if scores are available in the provided article text), and
-  - 1 bigger storyline (trade/injury/suspension/coach quote/playoff scenario).
-- If scores are NOT present in the provided article text, do NOT fake them—just summarize the key development with why it matters.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no vague filler ("signals", "could") unless directly attributed.
-- IMPORTANT: Do NOT invent scores, stats, or records. Only include what is explicitly present in the provided article text.`,
-    paidInstructions: `You are Snipit, a no-fluff sports news summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style (must follow):
-- Each bullet must feel like a complete update, not a headline.
-- Write bullets to the point: what happened + key detail + why it matters (standings/playoffs/availability/next game).
-- Use scores/stats/records ONLY if explicitly included in the article text provided. Never guess.
-
-Quick Score Add-on (IMPORTANT):
-- If an article includes an actual game result with a score, format the start of the bullet as a one-line "quick score" like:
-  BOS 118 — NYK 111 (Final) | Tatum 34 pts | Celtics: 8–2 last 10
-- Keep it to ONE line, using " | " separators.
-- Include: score + status (Final/OT/etc). Add 1 standout stat line and 1 trend (streak/record/standing) ONLY if stated.
-- After the quick score line, add a short "so what" clause if needed (1 short sentence max) ONLY if supported by the article.
-
-Selection guidance:
-- For league topics (NBA/NFL/etc), prefer:
-  - All quick-score game updates (if scores are available in the provided article text), and
-  - 2 bigger storylines (trade/injury/suspension/coach quote/playoff scenario).
-  - Interesting facts/statements that relate to that topic within the article.
-  - Ideally getting to the point when outputting that statement/fact, no fluff repetitive verbiage.
-- If scores are NOT present in the provided article text, do NOT fake them—just summarize the key development with why it matters.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no vague filler ("signals", "could") unless directly attributed.
-- IMPORTANT: Do NOT invent scores, stats, or records. Only include what is explicitly present in the provided article text.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff sports news summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free sports instructions: pick 1-2 distinct updates (prefer 2, max 2); concise bullets (what happened + key detail + why it matters); include a quick-score line only when the provided article text contains an actual score; never invent scores, stats, or records; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff sports news summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid sports instructions: pick 4-5 distinct updates (prefer 5, max 5); concise bullets (what happened + key detail + why it matters); include a quick-score line only when the provided article text contains an actual score; never invent scores, stats, or records; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE sports instructions exactly as written. FIRST reference the top 3 scores from the night prior if provided, then focus on 1–2 distinct updates with one key storyline. Do not invent scores or stats.',
-      paid: 'apply the PAID sports instructions exactly as written. FIRST reference the top 3 scores from the night prior if provided, then focus on 4–5 distinct updates with key storylines. Do not invent scores or stats.'
-    }
-  },
-  business: {
-    keywords: [
-      'business', 'business and finance', 'stock market', 'startups', 'corporate news',
-      'personal finance tips', 'investments', 'cryptocurrency', 'bitcoin', 'ethereum',
-      'nfts', 'economic policies', 'inflation trends', 'job market', 'venture capital',
-      'business models'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff business/markets summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- If the article contains price/%/points: include them. If not, do not invent.
-- If it's a stock/crypto move and numbers are present, add an arrow: ↑ (up), ↓ (down), → (flat/mixed).
-- Every bullet must include the driver/catalyst (earnings, guidance, rates, regulation, lawsuit, deal, downgrade, etc.).
-- Add "so what" in one short clause: what changes for investors/businesses next.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition, no generic market clichés.`,
-    paidInstructions: `You are Snipit, a no-fluff business/markets summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- If the article contains price/%/points: include them. If not, do not invent.
-- If it's a stock/crypto move and numbers are present, add an arrow: ↑ (up), ↓ (down), → (flat/mixed).
-- Every bullet must include the driver/catalyst (earnings, guidance, rates, regulation, lawsuit, deal, downgrade, etc.).
-- Add "so what" in one short clause: what changes for investors/businesses next.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition, no generic market clichés.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff business/markets summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free business instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; include price/%/points only if present; add arrows for stock/crypto moves when numbers exist; always include the driver/catalyst; add a concise "so what" clause; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff business/markets summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid business instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; include price/%/points only if present; add arrows for stock/crypto moves when numbers exist; always include the driver/catalyst; add a concise "so what" clause; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE business/markets instructions exactly as written. Focus on 1–2 distinct updates with catalysts and include price/%/points only when provided. Use arrows for stock/crypto moves when numbers are present. Add a concise "so what" clause.',
-      paid: 'apply the PAID business/markets instructions exactly as written. Focus on 4–5 distinct updates with catalysts and include price/%/points only when provided. Use arrows for stock/crypto moves when numbers are present. Add a concise "so what" clause.'
-    }
-  },
-  stocks: {
-    keywords: [
-      'stocks', 'stock market', 'equities', 'trading', 'market movers',
-      'stock prices', 'market snapshot', 'tickers', 's&p 500', 'dow jones',
-      'nasdaq', 'market breadth'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff stocks summarizer.
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for stocks. Prefer 2 if possible (never exceed 2).
-
-INPUT YOU MAY RECEIVE:
-- market_snapshot: a list of the most popular tickers with fields:
-  { ticker, name, price, change_dollars, change_percent, session (premarket/regular/afterhours), as_of_time }
-- articles: a list of stock/markets articles with:
-  title, snippet/description, source_name, source_url, published_at
-
-HARD REQUIREMENT (Summary #1):
-- The FIRST summary MUST be "Top movers" and be primarily numbers-based.
-- Its bullet MUST include a compact tape of the most popular stocks from market_snapshot (up to 8 tickers):
-  Format exactly:
-  "Tape: <TICKER> $<PRICE> (<ARROW><PCT>%, <SIGN>$<DOLLARS>) | ... ; Breadth: <X>↑ <Y>↓ <Z>→"
-- Use arrows: ↑ for positive, ↓ for negative, → for flat/mixed (|pct| < 0.2% = →).
-- Use ONLY numbers from market_snapshot. Do NOT invent or estimate.
-- If market_snapshot is missing or empty, write: "Tape: Not available (no market snapshot provided)."
-
-For ALL other summaries:
-- Each bullet must include the driver/catalyst (earnings, guidance, rates, CPI/jobs, Fed, regulation, lawsuit, deal, upgrade/downgrade, sector rotation, etc.).
-- Add a short "so what" clause (1 clause) that explains what changes next for investors.
-
-Numbers & Momentum (ONLY if stated in inputs):
-- Include %/$/bps/yoy/qoq/guidance ranges ONLY if explicitly present in market_snapshot or article text.
-- Never infer causality ("this caused") unless the article explicitly links it.
-
-Output rules:
-- "title": short Snipit headline (6–12 words).
-- "bullets": exactly 1 bullet string, up to 3 short sentences (the tape can be sentence 1).
-- "url" and "source":
-   * For Top movers: use the best market overview article if provided; otherwise set url=null and source="Market Snapshot".
-   * For other summaries: must match the best supporting article.
-- No repetition. No generic market clichés. No tickers or prices not present in inputs.`,
-    paidInstructions: `You are Snipit, a no-fluff stocks summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for stocks. Prefer 5 if possible (never exceed 5).
-
-INPUT YOU MAY RECEIVE:
-- market_snapshot: a list of the most popular tickers with fields:
-  { ticker, name, price, change_dollars, change_percent, session (premarket/regular/afterhours), as_of_time }
-- articles: a list of stock/markets articles with:
-  title, snippet/description, source_name, source_url, published_at
-
-HARD REQUIREMENT (Summary #1):
-- The FIRST summary MUST be "Top movers" and be primarily numbers-based.
-- Its bullet MUST include a compact tape of the most popular stocks from market_snapshot (up to 8 tickers):
-  Format exactly:
-  "Tape: <TICKER> $<PRICE> (<ARROW><PCT>%, <SIGN>$<DOLLARS>) | ... ; Breadth: <X>↑ <Y>↓ <Z>→"
-- Use arrows: ↑ for positive, ↓ for negative, → for flat/mixed (|pct| < 0.2% = →).
-- Use ONLY numbers from market_snapshot. Do NOT invent or estimate.
-- If market_snapshot is missing or empty, write: "Tape: Not available (no market snapshot provided)."
-
-For ALL other summaries:
-- Each bullet must include the driver/catalyst (earnings, guidance, rates, CPI/jobs, Fed, regulation, lawsuit, deal, upgrade/downgrade, sector rotation, etc.).
-- Add a short "so what" clause (1 clause) that explains what changes next for investors.
-
-Numbers & Momentum (ONLY if stated in inputs):
-- Include %/$/bps/yoy/qoq/guidance ranges ONLY if explicitly present in market_snapshot or article text.
-- Never infer causality ("this caused") unless the article explicitly links it.
-
-Output rules:
-- "title": short Snipit headline (6–12 words).
-- "bullets": exactly 1 bullet string, up to 3 short sentences (the tape can be sentence 1).
-- "url" and "source":
-   * For Top movers: use the best market overview article if provided; otherwise set url=null and source="Market Snapshot".
-   * For other summaries: must match the best supporting article.
-- No repetition. No generic market clichés. No tickers or prices not present in inputs.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff stocks summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free stocks instructions: pick 1-2 distinct updates (prefer 2, max 2); first summary MUST be "Top movers" with market tape format; include driver/catalyst and "so what" clause; use only numbers from market_snapshot or articles; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff stocks summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid stocks instructions: pick 4-5 distinct updates (prefer 5, max 5); first summary MUST be "Top movers" with market tape format; include driver/catalyst and "so what" clause; use only numbers from market_snapshot or articles; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE stocks instructions exactly as written. First summary must be "Top movers" with market tape. Focus on 1–2 distinct updates with catalysts and include price/%/points only when provided. Add a concise "so what" clause.',
-      paid: 'apply the PAID stocks instructions exactly as written. First summary must be "Top movers" with market tape. Focus on 4–5 distinct updates with catalysts and include price/%/points only when provided. Add a concise "so what" clause.'
-    }
-  },
-  tech: {
-    keywords: [
-      'technology', 'tech', 'artificial intelligence', 'ai', 'gadgets', 'big tech',
-      'software development', 'blockchain technology', 'space exploration',
-      'cybersecurity', 'emerging tech trends'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff technology summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Each bullet must give the full picture fast: what changed + who it impacts + why it matters.
-- Include 1 concrete detail when available (feature, timeline, pricing, regulation, breach scope), but only if explicitly stated.
-- For cybersecurity: state who's affected + what users/orgs should do next (patch, rotate keys, etc.) if the article provides it.
-- Avoid hype words ("game-changing", "revolutionary") and avoid speculation unless directly attributed.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles.`,
-    paidInstructions: `You are Snipit, a no-fluff technology summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Each bullet must give the full picture fast: what changed + who it impacts + why it matters.
-- Include 1 concrete detail when available (feature, timeline, pricing, regulation, breach scope), but only if explicitly stated.
-- For cybersecurity: state who's affected + what users/orgs should do next (patch, rotate keys, etc.) if the article provides it.
-- Avoid hype words ("game-changing", "revolutionary") and avoid speculation unless directly attributed.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff technology summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free technology instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; give the full picture fast (what changed + who it impacts + why it matters); include one concrete detail only if explicitly stated; for cybersecurity, state who's affected and recommended actions if provided; avoid hype/speculation; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff technology summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid technology instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; give the full picture fast (what changed + who it impacts + why it matters); include one concrete detail only if explicitly stated; for cybersecurity, state who's affected and recommended actions if provided; avoid hype/speculation; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE technology instructions exactly as written. Focus on 1–2 distinct updates with concrete details only when explicitly stated; include who it impacts and why it matters; for cybersecurity include who is affected and recommended actions if provided. Avoid hype/speculation.',
-      paid: 'apply the PAID technology instructions exactly as written. Focus on 4–5 distinct updates with concrete details only when explicitly stated; include who it impacts and why it matters; for cybersecurity include who is affected and recommended actions if provided. Avoid hype/speculation.'
-    }
-  },
-  health: {
-    keywords: [
-      'health', 'health and wellness', 'fitness', 'nutrition', 'mental health',
-      'public health policies', 'therapy tips', 'mindfulness', 'coping mechanisms',
-      'stress management', 'wellness'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff health & wellness summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize: new guideline changes, major study results, recalls/safety notices, and actionable advice backed by the article.
-- Each bullet must include: what happened + what it means for a normal person + what to do next (if the article supports it).
-- If it's research, include study type/phase and the key result ONLY if explicitly stated.
-- No medical diagnosis language. No miracle framing.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff health & wellness summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize: new guideline changes, major study results, recalls/safety notices, and actionable advice backed by the article.
-- Each bullet must include: what happened + what it means for a normal person + what to do next (if the article supports it).
-- If it's research, include study type/phase and the key result ONLY if explicitly stated.
-- No medical diagnosis language. No miracle framing.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff health & wellness summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free health instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize guidelines, studies, recalls, actionable advice; include what it means for a normal person and what to do next; include study type/phase and key result only if explicitly stated; no diagnosis language or miracle framing; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff health & wellness summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid health instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize guidelines, studies, recalls, actionable advice; include what it means for a normal person and what to do next; include study type/phase and key result only if explicitly stated; no diagnosis language or miracle framing; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE health & wellness instructions exactly as written. Focus on 1–2 distinct updates, prioritizing guidelines, studies, recalls, and actionable advice with what it means for a normal person and what to do next. Include study type/phase and key result only if explicitly stated. No diagnosis language or miracle framing.',
-      paid: 'apply the PAID health & wellness instructions exactly as written. Focus on 4–5 distinct updates, prioritizing guidelines, studies, recalls, and actionable advice with what it means for a normal person and what to do next. Include study type/phase and key result only if explicitly stated. No diagnosis language or miracle framing.'
-    }
-  },
-  politics: {
-    keywords: [
-      'politics', 'u.s. politics', 'us politics', 'global politics', 'policy updates',
-      'elections', 'legislative news', 'international law', 'diplomacy'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff politics summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Each bullet must give the full picture fast: what happened + what changes + who it affects.
-- Include the "why now" driver (vote, court ruling, agency action, diplomatic move, scandal, etc.).
-- Include numbers (vote counts, poll numbers, dates) ONLY if explicitly stated in the article text provided. Never guess.
-- Avoid speculation unless the article itself frames it as such and you attribute it ("according to…", "analysts say…").
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no fluff.`,
-    paidInstructions: `You are Snipit, a no-fluff politics summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Each bullet must give the full picture fast: what happened + what changes + who it affects.
-- Include the "why now" driver (vote, court ruling, agency action, diplomatic move, scandal, etc.).
-- Include numbers (vote counts, poll numbers, dates) ONLY if explicitly stated in the article text provided. Never guess.
-- Avoid speculation unless the article itself frames it as such and you attribute it ("according to…", "analysts say…").
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no fluff.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff politics summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free politics instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; full picture (what happened + what changes + who it affects); include "why now" drivers; include numbers only if provided; attribute speculation; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff politics summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid politics instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; full picture (what happened + what changes + who it affects); include "why now" drivers; include numbers only if provided; attribute speculation; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE politics instructions exactly as written. Focus on 1–2 distinct updates; full picture (what happened + what changes + who it affects); include "why now" drivers; include numbers only if provided; attribute speculation.',
-      paid: 'apply the PAID politics instructions exactly as written. Focus on 4–5 distinct updates; full picture (what happened + what changes + who it affects); include "why now" drivers; include numbers only if provided; attribute speculation.'
-    }
-  },
-  worldNews: {
-    keywords: [
-      'world news', 'regional news', 'europe', 'asia', 'africa', 'global events',
-      'conflict zones', 'international relations'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff world news summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Bullets must answer: what happened + where + why it matters globally.
-- Prioritize: conflict escalations/de-escalations, major elections, sanctions, diplomacy, disasters, major economic shocks.
-- Include concrete details (locations, key actors, dates, casualties/aid figures) ONLY if explicitly stated in the article text.
-- Do not editorialize or take sides; stick to verified facts in the article.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff world news summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Bullets must answer: what happened + where + why it matters globally.
-- Prioritize: conflict escalations/de-escalations, major elections, sanctions, diplomacy, disasters, major economic shocks.
-- Include concrete details (locations, key actors, dates, casualties/aid figures) ONLY if explicitly stated in the article text.
-- Do not editorialize or take sides; stick to verified facts in the article.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff world news summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free world news instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; answer what happened + where + why it matters globally; prioritize conflicts, elections, sanctions, diplomacy, disasters, economic shocks; include concrete details only if explicitly stated; stick to verified facts, no editorializing; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff world news summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid world news instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; answer what happened + where + why it matters globally; prioritize conflicts, elections, sanctions, diplomacy, disasters, economic shocks; include concrete details only if explicitly stated; stick to verified facts, no editorializing; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE world news instructions exactly as written. Focus on 1–2 distinct updates; answer what happened + where + why it matters globally; prioritize conflicts, elections, sanctions, diplomacy, disasters, economic shocks; include concrete details only if explicitly stated; stick to verified facts, no editorializing.',
-      paid: 'apply the PAID world news instructions exactly as written. Focus on 4–5 distinct updates; answer what happened + where + why it matters globally; prioritize conflicts, elections, sanctions, diplomacy, disasters, economic shocks; include concrete details only if explicitly stated; stick to verified facts, no editorializing.'
-    }
-  },
-  science: {
-    keywords: [
-      'science', 'medical research', 'environmental science', 'astronomy',
-      'nasa missions', 'scientific discoveries'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff science summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Each bullet must include: what was discovered/announced + what's new + why it matters (real-world impact or next milestone).
-- If it's medical research, include study type/phase and the key finding ONLY if explicitly stated.
-- If it's space/astronomy, include the milestone and next step (launch, test, data release) if stated.
-- No hype; no "breakthrough" language unless the article uses it and supports it with specifics.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff science summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Each bullet must include: what was discovered/announced + what's new + why it matters (real-world impact or next milestone).
-- If it's medical research, include study type/phase and the key finding ONLY if explicitly stated.
-- If it's space/astronomy, include the milestone and next step (launch, test, data release) if stated.
-- No hype; no "breakthrough" language unless the article uses it and supports it with specifics.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff science summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free science instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; include what was discovered/announced + what's new + why it matters (real-world impact or next milestone); for medical research include study type/phase and key finding only if explicitly stated; for space/astronomy include milestone and next step if stated; no hype or "breakthrough" language unless article uses it with specifics; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff science summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid science instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; include what was discovered/announced + what's new + why it matters (real-world impact or next milestone); for medical research include study type/phase and key finding only if explicitly stated; for space/astronomy include milestone and next step if stated; no hype or "breakthrough" language unless article uses it with specifics; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE science instructions exactly as written. Focus on 1–2 distinct updates; include what was discovered/announced + what\'s new + why it matters (real-world impact or next milestone); for medical research include study type/phase and key finding only if explicitly stated; for space/astronomy include milestone and next step if stated; no hype or "breakthrough" language unless article uses it with specifics.',
-      paid: 'apply the PAID science instructions exactly as written. Focus on 4–5 distinct updates; include what was discovered/announced + what\'s new + why it matters (real-world impact or next milestone); for medical research include study type/phase and key finding only if explicitly stated; for space/astronomy include milestone and next step if stated; no hype or "breakthrough" language unless article uses it with specifics.'
-    }
-  },
-  environment: {
-    keywords: [
-      'environment', 'climate change', 'renewable energy', 'wildlife conservation',
-      'marine conservation', 'eco-tourism', 'sustainable agriculture', 'climate'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff environment/climate summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Bullets must cover: what happened + what's driving it + what changes next (policy, cost, risks, timelines).
-- Prioritize: major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through.
-- Include metrics (temperatures, emissions, costs, targets, acres, adoption rates) ONLY if explicitly stated in the article text.
-- Avoid vague "awareness" stories unless there's a clear action or consequence.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff environment/climate summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Bullets must cover: what happened + what's driving it + what changes next (policy, cost, risks, timelines).
-- Prioritize: major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through.
-- Include metrics (temperatures, emissions, costs, targets, acres, adoption rates) ONLY if explicitly stated in the article text.
-- Avoid vague "awareness" stories unless there's a clear action or consequence.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff environment/climate summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free environment instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; cover what happened + what's driving it + what changes next (policy, cost, risks, timelines); prioritize major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through; include metrics only if explicitly stated; avoid vague "awareness" stories unless there's a clear action or consequence; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff environment/climate summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid environment instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; cover what happened + what's driving it + what changes next (policy, cost, risks, timelines); prioritize major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through; include metrics only if explicitly stated; avoid vague "awareness" stories unless there's a clear action or consequence; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE environment/climate instructions exactly as written. Focus on 1–2 distinct updates; cover what happened + what\'s driving it + what changes next (policy, cost, risks, timelines); prioritize major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through; include metrics only if explicitly stated; avoid vague "awareness" stories unless there\'s a clear action or consequence.',
-      paid: 'apply the PAID environment/climate instructions exactly as written. Focus on 4–5 distinct updates; cover what happened + what\'s driving it + what changes next (policy, cost, risks, timelines); prioritize major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through; include metrics only if explicitly stated; avoid vague "awareness" stories unless there\'s a clear action or consequence.'
-    }
-  },
-  lifestyle: {
-    keywords: [
-      'lifestyle', 'lifestyle and luxury', 'luxury', 'high-end fashion', 'home decor',
-      'travel', 'exclusive destinations', 'fine dining', 'watches', 'skincare',
-      'sustainable living'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff lifestyle/luxury summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Focus on changes that affect real decisions: launches, trend shifts, pricing moves, travel access, brand strategy, "what's in/out" with specifics.
-- Every bullet must include a concrete detail (brand/product/place/date/feature) ONLY if explicitly stated.
-- Avoid vague trend talk; make it specific: what it is + why it's popular + who it's for.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff lifestyle/luxury summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Focus on changes that affect real decisions: launches, trend shifts, pricing moves, travel access, brand strategy, "what's in/out" with specifics.
-- Every bullet must include a concrete detail (brand/product/place/date/feature) ONLY if explicitly stated.
-- Avoid vague trend talk; make it specific: what it is + why it's popular + who it's for.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff lifestyle/luxury summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free lifestyle instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; focus on changes that affect real decisions (launches, trend shifts, pricing moves, travel access, brand strategy, "what's in/out" with specifics); include concrete details (brand/product/place/date/feature) only if explicitly stated; avoid vague trend talk; make it specific: what it is + why it's popular + who it's for; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff lifestyle/luxury summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid lifestyle instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; focus on changes that affect real decisions (launches, trend shifts, pricing moves, travel access, brand strategy, "what's in/out" with specifics); include concrete details (brand/product/place/date/feature) only if explicitly stated; avoid vague trend talk; make it specific: what it is + why it's popular + who it's for; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE lifestyle/luxury instructions exactly as written. Focus on 1–2 distinct updates; focus on changes that affect real decisions (launches, trend shifts, pricing moves, travel access, brand strategy, "what\'s in/out" with specifics); include concrete details (brand/product/place/date/feature) only if explicitly stated; avoid vague trend talk; make it specific: what it is + why it\'s popular + who it\'s for.',
-      paid: 'apply the PAID lifestyle/luxury instructions exactly as written. Focus on 4–5 distinct updates; focus on changes that affect real decisions (launches, trend shifts, pricing moves, travel access, brand strategy, "what\'s in/out" with specifics); include concrete details (brand/product/place/date/feature) only if explicitly stated; avoid vague trend talk; make it specific: what it is + why it\'s popular + who it\'s for.'
-    }
-  },
-  education: {
-    keywords: [
-      'education', 'higher education', 'online learning', 'trends in education',
-      'edtech innovations', 'virtual reality in education', 'edtech'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff education summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Bullets must answer: what changed + who it affects (students/teachers/parents) + what's next.
-- Prioritize: policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules.
-- Include figures (budgets, enrollment, outcomes) ONLY if explicitly stated in the article text.
-- Avoid generic "education is changing" commentary.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff education summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Bullets must answer: what changed + who it affects (students/teachers/parents) + what's next.
-- Prioritize: policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules.
-- Include figures (budgets, enrollment, outcomes) ONLY if explicitly stated in the article text.
-- Avoid generic "education is changing" commentary.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff education summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free education instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; answer what changed + who it affects (students/teachers/parents) + what's next; prioritize policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules; include figures (budgets, enrollment, outcomes) only if explicitly stated; avoid generic "education is changing" commentary; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff education summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid education instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; answer what changed + who it affects (students/teachers/parents) + what's next; prioritize policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules; include figures (budgets, enrollment, outcomes) only if explicitly stated; avoid generic "education is changing" commentary; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE education instructions exactly as written. Focus on 1–2 distinct updates; answer what changed + who it affects (students/teachers/parents) + what\'s next; prioritize policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules; include figures (budgets, enrollment, outcomes) only if explicitly stated; avoid generic "education is changing" commentary.',
-      paid: 'apply the PAID education instructions exactly as written. Focus on 4–5 distinct updates; answer what changed + who it affects (students/teachers/parents) + what\'s next; prioritize policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules; include figures (budgets, enrollment, outcomes) only if explicitly stated; avoid generic "education is changing" commentary.'
-    }
-  },
-  food: {
-    keywords: ['food', 'recipes', 'restaurant reviews', 'food trends', 'fine dining'],
-    freeInstructions: `You are Snipit, a no-fluff food summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Make it usable: what's new + what to try + why it's trending (or why it matters).
-- Prioritize: notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories.
-- Include specific dish/restaurant/city/ingredient details ONLY if explicitly stated in the article text.
-- Avoid filler like "foodies are excited" unless the article provides a real reason.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff food summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Make it usable: what's new + what to try + why it's trending (or why it matters).
-- Prioritize: notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories.
-- Include specific dish/restaurant/city/ingredient details ONLY if explicitly stated in the article text.
-- Avoid filler like "foodies are excited" unless the article provides a real reason.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff food summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free food instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; make it usable: what's new + what to try + why it's trending (or why it matters); prioritize notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories; include specific dish/restaurant/city/ingredient details only if explicitly stated; avoid filler like "foodies are excited" unless the article provides a real reason; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff food summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid food instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; make it usable: what's new + what to try + why it's trending (or why it matters); prioritize notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories; include specific dish/restaurant/city/ingredient details only if explicitly stated; avoid filler like "foodies are excited" unless the article provides a real reason; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE food instructions exactly as written. Focus on 1–2 distinct updates; make it usable: what\'s new + what to try + why it\'s trending (or why it matters); prioritize notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories; include specific dish/restaurant/city/ingredient details only if explicitly stated; avoid filler like "foodies are excited" unless the article provides a real reason.',
-      paid: 'apply the PAID food instructions exactly as written. Focus on 4–5 distinct updates; make it usable: what\'s new + what to try + why it\'s trending (or why it matters); prioritize notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories; include specific dish/restaurant/city/ingredient details only if explicitly stated; avoid filler like "foodies are excited" unless the article provides a real reason.'
-    }
-  },
-  gaming: {
-    keywords: [
-      'gaming', 'game releases', 'console updates', 'pc gaming', 'video games',
-      'gaming news'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff gaming summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize: major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results.
-- If esports: include result/score/prize ONLY if explicitly stated in the article text; never guess.
-- If game updates: include what changed and what it means for players (meta, balance, progression) in plain terms.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff gaming summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize: major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results.
-- If esports: include result/score/prize ONLY if explicitly stated in the article text; never guess.
-- If game updates: include what changed and what it means for players (meta, balance, progression) in plain terms.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff gaming summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free gaming instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results; if esports include result/score/prize only if explicitly stated; if game updates include what changed and what it means for players (meta, balance, progression) in plain terms; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff gaming summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid gaming instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results; if esports include result/score/prize only if explicitly stated; if game updates include what changed and what it means for players (meta, balance, progression) in plain terms; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE gaming instructions exactly as written. Focus on 1–2 distinct updates; prioritize major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results; if esports include result/score/prize only if explicitly stated; if game updates include what changed and what it means for players (meta, balance, progression) in plain terms.',
-      paid: 'apply the PAID gaming instructions exactly as written. Focus on 4–5 distinct updates; prioritize major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results; if esports include result/score/prize only if explicitly stated; if game updates include what changed and what it means for players (meta, balance, progression) in plain terms.'
-    }
-  },
-  culture: {
-    keywords: [
-      'culture', 'art', 'painting', 'graphic design', 'sculpture', 'architecture',
-      'history', 'literature', 'books', 'heritage', 'cultural'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff culture summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Keep it substantive: what happened + the cultural significance + what changes next.
-- Prioritize: major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases).
-- Include specific names/places/dates ONLY if explicitly stated in the article text.
-- Avoid abstract opinion pieces unless there's a concrete news hook.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff culture summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Keep it substantive: what happened + the cultural significance + what changes next.
-- Prioritize: major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases).
-- Include specific names/places/dates ONLY if explicitly stated in the article text.
-- Avoid abstract opinion pieces unless there's a concrete news hook.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff culture summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free culture instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; keep it substantive: what happened + the cultural significance + what changes next; prioritize major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases); include specific names/places/dates only if explicitly stated; avoid abstract opinion pieces unless there's a concrete news hook; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff culture summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid culture instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; keep it substantive: what happened + the cultural significance + what changes next; prioritize major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases); include specific names/places/dates only if explicitly stated; avoid abstract opinion pieces unless there's a concrete news hook; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE culture instructions exactly as written. Focus on 1–2 distinct updates; keep it substantive: what happened + the cultural significance + what changes next; prioritize major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases); include specific names/places/dates only if explicitly stated; avoid abstract opinion pieces unless there\'s a concrete news hook.',
-      paid: 'apply the PAID culture instructions exactly as written. Focus on 4–5 distinct updates; keep it substantive: what happened + the cultural significance + what changes next; prioritize major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases); include specific names/places/dates only if explicitly stated; avoid abstract opinion pieces unless there\'s a concrete news hook.'
-    }
-  },
-  parenting: {
-    keywords: [
-      'parenting', 'parenting and family', 'family', 'parenting tips', 'child development',
-      'work-life balance', 'family health', 'teen trends', 'children', 'kids'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff parenting/family summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize practical, credible updates: child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics.
-- Each bullet must include: what's the takeaway + what a parent should do/know next (only if the article supports it).
-- Avoid medical diagnosis language and avoid fear-mongering.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff parenting/family summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize practical, credible updates: child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics.
-- Each bullet must include: what's the takeaway + what a parent should do/know next (only if the article supports it).
-- Avoid medical diagnosis language and avoid fear-mongering.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff parenting/family summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free parenting instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize practical, credible updates (child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics); each bullet must include what's the takeaway + what a parent should do/know next (only if the article supports it); avoid medical diagnosis language and avoid fear-mongering; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff parenting/family summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid parenting instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize practical, credible updates (child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics); each bullet must include what's the takeaway + what a parent should do/know next (only if the article supports it); avoid medical diagnosis language and avoid fear-mongering; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE parenting/family instructions exactly as written. Focus on 1–2 distinct updates; prioritize practical, credible updates (child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics); each bullet must include what\'s the takeaway + what a parent should do/know next (only if the article supports it); avoid medical diagnosis language and avoid fear-mongering.',
-      paid: 'apply the PAID parenting/family instructions exactly as written. Focus on 4–5 distinct updates; prioritize practical, credible updates (child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics); each bullet must include what\'s the takeaway + what a parent should do/know next (only if the article supports it); avoid medical diagnosis language and avoid fear-mongering.'
-    }
-  },
-  automotive: {
-    keywords: [
-      'automotive', 'electric vehicles', 'car reviews', 'auto industry news',
-      'drones in transportation', 'cars', 'vehicles', 'ev', 'electric cars',
-      'autonomous vehicles'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff automotive summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Bullets must include: what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety).
-- Prioritize: EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates.
-- Include specs (range, price, horsepower, charging time) ONLY if explicitly stated in the article text.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff automotive summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Bullets must include: what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety).
-- Prioritize: EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates.
-- Include specs (range, price, horsepower, charging time) ONLY if explicitly stated in the article text.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff automotive summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free automotive instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; bullets must include what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety); prioritize EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates; include specs (range, price, horsepower, charging time) only if explicitly stated; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff automotive summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid automotive instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; bullets must include what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety); prioritize EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates; include specs (range, price, horsepower, charging time) only if explicitly stated; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE automotive instructions exactly as written. Focus on 1–2 distinct updates; bullets must include what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety); prioritize EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates; include specs (range, price, horsepower, charging time) only if explicitly stated.',
-      paid: 'apply the PAID automotive instructions exactly as written. Focus on 4–5 distinct updates; bullets must include what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety); prioritize EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates; include specs (range, price, horsepower, charging time) only if explicitly stated.'
-    }
-  },
-  career: {
-    keywords: [
-      'career', 'career and professional development', 'professional development',
-      'resume tips', 'networking', 'industry trends', 'remote work',
-      'career growth strategies', 'work culture', 'jobs', 'hiring', 'workplace'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff career summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize: hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics.
-- Each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article.
-- Include numbers (layoffs, wage data, openings) ONLY if explicitly stated.
-- Avoid generic motivation content.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff career summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize: hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics.
-- Each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article.
-- Include numbers (layoffs, wage data, openings) ONLY if explicitly stated.
-- Avoid generic motivation content.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff career summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free career instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics; each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article; include numbers (layoffs, wage data, openings) only if explicitly stated; avoid generic motivation content; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff career summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid career instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics; each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article; include numbers (layoffs, wage data, openings) only if explicitly stated; avoid generic motivation content; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE career instructions exactly as written. Focus on 1–2 distinct updates; prioritize hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics; each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article; include numbers (layoffs, wage data, openings) only if explicitly stated; avoid generic motivation content.',
-      paid: 'apply the PAID career instructions exactly as written. Focus on 4–5 distinct updates; prioritize hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics; each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article; include numbers (layoffs, wage data, openings) only if explicitly stated; avoid generic motivation content.'
-    }
-  },
-  adventure: {
-    keywords: [
-      'adventure', 'adventure and outdoor activities', 'outdoor activities', 'hiking',
-      'camping', 'climbing', 'outdoor', 'outdoors', 'parks', 'trails',
-      'mountaineering', 'backpacking'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff adventure/outdoors summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize: park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events.
-- Make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated.
-- Include specific locations, dates, difficulty, costs ONLY if explicitly stated in the article text.
-- Avoid vague inspiration content.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff adventure/outdoors summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize: park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events.
-- Make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated.
-- Include specific locations, dates, difficulty, costs ONLY if explicitly stated in the article text.
-- Avoid vague inspiration content.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff adventure/outdoors summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free adventure instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events; make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated; include specific locations, dates, difficulty, costs only if explicitly stated; avoid vague inspiration content; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff adventure/outdoors summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid adventure instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events; make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated; include specific locations, dates, difficulty, costs only if explicitly stated; avoid vague inspiration content; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE adventure/outdoors instructions exactly as written. Focus on 1–2 distinct updates; prioritize park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events; make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated; include specific locations, dates, difficulty, costs only if explicitly stated; avoid vague inspiration content.',
-      paid: 'apply the PAID adventure/outdoors instructions exactly as written. Focus on 4–5 distinct updates; prioritize park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events; make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated; include specific locations, dates, difficulty, costs only if explicitly stated; avoid vague inspiration content.'
-    }
-  },
-  personalDevelopment: {
-    keywords: [
-      'personal development', 'productivity', 'time management', 'goal setting',
-      'emotional intelligence', 'self improvement', 'self-improvement',
-      'self help', 'self-help'
-    ],
-    freeInstructions: `You are Snipit, a no-fluff personal development summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes.
-- Each bullet must include a concrete "try this" takeaway that is directly supported by the article.
-- Avoid pseudo-science, extreme claims, and generic motivation.
-- Include any numbers/study findings ONLY if explicitly stated in the article text.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    paidInstructions: `You are Snipit, a no-fluff personal development summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes.
-- Each bullet must include a concrete "try this" takeaway that is directly supported by the article.
-- Avoid pseudo-science, extreme claims, and generic motivation.
-- Include any numbers/study findings ONLY if explicitly stated in the article text.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 4 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`,
-    freeSystemPrompt: `You are Snipit, a no-fluff personal development summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free personal development instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes; each bullet must include a concrete "try this" takeaway that is directly supported by the article; avoid pseudo-science, extreme claims, and generic motivation; include any numbers/study findings only if explicitly stated; no markdown or code fences.`,
-    paidSystemPrompt: `You are Snipit, a no-fluff personal development summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid personal development instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes; each bullet must include a concrete "try this" takeaway that is directly supported by the article; avoid pseudo-science, extreme claims, and generic motivation; include any numbers/study findings only if explicitly stated; no markdown or code fences.`,
-    promptDescription: {
-      free: 'apply the FREE personal development instructions exactly as written. Focus on 1–2 distinct updates; prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes; each bullet must include a concrete "try this" takeaway that is directly supported by the article; avoid pseudo-science, extreme claims, and generic motivation; include any numbers/study findings only if explicitly stated.',
-      paid: 'apply the PAID personal development instructions exactly as written. Focus on 4–5 distinct updates; prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes; each bullet must include a concrete "try this" takeaway that is directly supported by the article; avoid pseudo-science, extreme claims, and generic motivation; include any numbers/study findings only if explicitly stated.'
-    }
-  },
-  default: {
-    keywords: [],
-    freeInstructions: `For FREE TIER, return 1-2 summaries representing the most relevant and impactful points about the topic.
-PREFER 3 summaries if enough distinct articles are available, but return 1-2 if that's all that's available.
-
-CRITICAL REQUIREMENTS:
-- NO REPETITION: Each point must be DISTINCT and UNIQUE. Do not repeat similar information.
-- NO FLUFF: Bullets must be concise, factual, and information-dense. Remove marketing language, filler words, and unnecessary details.
-- ACCURACY: Only include information that is directly stated in the articles. Do not infer or speculate.
-- RELEVANCE: Prioritize points directly related to the topic.
-- IMPORTANT: You must return at least 1 summary if any articles are provided.
-
-Each summary must have:
-- A "title" field with the article title that best represents that point (NO duplicate titles)
-- A "bullets" array with exactly 1 bullet point (1-2 sentences) that explains that specific point concisely
-- "url" and "source" fields from the article`,
-    paidInstructions: `For PAID TIER, return 4-5 articles. Each article must have:
-- A "title" field with the article title
-- A "summary" field with a 2-3 sentence paragraph summary
-- "url" and "source" fields`,
-    freeSystemPrompt: `You are a news summarizer for free tier. Return ONLY valid JSON with 1-2 summaries (prefer 2, but return 1 if that's all available). Each summary must have "title" (unique, no duplicates), "bullets" (array with exactly 1 string, 1-2 sentences, no fluff), "url", and "source". IMPORTANT: You must return at least 1 summary from the provided articles. Ensure all points are DISTINCT and UNIQUE - no repetition. No markdown, no code blocks.`,
-    paidSystemPrompt: `You are a news summarizer for paid tier. Return ONLY valid JSON with 4-5 articles. Each article must have "title", "summary" (2-3 sentences, no fluff), "url", and "source". IMPORTANT: You must return at least 1 summary from the provided articles. Ensure no duplicate titles or repeated information. No markdown, no code blocks.`,
-    promptDescription: {
-      free: `identify the 2 most relevant and impactful points based on the articles provided. These 2 points must be DISTINCT, UNIQUE, and directly related to the topic. Each point should be substantial, informative, and contain no fluff or repetition.`,
-      paid: `select the most relevant articles and provide concise, no-fluff paragraph summaries for each.`
-    }
-  }
-};
-
-// ============================================================================
-// END TOPIC CONFIGURATION
-// ============================================================================
+// Bump whenever summarization prompts or output handling change, so summaries
+// stored in summary_cache are regenerated instead of reused
+export const SUMMARY_PROMPT_VERSION = 'v4';
 
 // Helper function to deduplicate summaries by title and content
 function deduplicateSummaries(
@@ -1108,277 +102,67 @@ export interface NewsArticle {
   source: {
     name: string;
   };
+  content?: string; // Full body text extracted from the article page (see articleExtraction.ts)
+  siblings?: StorySibling[]; // Other outlets' coverage of the same story (see scoreArticles)
+}
+
+// An outlet whose reporting a summary item draws on
+export interface SummaryCitation {
+  source: string;
+  url: string;
 }
 
 export interface NewsSummary {
   topic: string;
+  format?: SummaryFormat; // How summaries are written (topic category and tier); older stored summaries lack it
+  depth?: SummaryDepth; // Reader depth the summaries were written for; older stored summaries are "brief"
+  promptVersionId?: string | null; // prompt_versions row used; null for the built-in prompts
+  experiment?: ExperimentAssignment | null; // Prompt experiment arm the summaries belong to
   summaries: Array<{
     title: string;
     summary: string; // For paid tier: paragraph format. For free tier: can be used as fallback
     bullets?: string[]; // For free tier: array of 3 bullet points (1-2 sentences each)
-    url: string;
+    url: string; // Primary article
     source: string;
+    citations?: SummaryCitation[]; // Every contributing outlet, primary article first; older stored summaries lack it
+    isUpdate?: boolean; // A story from a recent digest with materially new coverage
   }>;
+  fallback?: boolean; // True when OpenAI failed and summaries were built from article descriptions
+  faithfulnessFailures?: FaithfulnessFailure[]; // Bullets or summaries dropped for unsupported numbers or names
+}
+
+// Deterministic stand-in for the summarization response (LLM_BACKEND=mock). Fills
+// both the bullet and paragraph fields, so it passes validation for every format.
+function buildMockSummaries(articles: NewsArticle[]): { summaries: NewsSummary['summaries'] } {
+  return {
+    summaries: articles
+      .filter((article) => !isGarbageDescription(cleanArticleContent(article.description)))
+      .slice(0, 3)
+      .map((article) => {
+        const text = truncateAtSentenceBoundary(cleanArticleContent(article.description), 300);
+        return {
+          title: article.title,
+          summary: text,
+          bullets: [/[.!?)"']$/.test(text) ? text : `${text}.`],
+          url: article.url,
+          source: article.source.name,
+          citations: [
+            { source: article.source.name, url: article.url },
+            ...(article.siblings ?? []).map((sibling) => ({ source: sibling.source, url: sibling.url })),
+          ],
+        };
+      }),
+  };
 }
 
 export async function summarizeNews(
   topic: string,
   articles: NewsArticle[],
-  isPaid: boolean = false
+  isPaid: boolean = false,
+  // prompts: used instead of the topic's active ones (e.g. an admin draft preview)
+  // depth: the reader's summary depth (see summaryDepth.ts)
+  options?: { prompts?: ResolvedPrompts; depth?: SummaryDepth }
 ): Promise<NewsSummary> {
-  const SPORTS_TOPICS = [
-    'sports',
-    'nba',
-    'nfl',
-    'mlb',
-    'nhl',
-    'soccer',
-    'la liga',
-    'ligue 1',
-    'epl',
-    'tennis',
-    'golf',
-    'esports',
-    'motorsports',
-    'athlete spotlights',
-    'recovery and injury prevention',
-  ];
-
-  const BUSINESS_TOPICS = [
-    'business',
-    'business and finance',
-    'startups',
-    'corporate news',
-    'personal finance tips',
-    'investments',
-    'cryptocurrency',
-    'bitcoin',
-    'ethereum',
-    'nfts',
-    'economic policies',
-    'inflation trends',
-    'job market',
-    'venture capital',
-    'business models',
-  ];
-
-  const STOCKS_TOPICS = [
-    'stocks',
-    'stock market',
-    'equities',
-    'trading',
-    'market movers',
-    'stock prices',
-    'market snapshot',
-    'tickers',
-    's&p 500',
-    'dow jones',
-    'nasdaq',
-    'market breadth',
-  ];
-
-  const TECH_TOPICS = [
-    'technology',
-    'tech',
-    'artificial intelligence',
-    'ai',
-    'startups',
-    'gadgets',
-    'big tech',
-    'software development',
-    'blockchain technology',
-    'space exploration',
-    'cybersecurity',
-    'emerging tech trends',
-  ];
-
-  const HEALTH_TOPICS = [
-    'health',
-    'health and wellness',
-    'fitness',
-    'nutrition',
-    'mental health',
-    'public health policies',
-    'therapy tips',
-    'mindfulness',
-    'coping mechanisms',
-    'stress management',
-    'wellness',
-  ];
-
-  const POLITICS_TOPICS = [
-    'politics',
-    'u.s. politics',
-    'us politics',
-    'global politics',
-    'policy updates',
-    'elections',
-    'legislative news',
-    'international law',
-    'diplomacy',
-    'europe',
-    'asia',
-    'conflict zones',
-    'international relations',
-  ];
-
-  const WORLD_NEWS_TOPICS = [
-    'world news',
-    'regional news',
-    'europe',
-    'asia',
-    'africa',
-    'global events',
-    'conflict zones',
-    'international relations',
-  ];
-
-  const SCIENCE_TOPICS = [
-    'science',
-    'space exploration',
-    'medical research',
-    'environmental science',
-    'astronomy',
-    'nasa missions',
-    'scientific discoveries',
-  ];
-
-  const ENVIRONMENT_TOPICS = [
-    'environment',
-    'climate change',
-    'renewable energy',
-    'wildlife conservation',
-    'marine conservation',
-    'eco-tourism',
-    'sustainable agriculture',
-    'climate',
-  ];
-
-  const LIFESTYLE_TOPICS = [
-    'lifestyle',
-    'lifestyle and luxury',
-    'luxury',
-    'high-end fashion',
-    'wellness',
-    'home decor',
-    'travel',
-    'exclusive destinations',
-    'fine dining',
-    'watches',
-    'skincare',
-    'sustainable living',
-  ];
-
-  const EDUCATION_TOPICS = [
-    'education',
-    'higher education',
-    'online learning',
-    'trends in education',
-    'edtech innovations',
-    'virtual reality in education',
-    'edtech',
-  ];
-
-  const FOOD_TOPICS = [
-    'food',
-    'recipes',
-    'restaurant reviews',
-    'food trends',
-    'fine dining',
-  ];
-
-  const GAMING_TOPICS = [
-    'gaming',
-    'esports',
-    'game releases',
-    'console updates',
-    'pc gaming',
-    'video games',
-    'gaming news',
-  ];
-
-  const CULTURE_TOPICS = [
-    'culture',
-    'art',
-    'painting',
-    'graphic design',
-    'sculpture',
-    'architecture',
-    'history',
-    'literature',
-    'books',
-    'heritage',
-    'cultural',
-  ];
-
-  const PARENTING_TOPICS = [
-    'parenting',
-    'parenting and family',
-    'family',
-    'parenting tips',
-    'child development',
-    'work-life balance',
-    'family health',
-    'teen trends',
-    'children',
-    'kids',
-  ];
-
-  const AUTOMOTIVE_TOPICS = [
-    'automotive',
-    'electric vehicles',
-    'car reviews',
-    'auto industry news',
-    'drones in transportation',
-    'cars',
-    'vehicles',
-    'ev',
-    'electric cars',
-    'autonomous vehicles',
-  ];
-
-  const CAREER_TOPICS = [
-    'career',
-    'career and professional development',
-    'professional development',
-    'resume tips',
-    'networking',
-    'industry trends',
-    'remote work',
-    'career growth strategies',
-    'work culture',
-    'jobs',
-    'hiring',
-    'workplace',
-  ];
-
-  const ADVENTURE_TOPICS = [
-    'adventure',
-    'adventure and outdoor activities',
-    'outdoor activities',
-    'hiking',
-    'camping',
-    'climbing',
-    'outdoor',
-    'outdoors',
-    'parks',
-    'trails',
-    'mountaineering',
-    'backpacking',
-  ];
-
-  const PERSONAL_DEVELOPMENT_TOPICS = [
-    'personal development',
-    'productivity',
-    'time management',
-    'goal setting',
-    'emotional intelligence',
-    'self improvement',
-    'self-improvement',
-    'self help',
-    'self-help',
-  ];
-
   if (articles.length === 0) {
     return {
       topic,
@@ -1389,68 +173,12 @@ export async function summarizeNews(
   // Note: We no longer cache summaries - articles are cached in article_cache table
   // This allows us to regenerate summaries with improved prompts without clearing article cache
 
-  // First, filter articles by basic relevance (keyword check)
-  // This is a quick first pass to remove obviously irrelevant articles
-  const topicLower = topic.toLowerCase().trim();
-  const isSportsTopic = SPORTS_TOPICS.some((sportsTopic) =>
-    topicLower.includes(sportsTopic.toLowerCase())
-  );
-  const isBusinessTopic = BUSINESS_TOPICS.some((bizTopic) =>
-    topicLower.includes(bizTopic.toLowerCase())
-  );
-  const isStocksTopic = STOCKS_TOPICS.some((stocksTopic) =>
-    topicLower.includes(stocksTopic.toLowerCase())
-  );
-  const isTechTopic = TECH_TOPICS.some((techTopic) =>
-    topicLower.includes(techTopic.toLowerCase())
-  );
-  const isHealthTopic = HEALTH_TOPICS.some((healthTopic) =>
-    topicLower.includes(healthTopic.toLowerCase())
-  );
-  const isPoliticsTopic = POLITICS_TOPICS.some((polTopic) =>
-    topicLower.includes(polTopic.toLowerCase())
-  );
-  const isUsPoliticsTopic = topicLower.includes('u.s. politics') || topicLower.includes('us politics');
-  const isGlobalPoliticsTopic = topicLower.includes('global politics');
-  const isWorldNewsTopic = WORLD_NEWS_TOPICS.some((worldTopic) =>
-    topicLower.includes(worldTopic.toLowerCase())
-  );
-  const isScienceTopic = SCIENCE_TOPICS.some((scienceTopic) =>
-    topicLower.includes(scienceTopic.toLowerCase())
-  );
-  const isEnvironmentTopic = ENVIRONMENT_TOPICS.some((envTopic) =>
-    topicLower.includes(envTopic.toLowerCase())
-  );
-  const isLifestyleTopic = LIFESTYLE_TOPICS.some((lifestyleTopic) =>
-    topicLower.includes(lifestyleTopic.toLowerCase())
-  );
-  const isEducationTopic = EDUCATION_TOPICS.some((educationTopic) =>
-    topicLower.includes(educationTopic.toLowerCase())
-  );
-  const isFoodTopic = FOOD_TOPICS.some((foodTopic) =>
-    topicLower.includes(foodTopic.toLowerCase())
-  );
-  const isGamingTopic = GAMING_TOPICS.some((gamingTopic) =>
-    topicLower.includes(gamingTopic.toLowerCase())
-  );
-  const isCultureTopic = CULTURE_TOPICS.some((cultureTopic) =>
-    topicLower.includes(cultureTopic.toLowerCase())
-  );
-  const isParentingTopic = PARENTING_TOPICS.some((parentingTopic) =>
-    topicLower.includes(parentingTopic.toLowerCase())
-  );
-  const isAutomotiveTopic = AUTOMOTIVE_TOPICS.some((automotiveTopic) =>
-    topicLower.includes(automotiveTopic.toLowerCase())
-  );
-  const isCareerTopic = CAREER_TOPICS.some((careerTopic) =>
-    topicLower.includes(careerTopic.toLowerCase())
-  );
-  const isAdventureTopic = ADVENTURE_TOPICS.some((adventureTopic) =>
-    topicLower.includes(adventureTopic.toLowerCase())
-  );
-  const isPersonalDevelopmentTopic = PERSONAL_DEVELOPMENT_TOPICS.some((personalDevTopic) =>
-    topicLower.includes(personalDevTopic.toLowerCase())
-  );
+  const resolvedPrompts = options?.prompts ?? await resolvePrompts(topic, isPaid);
+  const { category, tier, prompts } = resolvedPrompts;
+  const format = category.format[tier];
+  const depth = options?.depth ?? DEFAULT_SUMMARY_DEPTH;
+  const depthSettings = getDepthSettings(category, tier, depth);
+
   // Articles arrive pre-filtered by deterministic scoring + editorial ranking upstream
   // Take top 7 directly in editorial rank order
   const articlesToSummarize = articles.slice(0, 7);
@@ -1462,1127 +190,43 @@ export async function summarizeNews(
     };
   }
 
-  // Fetch sports scores for sports topics (top 3 from night prior)
-  let sportsScoresData: { scores: any[]; tournaments: any[] } | null = null;
-  
-  if (isSportsTopic) {
-    try {
-      console.log(`[Sports Scores] Fetching scores for topic: ${topic}`);
-      const rawScoresData = await fetchSportsScores(topic);
-      // Always get top 3 most important scores from the night prior
-      const prioritizedScores = prioritizeScores(rawScoresData.scores, 3);
-      console.log(`[Sports Scores] Found ${prioritizedScores.length} relevant scores from night prior`);
-      
-      sportsScoresData = {
-        scores: prioritizedScores,
-        tournaments: rawScoresData.tournaments,
-      };
-    } catch (error) {
-      console.error(`[Sports Scores] Failed to fetch scores:`, error);
-      // Continue without scores - don't fail the whole process
-      sportsScoresData = null;
-    }
-  }
-
-  const format = (isSportsTopic || isBusinessTopic || isStocksTopic || isTechTopic || isHealthTopic || isPoliticsTopic || isWorldNewsTopic || isScienceTopic || isEnvironmentTopic || isLifestyleTopic || isEducationTopic || isFoodTopic || isGamingTopic || isCultureTopic || isParentingTopic || isAutomotiveTopic || isCareerTopic || isAdventureTopic || isPersonalDevelopmentTopic) ? 'bullet point' : isPaid ? 'paragraph' : 'bullet point';
-  const summaryCount = isSportsTopic
-    ? (isPaid ? 5 : 3)
-    : isBusinessTopic
-      ? (isPaid ? 5 : 3)
-      : isStocksTopic
-        ? (isPaid ? 5 : 3)
-        : isTechTopic
-        ? (isPaid ? 5 : 3)
-        : isHealthTopic
-          ? (isPaid ? 5 : 3)
-          : isPoliticsTopic
-            ? (isPaid ? 5 : 3)
-            : isWorldNewsTopic
-              ? (isPaid ? 5 : 3)
-              : isScienceTopic
-                ? (isPaid ? 5 : 3)
-                : isEnvironmentTopic
-                  ? (isPaid ? 5 : 3)
-                  : isLifestyleTopic
-                    ? (isPaid ? 5 : 3)
-                    : isEducationTopic
-                      ? (isPaid ? 5 : 3)
-                      : isFoodTopic
-                        ? (isPaid ? 5 : 3)
-                        : isGamingTopic
-                          ? (isPaid ? 5 : 3)
-                          : isCultureTopic
-                            ? (isPaid ? 5 : 3)
-                            : isParentingTopic
-                              ? (isPaid ? 5 : 3)
-                              : isAutomotiveTopic
-                                ? (isPaid ? 5 : 3)
-                                : isCareerTopic
-                                  ? (isPaid ? 5 : 3)
-                                  : isAdventureTopic
-                                    ? (isPaid ? 5 : 3)
-                                    : isPersonalDevelopmentTopic
-                                      ? (isPaid ? 5 : 3)
-                                      : isPaid ? 5 : 3; // Exact numbers, not ranges
-
-  // Clear, structured prompt for free tier
-  const freeTierInstructions = `For FREE TIER, return 1-2 summaries representing the most relevant and impactful points about "${topic}".
-PREFER 3 summaries if enough distinct articles are available, but return 1-2 if that's all that's available.
-
-CRITICAL REQUIREMENTS:
-- NO REPETITION: Each point must be DISTINCT and UNIQUE. Do not repeat similar information.
-- NO FLUFF: Bullets must be concise, factual, and information-dense. Remove marketing language, filler words, and unnecessary details.
-- ACCURACY: Only include information that is directly stated in the articles. Do not infer or speculate.
-- RELEVANCE: Prioritize points directly related to "${topic}". If no articles are directly about "${topic}", select the most relevant points from available articles. Only skip articles that mention "${topic}" only in passing or as a minor detail.
-- IMPORTANT: You must return at least 1 summary if any articles are provided. Only return empty array if absolutely no articles relate to "${topic}" at all.
+  // Category-specific prompt material (e.g. last night's scores for sports topics)
+  const promptContext = category.loadContext ? await category.loadContext(topic) : '';
+
+  // Stories covered by several outlets are synthesized across them and cite each one
+  const hasMultiSourceStories = articlesToSummarize.some((article) => (article.siblings?.length ?? 0) > 0);
+  const citationInstructions = hasMultiSourceStories
+    ? `
+MULTI-SOURCE STORIES:
+- Some articles list "Also covered by" - the same story reported by other outlets
+- For those stories, write ONE summary that combines the facts reported across the outlets, rather than a summary per outlet
+- Add "citations": [{"source": string, "url": string}, ...] to every summary, listing each outlet whose reporting you used. The first citation must be the summary's own "url" and "source"
+- Only cite URLs listed below, and only for facts that outlet actually reports
+`
+    : '';
 
-Each summary must have:
-- A "title" field with the article title that best represents that point (NO duplicate titles)
-- A "bullets" array with exactly 1 bullet point (1-2 sentences) that explains that specific point concisely
-- The bullet should be detailed and informative, providing key information about that point without fluff
-- "url" and "source" fields from the article that best supports that point
+  const prompt = `Topic: ${topic}
+Format: ${format === 'bullets' ? 'bullet point' : 'paragraph'}
 
-The points can come from:
-- Different articles (preferred - one article per summary)
-- The same article only if it covers multiple DISTINCT important points
-- Return 1-2 summaries based on what's available - quality over quantity
+You are summarizing news articles about "${topic}". From the articles below, ${prompts.directive}
 
-Example structure:
-{
-  "summaries": [
-    {
-      "title": "Article Title for Point 1",
-      "bullets": [
-        "Detailed explanation of the first most relevant point about ${topic} (1-2 sentences with key information)."
-      ],
-      "url": "https://example.com/article1",
-      "source": "Source Name"
-    },
-    {
-      "title": "Article Title for Point 2",
-      "bullets": [
-        "Detailed explanation of the second most relevant point about ${topic} (1-2 sentences with key information)."
-      ],
-      "url": "https://example.com/article2",
-      "source": "Source Name"
-    }
-  ]
-}`;
+STRICT REQUIREMENTS:
+- Prioritize articles that are DIRECTLY and PRIMARILY about "${topic}"
+- If articles are available that are directly about "${topic}", use those
+- If no articles are directly about "${topic}", select the MOST RELEVANT articles from what's available (articles where "${topic}" is a significant part of the content)
+- REJECT articles that only mention "${topic}" in passing or as a minor detail
+- NO repetition of information across summaries
+- NO duplicate or very similar titles
+- NO marketing language, filler words, or fluff - be concise and factual
+- Prioritize the most important, impactful, and recent developments
+- IMPORTANT: You must return at least 1 summary if any articles are provided. Only return an empty array if absolutely no articles relate to "${topic}" at all
 
-  const sportsFreeInstructions = `You are Snipit, a no-fluff sports news summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style (must follow):
-- Each bullet must feel like a complete update, not a headline.
-- Write bullets to the point: what happened + key detail + why it matters (standings/playoffs/availability/next game).
-- Use scores/stats/records ONLY if explicitly included in the article text provided. Never guess.
-
-Quick Score Add-on (IMPORTANT):
-- If an article includes an actual game result with a score, format the start of the bullet as a one-line “quick score” like:
-  BOS 118 — NYK 111 (Final) | Tatum 34 pts | Celtics: 8–2 last 10
-- Keep it to ONE line, using " | " separators.
-- Include: score + status (Final/OT/etc). Add 1 standout stat line and 1 trend (streak/record/standing) ONLY if stated.
-- After the quick score line, add a short “so what” clause if needed (1 short sentence max) ONLY if supported by the article.
-
-Selection guidance:
-- FIRST: Reference the top 3 scores from the night prior if provided above (these are the most important games from the last 24 hours)
-- For league topics (NBA/NFL/etc), structure your summaries as:
-  - Start with the 3 most important scores from the night prior (if provided above)
-  - Then include 1 bigger storyline (trade/injury/suspension/coach quote/playoff scenario)
-- If scores from the night prior are provided above, use those exact scores - do NOT use scores from article text that differ
-- If scores are NOT present in the provided article text or above, do NOT fake them—just summarize the key development with why it matters.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no vague filler ("signals", "could") unless directly attributed.
-- IMPORTANT: Do NOT invent scores, stats, or records. Only include what is explicitly present in the provided article text or the scores from the night prior above.`;
-
-  const sportsPaidInstructions = `You are Snipit, a no-fluff sports news summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style (must follow):
-- Each bullet must feel like a complete update, not a headline.
-- Write bullets to the point: what happened + key detail + why it matters (standings/playoffs/availability/next game).
-- Use scores/stats/records ONLY if explicitly included in the article text provided. Never guess.
-
-Quick Score Add-on (IMPORTANT):
-- If an article includes an actual game result with a score, format the start of the bullet as a one-line “quick score” like:
-  BOS 118 — NYK 111 (Final) | Tatum 34 pts | Celtics: 8–2 last 10
-- Keep it to ONE line, using " | " separators.
-- Include: score + status (Final/OT/etc). Add 1 standout stat line and 1 trend (streak/record/standing) ONLY if stated.
-- After the quick score line, add a short “so what” clause if needed (1 short sentence max) ONLY if supported by the article.
-
-Selection guidance:
-- FIRST: Reference the top 3 scores from the night prior if provided above (these are the most important games from the last 24 hours)
-- For league topics (NBA/NFL/etc), structure your summaries as:
-  - Start with the 3 most important scores from the night prior (if provided above)
-  - Then include 2 bigger storylines (trade/injury/suspension/coach quote/playoff scenario)
-  - Include interesting facts/statements that relate to that topic within the article
-  - Ideally getting to the point when outputting that statement/fact, no fluff repetitive verbiage
-- If scores from the night prior are provided above, use those exact scores - do NOT use scores from article text that differ
-- If scores are NOT present in the provided article text or above, do NOT fake them—just summarize the key development with why it matters.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no vague filler ("signals", "could") unless directly attributed.
-- IMPORTANT: Do NOT invent scores, stats, or records. Only include what is explicitly present in the provided article text or the scores from the night prior above.`;
-
-  const businessFreeInstructions = `You are Snipit, a no-fluff business/markets summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- If the article contains price/%/points: include them. If not, do not invent.
-- If it’s a stock/crypto move and numbers are present, add an arrow: ↑ (up), ↓ (down), → (flat/mixed).
-- Every bullet must include the driver/catalyst (earnings, guidance, rates, regulation, lawsuit, deal, downgrade, etc.).
-- Add “so what” in one short clause: what changes for investors/businesses next.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition, no generic market clichés.`;
-
-  const businessPaidInstructions = `You are Snipit, a no-fluff business/markets summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- If the article contains price/%/points: include them. If not, do not invent.
-- If it’s a stock/crypto move and numbers are present, add an arrow: ↑ (up), ↓ (down), → (flat/mixed).
-- Every bullet must include the driver/catalyst (earnings, guidance, rates, regulation, lawsuit, deal, downgrade, etc.).
-- Add “so what” in one short clause: what changes for investors/businesses next.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition, no generic market clichés.`;
-
-  const techFreeInstructions = `You are Snipit, a no-fluff technology summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Each bullet must give the full picture fast: what changed + who it impacts + why it matters.
-- Include 1 concrete detail when available (feature, timeline, pricing, regulation, breach scope), but only if explicitly stated.
-- For cybersecurity: state who’s affected + what users/orgs should do next (patch, rotate keys, etc.) if the article provides it.
-- Avoid hype words (“game-changing”, “revolutionary”) and avoid speculation unless directly attributed.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles.`;
-
-  const techPaidInstructions = `You are Snipit, a no-fluff technology summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Each bullet must give the full picture fast: what changed + who it impacts + why it matters.
-- Include 1 concrete detail when available (feature, timeline, pricing, regulation, breach scope), but only if explicitly stated.
-- For cybersecurity: state who’s affected + what users/orgs should do next (patch, rotate keys, etc.) if the article provides it.
-- Avoid hype words (“game-changing”, “revolutionary”) and avoid speculation unless directly attributed.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles.`;
-
-  const healthFreeInstructions = `You are Snipit, a no-fluff health & wellness summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize: new guideline changes, major study results, recalls/safety notices, and actionable advice backed by the article.
-- Each bullet must include: what happened + what it means for a normal person + what to do next (if the article supports it).
-- If it’s research, include study type/phase and the key result ONLY if explicitly stated.
-- No medical diagnosis language. No miracle framing.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const healthPaidInstructions = `You are Snipit, a no-fluff health & wellness summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize: new guideline changes, major study results, recalls/safety notices, and actionable advice backed by the article.
-- Each bullet must include: what happened + what it means for a normal person + what to do next (if the article supports it).
-- If it’s research, include study type/phase and the key result ONLY if explicitly stated.
-- No medical diagnosis language. No miracle framing.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const politicsFreeInstructions = `You are Snipit, a no-fluff politics summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Each bullet must give the full picture fast: what happened + what changes + who it affects.
-- Include the "why now" driver (vote, court ruling, agency action, diplomatic move, scandal, etc.).
-- Include numbers (vote counts, poll numbers, dates) ONLY if explicitly stated in the article text provided. Never guess.
-- Avoid speculation unless the article itself frames it as such and you attribute it ("according to…", "analysts say…").
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no fluff.`;
-
-  const usPoliticsFreeInstructions = `You are Snipit, a no-fluff U.S. POLITICS editor (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-MISSION
-From the provided candidate articles (title + source + snippet/excerpt + url + published_at), select ONLY stories that are clearly about U.S. government/politics/policy. Ignore any miscategorized or spammy items.
-
-PICK COUNT (FREE)
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-HARD FILTERS (DO NOT VIOLATE)
-Include ONLY if the story is primarily about U.S. politics/governance, such as:
-- White House / President / federal agencies (DOJ, DHS, EPA, SEC, etc.)
-- Congress (bills, votes, hearings, budget/taxes, shutdown/debt ceiling)
-- Supreme Court / federal courts (rulings, injunctions with national impact)
-- U.S. elections/campaigns (ballot access, major court cases, credible polling shifts, debate rules)
-- State politics ONLY if it has broad national significance (major states, landmark rulings, multi-state actions)
-
-EXCLUDE (AUTOMATIC REJECT)
-- Non-U.S. domestic politics (India-only, etc.) without direct U.S. policy action
-- Cars/product launches, exams/notifications, sports/celebrity, random crime blotter
-- Sensational "on cam" clips with no verified U.S. policy action
-- Articles with vague claims, unclear actors, or no real decision/action
-- Duplicate coverage of the same event (keep the best one)
-
-RANKING (WHAT "MATTERS MOST")
-Prioritize real ACTION + CONSEQUENCE:
-1) Laws/regulations advanced/blocked; executive orders; agency rules; court rulings/injunctions
-2) Election moves that change the race (legal rulings, ballot access, major polling w/ credible source)
-3) Major U.S. foreign-policy decisions (aid, sanctions, deployments) ONLY if driven by U.S. government action
-
-STYLE (KEEP YOUR EXISTING RULES)
-- Each bullet must give the full picture fast: what happened + what changes + who it affects.
-- Include the "why now" driver (vote, court ruling, agency action, diplomatic move, scandal, etc.).
-- Include numbers (vote counts, poll numbers, dates) ONLY if explicitly stated in the article text provided. Never guess.
-- Avoid speculation unless the article itself frames it as such and you attribute it ("according to…", "analysts say…").
-
-OUTPUT RULES (KEEP EXACT SHAPE)
-For each summary object:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no fluff.
-
-FINAL QUALITY CHECK (BEFORE RETURNING JSON)
-- If any chosen story could fit a different topic better than U.S. Politics, remove it.
-- If an item is not centered on a U.S. political institution/actor, remove it.
-- If fewer than 1 qualifying story exists, return {"summaries": []} (no filler).`;
-
-  const usPoliticsPaidInstructions = `You are Snipit, a no-fluff U.S. POLITICS editor (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-MISSION
-From the provided candidate articles (title + source + snippet/excerpt + url + published_at), select ONLY stories that are clearly about U.S. government/politics/policy. Ignore any miscategorized or spammy items.
-
-PICK COUNT (PAID)
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-HARD FILTERS (DO NOT VIOLATE)
-Include ONLY if the story is primarily about U.S. politics/governance, such as:
-- White House / President / federal agencies (DOJ, DHS, EPA, SEC, etc.)
-- Congress (bills, votes, hearings, budget/taxes, shutdown/debt ceiling)
-- Supreme Court / federal courts (rulings, injunctions with national impact)
-- U.S. elections/campaigns (ballot access, major court cases, credible polling shifts, debate rules)
-- State politics ONLY if it has broad national significance (major states, landmark rulings, multi-state actions)
-
-EXCLUDE (AUTOMATIC REJECT)
-- Non-U.S. domestic politics (India-only, etc.) without direct U.S. policy action
-- Cars/product launches, exams/notifications, sports/celebrity, random crime blotter
-- Sensational "on cam" clips with no verified U.S. policy action
-- Articles with vague claims, unclear actors, or no real decision/action
-- Duplicate coverage of the same event (keep the best one)
-
-RANKING (WHAT "MATTERS MOST")
-Prioritize real ACTION + CONSEQUENCE:
-1) Laws/regulations advanced/blocked; executive orders; agency rules; court rulings/injunctions
-2) Election moves that change the race (legal rulings, ballot access, major polling w/ credible source)
-3) Major U.S. foreign-policy decisions (aid, sanctions, deployments) ONLY if driven by U.S. government action
-
-STYLE (KEEP YOUR EXISTING RULES)
-- Each bullet must give the full picture fast: what happened + what changes + who it affects.
-- Include the "why now" driver (vote, court ruling, agency action, diplomatic move, scandal, etc.).
-- Include numbers (vote counts, poll numbers, dates) ONLY if explicitly stated in the article text provided. Never guess.
-- Avoid speculation unless the article itself frames it as such and you attribute it ("according to…", "analysts say…").
-
-OUTPUT RULES (KEEP EXACT SHAPE)
-For each summary object:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no fluff.
-
-FINAL QUALITY CHECK (BEFORE RETURNING JSON)
-- If fewer than 4 qualifying stories exist, return fewer (no filler).
-- If any chosen story could fit a different topic better than U.S. Politics, remove it.
-- If an item is not centered on a U.S. political institution/actor, remove it.`;
-
-  const politicsPaidInstructions = `You are Snipit, a no-fluff politics summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Each bullet must give the full picture fast: what happened + what changes + who it affects.
-- Include the "why now" driver (vote, court ruling, agency action, diplomatic move, scandal, etc.).
-- Include numbers (vote counts, poll numbers, dates) ONLY if explicitly stated in the article text provided. Never guess.
-- Avoid speculation unless the article itself frames it as such and you attribute it ("according to…", "analysts say…").
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no fluff.`;
-
-  const worldNewsFreeInstructions = `You are Snipit, a no-fluff world news summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Bullets must answer: what happened + where + why it matters globally.
-- Prioritize: conflict escalations/de-escalations, major elections, sanctions, diplomacy, disasters, major economic shocks.
-- Include concrete details (locations, key actors, dates, casualties/aid figures) ONLY if explicitly stated in the article text.
-- Do not editorialize or take sides; stick to verified facts in the article.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const worldNewsPaidInstructions = `You are Snipit, a no-fluff world news summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Bullets must answer: what happened + where + why it matters globally.
-- Prioritize: conflict escalations/de-escalations, major elections, sanctions, diplomacy, disasters, major economic shocks.
-- Include concrete details (locations, key actors, dates, casualties/aid figures) ONLY if explicitly stated in the article text.
-- Do not editorialize or take sides; stick to verified facts in the article.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const globalPoliticsFreeInstructions = `You are Snipit, a no-fluff GLOBAL POLITICS editor (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-MISSION
-From the provided candidate articles (title + source + snippet/excerpt + url + published_at), select ONLY stories that are clearly about international politics, geopolitics, diplomacy, conflict, sanctions, elections, and major government actions outside the U.S. (and cross-border policy). Ignore miscategorized or spammy items.
-
-PICK COUNT (FREE)
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-HARD FILTERS (DO NOT VIOLATE)
-Include ONLY if the story is primarily about:
-- National governments/political leaders (outside the U.S.) taking action (laws, elections, cabinet changes, crackdowns, resignations)
-- International diplomacy (summits, treaties, recognition, expulsions, hostage/prisoner deals)
-- Geopolitical conflict with clear state actors (wars, major escalations/de-escalations, ceasefires, peace talks)
-- Sanctions/export controls/major cross-border policy shifts (including U.S./EU/UN actions affecting other countries)
-- Major international institutions (UN, NATO, EU, ICC/ICJ, G7/G20, OPEC when it's political power leverage)
-
-EXCLUDE (AUTOMATIC REJECT)
-- Local crime/accidents not tied to politics/policy
-- Cars/product launches, exams/notifications, sports/celebrity
-- "On cam" sensational clips with no verified government action
-- Opinion-only pieces with no new event/decision
-- Duplicate coverage of the same event (keep the best one)
-
-RANKING (WHAT "MATTERS MOST")
-Prioritize real ACTION + CONSEQUENCE:
-1) Wars/ceasefires/major escalations; sanctions; military deployments; border closures
-2) Elections/coups/state instability that changes power
-3) Treaties/summits/recognition; major policy shifts affecting trade, migration, energy
-4) High-impact domestic laws with international ripple effects (mass protests, crackdowns, major court rulings)
-
-STYLE
-- Each bullet must give the full picture fast: what happened + what changes + who it affects.
-- Include the "why now" driver (election result, vote, court ruling, sanctions, diplomatic move, conflict escalation, leadership shakeup).
-- Include numbers (casualty counts, vote totals, dates, sanctions amounts) ONLY if explicitly stated in the article text provided. Never guess.
-- Avoid speculation unless the article itself frames it as such and you attribute it ("according to…", "analysts say…").
-
-OUTPUT RULES (KEEP EXACT SHAPE)
-For each summary object:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no fluff.
-
-FINAL QUALITY CHECK
-- If any chosen story could fit a different topic better than Global Politics, remove it.
-- If the main actor isn't a government/international institution or the event has no political consequence, remove it.
-- If fewer than 1 qualifying story exists, return {"summaries": []} (no filler).`;
-
-  const globalPoliticsPaidInstructions = `You are Snipit, a no-fluff GLOBAL POLITICS editor (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-MISSION
-From the provided candidate articles (title + source + snippet/excerpt + url + published_at), select ONLY stories that are clearly about international politics, geopolitics, diplomacy, conflict, sanctions, elections, and major government actions outside the U.S. (and cross-border policy). Ignore miscategorized or spammy items.
-
-PICK COUNT (PAID)
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-HARD FILTERS (DO NOT VIOLATE)
-Include ONLY if the story is primarily about:
-- National governments/political leaders (outside the U.S.) taking action (laws, elections, cabinet changes, crackdowns, resignations)
-- International diplomacy (summits, treaties, recognition, expulsions, hostage/prisoner deals)
-- Geopolitical conflict with clear state actors (wars, major escalations/de-escalations, ceasefires, peace talks)
-- Sanctions/export controls/major cross-border policy shifts (including U.S./EU/UN actions affecting other countries)
-- Major international institutions (UN, NATO, EU, ICC/ICJ, G7/G20, OPEC when it's political power leverage)
-
-EXCLUDE (AUTOMATIC REJECT)
-- Local crime/accidents not tied to politics/policy
-- Cars/product launches, exams/notifications, sports/celebrity
-- "On cam" sensational clips with no verified government action
-- Opinion-only pieces with no new event/decision
-- Duplicate coverage of the same event (keep the best one)
-
-RANKING (WHAT "MATTERS MOST")
-Prioritize real ACTION + CONSEQUENCE:
-1) Wars/ceasefires/major escalations; sanctions; military deployments; border closures
-2) Elections/coups/state instability that changes power
-3) Treaties/summits/recognition; major policy shifts affecting trade, migration, energy
-4) High-impact domestic laws with international ripple effects (mass protests, crackdowns, major court rulings)
-
-STYLE
-- Each bullet must give the full picture fast: what happened + what changes + who it affects.
-- Include the "why now" driver (election result, vote, court ruling, sanctions, diplomatic move, conflict escalation, leadership shakeup).
-- Include numbers (casualty counts, vote totals, dates, sanctions amounts) ONLY if explicitly stated in the article text provided. Never guess.
-- Avoid speculation unless the article itself frames it as such and you attribute it ("according to…", "analysts say…").
-
-OUTPUT RULES (KEEP EXACT SHAPE)
-For each summary object:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No duplicate titles, no repeated angles, no fluff.
-
-FINAL QUALITY CHECK
-- If fewer than 4 qualifying stories exist, return fewer (no filler).
-- If any chosen story could fit a different topic better than Global Politics, remove it.
-- If the main actor isn't a government/international institution or the event has no political consequence, remove it.`;
-
-  const scienceFreeInstructions = `You are Snipit, a no-fluff science summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Each bullet must include: what was discovered/announced + what's new + why it matters (real-world impact or next milestone).
-- If it's medical research, include study type/phase and the key finding ONLY if explicitly stated.
-- If it's space/astronomy, include the milestone and next step (launch, test, data release) if stated.
-- No hype; no "breakthrough" language unless the article uses it and supports it with specifics.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const sciencePaidInstructions = `You are Snipit, a no-fluff science summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Each bullet must include: what was discovered/announced + what's new + why it matters (real-world impact or next milestone).
-- If it's medical research, include study type/phase and the key finding ONLY if explicitly stated.
-- If it's space/astronomy, include the milestone and next step (launch, test, data release) if stated.
-- No hype; no "breakthrough" language unless the article uses it and supports it with specifics.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const environmentFreeInstructions = `You are Snipit, a no-fluff environment/climate summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Bullets must cover: what happened + what's driving it + what changes next (policy, cost, risks, timelines).
-- Prioritize: major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through.
-- Include metrics (temperatures, emissions, costs, targets, acres, adoption rates) ONLY if explicitly stated in the article text.
-- Avoid vague "awareness" stories unless there's a clear action or consequence.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const environmentPaidInstructions = `You are Snipit, a no-fluff environment/climate summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Bullets must cover: what happened + what's driving it + what changes next (policy, cost, risks, timelines).
-- Prioritize: major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through.
-- Include metrics (temperatures, emissions, costs, targets, acres, adoption rates) ONLY if explicitly stated in the article text.
-- Avoid vague "awareness" stories unless there's a clear action or consequence.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const lifestyleFreeInstructions = `You are Snipit, a no-fluff lifestyle/luxury summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Focus on changes that affect real decisions: launches, trend shifts, pricing moves, travel access, brand strategy, "what's in/out" with specifics.
-- Every bullet must include a concrete detail (brand/product/place/date/feature) ONLY if explicitly stated.
-- Avoid vague trend talk; make it specific: what it is + why it's popular + who it's for.
-
-Numbers & Momentum (ONLY if stated):
-
-If the article includes any quantified changes, include them in the bullet (%, $, units, rank, dates, YoY/QoQ, guidance ranges).
-
-If multiple metrics are available, include up to 3 in this order:
-
-Primary change (price increase / sales / subscribers / bookings / margins)
-
-Business impact (revenue/profit/traffic/conversion/retention)
-
-Forward-looking (guidance, next launch date, expansion count)
-
-Use labels to avoid ambiguity: Price: +X% | Sales: +Y% | Retention: +Z%
-
-Do not infer (“effective”, “led to”, “drove”) unless the article explicitly links the metric to the action.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const lifestylePaidInstructions = `You are Snipit, a no-fluff lifestyle/luxury summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Focus on changes that affect real decisions: launches, trend shifts, pricing moves, travel access, brand strategy, "what's in/out" with specifics.
-- Every bullet must include a concrete detail (brand/product/place/date/feature) ONLY if explicitly stated.
-- Avoid vague trend talk; make it specific: what it is + why it's popular + who it's for.
-
-Numbers & Momentum (ONLY if stated):
-
-If the article includes any quantified changes, include them in the bullet (%, $, units, rank, dates, YoY/QoQ, guidance ranges).
-
-If multiple metrics are available, include up to 3 in this order:
-
-Primary change (price increase / sales / subscribers / bookings / margins)
-
-Business impact (revenue/profit/traffic/conversion/retention)
-
-Forward-looking (guidance, next launch date, expansion count)
-
-Use labels to avoid ambiguity: Price: +X% | Sales: +Y% | Retention: +Z%
-
-Do not infer (“effective”, “led to”, “drove”) unless the article explicitly links the metric to the action.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const educationFreeInstructions = `You are Snipit, a no-fluff education summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Bullets must answer: what changed + who it affects (students/teachers/parents) + what's next.
-- Prioritize: policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules.
-- Include figures (budgets, enrollment, outcomes) ONLY if explicitly stated in the article text.
-- Avoid generic "education is changing" commentary.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const educationPaidInstructions = `You are Snipit, a no-fluff education summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Bullets must answer: what changed + who it affects (students/teachers/parents) + what's next.
-- Prioritize: policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules.
-- Include figures (budgets, enrollment, outcomes) ONLY if explicitly stated in the article text.
-- Avoid generic "education is changing" commentary.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const foodFreeInstructions = `You are Snipit, a no-fluff food summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Make it usable: what's new + what to try + why it's trending (or why it matters).
-- Prioritize: notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories.
-- Include specific dish/restaurant/city/ingredient details ONLY if explicitly stated in the article text.
-- Avoid filler like "foodies are excited" unless the article provides a real reason.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const foodPaidInstructions = `You are Snipit, a no-fluff food summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Make it usable: what's new + what to try + why it's trending (or why it matters).
-- Prioritize: notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories.
-- Include specific dish/restaurant/city/ingredient details ONLY if explicitly stated in the article text.
-- Avoid filler like "foodies are excited" unless the article provides a real reason.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const gamingFreeInstructions = `You are Snipit, a no-fluff gaming summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize: major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results.
-- If esports: include result/score/prize ONLY if explicitly stated in the article text; never guess.
-- If game updates: include what changed and what it means for players (meta, balance, progression) in plain terms.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const gamingPaidInstructions = `You are Snipit, a no-fluff gaming summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize: major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results.
-- If esports: include result/score/prize ONLY if explicitly stated in the article text; never guess.
-- If game updates: include what changed and what it means for players (meta, balance, progression) in plain terms.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const cultureFreeInstructions = `You are Snipit, a no-fluff culture summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Keep it substantive: what happened + the cultural significance + what changes next.
-- Prioritize: major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases).
-- Include specific names/places/dates ONLY if explicitly stated in the article text.
-- Avoid abstract opinion pieces unless there's a concrete news hook.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const culturePaidInstructions = `You are Snipit, a no-fluff culture summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Keep it substantive: what happened + the cultural significance + what changes next.
-- Prioritize: major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases).
-- Include specific names/places/dates ONLY if explicitly stated in the article text.
-- Avoid abstract opinion pieces unless there's a concrete news hook.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const parentingFreeInstructions = `You are Snipit, a no-fluff parenting/family summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize practical, credible updates: child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics.
-- Each bullet must include: what's the takeaway + what a parent should do/know next (only if the article supports it).
-- Avoid medical diagnosis language and avoid fear-mongering.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const parentingPaidInstructions = `You are Snipit, a no-fluff parenting/family summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize practical, credible updates: child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics.
-- Each bullet must include: what's the takeaway + what a parent should do/know next (only if the article supports it).
-- Avoid medical diagnosis language and avoid fear-mongering.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const automotiveFreeInstructions = `You are Snipit, a no-fluff automotive summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Bullets must include: what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety).
-- Prioritize: EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates.
-- Include specs (range, price, horsepower, charging time) ONLY if explicitly stated in the article text.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const automotivePaidInstructions = `You are Snipit, a no-fluff automotive summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Bullets must include: what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety).
-- Prioritize: EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates.
-- Include specs (range, price, horsepower, charging time) ONLY if explicitly stated in the article text.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const careerFreeInstructions = `You are Snipit, a no-fluff career summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize: hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics.
-- Each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article.
-- Include numbers (layoffs, wage data, openings) ONLY if explicitly stated.
-- Avoid generic motivation content.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const careerPaidInstructions = `You are Snipit, a no-fluff career summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize: hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics.
-- Each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article.
-- Include numbers (layoffs, wage data, openings) ONLY if explicitly stated.
-- Avoid generic motivation content.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const adventureFreeInstructions = `You are Snipit, a no-fluff adventure/outdoors summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize: park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events.
-- Make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated.
-- Include specific locations, dates, difficulty, costs ONLY if explicitly stated in the article text.
-- Avoid vague inspiration content.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const adventurePaidInstructions = `You are Snipit, a no-fluff adventure/outdoors summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize: park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events.
-- Make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated.
-- Include specific locations, dates, difficulty, costs ONLY if explicitly stated in the article text.
-- Avoid vague inspiration content.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const personalDevelopmentFreeInstructions = `You are Snipit, a no-fluff personal development summarizer (FREE TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 1–2 DISTINCT updates that matter most for the topic. Prefer 2 if possible (never exceed 2).
-
-Style:
-- Prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes.
-- Each bullet must include a concrete "try this" takeaway that is directly supported by the article.
-- Avoid pseudo-science, extreme claims, and generic motivation.
-- Include any numbers/study findings ONLY if explicitly stated in the article text.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const personalDevelopmentPaidInstructions = `You are Snipit, a no-fluff personal development summarizer (PAID TIER).
-
-Return ONLY valid JSON: {"summaries":[...]}.
-
-Pick 4–5 DISTINCT updates that matter most for the topic. Prefer 5 if possible (never exceed 5).
-
-Style:
-- Prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes.
-- Each bullet must include a concrete "try this" takeaway that is directly supported by the article.
-- Avoid pseudo-science, extreme claims, and generic motivation.
-- Include any numbers/study findings ONLY if explicitly stated in the article text.
-
-Output rules:
-- "title": short Snipit headline (6–15 words).
-- "bullets": up to 2 bullet strings, up to 3 short sentences each.
-- "url" and "source" must match the best supporting article.
-- No repetition.`;
-
-  const paidTierInstructions = `For PAID TIER, return 4-5 articles. Each article must have:
-- A "title" field with the article title
-- A "summary" field with a 2-3 sentence paragraph summary
-- "url" and "source" fields`;
-
-  const prompt = `Topic: ${topic}
-Format: ${format}
-
-You are summarizing news articles about "${topic}". From the articles below, ${
-    isSportsTopic
-      ? isPaid
-        ? 'apply the PAID sports instructions exactly as written. Focus on 4–5 distinct updates with quick-score lines when scores are provided in the article text, plus key storylines. Do not invent scores or stats.'
-        : 'apply the FREE sports instructions exactly as written. Focus on 1–2 distinct updates with quick-score lines when scores are provided in the article text, plus one key storyline. Do not invent scores or stats.'
-      : isBusinessTopic
-        ? isPaid
-          ? 'apply the PAID business/markets instructions exactly as written. Focus on 4–5 distinct updates with catalysts and include price/%/points only when provided. Use arrows for stock/crypto moves when numbers are present. Add a concise "so what" clause.'
-          : 'apply the FREE business/markets instructions exactly as written. Focus on 1–2 distinct updates with catalysts and include price/%/points only when provided. Use arrows for stock/crypto moves when numbers are present. Add a concise "so what" clause.'
-        : isTechTopic
-          ? isPaid
-            ? 'apply the PAID technology instructions exactly as written. Focus on 4–5 distinct updates with concrete details only when explicitly stated; include who it impacts and why it matters; for cybersecurity include who is affected and recommended actions if provided. Avoid hype/speculation.'
-            : 'apply the FREE technology instructions exactly as written. Focus on 1–2 distinct updates with concrete details only when explicitly stated; include who it impacts and why it matters; for cybersecurity include who is affected and recommended actions if provided. Avoid hype/speculation.'
-          : isHealthTopic
-            ? isPaid
-              ? 'apply the PAID health & wellness instructions exactly as written. Focus on 4–5 distinct updates, prioritizing guidelines, studies, recalls, and actionable advice with what it means for a normal person and what to do next. Include study type/phase and key result only if explicitly stated. No diagnosis language or miracle framing.'
-              : 'apply the FREE health & wellness instructions exactly as written. Focus on 1–2 distinct updates, prioritizing guidelines, studies, recalls, and actionable advice with what it means for a normal person and what to do next. Include study type/phase and key result only if explicitly stated. No diagnosis language or miracle framing.'
-            : isPoliticsTopic
-              ? isPaid
-                ? isUsPoliticsTopic
-                  ? 'apply the PAID U.S. POLITICS instructions exactly as written. Select ONLY stories about U.S. government/politics/policy; pick 4–5 distinct updates that matter most; prioritize real ACTION + CONSEQUENCE (laws/regulations, executive orders, court rulings, election moves); exclude non-U.S. politics, spam, and vague claims; return fewer if fewer than 4 qualifying stories exist.'
-                  : isGlobalPoliticsTopic
-                    ? 'apply the PAID GLOBAL POLITICS instructions exactly as written. Select ONLY stories about international politics, geopolitics, diplomacy, conflict, sanctions, elections, and major government actions outside the U.S.; pick 4–5 distinct updates that matter most; prioritize real ACTION + CONSEQUENCE (wars/ceasefires, elections/coups, treaties/summits, high-impact domestic laws); exclude local crime, spam, and vague claims; return fewer if fewer than 4 qualifying stories exist.'
-                    : 'apply the PAID politics instructions exactly as written. Focus on 4–5 distinct updates; full picture (what happened + what changes + who it affects); include "why now" drivers; include numbers only if provided; attribute speculation.'
-                : isUsPoliticsTopic
-                  ? 'apply the FREE U.S. POLITICS instructions exactly as written. Select ONLY stories about U.S. government/politics/policy; pick 1–2 distinct updates that matter most; prioritize real ACTION + CONSEQUENCE (laws/regulations, executive orders, court rulings, election moves); exclude non-U.S. politics, spam, and vague claims; return empty array if no qualifying stories exist.'
-                  : isGlobalPoliticsTopic
-                    ? 'apply the FREE GLOBAL POLITICS instructions exactly as written. Select ONLY stories about international politics, geopolitics, diplomacy, conflict, sanctions, elections, and major government actions outside the U.S.; pick 1–2 distinct updates that matter most; prioritize real ACTION + CONSEQUENCE (wars/ceasefires, elections/coups, treaties/summits, high-impact domestic laws); exclude local crime, spam, and vague claims; return empty array if no qualifying stories exist.'
-                    : 'apply the FREE politics instructions exactly as written. Focus on 1–2 distinct updates; full picture (what happened + what changes + who it affects); include "why now" drivers; include numbers only if provided; attribute speculation.'
-              : isWorldNewsTopic
-                ? isPaid
-                  ? 'apply the PAID world news instructions exactly as written. Focus on 4–5 distinct updates; answer what happened + where + why it matters globally; prioritize conflicts, elections, sanctions, diplomacy, disasters, economic shocks; include concrete details only if explicitly stated; stick to verified facts, no editorializing.'
-                  : 'apply the FREE world news instructions exactly as written. Focus on 1–2 distinct updates; answer what happened + where + why it matters globally; prioritize conflicts, elections, sanctions, diplomacy, disasters, economic shocks; include concrete details only if explicitly stated; stick to verified facts, no editorializing.'
-                : isScienceTopic
-                  ? isPaid
-                    ? 'apply the PAID science instructions exactly as written. Focus on 4–5 distinct updates; include what was discovered/announced + what\'s new + why it matters (real-world impact or next milestone); for medical research include study type/phase and key finding only if explicitly stated; for space/astronomy include milestone and next step if stated; no hype or "breakthrough" language unless article uses it with specifics.'
-                    : 'apply the FREE science instructions exactly as written. Focus on 1–2 distinct updates; include what was discovered/announced + what\'s new + why it matters (real-world impact or next milestone); for medical research include study type/phase and key finding only if explicitly stated; for space/astronomy include milestone and next step if stated; no hype or "breakthrough" language unless article uses it with specifics.'
-                  : isEnvironmentTopic
-                    ? isPaid
-                      ? 'apply the PAID environment/climate instructions exactly as written. Focus on 4–5 distinct updates; cover what happened + what\'s driving it + what changes next (policy, cost, risks, timelines); prioritize major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through; include metrics only if explicitly stated; avoid vague "awareness" stories unless there\'s a clear action or consequence.'
-                      : 'apply the FREE environment/climate instructions exactly as written. Focus on 1–2 distinct updates; cover what happened + what\'s driving it + what changes next (policy, cost, risks, timelines); prioritize major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through; include metrics only if explicitly stated; avoid vague "awareness" stories unless there\'s a clear action or consequence.'
-                    : isLifestyleTopic
-                      ? isPaid
-                        ? 'apply the PAID lifestyle/luxury instructions exactly as written. Focus on 4–5 distinct updates; focus on changes that affect real decisions (launches, trend shifts, pricing moves, travel access, brand strategy, "what\'s in/out" with specifics); include concrete details (brand/product/place/date/feature) only if explicitly stated; avoid vague trend talk; make it specific: what it is + why it\'s popular + who it\'s for.'
-                        : 'apply the FREE lifestyle/luxury instructions exactly as written. Focus on 1–2 distinct updates; focus on changes that affect real decisions (launches, trend shifts, pricing moves, travel access, brand strategy, "what\'s in/out" with specifics); include concrete details (brand/product/place/date/feature) only if explicitly stated; avoid vague trend talk; make it specific: what it is + why it\'s popular + who it\'s for.'
-                      : isEducationTopic
-                        ? isPaid
-                          ? 'apply the PAID education instructions exactly as written. Focus on 4–5 distinct updates; answer what changed + who it affects (students/teachers/parents) + what\'s next; prioritize policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules; include figures (budgets, enrollment, outcomes) only if explicitly stated; avoid generic "education is changing" commentary.'
-                          : 'apply the FREE education instructions exactly as written. Focus on 1–2 distinct updates; answer what changed + who it affects (students/teachers/parents) + what\'s next; prioritize policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules; include figures (budgets, enrollment, outcomes) only if explicitly stated; avoid generic "education is changing" commentary.'
-                        : isFoodTopic
-                          ? isPaid
-                            ? 'apply the PAID food instructions exactly as written. Focus on 4–5 distinct updates; make it usable: what\'s new + what to try + why it\'s trending (or why it matters); prioritize notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories; include specific dish/restaurant/city/ingredient details only if explicitly stated; avoid filler like "foodies are excited" unless the article provides a real reason.'
-                            : 'apply the FREE food instructions exactly as written. Focus on 1–2 distinct updates; make it usable: what\'s new + what to try + why it\'s trending (or why it matters); prioritize notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories; include specific dish/restaurant/city/ingredient details only if explicitly stated; avoid filler like "foodies are excited" unless the article provides a real reason.'
-                          : isGamingTopic
-                            ? isPaid
-                              ? 'apply the PAID gaming instructions exactly as written. Focus on 4–5 distinct updates; prioritize major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results; if esports include result/score/prize only if explicitly stated; if game updates include what changed and what it means for players (meta, balance, progression) in plain terms.'
-                              : 'apply the FREE gaming instructions exactly as written. Focus on 1–2 distinct updates; prioritize major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results; if esports include result/score/prize only if explicitly stated; if game updates include what changed and what it means for players (meta, balance, progression) in plain terms.'
-                            : isCultureTopic
-                              ? isPaid
-                                ? 'apply the PAID culture instructions exactly as written. Focus on 4–5 distinct updates; keep it substantive: what happened + the cultural significance + what changes next; prioritize major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases); include specific names/places/dates only if explicitly stated; avoid abstract opinion pieces unless there\'s a concrete news hook.'
-                                : 'apply the FREE culture instructions exactly as written. Focus on 1–2 distinct updates; keep it substantive: what happened + the cultural significance + what changes next; prioritize major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases); include specific names/places/dates only if explicitly stated; avoid abstract opinion pieces unless there\'s a concrete news hook.'
-                              : isParentingTopic
-                                ? isPaid
-                                  ? 'apply the PAID parenting/family instructions exactly as written. Focus on 4–5 distinct updates; prioritize practical, credible updates (child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics); each bullet must include what\'s the takeaway + what a parent should do/know next (only if the article supports it); avoid medical diagnosis language and avoid fear-mongering.'
-                                  : 'apply the FREE parenting/family instructions exactly as written. Focus on 1–2 distinct updates; prioritize practical, credible updates (child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics); each bullet must include what\'s the takeaway + what a parent should do/know next (only if the article supports it); avoid medical diagnosis language and avoid fear-mongering.'
-                                : isAutomotiveTopic
-                                  ? isPaid
-                                    ? 'apply the PAID automotive instructions exactly as written. Focus on 4–5 distinct updates; bullets must include what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety); prioritize EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates; include specs (range, price, horsepower, charging time) only if explicitly stated.'
-                                    : 'apply the FREE automotive instructions exactly as written. Focus on 1–2 distinct updates; bullets must include what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety); prioritize EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates; include specs (range, price, horsepower, charging time) only if explicitly stated.'
-                                      : isCareerTopic
-                                        ? isPaid
-                                          ? 'apply the PAID career instructions exactly as written. Focus on 4–5 distinct updates; prioritize hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics; each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article; include numbers (layoffs, wage data, openings) only if explicitly stated; avoid generic motivation content.'
-                                          : 'apply the FREE career instructions exactly as written. Focus on 1–2 distinct updates; prioritize hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics; each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article; include numbers (layoffs, wage data, openings) only if explicitly stated; avoid generic motivation content.'
-                                        : isAdventureTopic
-                                          ? isPaid
-                                            ? 'apply the PAID adventure/outdoors instructions exactly as written. Focus on 4–5 distinct updates; prioritize park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events; make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated; include specific locations, dates, difficulty, costs only if explicitly stated; avoid vague inspiration content.'
-                                            : 'apply the FREE adventure/outdoors instructions exactly as written. Focus on 1–2 distinct updates; prioritize park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events; make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated; include specific locations, dates, difficulty, costs only if explicitly stated; avoid vague inspiration content.'
-                                          : isPersonalDevelopmentTopic
-                                            ? isPaid
-                                              ? 'apply the PAID personal development instructions exactly as written. Focus on 4–5 distinct updates; prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes; each bullet must include a concrete "try this" takeaway that is directly supported by the article; avoid pseudo-science, extreme claims, and generic motivation; include any numbers/study findings only if explicitly stated.'
-                                              : 'apply the FREE personal development instructions exactly as written. Focus on 1–2 distinct updates; prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes; each bullet must include a concrete "try this" takeaway that is directly supported by the article; avoid pseudo-science, extreme claims, and generic motivation; include any numbers/study findings only if explicitly stated.'
-                                            : isPaid
-                                              ? `select the ${summaryCount} most relevant articles and provide concise, no-fluff paragraph summaries for each.`
-                                              : `identify the 2 most relevant and impactful points about "${topic}" based on the articles provided. These 2 points must be DISTINCT, UNIQUE, and directly related to "${topic}". Each point should be substantial, informative, and contain no fluff or repetition.`
-  } 
-
-STRICT REQUIREMENTS:
-- Prioritize articles that are DIRECTLY and PRIMARILY about "${topic}"
-- If articles are available that are directly about "${topic}", use those
-- If no articles are directly about "${topic}", select the MOST RELEVANT articles from what's available (articles where "${topic}" is a significant part of the content)
-- REJECT articles that only mention "${topic}" in passing or as a minor detail
-- NO repetition of information across summaries
-- NO duplicate or very similar titles
-- NO marketing language, filler words, or fluff - be concise and factual
-- Prioritize the most important, impactful, and recent developments
-- IMPORTANT: You must return at least 1 summary if any articles are provided. Only return an empty array if absolutely no articles relate to "${topic}" at all
-
-CONTENT CLEANING REQUIREMENTS:
-- IGNORE navigation text, metadata, and website UI elements in article descriptions
-- IGNORE patterns like "Follow Us On Social Media", "Skip to comments", "Posted on [date] by [author]", source attribution lines, etc.
-- IGNORE multiple headlines concatenated together - extract only the relevant content
-- Extract ONLY the actual news content, not website navigation or metadata
-- If an article description contains navigation/metadata text, focus on the actual news story content
+CONTENT CLEANING REQUIREMENTS:
+- IGNORE navigation text, metadata, and website UI elements in article descriptions
+- IGNORE patterns like "Follow Us On Social Media", "Skip to comments", "Posted on [date] by [author]", source attribution lines, etc.
+- IGNORE multiple headlines concatenated together - extract only the relevant content
+- Extract ONLY the actual news content, not website navigation or metadata
+- If an article description contains navigation/metadata text, focus on the actual news story content
 
 CRITICAL - INCOMPLETE INFORMATION HANDLING:
 - ONLY use information that is COMPLETE and FULLY STATED in the article text provided
@@ -2592,72 +236,14 @@ CRITICAL - INCOMPLETE INFORMATION HANDLING:
 - NEVER make up, infer, or complete partial information - only use what is explicitly and completely stated
 - If an article description is incomplete and you cannot form a complete bullet point from the available information, skip that article and use a different one
 
-${isSportsTopic
-    ? (isPaid ? sportsPaidInstructions : sportsFreeInstructions)
-    : isBusinessTopic
-      ? (isPaid ? businessPaidInstructions : businessFreeInstructions)
-      : isTechTopic
-        ? (isPaid ? techPaidInstructions : techFreeInstructions)
-        : isHealthTopic
-          ? (isPaid ? healthPaidInstructions : healthFreeInstructions)
-          : isPoliticsTopic
-            ? (isPaid ? (isUsPoliticsTopic ? usPoliticsPaidInstructions : (isGlobalPoliticsTopic ? globalPoliticsPaidInstructions : politicsPaidInstructions)) : (isUsPoliticsTopic ? usPoliticsFreeInstructions : (isGlobalPoliticsTopic ? globalPoliticsFreeInstructions : politicsFreeInstructions)))
-            : isWorldNewsTopic
-              ? (isPaid ? worldNewsPaidInstructions : worldNewsFreeInstructions)
-              : isScienceTopic
-                ? (isPaid ? sciencePaidInstructions : scienceFreeInstructions)
-                : isEnvironmentTopic
-                  ? (isPaid ? environmentPaidInstructions : environmentFreeInstructions)
-                  : isLifestyleTopic
-                    ? (isPaid ? lifestylePaidInstructions : lifestyleFreeInstructions)
-                    : isEducationTopic
-                      ? (isPaid ? educationPaidInstructions : educationFreeInstructions)
-                      : isFoodTopic
-                        ? (isPaid ? foodPaidInstructions : foodFreeInstructions)
-                        : isGamingTopic
-                          ? (isPaid ? gamingPaidInstructions : gamingFreeInstructions)
-                          : isCultureTopic
-                            ? (isPaid ? culturePaidInstructions : cultureFreeInstructions)
-                            : isParentingTopic
-                              ? (isPaid ? parentingPaidInstructions : parentingFreeInstructions)
-                              : isAutomotiveTopic
-                                ? (isPaid ? automotivePaidInstructions : automotiveFreeInstructions)
-                                : isCareerTopic
-                                  ? (isPaid ? careerPaidInstructions : careerFreeInstructions)
-                                : isAdventureTopic
-                                  ? (isPaid ? adventurePaidInstructions : adventureFreeInstructions)
-                                  : isPersonalDevelopmentTopic
-                                    ? (isPaid ? personalDevelopmentPaidInstructions : personalDevelopmentFreeInstructions)
-                                    : isPaid ? paidTierInstructions : freeTierInstructions}
-
-${isSportsTopic && sportsScoresData && sportsScoresData.scores.length > 0
-  ? `
-TOP 3 SCORES FROM THE NIGHT PRIOR (MUST REFERENCE THESE FIRST):
-${sportsScoresData.scores.map((score, idx) => 
-  `${idx + 1}. ${score.awayTeam} ${score.awayScore} - ${score.homeScore} ${score.homeTeam} (${score.status})${score.standoutStats ? ` | ${score.standoutStats}` : ''}${score.trends ? ` | ${score.trends}` : ''}`
-).join('\n')}
-
-${sportsScoresData.tournaments.length > 0
-  ? `\nACTIVE TOURNAMENTS:\n${sportsScoresData.tournaments.map(t => 
-    `- ${t.name}${t.currentRound ? ` (${t.currentRound})` : ''}`
-  ).join('\n')}`
-  : ''}
-
-CRITICAL INSTRUCTIONS FOR SPORTS SUMMARIES:
-- These are the TOP 3 most important games/matches/scores prioritized from the day before (last 24 hours), or from the last week if no games from yesterday
-- Example: If email is sent Jan 24 morning, prioritize scores from Jan 23. If no scores from Jan 23, use most recent from last week (e.g., NFL Sunday games if it's Tuesday)
-- You MUST reference these scores FIRST before any other content
-- For the general "sports" topic: reference all 3 scores from the day before (or last week if needed)
-- For subtopics (NFL, NBA, MLB, etc.): reference the 3 most important games from the day before (or last week if needed) for that specific league
-- Format each score as a "quick score" bullet: [AWAY_TEAM] [AWAY_SCORE] — [HOME_SCORE] [HOME_TEAM] ([STATUS])
-- Only use scores from the list above - do NOT invent or guess scores
-- After covering these 3 scores, then proceed with the rest of the normal sports prompt (other storylines, trades, injuries, etc.)
-`
-  : ''
-}
+${prompts.instructions}
+${depthSettings.instructions}
+${citationInstructions}
+${promptContext}
 
 CRITICAL: Return ONLY valid JSON. No markdown, no code blocks, no additional text. The JSON must be parseable.
 CRITICAL: Do NOT copy article descriptions verbatim. Write your OWN complete sentences. Article descriptions may be truncated/cut off — never reproduce truncated text. Every bullet must end with proper punctuation (period, question mark, or exclamation mark) and be a complete thought.
+When an article includes "Full text", treat it as the primary source: take names, figures, dates and quotes from it rather than from the description.
 
 Articles to choose from:
 ${articlesToSummarize
@@ -2668,11 +254,22 @@ ${articlesToSummarize
       const description = article.description 
         ? truncateAtSentenceBoundary(article.description, 1500)
         : 'No description available';
+      // Extracted body text, when available, is capped tighter per article so
+      // seven articles stay within a reasonable prompt size
+      const fullText = article.content
+        ? `\nFull text: ${truncateAtSentenceBoundary(article.content, 3000)}`
+        : '';
+      // Other outlets' takes on the story, shorter still
+      const coverage = article.siblings?.length
+        ? `\nAlso covered by:\n${article.siblings
+            .map((sibling) => `- ${sibling.source}: ${sibling.title}${sibling.description ? ` - ${truncateAtSentenceBoundary(sibling.description, 400)}` : ''} (URL: ${sibling.url})`)
+            .join('\n')}`
+        : '';
       
       return `${index + 1}. Title: ${article.title}
-Description: ${description}
+Description: ${description}${fullText}
 Source: ${article.source.name}
-URL: ${article.url}`;
+URL: ${article.url}${coverage}`;
     }
   )
   .join('\n\n')}`;
@@ -2682,223 +279,78 @@ URL: ${article.url}`;
 
   while (retries < MAX_RETRIES) {
     try {
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
+      const { value: parsed, issues } = await withUsageContext({ topic }, () => completeValidatedJson(
+        'summarization',
         {
-          role: 'system',
-          content: isSportsTopic
-            ? isPaid
-              ? `You are Snipit, a no-fluff sports news summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid sports instructions: pick 4-5 distinct updates (prefer 5, max 5); concise bullets (what happened + key detail + why it matters); include a quick-score line only when the provided article text contains an actual score; never invent scores, stats, or records; only use complete information - skip incomplete statements; no markdown or code fences.`
-              : `You are Snipit, a no-fluff sports news summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free sports instructions: pick 1-2 distinct updates (prefer 2, max 2); concise bullets (what happened + key detail + why it matters); include a quick-score line only when the provided article text contains an actual score; never invent scores, stats, or records; only use complete information - skip incomplete statements; no markdown or code fences.`
-            : isBusinessTopic
-              ? isPaid
-                ? `You are Snipit, a no-fluff business/markets summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid business instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; include price/%/points only if present; add arrows for stock/crypto moves when numbers exist; always include the driver/catalyst; add a concise "so what" clause; only use complete information - skip incomplete statements; no markdown or code fences.`
-                : `You are Snipit, a no-fluff business/markets summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free business instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; include price/%/points only if present; add arrows for stock/crypto moves when numbers exist; always include the driver/catalyst; add a concise "so what" clause; only use complete information - skip incomplete statements; no markdown or code fences.`
-              : isTechTopic
-                ? isPaid
-                  ? `You are Snipit, a no-fluff technology summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid technology instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; give the full picture fast (what changed + who it impacts + why it matters); include one concrete detail only if explicitly stated; for cybersecurity, state who's affected and recommended actions if provided; avoid hype/speculation; only use complete information - skip incomplete statements; no markdown or code fences.`
-                  : `You are Snipit, a no-fluff technology summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free technology instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; give the full picture fast (what changed + who it impacts + why it matters); include one concrete detail only if explicitly stated; for cybersecurity, state who's affected and recommended actions if provided; avoid hype/speculation; only use complete information - skip incomplete statements; no markdown or code fences.`
-                : isHealthTopic
-                  ? isPaid
-                    ? `You are Snipit, a no-fluff health & wellness summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid health instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize guidelines, studies, recalls, actionable advice; include what it means for a normal person and what to do next; include study type/phase and key result only if explicitly stated; no diagnosis language or miracle framing; only use complete information - skip incomplete statements; no markdown or code fences.`
-                    : `You are Snipit, a no-fluff health & wellness summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free health instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize guidelines, studies, recalls, actionable advice; include what it means for a normal person and what to do next; include study type/phase and key result only if explicitly stated; no diagnosis language or miracle framing; only use complete information - skip incomplete statements; no markdown or code fences.`
-                  : isPoliticsTopic
-                    ? isPaid
-                      ? `You are Snipit, a no-fluff politics summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid politics instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; full picture (what happened + what changes + who it affects); include "why now" drivers; include numbers only if provided; attribute speculation; only use complete information - skip incomplete statements; no markdown or code fences.`
-                      : `You are Snipit, a no-fluff politics summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free politics instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; full picture (what happened + what changes + who it affects); include "why now" drivers; include numbers only if provided; attribute speculation; only use complete information - skip incomplete statements; no markdown or code fences.`
-                    : isWorldNewsTopic
-                      ? isPaid
-                        ? `You are Snipit, a no-fluff world news summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid world news instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; answer what happened + where + why it matters globally; prioritize conflicts, elections, sanctions, diplomacy, disasters, economic shocks; include concrete details only if explicitly stated; stick to verified facts, no editorializing; only use complete information - skip incomplete statements; no markdown or code fences.`
-                        : `You are Snipit, a no-fluff world news summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free world news instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; answer what happened + where + why it matters globally; prioritize conflicts, elections, sanctions, diplomacy, disasters, economic shocks; include concrete details only if explicitly stated; stick to verified facts, no editorializing; only use complete information - skip incomplete statements; no markdown or code fences.`
-                      : isScienceTopic
-                        ? isPaid
-                          ? `You are Snipit, a no-fluff science summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid science instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; include what was discovered/announced + what's new + why it matters (real-world impact or next milestone); for medical research include study type/phase and key finding only if explicitly stated; for space/astronomy include milestone and next step if stated; no hype or "breakthrough" language unless article uses it with specifics; only use complete information - skip incomplete statements; no markdown or code fences.`
-                          : `You are Snipit, a no-fluff science summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free science instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; include what was discovered/announced + what's new + why it matters (real-world impact or next milestone); for medical research include study type/phase and key finding only if explicitly stated; for space/astronomy include milestone and next step if stated; no hype or "breakthrough" language unless article uses it with specifics; only use complete information - skip incomplete statements; no markdown or code fences.`
-                        : isEnvironmentTopic
-                          ? isPaid
-                            ? `You are Snipit, a no-fluff environment/climate summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid environment instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; cover what happened + what's driving it + what changes next (policy, cost, risks, timelines); prioritize major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through; include metrics only if explicitly stated; avoid vague "awareness" stories unless there's a clear action or consequence; only use complete information - skip incomplete statements; no markdown or code fences.`
-                            : `You are Snipit, a no-fluff environment/climate summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free environment instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; cover what happened + what's driving it + what changes next (policy, cost, risks, timelines); prioritize major climate events, renewables policy, regulation, conservation actions, corporate commitments with real follow-through; include metrics only if explicitly stated; avoid vague "awareness" stories unless there's a clear action or consequence; only use complete information - skip incomplete statements; no markdown or code fences.`
-                          : isLifestyleTopic
-                            ? isPaid
-                              ? `You are Snipit, a no-fluff lifestyle/luxury summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid lifestyle instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; focus on changes that affect real decisions (launches, trend shifts, pricing moves, travel access, brand strategy, "what's in/out" with specifics); include concrete details (brand/product/place/date/feature) only if explicitly stated; avoid vague trend talk; make it specific: what it is + why it's popular + who it's for; only use complete information - skip incomplete statements; no markdown or code fences.`
-                              : `You are Snipit, a no-fluff lifestyle/luxury summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free lifestyle instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; focus on changes that affect real decisions (launches, trend shifts, pricing moves, travel access, brand strategy, "what's in/out" with specifics); include concrete details (brand/product/place/date/feature) only if explicitly stated; avoid vague trend talk; make it specific: what it is + why it's popular + who it's for; only use complete information - skip incomplete statements; no markdown or code fences.`
-                            : isEducationTopic
-                              ? isPaid
-                                ? `You are Snipit, a no-fluff education summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid education instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; answer what changed + who it affects (students/teachers/parents) + what's next; prioritize policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules; include figures (budgets, enrollment, outcomes) only if explicitly stated; avoid generic "education is changing" commentary; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                : `You are Snipit, a no-fluff education summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free education instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; answer what changed + who it affects (students/teachers/parents) + what's next; prioritize policy shifts, funding changes, curriculum/testing updates, major edtech moves, higher ed admissions/AI rules; include figures (budgets, enrollment, outcomes) only if explicitly stated; avoid generic "education is changing" commentary; only use complete information - skip incomplete statements; no markdown or code fences.`
-                              : isFoodTopic
-                                ? isPaid
-                                  ? `You are Snipit, a no-fluff food summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid food instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; make it usable: what's new + what to try + why it's trending (or why it matters); prioritize notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories; include specific dish/restaurant/city/ingredient details only if explicitly stated; avoid filler like "foodies are excited" unless the article provides a real reason; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                  : `You are Snipit, a no-fluff food summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free food instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; make it usable: what's new + what to try + why it's trending (or why it matters); prioritize notable restaurant openings/closures, major food recalls, big trend shifts, standout recipe/technique stories; include specific dish/restaurant/city/ingredient details only if explicitly stated; avoid filler like "foodies are excited" unless the article provides a real reason; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                : isGamingTopic
-                                  ? isPaid
-                                    ? `You are Snipit, a no-fluff gaming summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid gaming instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results; if esports include result/score/prize only if explicitly stated; if game updates include what changed and what it means for players (meta, balance, progression) in plain terms; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                    : `You are Snipit, a no-fluff gaming summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free gaming instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize major releases, delays, patches/nerfs, platform moves, studio acquisitions/closures, esports results; if esports include result/score/prize only if explicitly stated; if game updates include what changed and what it means for players (meta, balance, progression) in plain terms; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                  : isCultureTopic
-                                    ? isPaid
-                                      ? `You are Snipit, a no-fluff culture summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid culture instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; keep it substantive: what happened + the cultural significance + what changes next; prioritize major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases); include specific names/places/dates only if explicitly stated; avoid abstract opinion pieces unless there's a concrete news hook; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                      : `You are Snipit, a no-fluff culture summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free culture instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; keep it substantive: what happened + the cultural significance + what changes next; prioritize major exhibitions/books, heritage findings, big cultural debates with real events (bans, awards, policy, releases); include specific names/places/dates only if explicitly stated; avoid abstract opinion pieces unless there's a concrete news hook; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                    : isParentingTopic
-                                      ? isPaid
-                                        ? `You are Snipit, a no-fluff parenting/family summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid parenting instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize practical, credible updates (child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics); each bullet must include what's the takeaway + what a parent should do/know next (only if the article supports it); avoid medical diagnosis language and avoid fear-mongering; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                        : `You are Snipit, a no-fluff parenting/family summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free parenting instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize practical, credible updates (child development guidance, school/family policy changes, safety recalls, teen tech trends with specifics); each bullet must include what's the takeaway + what a parent should do/know next (only if the article supports it); avoid medical diagnosis language and avoid fear-mongering; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                      : isAutomotiveTopic
-                                        ? isPaid
-                                          ? `You are Snipit, a no-fluff automotive summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid automotive instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; bullets must include what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety); prioritize EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates; include specs (range, price, horsepower, charging time) only if explicitly stated; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                            : `You are Snipit, a no-fluff automotive summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free automotive instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; bullets must include what changed + the concrete detail + why it matters (buyers, manufacturers, regulation, pricing, safety); prioritize EV moves, recalls, new models, charging/infra changes, major manufacturer strategy, autonomous/drone transport updates; include specs (range, price, horsepower, charging time) only if explicitly stated; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                          : isCareerTopic
-                                            ? isPaid
-                                              ? `You are Snipit, a no-fluff career summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid career instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics; each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article; include numbers (layoffs, wage data, openings) only if explicitly stated; avoid generic motivation content; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                              : `You are Snipit, a no-fluff career summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free career instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize hiring trends, pay/benefits shifts, major workplace policy, remote work moves, and high-signal job-search tactics; each bullet must include one actionable takeaway (what to do / what to watch) grounded in the article; include numbers (layoffs, wage data, openings) only if explicitly stated; avoid generic motivation content; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                            : isAdventureTopic
-                                              ? isPaid
-                                                ? `You are Snipit, a no-fluff adventure/outdoors summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid adventure instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events; make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated; include specific locations, dates, difficulty, costs only if explicitly stated; avoid vague inspiration content; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                                : `You are Snipit, a no-fluff adventure/outdoors summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free adventure instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize park access/closures, permit changes, gear safety recalls, major route/trail updates, standout destinations/events; make it usable: what changed + where + what to do next (timing/permit/route alternative) if stated; include specific locations, dates, difficulty, costs only if explicitly stated; avoid vague inspiration content; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                              : isPersonalDevelopmentTopic
-                                                ? isPaid
-                                                  ? `You are Snipit, a no-fluff personal development summarizer for PAID TIER. Return ONLY valid JSON with "summaries". Follow the paid personal development instructions: pick 4-5 distinct updates (prefer 5, max 5); bullets only; prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes; each bullet must include a concrete "try this" takeaway that is directly supported by the article; avoid pseudo-science, extreme claims, and generic motivation; include any numbers/study findings only if explicitly stated; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                                  : `You are Snipit, a no-fluff personal development summarizer for FREE TIER. Return ONLY valid JSON with "summaries". Follow the free personal development instructions: pick 1-2 distinct updates (prefer 2, max 2); bullets only; prioritize high-signal, practical ideas tied to evidence, research, or real workplace/productivity outcomes; each bullet must include a concrete "try this" takeaway that is directly supported by the article; avoid pseudo-science, extreme claims, and generic motivation; include any numbers/study findings only if explicitly stated; only use complete information - skip incomplete statements; no markdown or code fences.`
-                                                : isPaid
-                                                  ? `You are a news summarizer for paid tier. Return ONLY valid JSON with 4-5 articles about "${topic}". Prioritize articles where "${topic}" is the main subject, but if needed, select the most relevant articles available. Each article must have "title", "summary" (2-3 sentences, no fluff), "url", and "source". IMPORTANT: You must return at least 1 summary from the provided articles. Only return empty array if absolutely no articles relate to "${topic}". Only use complete information - skip incomplete statements. Ensure no duplicate titles or repeated information. No markdown, no code blocks.`
-                                                  : `You are a news summarizer for free tier. Return ONLY valid JSON with 1-2 summaries (prefer 2, but return 1 if that's all available) about "${topic}". Prioritize summaries where "${topic}" is the main subject, but if needed, select the most relevant articles available. Each summary must have "title" (unique, no duplicates), "bullets" (array with exactly 1 string, 1-2 sentences, no fluff), "url", and "source". IMPORTANT: You must return at least 1 summary from the provided articles. Only return empty array if absolutely no articles relate to "${topic}". Only use complete information - skip incomplete statements. Ensure all points are DISTINCT and UNIQUE - no repetition. No markdown, no code blocks.`,
+          messages: [
+            {
+              role: 'system',
+              content: prompts.system,
+            },
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+          temperature: 0.3,
+          maxTokens: 1500, // OPTIMIZATION: Reduced from 2000
+          mockResponse: () => buildMockSummaries(articlesToSummarize),
         },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-        max_tokens: 1500, // OPTIMIZATION: Reduced from 2000
-        response_format: { type: 'json_object' }, // OPTIMIZATION: Force JSON mode for better reliability
-      });
+        getSummarySchema(format)
+      ));
 
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
-        throw new Error('No response from OpenAI');
+      // Summaries the schema dropped (missing fields, truncated bullets)
+      for (const issue of issues) {
+        console.warn(`[OpenAI] Dropped ${issue.path} for "${topic}": ${issue.message}`);
       }
 
-      // Log raw response for debugging (first 500 chars)
-      console.log(`[OpenAI] Raw response (first 500 chars):`, response.substring(0, 500));
-
-      // Try to extract JSON from response (in case there's extra text)
-      let jsonString = response.trim();
-      
-      // Remove markdown code blocks if present
-      if (jsonString.startsWith('```json')) {
-        jsonString = jsonString.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (jsonString.startsWith('```')) {
-        jsonString = jsonString.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      // Try to find JSON object
-      const jsonMatch = jsonString.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        jsonString = jsonMatch[0];
-      }
+      if (parsed.summaries.length > 0) {
+        // Counts come from the topic's category, adjusted for the reader's depth: aim
+        // for the preferred count, keep at most max, but accept fewer if that's all
+        // the model returned
+        const useParagraphs = format === 'paragraphs';
+        const { preferred: preferredCount, max: maxCount } = depthSettings.counts;
+        const minAcceptableCount = 1; // Accept 1 or more summaries
 
-      let parsed;
-      try {
-        parsed = JSON.parse(jsonString);
-      } catch (parseError) {
-        console.error(`[OpenAI] JSON parse error:`, parseError);
-        console.error(`[OpenAI] Attempted to parse:`, jsonString.substring(0, 200));
-        throw new Error(`Failed to parse JSON response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
-      }
+        const { maxBullets } = depthSettings;
+        const wellFormedSummaries = parsed.summaries
+          .slice(0, maxCount)
+          .map((item) => (maxBullets !== null && item.bullets ? { ...item, bullets: item.bullets.slice(0, maxBullets) } : item));
 
-      // Ensure we have summaries
-      if (!parsed || typeof parsed !== 'object') {
-        throw new Error('Response is not a valid JSON object');
-      }
+        // Category-specific checks (e.g. no invented sports scores)
+        const validationContext = {
+          topic,
+          sourceText: [
+            promptContext,
+            ...articlesToSummarize.map((a) => `${a.title} ${a.description} ${a.content ?? ''}`),
+          ].join('\n').toLowerCase(),
+        };
+        const categorySummaries = (category.validators ?? []).reduce(
+          (items, validate) => items.flatMap((item) => {
+            const checked = validate(item, validationContext);
+            return checked ? [checked] : [];
+          }),
+          wellFormedSummaries
+        );
+
+        if (categorySummaries.length === 0) {
+          throw new Error('All summaries failed category checks');
+        }
 
-      if (
-        parsed.summaries &&
-        Array.isArray(parsed.summaries) &&
-        parsed.summaries.length > 0
-      ) {
-        // For free tier: prefer 3 summaries, but accept 1-2 if that's all available
-        // For paid tier: prefer 4-5 summaries, but accept fewer if needed
-        // Sports, Business, Tech, Health, Politics: use bullet format for both tiers; counts differ by tier
-        const usePaidFormat = isPaid && !isSportsTopic && !isBusinessTopic && !isTechTopic && !isHealthTopic && !isPoliticsTopic;
-        const preferredCount = isSportsTopic
-          ? isPaid ? 5 : 3
-          : isBusinessTopic
-            ? isPaid ? 5 : 3
-            : isTechTopic
-              ? isPaid ? 5 : 3
-              : isHealthTopic
-                ? isPaid ? 5 : 3
-                : isPoliticsTopic
-                  ? isPaid ? 5 : 3
-            : usePaidFormat ? 4 : 3;
-        const maxCount = isSportsTopic
-          ? isPaid ? 5 : 3
-          : isBusinessTopic
-            ? isPaid ? 5 : 3
-            : isTechTopic
-              ? isPaid ? 5 : 3
-              : isHealthTopic
-                ? isPaid ? 5 : 3
-                : isPoliticsTopic
-                  ? isPaid ? 5 : 3
-                  : usePaidFormat ? 5 : 3;
-        const minAcceptableCount = 1; // Accept 1 or more summaries
-        
-        let summaries = parsed.summaries;
-        
-        // Limit to max count
-        summaries = summaries.slice(0, maxCount);
-        
-        // Validate each summary has required fields
-        const validSummaries = summaries.filter((s: any) => {
-          if (!s || typeof s !== 'object' || !s.title || !s.url || !s.source) {
-            console.warn(`[OpenAI] Invalid summary structure: missing required fields`, s);
-            return false;
-          }
-          
-          if (!usePaidFormat) {
-            // Bulleted format (free tier or sports): MUST have bullets array with at least 1 item
-            if (!s.bullets || !Array.isArray(s.bullets)) {
-              console.warn(`[OpenAI] Bulleted summary missing bullets array:`, s.title);
-              return false;
-            }
-            if (s.bullets.length < 1) {
-              console.warn(`[OpenAI] Bulleted summary has no bullets:`, s.title);
-              return false;
-            }
-            // Ensure all bullets are non-empty strings that end with proper punctuation
-            // (rejects truncated/cut-off text copied from article descriptions)
-            const validBullets = s.bullets.filter((b: string) => {
-              if (typeof b !== 'string' || b.trim().length === 0) return false;
-              const trimmed = b.trim();
-              // Reject bullets that don't end with sentence-ending punctuation
-              // This catches truncated article descriptions copied verbatim
-              if (!/[.!?)"']$/.test(trimmed)) {
-                console.warn(`[OpenAI] Rejecting truncated bullet (no terminal punctuation): "${trimmed.substring(trimmed.length - 40)}..."`);
-                return false;
-              }
-              return true;
-            });
-            if (validBullets.length < 1) {
-              console.warn(`[OpenAI] Bulleted summary has no valid bullets (all truncated or empty):`, s.title);
-              return false;
-            }
-            // Keep all valid bullets (can be 1 or more)
-            s.bullets = validBullets;
-            return true;
-          } else {
-            // Paid paragraph format: MUST have summary field
-            if (!s.summary || typeof s.summary !== 'string' || s.summary.trim().length === 0) {
-              console.warn(`[OpenAI] Paid tier summary missing summary field:`, s.title);
-              return false;
-            }
-            return true;
-          }
+        // Drop bullets (or sentences) with numbers or names missing from the cited article
+        const faithfulness = checkFaithfulness(categorySummaries, articlesToSummarize, {
+          format,
+          sharedContext: `${topic}\n${promptContext}`,
         });
-        
-        // Accept summaries if we have at least 1, but prefer the preferred count
+        for (const failure of faithfulness.failures) {
+          console.warn(`[Faithfulness] Dropped from "${topic}": ${describeFailure(failure)}`);
+        }
+
+        // Accept summaries if we have at least 1, but prefer the preferred count.
+        // With none left, regenerate rather than send unsupported claims.
+        const validSummaries = faithfulness.summaries;
         if (validSummaries.length === 0) {
-          throw new Error('All summaries are missing required fields');
+          throw new Error('Invalid summaries: none passed the faithfulness check');
         }
         
         // If we have fewer than preferred, log a warning but continue (don't retry)
@@ -2909,7 +361,7 @@ URL: ${article.url}`;
         }
         
         // Post-processing: Deduplicate titles and bullets to ensure uniqueness
-        const deduplicatedSummaries = deduplicateSummaries(validSummaries, usePaidFormat);
+        const deduplicatedSummaries = deduplicateSummaries(validSummaries, useParagraphs);
         
         // Use deduplicated summaries (even if fewer than preferred)
         const finalSummaries = deduplicatedSummaries.length > 0 
@@ -2925,7 +377,12 @@ URL: ${article.url}`;
         
         const result: NewsSummary = {
           topic,
+          format,
+          depth,
+          promptVersionId: resolvedPrompts.versionId,
+          experiment: resolvedPrompts.experiment,
           summaries: finalSummaries,
+          faithfulnessFailures: faithfulness.failures,
         };
 
         // Note: Summaries are no longer cached - articles are cached in article_cache table
@@ -2934,35 +391,24 @@ URL: ${article.url}`;
         return result;
         }
       } else {
-        // If summaries array is empty, log the articles that were provided for debugging
-        if (parsed.summaries && Array.isArray(parsed.summaries) && parsed.summaries.length === 0) {
-          console.warn(`[OpenAI] OpenAI returned empty summaries array for topic: "${topic}"`);
-          console.log(`[OpenAI] Articles provided to OpenAI (${articlesToSummarize.length}):`, 
-            articlesToSummarize.map(a => ({ title: a.title.substring(0, 100), url: a.url }))
-          );
-          
-          // If we haven't exceeded max retries and we have articles, retry with a less strict approach
-          if (retries < MAX_RETRIES && articlesToSummarize.length > 0) {
-            retries++; // Increment retry counter
-            console.log(`[OpenAI] Retrying with less strict relevance requirements... (attempt ${retries}/${MAX_RETRIES})`);
-            // Add a small delay before retrying
-            await new Promise((resolve) => setTimeout(resolve, 500));
-            continue; // Retry the loop
-          } else {
-            // Max retries reached or no articles - break out and use fallback
-            console.warn(`[OpenAI] Max retries reached or no articles available for "${topic}" - will use fallback`);
-            break;
-          }
-        }
+        // The model found nothing relevant; log the articles that were provided for debugging
+        console.warn(`[OpenAI] OpenAI returned empty summaries array for topic: "${topic}"`);
+        console.log(`[OpenAI] Articles provided to OpenAI (${articlesToSummarize.length}):`, 
+          articlesToSummarize.map(a => ({ title: a.title.substring(0, 100), url: a.url }))
+        );
         
-        console.error(`[OpenAI] Invalid response structure:`, {
-          hasSummaries: !!parsed.summaries,
-          isArray: Array.isArray(parsed.summaries),
-          length: parsed.summaries?.length,
-          keys: Object.keys(parsed),
-          sample: JSON.stringify(parsed).substring(0, 200),
-        });
-        throw new Error('Response missing summaries array or summaries array is empty');
+        // If we haven't exceeded max retries and we have articles, retry with a less strict approach
+        if (retries < MAX_RETRIES && articlesToSummarize.length > 0) {
+          retries++; // Increment retry counter
+          console.log(`[OpenAI] Retrying with less strict relevance requirements... (attempt ${retries}/${MAX_RETRIES})`);
+          // Add a small delay before retrying
+          await new Promise((resolve) => setTimeout(resolve, 500));
+          continue; // Retry the loop
+        } else {
+          // Max retries reached or no articles - break out and use fallback
+          console.warn(`[OpenAI] Max retries reached or no articles available for "${topic}" - will use fallback`);
+          break;
+        }
       }
     } catch (error: unknown) {
       retries++;
@@ -2986,10 +432,11 @@ URL: ${article.url}`;
         console.log(`[OpenAI] Rate limited, waiting ${delay}ms before retry...`);
         await new Promise((resolve) => setTimeout(resolve, delay));
         continue;
-      } else if (errorMessage.includes('invalid') || errorMessage.includes('parse')) {
-        // JSON parsing error - try one more time with different approach
+      } else if (errorMessage.includes('Invalid') || errorMessage.includes('invalid')) {
+        // Response still didn't match the schema after the repair prompt, or nothing
+        // in it was faithful to the articles - try once more
         if (retries < MAX_RETRIES) {
-          console.log('[OpenAI] JSON parse error, retrying...');
+          console.log('[OpenAI] Invalid response, retrying...');
           continue;
         }
         break;
@@ -3035,6 +482,8 @@ URL: ${article.url}`;
     // Paid tier fallback: paragraph summaries from top 3 articles
     fallbackResult = {
       topic,
+      format: 'paragraphs',
+      fallback: true,
       summaries: articlesToUse.map((article) => {
         const cleanedDesc = cleanArticleContent(article.description);
         return {
@@ -3050,6 +499,8 @@ URL: ${article.url}`;
     // Use each article as a separate summary with its description as a bullet
     fallbackResult = {
       topic,
+      format: 'bullets',
+      fallback: true,
       summaries: articlesToUse.map((article) => {
         const cleanedDesc = cleanArticleContent(article.description);
         const bulletText = truncateAtSentenceBoundary(cleanedDesc, 500);
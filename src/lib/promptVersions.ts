@@ -0,0 +1,197 @@
+import { getSupabaseAdmin } from './supabase';
+import type { NewsSummary } from './openai';
+import { PromptExperimentRow, ExperimentAssignment, assignArm, getArmVersionId } from './experiments';
+import {
+  CategoryPrompts,
+  SummaryTier,
+  TopicCategory,
+  TOPIC_CATEGORIES,
+  DEFAULT_CATEGORY,
+  getTopicCategory,
+  getCategoryPrompts,
+} from './topicCategories';
+
+// Summarization prompts edited from the admin portal's Prompts tab. Each save is a
+// new numbered row in prompt_versions for a (category, tier); at most one row per
+// pair is active. With no active row, the built-in prompts in topicCategories.ts
+// are used. Rolling back is activating an older version. A running experiment
+// (experiments.ts) overrides the active version with its two arms. Like the source
+// config, versions and experiments are loaded once and shared by every summary in a run.
+
+export interface PromptVersionRow {
+  id: string;
+  category_id: string;
+  tier: SummaryTier;
+  version: number;
+  system_prompt: string;
+  directive: string;
+  instructions: string;
+  notes: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  activated_at: string | null;
+}
+
+// Prompts ready to send for one topic and tier
+export interface ResolvedPrompts {
+  category: TopicCategory;
+  tier: SummaryTier;
+  prompts: CategoryPrompts;
+  // prompt_versions row the prompts came from; null for the built-in prompts
+  versionId: string | null;
+  // Experiment arm the prompts were picked for, if the category has one running
+  experiment: ExperimentAssignment | null;
+}
+
+// A long-lived instance still picks up admin edits between runs
+const PROMPTS_TTL_MS = 5 * 60 * 1000;
+
+// Everything prompt resolution reads, loaded together once per run
+interface PromptConfig {
+  active: Map<string, PromptVersionRow>; // By category and tier
+  versions: Map<string, PromptVersionRow>; // Active and experiment versions by id
+  experiments: Map<string, PromptExperimentRow>; // Running experiments by category and tier
+}
+
+let cachedConfig: { loadedAt: number; config: Promise<PromptConfig> } | null = null;
+
+function getVersionKey(categoryId: string, tier: SummaryTier): string {
+  return `${categoryId}:${tier}`;
+}
+
+export function getAllCategories(): TopicCategory[] {
+  return [...TOPIC_CATEGORIES, DEFAULT_CATEGORY];
+}
+
+export function findCategory(categoryId: string): TopicCategory | null {
+  return getAllCategories().find((category) => category.id === categoryId) ?? null;
+}
+
+async function fetchPromptConfig(): Promise<PromptConfig> {
+  const config: PromptConfig = { active: new Map(), versions: new Map(), experiments: new Map() };
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const { data, error } = (await supabase
+      .from('prompt_versions')
+      .select('*')
+      .eq('is_active', true)) as { data: PromptVersionRow[] | null; error: { message: string } | null };
+
+    if (error) {
+      console.error('[Prompts] Error loading prompt versions, using built-in prompts:', error);
+    } else {
+      for (const row of data || []) {
+        config.active.set(getVersionKey(row.category_id, row.tier), row);
+        config.versions.set(row.id, row);
+      }
+    }
+  } catch (error) {
+    console.error('[Prompts] Error loading prompt versions, using built-in prompts:', error);
+  }
+
+  try {
+    const { data, error } = (await supabase
+      .from('prompt_experiments')
+      .select('*')
+      .eq('status', 'running')) as { data: PromptExperimentRow[] | null; error: { message: string } | null };
+
+    if (error) {
+      console.error('[Prompts] Error loading experiments, running none:', error);
+    } else {
+      const experiments = data || [];
+      const missingIds = Array.from(
+        new Set(
+          experiments
+            .flatMap((experiment) => [experiment.control_version_id, experiment.variant_version_id])
+            .filter((id): id is string => !!id && !config.versions.has(id))
+        )
+      );
+
+      if (missingIds.length > 0) {
+        const { data: rows, error: rowsError } = (await supabase
+          .from('prompt_versions')
+          .select('*')
+          .in('id', missingIds)) as { data: PromptVersionRow[] | null; error: { message: string } | null };
+
+        if (rowsError) {
+          throw rowsError;
+        }
+        for (const row of rows || []) {
+          config.versions.set(row.id, row);
+        }
+      }
+
+      for (const experiment of experiments) {
+        config.experiments.set(getVersionKey(experiment.category_id, experiment.tier), experiment);
+      }
+    }
+  } catch (error) {
+    // Without both arms' prompts an experiment can't run; the active prompts are used instead
+    console.error('[Prompts] Error loading experiments, running none:', error);
+    config.experiments.clear();
+  }
+
+  console.log(`[Prompts] Loaded ${config.active.size} active prompt versions, ${config.experiments.size} running experiments`);
+  return config;
+}
+
+// Prompt configuration for the current run. Never throws.
+function loadPromptConfig(): Promise<PromptConfig> {
+  if (cachedConfig && Date.now() - cachedConfig.loadedAt < PROMPTS_TTL_MS) {
+    return cachedConfig.config;
+  }
+
+  const config = fetchPromptConfig();
+  cachedConfig = { loadedAt: Date.now(), config };
+  return config;
+}
+
+// Drop the cached versions and experiments so the next summary reads the tables again
+export function resetPromptVersions(): void {
+  cachedConfig = null;
+}
+
+export function toCategoryPrompts(row: Pick<PromptVersionRow, 'system_prompt' | 'directive' | 'instructions'>): CategoryPrompts {
+  return { system: row.system_prompt, directive: row.directive, instructions: row.instructions };
+}
+
+// Prompts for a topic and tier: the user's arm of a running experiment, otherwise
+// the category's active version or built-in prompts. Without a user (cache warming,
+// previews) a running experiment resolves to its control arm.
+export async function resolvePrompts(
+  topic: string,
+  isPaid: boolean,
+  userId?: string
+): Promise<ResolvedPrompts> {
+  const category = getTopicCategory(topic);
+  const tier: SummaryTier = isPaid ? 'paid' : 'free';
+  const config = await loadPromptConfig();
+  const key = getVersionKey(category.id, tier);
+
+  let version = config.active.get(key) ?? null;
+  let experiment: ExperimentAssignment | null = null;
+
+  const running = config.experiments.get(key);
+  if (running) {
+    const arm = userId ? assignArm(running, userId) : 'control';
+    const armVersionId = getArmVersionId(running, arm);
+    version = armVersionId ? config.versions.get(armVersionId) ?? null : null;
+    experiment = { id: running.id, arm };
+  }
+
+  return {
+    category,
+    tier,
+    prompts: getCategoryPrompts(category, tier, topic, version ? toCategoryPrompts(version) : undefined),
+    versionId: version?.id ?? null,
+    experiment,
+  };
+}
+
+// Edited prompt versions a digest's summaries were written with, for email_archive
+export function getPromptVersionIds(summaries: NewsSummary[]): string[] {
+  return Array.from(
+    new Set(summaries.flatMap((summary) => (summary.promptVersionId ? [summary.promptVersionId] : [])))
+  );
+}
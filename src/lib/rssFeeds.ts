@@ -0,0 +1,147 @@
+import { NewsArticle } from './openai';
+import { NewsProvider } from './newsProviders';
+import { getFeedsForTopic } from './newsSources';
+import { loadSourceConfig, getPreferredSources, isSourceBlocked } from './sourceConfig';
+import { parseFeed, ParsedFeed } from './utils/feedParser';
+import { cleanArticleContent, isGarbageDescription } from './utils/articleCleaning';
+
+// RSS/Atom provider: pulls the feeds of the topic's preferred publishers (sourceConfig.ts)
+// directly. No API key or quota, so it keeps digests going when NewsAPI and Currents
+// are rate-limited.
+
+const FEED_TIMEOUT_MS = 8000;
+// Feeds are shared between topics (e.g. general publisher feeds), so a fetched feed
+// is reused for a while instead of being downloaded once per topic
+const FEED_CACHE_TTL_MS = 15 * 60 * 1000;
+// Same freshness window the API providers widen to
+const MAX_ENTRY_AGE_MS = 48 * 60 * 60 * 1000;
+const MAX_ARTICLES = 30;
+
+const feedCache = new Map<string, { fetchedAt: number; feed: Promise<ParsedFeed> }>();
+
+async function fetchFeed(url: string): Promise<ParsedFeed> {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': 'SnipitNews/1.0 (+https://snipit.news)',
+      Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8',
+    },
+    signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Feed error: ${response.status} ${response.statusText} (${url})`);
+  }
+
+  const feed = parseFeed(await response.text());
+  if (!feed) {
+    throw new Error(`Not an RSS or Atom feed (${url})`);
+  }
+
+  return feed;
+}
+
+function getFeed(url: string): Promise<ParsedFeed> {
+  const cached = feedCache.get(url);
+  if (cached && Date.now() - cached.fetchedAt < FEED_CACHE_TTL_MS) {
+    return cached.feed;
+  }
+
+  const feed = fetchFeed(url);
+  // Don't keep failures around - the next topic can try again
+  feed.catch(() => feedCache.delete(url));
+  feedCache.set(url, { fetchedAt: Date.now(), feed });
+  return feed;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// General publisher feeds cover everything, so keep only entries about the topic:
+// the whole phrase, or every significant word of a multi-word topic
+function matchesTopic(text: string, topic: string): boolean {
+  const haystack = text.toLowerCase();
+  const normalizedTopic = topic.toLowerCase().replace(/\./g, '').trim();
+
+  if (new RegExp(`\\b${escapeRegExp(normalizedTopic)}\\b`).test(haystack)) {
+    return true;
+  }
+
+  const words = normalizedTopic.split(/\s+/).filter((word) => word.length > 2);
+  return words.length > 1 && words.every((word) => new RegExp(`\\b${escapeRegExp(word)}`).test(haystack));
+}
+
+export async function fetchNewsForTopicFromFeeds(topic: string): Promise<NewsArticle[]> {
+  const sourceConfig = await loadSourceConfig();
+  const feeds = getFeedsForTopic(topic, getPreferredSources(sourceConfig, topic));
+  if (feeds.length === 0) {
+    return [];
+  }
+
+  console.log(`[RSS] Fetching ${feeds.length} feeds for "${topic}"...`);
+
+  const results = await Promise.allSettled(feeds.map((feed) => getFeed(feed.url)));
+  const failures = results.filter((r) => r.status === 'rejected').length;
+
+  if (failures === feeds.length) {
+    const firstError = (results[0] as PromiseRejectedResult).reason;
+    throw new Error(`All ${feeds.length} feeds failed for "${topic}": ${firstError instanceof Error ? firstError.message : String(firstError)}`);
+  }
+
+  const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+  const seenUrls = new Set<string>();
+  const articles: NewsArticle[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.warn(`[RSS] Feed failed: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`);
+      return;
+    }
+
+    const { domain, topicSpecific } = feeds[index];
+    const sourceName = result.value.title || domain;
+
+    for (const entry of result.value.entries) {
+      if (!entry.title || !entry.link || seenUrls.has(entry.link)) continue;
+      if (!entry.publishedAt || new Date(entry.publishedAt).getTime() < cutoff) continue;
+
+      const cleanSummary = cleanArticleContent(entry.summary);
+      if (isGarbageDescription(cleanSummary) || cleanSummary.length <= 40) continue;
+
+      if (!topicSpecific && !matchesTopic(`${entry.title} ${cleanSummary}`, topic)) continue;
+
+      const article: NewsArticle = {
+        title: entry.title,
+        description: cleanSummary,
+        url: entry.link,
+        publishedAt: entry.publishedAt,
+        source: {
+          name: sourceName,
+        },
+      };
+      if (isSourceBlocked(sourceConfig, article, topic)) continue;
+
+      seenUrls.add(entry.link);
+      articles.push(article);
+    }
+  });
+
+  // Newest first, like the API providers
+  articles.sort((a, b) => new Date(b.publishedAt).getTime() - new Date(a.publishedAt).getTime());
+
+  console.log(`[RSS] Found ${articles.length} articles for "${topic}" (${failures}/${feeds.length} feeds failed)`);
+  return articles.slice(0, MAX_ARTICLES);
+}
+
+export const rssProvider: NewsProvider = {
+  id: 'rss',
+  name: 'Publisher RSS',
+  search: fetchNewsForTopicFromFeeds,
+  async getQuota() {
+    // Feeds have no request quota
+    return { used: 0, limit: null, remaining: null };
+  },
+  async healthCheck() {
+    return { healthy: true };
+  },
+};
@@ -0,0 +1,119 @@
+import { getSupabaseAdmin } from './supabase';
+import { NewsSummary } from './openai';
+import { getStoryFingerprint, storySimilarity, TITLE_SIMILARITY_THRESHOLD } from './storyClustering';
+
+// "Already seen" check against a user's recent digests (email_archive.content), so
+// slow-moving stories don't fill the digest several days running. A story counts as
+// seen if its URL or its title fingerprint was in a recent digest. Seen stories are
+// dropped unless the new coverage is a different article with materially new
+// content, in which case it is kept and labeled as an update.
+
+// How far back to look for stories the user already received
+const SEEN_LOOKBACK_DAYS = 3;
+// Share of the new summary's content words that must be absent from the earlier
+// summary for a follow-up article to count as a material update. Rewordings of the
+// same facts land around 0.3-0.5, genuinely new developments above 0.8.
+const MATERIAL_UPDATE_NOVELTY = 0.65;
+
+type SummaryItem = NewsSummary['summaries'][number];
+
+interface SeenStory {
+  url: string;
+  title: Set<string>;
+  text: Set<string>;
+}
+
+export interface SeenStories {
+  urls: Set<string>;
+  stories: SeenStory[];
+}
+
+function getItemText(item: SummaryItem): string {
+  return [item.summary, ...(item.bullets ?? [])].join(' ');
+}
+
+// Stories from the user's digests over the lookback window. Returns an empty set if
+// the archive can't be read - a repeat is better than a missing digest.
+export async function loadSeenStories(userId: string): Promise<SeenStories> {
+  const seen: SeenStories = { urls: new Set(), stories: [] };
+  const since = new Date(Date.now() - SEEN_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  try {
+    const { data, error } = (await getSupabaseAdmin()
+      .from('email_archive')
+      .select('content')
+      .eq('user_id', userId)
+      .gte('sent_at', since)) as {
+      data: Array<{ content: NewsSummary[] | null }> | null;
+      error: { message: string } | null;
+    };
+
+    if (error) {
+      console.error(`[Seen] Error loading archive for user ${userId}:`, error);
+      return seen;
+    }
+
+    for (const archive of data || []) {
+      if (!Array.isArray(archive.content)) continue;
+
+      for (const topicSummary of archive.content) {
+        for (const item of topicSummary?.summaries ?? []) {
+          if (!item?.url || !item.title) continue;
+          seen.urls.add(item.url);
+          seen.stories.push({
+            url: item.url,
+            title: getStoryFingerprint(item.title),
+            text: getStoryFingerprint(getItemText(item)),
+          });
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`[Seen] Error loading archive for user ${userId}:`, error);
+  }
+
+  return seen;
+}
+
+// Share of `next`'s words that `previous` doesn't contain
+function getNovelty(next: Set<string>, previous: Set<string>): number {
+  if (next.size === 0) return 0;
+  let novel = 0;
+  for (const word of next) {
+    if (!previous.has(word)) novel++;
+  }
+  return novel / next.size;
+}
+
+// Drop stories the user has already seen and label material updates. Returns a new
+// summary (shared summaries are reused across users and must not be modified).
+export function filterSeenStories(summary: NewsSummary, seen: SeenStories): NewsSummary {
+  if (seen.stories.length === 0) {
+    return summary;
+  }
+
+  const summaries: SummaryItem[] = [];
+
+  for (const item of summary.summaries) {
+    // Same article: nothing new to tell
+    if (seen.urls.has(item.url)) continue;
+
+    const title = getStoryFingerprint(item.title);
+    const previous = seen.stories.filter(
+      (story) => storySimilarity(title, story.title) >= TITLE_SIMILARITY_THRESHOLD
+    );
+
+    if (previous.length === 0) {
+      summaries.push(item);
+      continue;
+    }
+
+    // Compare with everything the user already read about this story
+    const previousText = new Set(previous.flatMap((story) => Array.from(story.text)));
+    if (getNovelty(getStoryFingerprint(getItemText(item)), previousText) >= MATERIAL_UPDATE_NOVELTY) {
+      summaries.push({ ...item, isUpdate: true });
+    }
+  }
+
+  return { ...summary, summaries };
+}
@@ -0,0 +1,229 @@
+import { getSupabaseAdmin } from './supabase';
+
+// Send ledger: one row per (user, local date, digest kind), claimed right before
+// the email goes out. Every sender (cron, retries, admin force-send) goes through
+// claimDigestSend, so a digest can only ever be sent once.
+
+export type LedgerSource = 'cron' | 'force' | 'retry';
+export type LedgerStatus = 'claimed' | 'sent' | 'failed';
+
+export const DAILY_DIGEST_KIND = 'daily';
+
+export interface LedgerClaim {
+  id: string;
+  userId: string;
+  localDate: string;
+  digestKind: string;
+}
+
+export interface LedgerEntry {
+  id: string;
+  user_id: string;
+  local_date: string;
+  digest_kind: string;
+  status: LedgerStatus;
+  source: LedgerSource;
+  topics: string[];
+  attempt_count: number;
+  message_id: string | null;
+  error: string | null;
+  claimed_at: string;
+  sent_at: string | null;
+}
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+// A claim still unresolved after this long belongs to a run that died (e.g. killed
+// at maxDuration, 300s) or couldn't record its send. The email may already have gone
+// out, so it is never taken over; the admin send ledger flags it for review instead.
+const STALE_CLAIM_MINUTES = 15;
+// Recording a send is retried, since a claim left 'claimed' needs a manual look
+const MARK_SENT_ATTEMPTS = 3;
+const MARK_SENT_RETRY_DELAY_MS = 1000;
+// PostgREST returns at most 1000 rows per request; keep the user filter well inside
+// URL length limits
+const LEDGER_PAGE_SIZE = 1000;
+const LEDGER_USER_BATCH_SIZE = 200;
+
+// A claim that has been outstanding too long to still be in progress
+export function isStaleClaim(entry: Pick<LedgerEntry, 'status' | 'claimed_at'>, now: number = Date.now()): boolean {
+  return entry.status === 'claimed' && now - new Date(entry.claimed_at).getTime() > STALE_CLAIM_MINUTES * 60 * 1000;
+}
+
+// Claim the right to send a digest. Returns null if another run already claimed or
+// sent it. A previously failed claim is taken over so the send can be retried.
+// Throws if the ledger itself can't be reached - callers must not send unclaimed.
+export async function claimDigestSend(
+  userId: string,
+  localDate: string,
+  source: LedgerSource,
+  topics: string[] = [],
+  digestKind: string = DAILY_DIGEST_KIND
+): Promise<LedgerClaim | null> {
+  const supabase = getSupabaseAdmin();
+
+  const { data, error } = await supabase
+    .from('digest_send_ledger')
+    .insert({
+      user_id: userId,
+      local_date: localDate,
+      digest_kind: digestKind,
+      status: 'claimed',
+      source,
+      topics,
+    } as never)
+    .select('id')
+    .single<{ id: string }>();
+
+  if (data) {
+    return { id: data.id, userId, localDate, digestKind };
+  }
+
+  if (error?.code !== UNIQUE_VIOLATION) {
+    throw new Error(`Failed to claim ${digestKind} digest for user ${userId}: ${error?.message ?? 'unknown error'}`);
+  }
+
+  // Already in the ledger - only a failed attempt may be taken over. Every take-over
+  // bumps attempt_count, so filtering on the values just read makes this a
+  // compare-and-set and two runs can't both win the retry.
+  const { data: existing } = await supabase
+    .from('digest_send_ledger')
+    .select('id, attempt_count')
+    .eq('user_id', userId)
+    .eq('local_date', localDate)
+    .eq('digest_kind', digestKind)
+    .eq('status', 'failed')
+    .maybeSingle<{ id: string; attempt_count: number }>();
+
+  if (!existing) {
+    return null;
+  }
+
+  const { data: reclaimed, error: reclaimError } = await supabase
+    .from('digest_send_ledger')
+    .update({
+      status: 'claimed',
+      source,
+      topics,
+      attempt_count: existing.attempt_count + 1,
+      claimed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    } as never)
+    .eq('id', existing.id)
+    .eq('status', 'failed')
+    .eq('attempt_count', existing.attempt_count)
+    .select('id')
+    .maybeSingle<{ id: string }>();
+
+  if (reclaimError) {
+    throw new Error(`Failed to re-claim ${digestKind} digest for user ${userId}: ${reclaimError.message}`);
+  }
+
+  return reclaimed ? { id: reclaimed.id, userId, localDate, digestKind } : null;
+}
+
+// Record a send the email provider accepted. Retried a few times; if it still can't
+// be recorded the claim stays 'claimed', which blocks a second send, and shows up as
+// stale in the admin send ledger.
+export async function markDigestSent(claim: LedgerClaim, messageId?: string | null): Promise<void> {
+  for (let attempt = 1; attempt <= MARK_SENT_ATTEMPTS; attempt++) {
+    try {
+      const now = new Date().toISOString();
+      const { error } = await getSupabaseAdmin()
+        .from('digest_send_ledger')
+        .update({
+          status: 'sent',
+          message_id: messageId ?? null,
+          error: null,
+          sent_at: now,
+          updated_at: now,
+        } as never)
+        .eq('id', claim.id);
+
+      if (error) {
+        throw new Error(error.message);
+      }
+      return;
+    } catch (error) {
+      if (attempt === MARK_SENT_ATTEMPTS) {
+        console.error(
+          `[Ledger] Failed to mark digest ${claim.id} as sent (message ${messageId ?? 'unknown'}), left claimed for review:`,
+          error
+        );
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, MARK_SENT_RETRY_DELAY_MS * attempt));
+    }
+  }
+}
+
+// Release a claim after a send the email provider did not accept, so a later run
+// can retry it. Never call this once the provider may have accepted the email.
+export async function markDigestFailed(claim: LedgerClaim, errorMessage: string): Promise<void> {
+  try {
+    const { error } = await getSupabaseAdmin()
+      .from('digest_send_ledger')
+      .update({
+        status: 'failed',
+        error: errorMessage.slice(0, 1000),
+        updated_at: new Date().toISOString(),
+      } as never)
+      .eq('id', claim.id);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    // The claim stays 'claimed', blocking a retry until it is reviewed
+    console.error(`[Ledger] Failed to mark digest ${claim.id} as failed:`, error);
+  }
+}
+
+// Users that already have a ledger entry in one of the given statuses for the given
+// local dates, as "userId|localDate" keys. Used to skip work up front;
+// claimDigestSend is still the authoritative check at send time.
+export async function getLedgeredSends(
+  userIds: string[],
+  localDates: string[],
+  digestKind: string = DAILY_DIGEST_KIND,
+  statuses: LedgerStatus[] = ['claimed', 'sent']
+): Promise<Set<string>> {
+  const ledgered = new Set<string>();
+  if (userIds.length === 0 || localDates.length === 0) return ledgered;
+
+  try {
+    for (let i = 0; i < userIds.length; i += LEDGER_USER_BATCH_SIZE) {
+      const batch = userIds.slice(i, i + LEDGER_USER_BATCH_SIZE);
+
+      for (let offset = 0; ; offset += LEDGER_PAGE_SIZE) {
+        const { data, error } = await getSupabaseAdmin()
+          .from('digest_send_ledger')
+          .select('user_id, local_date')
+          .in('user_id', batch)
+          .in('local_date', localDates)
+          .eq('digest_kind', digestKind)
+          .in('status', statuses)
+          .order('id')
+          .range(offset, offset + LEDGER_PAGE_SIZE - 1) as {
+            data: Array<{ user_id: string; local_date: string }> | null;
+            error: { message: string } | null;
+          };
+
+        if (error) {
+          console.error('[Ledger] Error loading ledger entries:', error);
+          return ledgered;
+        }
+
+        for (const row of data || []) {
+          ledgered.add(`${row.user_id}|${row.local_date}`);
+        }
+
+        if (!data || data.length < LEDGER_PAGE_SIZE) break;
+      }
+    }
+  } catch (error) {
+    console.error('[Ledger] Error loading ledger entries:', error);
+  }
+
+  return ledgered;
+}
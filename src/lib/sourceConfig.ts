@@ -0,0 +1,199 @@
+import { getSupabaseAdmin } from './supabase';
+import { NewsArticle } from './openai';
+import { TOPIC_SOURCES, DEFAULT_SOURCES, findTopicKey } from './newsSources';
+
+// Source configuration managed from the admin portal: a quality tier per domain
+// (source_domains) and preferred/blocked domains per topic (topic_sources). Loaded
+// once per run and shared by every topic scored in it. A table that is empty or
+// can't be read falls back to the built-in defaults below, which also seed it.
+
+export type SourceTier = 1 | 2 | 3;
+
+export interface SourceDomainRow {
+  domain: string;
+  tier: SourceTier | null; // NULL = unranked (default quality)
+  blocked: boolean; // Blocked for every topic
+  notes: string | null;
+  updated_at?: string;
+}
+
+export interface TopicSourceRow {
+  id?: string;
+  topic_key: string; // Matched against topic names, like the TOPIC_SOURCES keys
+  domain: string;
+  preferred: boolean;
+  blocked: boolean;
+  updated_at?: string;
+}
+
+export interface SourceConfig {
+  tiers: Array<{ domain: string; tier: SourceTier }>; // Best tier first
+  blockedDomains: string[];
+  topics: Map<string, { preferred: string[]; blocked: string[] }>;
+}
+
+// Built-in tiers (based on reputation and reliability)
+export const DEFAULT_SOURCE_TIERS: Record<SourceTier, string[]> = {
+  // Top-tier sources (highly reputable)
+  1: [
+    'reuters.com',
+    'apnews.com',
+    'bbc.com',
+    'npr.org',
+    'theguardian.com',
+    'wsj.com',
+    'nytimes.com',
+    'washingtonpost.com',
+    'economist.com',
+    'bloomberg.com',
+    'ft.com', // Financial Times
+  ],
+  // Reputable sources (good quality)
+  2: [
+    'cnn.com',
+    'axios.com',
+    'politico.com',
+    'theatlantic.com',
+    'forbes.com',
+    'cnbc.com',
+    'techcrunch.com',
+    'theverge.com',
+    'arstechnica.com',
+    'wired.com',
+    'espn.com',
+    'cbssports.com',
+    'si.com', // Sports Illustrated
+    'nature.com',
+    'sciencedaily.com',
+  ],
+  // Decent sources (acceptable quality)
+  3: [
+    'usatoday.com',
+    'latimes.com',
+    'chicagotribune.com',
+    'huffpost.com',
+    'businessinsider.com',
+    'marketwatch.com',
+    'engadget.com',
+    'mashable.com',
+    'bleacherreport.com',
+  ],
+};
+
+// A long-lived instance still picks up admin edits between runs
+const CONFIG_TTL_MS = 5 * 60 * 1000;
+
+let cachedConfig: { loadedAt: number; config: Promise<SourceConfig> } | null = null;
+
+function getDefaultTiers(): SourceConfig['tiers'] {
+  return ([1, 2, 3] as SourceTier[]).flatMap((tier) =>
+    DEFAULT_SOURCE_TIERS[tier].map((domain) => ({ domain, tier }))
+  );
+}
+
+function getDefaultTopics(): SourceConfig['topics'] {
+  return new Map(
+    Object.entries(TOPIC_SOURCES).map(([key, domains]) => [key, { preferred: [...domains], blocked: [] }])
+  );
+}
+
+export function getDefaultSourceConfig(): SourceConfig {
+  return { tiers: getDefaultTiers(), blockedDomains: [], topics: getDefaultTopics() };
+}
+
+async function fetchSourceConfig(): Promise<SourceConfig> {
+  const config = getDefaultSourceConfig();
+  const supabase = getSupabaseAdmin();
+
+  try {
+    const { data, error } = (await supabase
+      .from('source_domains')
+      .select('domain, tier, blocked')) as {
+      data: Array<Pick<SourceDomainRow, 'domain' | 'tier' | 'blocked'>> | null;
+      error: { message: string } | null;
+    };
+
+    if (error) {
+      console.error('[Sources] Error loading source tiers, using defaults:', error);
+    } else if (data && data.length > 0) {
+      config.tiers = data
+        .filter((row) => row.tier !== null && !row.blocked)
+        .map((row) => ({ domain: row.domain, tier: row.tier as SourceTier }))
+        .sort((a, b) => a.tier - b.tier);
+      config.blockedDomains = data.filter((row) => row.blocked).map((row) => row.domain);
+    }
+  } catch (error) {
+    console.error('[Sources] Error loading source tiers, using defaults:', error);
+  }
+
+  try {
+    const { data, error } = (await supabase
+      .from('topic_sources')
+      .select('topic_key, domain, preferred, blocked')) as {
+      data: Array<Pick<TopicSourceRow, 'topic_key' | 'domain' | 'preferred' | 'blocked'>> | null;
+      error: { message: string } | null;
+    };
+
+    if (error) {
+      console.error('[Sources] Error loading topic sources, using defaults:', error);
+    } else if (data && data.length > 0) {
+      config.topics = new Map();
+      for (const row of data) {
+        const key = row.topic_key.toLowerCase();
+        const entry = config.topics.get(key) ?? { preferred: [], blocked: [] };
+        if (row.blocked) {
+          entry.blocked.push(row.domain);
+        } else if (row.preferred) {
+          entry.preferred.push(row.domain);
+        }
+        config.topics.set(key, entry);
+      }
+    }
+  } catch (error) {
+    console.error('[Sources] Error loading topic sources, using defaults:', error);
+  }
+
+  console.log(`[Sources] Loaded ${config.tiers.length} tiered domains, ${config.blockedDomains.length} blocked, ${config.topics.size} topic source lists`);
+  return config;
+}
+
+// Source configuration for the current run. Never throws.
+export function loadSourceConfig(): Promise<SourceConfig> {
+  if (cachedConfig && Date.now() - cachedConfig.loadedAt < CONFIG_TTL_MS) {
+    return cachedConfig.config;
+  }
+
+  const config = fetchSourceConfig();
+  cachedConfig = { loadedAt: Date.now(), config };
+  return config;
+}
+
+// Drop the cached configuration so the next run reads the tables again
+export function resetSourceConfig(): void {
+  cachedConfig = null;
+}
+
+// Same matching as the hard-coded sources: the domain appears in the URL or source name
+export function matchesSourceDomain(article: NewsArticle, domain: string): boolean {
+  return article.url.toLowerCase().includes(domain) || article.source.name.toLowerCase().includes(domain);
+}
+
+// Topic entry for the topic name, matched the same way as TOPIC_SOURCES, if any
+function findTopicSources(config: SourceConfig, topic: string) {
+  const key = findTopicKey(topic, config.topics.keys());
+  return key ? config.topics.get(key) ?? null : null;
+}
+
+export function getSourceTier(config: SourceConfig, article: NewsArticle): SourceTier | null {
+  return config.tiers.find((entry) => matchesSourceDomain(article, entry.domain))?.tier ?? null;
+}
+
+export function getPreferredSources(config: SourceConfig, topic: string): string[] {
+  return findTopicSources(config, topic)?.preferred ?? DEFAULT_SOURCES;
+}
+
+// Blocked everywhere, or for this topic
+export function isSourceBlocked(config: SourceConfig, article: NewsArticle, topic: string): boolean {
+  const blocked = [...config.blockedDomains, ...(findTopicSources(config, topic)?.blocked ?? [])];
+  return blocked.some((domain) => matchesSourceDomain(article, domain));
+}
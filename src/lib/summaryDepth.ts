@@ -0,0 +1,72 @@
+import type { SummaryFormat, SummaryTier, TopicCategory } from './topicCategories';
+
+// Per-user summary depth (user_email_settings.summary_depth). The tier still decides
+// the format and the most stories a digest topic can have; depth picks how many of
+// those the reader gets and how long each one is. "brief" is the tier's own
+// behavior, so brief summaries are the ones shared with every other brief reader.
+
+export type SummaryDepth = 'headline' | 'brief' | 'deep';
+
+export const DEFAULT_SUMMARY_DEPTH: SummaryDepth = 'brief';
+
+export const SUMMARY_DEPTH_OPTIONS: Array<{ value: SummaryDepth; label: string; description: string }> = [
+  { value: 'headline', label: 'Headlines only', description: 'Every story, one line each' },
+  { value: 'brief', label: 'Brief', description: 'The key points of each story' },
+  { value: 'deep', label: 'Deep dive', description: 'Fewer stories, with background and what comes next' },
+];
+
+export function isSummaryDepth(depth: unknown): depth is SummaryDepth {
+  return SUMMARY_DEPTH_OPTIONS.some((option) => option.value === depth);
+}
+
+// Fall back to the default for missing or unrecognized values
+export function resolveSummaryDepth(depth: string | null | undefined): SummaryDepth {
+  return isSummaryDepth(depth) ? depth : DEFAULT_SUMMARY_DEPTH;
+}
+
+export interface DepthSettings {
+  // Replaces the category's counts for the tier
+  counts: { preferred: number; max: number };
+  // Most bullets kept per story, or null to leave it to the prompt
+  maxBullets: number | null;
+  // Added to the summarization prompt after the category instructions
+  instructions: string;
+}
+
+function describeLength(format: SummaryFormat, bullets: string, sentences: string): string {
+  return format === 'bullets' ? `${bullets} per story` : `${sentences} per summary`;
+}
+
+// Headlines: as many stories as the tier allows, one short line each. Deep dive:
+// one story fewer than the tier prefers, each with more room.
+export function getDepthSettings(category: TopicCategory, tier: SummaryTier, depth: SummaryDepth): DepthSettings {
+  const counts = category.counts[tier];
+  const format = category.format[tier];
+
+  if (depth === 'headline') {
+    return {
+      counts: { preferred: counts.max, max: counts.max },
+      maxBullets: 1,
+      instructions: `READER DEPTH - HEADLINES ONLY (overrides the story count and length above):
+- Pick up to ${counts.max} distinct stories
+- Exactly ${describeLength(format, 'ONE bullet of at most 20 words', 'ONE sentence of at most 25 words')}: what happened, nothing else
+- No background, analysis or "why it matters"`,
+    };
+  }
+
+  if (depth === 'deep') {
+    const count = Math.max(1, counts.preferred - 1);
+    return {
+      counts: { preferred: count, max: count },
+      maxBullets: tier === 'paid' ? 5 : 3,
+      instructions: `READER DEPTH - DEEP DIVE (overrides the story count and length above):
+- Pick ${count === 1 ? 'the single most important story' : `the ${count} most important stories`}
+- ${tier === 'paid'
+        ? describeLength(format, '4-5 bullets', '5-7 sentences')
+        : describeLength(format, '2-3 bullets', '3-4 sentences')}: what happened, the background, who it affects and what happens next
+- Depth must come from the articles - never pad with general knowledge`,
+    };
+  }
+
+  return { counts, maxBullets: null, instructions: '' };
+}
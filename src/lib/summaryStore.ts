@@ -0,0 +1,192 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { getSupabaseAdmin } from './supabase';
+import { summarizeNews, NewsArticle, NewsSummary, SUMMARY_PROMPT_VERSION } from './openai';
+import { getLlmClient } from './llm';
+import { resolvePrompts } from './promptVersions';
+import { DEFAULT_SUMMARY_DEPTH, SummaryDepth } from './summaryDepth';
+
+// Shared summary store: one summary per (topic, tier, article set, prompt version),
+// reused for every recipient instead of one OpenAI call per user per topic. The
+// prompt version covers SUMMARY_PROMPT_VERSION, the admin-edited prompt version in
+// use and the reader's summary depth, so activating or rolling back a prompt
+// regenerates summaries and each depth gets its own.
+
+export interface SummaryRunStats {
+  memoryHits: number;
+  storeHits: number;
+  generated: number;
+}
+
+// A cron run's summaries, from startSummaryRun. Concurrent recipients of the same
+// topic/tier/prompts await the same promise, so each key hits OpenAI at most once per run.
+export interface SummaryRun {
+  summaries: Map<string, Promise<NewsSummary>>;
+  stats: SummaryRunStats;
+}
+
+// Held in the async context of the run's request, so overlapping runs don't clear
+// each other's in-flight summaries
+const summaryRuns = new AsyncLocalStorage<SummaryRun>();
+
+// Hash only the fields that reach the prompt, so re-scored copies of the same
+// cached articles map to the same key
+export function hashArticleSet(articles: NewsArticle[]): string {
+  const fingerprint = articles.map((a) => [
+    a.url,
+    a.title,
+    a.description,
+    a.content ?? null,
+    (a.siblings ?? []).map((sibling) => [sibling.url, sibling.title, sibling.description, sibling.source]),
+  ]);
+  return createHash('sha256').update(JSON.stringify(fingerprint)).digest('hex');
+}
+
+function getSummaryKey(topic: string, isPaid: boolean, articleHash: string, promptVersion: string): string {
+  return `${topic}||${isPaid ? 'paid' : 'free'}||${articleHash}||${promptVersion}`;
+}
+
+// summary_cache.prompt_version: "v4", or "v4:<prompt_versions id>" for an edited
+// prompt, with "@<depth>" appended for depths other than the default
+function getStoredPromptVersion(promptVersionId: string | null, depth: SummaryDepth): string {
+  const version = promptVersionId ? `${SUMMARY_PROMPT_VERSION}:${promptVersionId}` : SUMMARY_PROMPT_VERSION;
+  return depth === DEFAULT_SUMMARY_DEPTH ? version : `${version}@${depth}`;
+}
+
+// Look up a previously generated summary for this exact article set and prompt version
+async function readStoredSummary(
+  topic: string,
+  isPaid: boolean,
+  articleHash: string,
+  promptVersion: string
+): Promise<NewsSummary | null> {
+  try {
+    const supabase = getSupabaseAdmin();
+
+    const { data, error } = await supabase
+      .from('summary_cache')
+      .select('summaries')
+      .eq('topic', topic)
+      .eq('is_paid', isPaid)
+      .eq('article_hash', articleHash)
+      .eq('prompt_version', promptVersion)
+      .gt('expires_at', new Date().toISOString())
+      .limit(1)
+      .single();
+
+    if (error || !data) {
+      return null;
+    }
+
+    return (data as { summaries: NewsSummary }).summaries;
+  } catch (error) {
+    console.error(`[Summary Store] Error reading summary for "${topic}":`, error);
+    return null;
+  }
+}
+
+async function storeSummary(
+  topic: string,
+  isPaid: boolean,
+  articleHash: string,
+  promptVersion: string,
+  summary: NewsSummary
+): Promise<void> {
+  try {
+    const supabase = getSupabaseAdmin();
+    const today = new Date().toISOString().split('T')[0];
+
+    const { error } = await supabase
+      .from('summary_cache')
+      .upsert({
+        topic,
+        date: today,
+        is_paid: isPaid,
+        article_hash: articleHash,
+        prompt_version: promptVersion,
+        summaries: summary as unknown,
+        expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours
+      } as never, {
+        onConflict: 'topic,is_paid,article_hash,prompt_version'
+      });
+
+    if (error) {
+      console.error(`[Summary Store] Error storing summary for "${topic}":`, error);
+      return;
+    }
+
+    console.log(`[Summary Store] Stored ${isPaid ? 'paid' : 'free'} summary for "${topic}"`);
+  } catch (error) {
+    console.error(`[Summary Store] Error storing summary for "${topic}":`, error);
+    // Don't throw - the summary is still usable for this run
+  }
+}
+
+// Get the summary for a topic/tier/article set, generating it at most once per run.
+// With a user, a running prompt experiment picks the prompts for the user's arm.
+export async function getSharedSummary(
+  topic: string,
+  articles: NewsArticle[],
+  isPaid: boolean,
+  userId?: string,
+  depth: SummaryDepth = DEFAULT_SUMMARY_DEPTH
+): Promise<NewsSummary> {
+  const prompts = await resolvePrompts(topic, isPaid, userId);
+  const promptVersion = getStoredPromptVersion(prompts.versionId, depth);
+  const articleHash = hashArticleSet(articles);
+  const key = getSummaryKey(topic, isPaid, articleHash, promptVersion);
+
+  // Outside a run nothing is shared between calls
+  const run = summaryRuns.getStore() ?? startDetachedRun();
+  const existing = run.summaries.get(key);
+  if (existing) {
+    run.stats.memoryHits++;
+    return existing;
+  }
+
+  const pending = (async () => {
+    // A stored summary may predate (or outlive) an experiment on these prompts, so
+    // the arm always comes from the current resolution
+    const stored = await readStoredSummary(topic, isPaid, articleHash, promptVersion);
+    if (stored) {
+      run.stats.storeHits++;
+      console.log(`[Summary Store] Reusing stored ${isPaid ? 'paid' : 'free'} summary for "${topic}"`);
+      return { ...stored, experiment: prompts.experiment };
+    }
+
+    run.stats.generated++;
+    const summary = await summarizeNews(topic, articles, isPaid, { prompts, depth });
+
+    // Fallback summaries are a degraded result - keep them for this run only so a
+    // later run can try OpenAI again. Mock summaries are never stored.
+    if (!summary.fallback && summary.summaries.length > 0 && getLlmClient('summarization').id !== 'mock') {
+      await storeSummary(topic, isPaid, articleHash, promptVersion, summary);
+    }
+
+    return { ...summary, experiment: prompts.experiment };
+  })();
+
+  // Let a later caller retry if generation failed outright
+  pending.catch(() => run.summaries.delete(key));
+
+  run.summaries.set(key, pending);
+  return pending;
+}
+
+function startDetachedRun(): SummaryRun {
+  return { summaries: new Map(), stats: { memoryHits: 0, storeHits: 0, generated: 0 } };
+}
+
+// Start sharing summaries for a cron run (call at the start of the route handler).
+// Summaries requested from the rest of the handler's async flow are shared through
+// the returned run, which is dropped with the request so warm serverless instances
+// don't accumulate summaries across days.
+export function startSummaryRun(): SummaryRun {
+  const run = startDetachedRun();
+  summaryRuns.enterWith(run);
+  return run;
+}
+
+export function getSummaryRunStats(run: SummaryRun): SummaryRunStats {
+  return { ...run.stats };
+}
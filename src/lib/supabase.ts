@@ -141,6 +141,11 @@ export type Database = {
           delivery_time: string;
           timezone: string;
           paused: boolean;
+          breaking_alerts: boolean;
+          alert_quiet_start: string;
+          alert_quiet_end: string;
+          alert_daily_cap: number;
+          summary_depth: 'headline' | 'brief' | 'deep';
           created_at: string;
           updated_at: string;
         };
@@ -150,6 +155,11 @@ export type Database = {
           delivery_time?: string;
           timezone?: string;
           paused?: boolean;
+          breaking_alerts?: boolean;
+          alert_quiet_start?: string;
+          alert_quiet_end?: string;
+          alert_daily_cap?: number;
+          summary_depth?: 'headline' | 'brief' | 'deep';
           created_at?: string;
           updated_at?: string;
         };
@@ -159,6 +169,11 @@ export type Database = {
           delivery_time?: string;
           timezone?: string;
           paused?: boolean;
+          breaking_alerts?: boolean;
+          alert_quiet_start?: string;
+          alert_quiet_end?: string;
+          alert_daily_cap?: number;
+          summary_depth?: 'headline' | 'brief' | 'deep';
           created_at?: string;
           updated_at?: string;
         };
@@ -171,6 +186,7 @@ export type Database = {
           subject: string;
           content: unknown;
           topics: string[];
+          prompt_version_ids: string[];
           created_at: string;
         };
         Insert: {
@@ -180,6 +196,7 @@ export type Database = {
           subject: string;
           content: unknown;
           topics: string[];
+          prompt_version_ids?: string[];
           created_at?: string;
         };
         Update: {
@@ -189,6 +206,7 @@ export type Database = {
           subject?: string;
           content?: unknown;
           topics?: string[];
+          prompt_version_ids?: string[];
           created_at?: string;
         };
       };
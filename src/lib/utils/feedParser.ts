@@ -0,0 +1,148 @@
+/**
+ * Minimal RSS 2.0 / Atom parser for publisher feeds
+ * Regex-based on purpose: feeds are small, we only need a handful of fields, and it
+ * keeps the serverless bundle free of an XML dependency
+ */
+
+export interface FeedEntry {
+  title: string;
+  link: string;
+  summary: string;
+  publishedAt: string | null; // ISO 8601, null if missing or unparseable
+}
+
+export interface ParsedFeed {
+  title: string;
+  entries: FeedEntry[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+/**
+ * Decodes XML/HTML character references (named, decimal and hex)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+        ? String.fromCodePoint(codePoint)
+        : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Strips CDATA wrappers, HTML tags and entities from a feed field, leaving plain text
+ */
+export function toPlainText(raw: string): string {
+  const unwrapped = raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+  // Entity-encoded HTML (common in RSS descriptions) has to be decoded before tags can be stripped
+  const decoded = /&lt;[a-z/!]/i.test(unwrapped) ? decodeEntities(unwrapped) : unwrapped;
+
+  return decodeEntities(
+    decoded
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Inner text of the first <tag>…</tag> (namespaced tags like dc:date allowed), or ''
+function getTagText(xml: string, tag: string): string {
+  const escaped = tag.replace(':', '\\:');
+  const match = xml.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`, 'i'));
+  return match ? match[1] : '';
+}
+
+function getBlocks(xml: string, tag: string): string[] {
+  return xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`, 'gi')) ?? [];
+}
+
+function toIsoDate(raw: string): string | null {
+  const text = toPlainText(raw);
+  if (!text) return null;
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Atom entries can carry several <link> elements; prefer rel="alternate" (or no rel)
+function getAtomLink(entryXml: string): string {
+  const links = entryXml.match(/<link\b[^>]*>/gi) ?? [];
+  let fallback = '';
+
+  for (const link of links) {
+    const href = link.match(/\bhref\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (!href) continue;
+    const rel = link.match(/\brel\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (!rel || rel === 'alternate') return decodeEntities(href);
+    fallback = fallback || decodeEntities(href);
+  }
+
+  return fallback;
+}
+
+function parseRssItem(itemXml: string): FeedEntry {
+  const guid = getTagText(itemXml, 'guid');
+  const link = toPlainText(getTagText(itemXml, 'link')) || (/^https?:\/\//.test(toPlainText(guid)) ? toPlainText(guid) : '');
+
+  return {
+    title: toPlainText(getTagText(itemXml, 'title')),
+    link,
+    summary: toPlainText(getTagText(itemXml, 'description') || getTagText(itemXml, 'content:encoded')),
+    publishedAt: toIsoDate(getTagText(itemXml, 'pubDate') || getTagText(itemXml, 'dc:date')),
+  };
+}
+
+function parseAtomEntry(entryXml: string): FeedEntry {
+  return {
+    title: toPlainText(getTagText(entryXml, 'title')),
+    link: getAtomLink(entryXml),
+    summary: toPlainText(getTagText(entryXml, 'summary') || getTagText(entryXml, 'content')),
+    publishedAt: toIsoDate(getTagText(entryXml, 'published') || getTagText(entryXml, 'updated')),
+  };
+}
+
+/**
+ * Parses an RSS 2.0 or Atom document
+ * Returns null if the document is neither (e.g. an HTML error page)
+ */
+export function parseFeed(xml: string): ParsedFeed | null {
+  if (/<rss[\s>]|<rdf:RDF[\s>]/i.test(xml)) {
+    const channel = getTagText(xml, 'channel');
+    // RSS 1.0 (RDF) puts items next to the channel rather than inside it
+    const items = getBlocks(channel.includes('<item') ? channel : xml, 'item');
+    return {
+      title: toPlainText(getTagText(channel.replace(/<item[\s>][\s\S]*$/i, ''), 'title')),
+      entries: items.map(parseRssItem),
+    };
+  }
+
+  if (/<feed[\s>]/i.test(xml)) {
+    const header = xml.replace(/<entry[\s>][\s\S]*$/i, '');
+    return {
+      title: toPlainText(getTagText(header, 'title')),
+      entries: getBlocks(xml, 'entry').map(parseAtomEntry),
+    };
+  }
+
+  return null;
+}